@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "campaign_variants" (
+    "id" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "splitPercent" INTEGER NOT NULL,
+    "headerMediaUrl" TEXT,
+    "isWinner" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "campaign_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "campaign_leads" ADD COLUMN "variantId" TEXT,
+ADD COLUMN "winnerPhase" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_variants_campaignId_label_key" ON "campaign_variants"("campaignId", "label");
+
+-- AddForeignKey
+ALTER TABLE "campaign_variants" ADD CONSTRAINT "campaign_variants_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_variants" ADD CONSTRAINT "campaign_variants_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "message_templates"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_leads" ADD CONSTRAINT "campaign_leads_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "campaign_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
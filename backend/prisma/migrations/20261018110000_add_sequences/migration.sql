@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "SequenceStatus" AS ENUM ('DRAFT', 'ACTIVE', 'PAUSED');
+
+-- CreateEnum
+CREATE TYPE "SequenceStepCondition" AS ENUM ('ALWAYS', 'DELIVERED', 'READ', 'NOT_READ');
+
+-- CreateEnum
+CREATE TYPE "EnrollmentStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'EXITED');
+
+-- CreateTable
+CREATE TABLE "sequences" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "status" "SequenceStatus" NOT NULL DEFAULT 'DRAFT',
+    "targetFilters" JSONB,
+    "sendWindow" JSONB,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sequence_steps" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "headerMediaUrl" TEXT,
+    "delayHours" INTEGER NOT NULL DEFAULT 0,
+    "condition" "SequenceStepCondition" NOT NULL DEFAULT 'ALWAYS',
+
+    CONSTRAINT "sequence_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sequence_enrollments" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "status" "EnrollmentStatus" NOT NULL DEFAULT 'ACTIVE',
+    "currentStep" INTEGER NOT NULL DEFAULT 0,
+    "nextRunAt" TIMESTAMP(3),
+    "lastMessageId" TEXT,
+    "exitReason" TEXT,
+    "enrolledAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sequence_enrollments_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "message_logs" ADD COLUMN "sequenceStepId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sequence_steps_sequenceId_order_key" ON "sequence_steps"("sequenceId", "order");
+
+-- CreateIndex
+CREATE INDEX "sequence_enrollments_status_nextRunAt_idx" ON "sequence_enrollments"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sequence_enrollments_sequenceId_leadId_key" ON "sequence_enrollments"("sequenceId", "leadId");
+
+-- AddForeignKey
+ALTER TABLE "sequences" ADD CONSTRAINT "sequences_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sequence_steps" ADD CONSTRAINT "sequence_steps_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sequence_steps" ADD CONSTRAINT "sequence_steps_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "message_templates"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sequence_enrollments" ADD CONSTRAINT "sequence_enrollments_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sequence_enrollments" ADD CONSTRAINT "sequence_enrollments_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "message_logs" ADD CONSTRAINT "message_logs_sequenceStepId_fkey" FOREIGN KEY ("sequenceStepId") REFERENCES "sequence_steps"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "LeadSource" ADD VALUE 'WHATSAPP_INBOUND';
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "ConsentAction" AS ENUM ('OPT_OUT', 'OPT_IN');
+
+-- CreateEnum
+CREATE TYPE "ConsentSource" AS ENUM ('WHATSAPP_KEYWORD', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "consent_keywords" (
+    "id" TEXT NOT NULL,
+    "keyword" TEXT NOT NULL,
+    "action" "ConsentAction" NOT NULL,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "replyText" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "consent_keywords_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "consent_events" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "action" "ConsentAction" NOT NULL,
+    "source" "ConsentSource" NOT NULL,
+    "keyword" TEXT,
+    "messageText" TEXT,
+    "messageLogId" TEXT,
+    "previousStatus" "LeadStatus",
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "consent_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "consent_keywords_keyword_language_key" ON "consent_keywords"("keyword", "language");
+
+-- CreateIndex
+CREATE INDEX "consent_events_leadId_createdAt_idx" ON "consent_events"("leadId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "consent_events" ADD CONSTRAINT "consent_events_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "consent_events" ADD CONSTRAINT "consent_events_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the keywords that used to be hard-coded, plus opt-in keywords
+INSERT INTO "consent_keywords" ("id", "keyword", "action", "language", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'stop', 'OPT_OUT', 'en', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'unsubscribe', 'OPT_OUT', 'en', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'opt out', 'OPT_OUT', 'en', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'रोकें', 'OPT_OUT', 'hi', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'बंद करो', 'OPT_OUT', 'hi', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'start', 'OPT_IN', 'en', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'subscribe', 'OPT_IN', 'en', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'शुरू करें', 'OPT_IN', 'hi', CURRENT_TIMESTAMP);
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "ChatbotSessionStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'HANDED_OFF', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "chatbot_flows" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "triggerKeywords" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "steps" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chatbot_flows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chatbot_sessions" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "flowId" TEXT NOT NULL,
+    "stepId" TEXT,
+    "status" "ChatbotSessionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+
+    CONSTRAINT "chatbot_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "chatbot_sessions_leadId_status_idx" ON "chatbot_sessions"("leadId", "status");
+
+-- CreateIndex
+CREATE INDEX "chatbot_sessions_flowId_idx" ON "chatbot_sessions"("flowId");
+
+-- AddForeignKey
+ALTER TABLE "chatbot_sessions" ADD CONSTRAINT "chatbot_sessions_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chatbot_sessions" ADD CONSTRAINT "chatbot_sessions_flowId_fkey" FOREIGN KEY ("flowId") REFERENCES "chatbot_flows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
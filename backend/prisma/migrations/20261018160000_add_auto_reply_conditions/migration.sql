@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "auto_replies" ADD COLUMN "schedule" JSONB,
+ADD COLUMN "leadConditions" JSONB,
+ADD COLUMN "cooldownMinutes" INTEGER NOT NULL DEFAULT 0;
+
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "AutoReplyHitStatus" AS ENUM ('SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "auto_reply_hits" (
+    "id" TEXT NOT NULL,
+    "autoReplyId" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "inboundMessageId" TEXT,
+    "replyMessageId" TEXT,
+    "status" "AutoReplyHitStatus" NOT NULL,
+    "errorMessage" TEXT,
+    "leadStatus" "LeadStatus" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auto_reply_hits_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "message_logs" ADD COLUMN "autoReplyId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "message_logs_autoReplyId_idx" ON "message_logs"("autoReplyId");
+
+-- CreateIndex
+CREATE INDEX "auto_reply_hits_autoReplyId_createdAt_idx" ON "auto_reply_hits"("autoReplyId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "auto_reply_hits_leadId_autoReplyId_idx" ON "auto_reply_hits"("leadId", "autoReplyId");
+
+-- AddForeignKey
+ALTER TABLE "message_logs" ADD CONSTRAINT "message_logs_autoReplyId_fkey" FOREIGN KEY ("autoReplyId") REFERENCES "auto_replies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auto_reply_hits" ADD CONSTRAINT "auto_reply_hits_autoReplyId_fkey" FOREIGN KEY ("autoReplyId") REFERENCES "auto_replies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auto_reply_hits" ADD CONSTRAINT "auto_reply_hits_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
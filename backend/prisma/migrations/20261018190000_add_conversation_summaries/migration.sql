@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "conversations" (
+    "id" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "lastMessageId" TEXT,
+    "lastMessageAt" TIMESTAMP(3) NOT NULL,
+    "lastInboundAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "conversations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "conversation_reads" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "lastReadAt" TIMESTAMP(3),
+    "markedUnread" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "conversation_reads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversations_leadId_key" ON "conversations"("leadId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversations_lastMessageId_key" ON "conversations"("lastMessageId");
+
+-- CreateIndex
+CREATE INDEX "conversations_lastMessageAt_idx" ON "conversations"("lastMessageAt");
+
+-- CreateIndex
+CREATE INDEX "conversations_lastInboundAt_idx" ON "conversations"("lastInboundAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_reads_conversationId_userId_key" ON "conversation_reads"("conversationId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_lastMessageId_fkey" FOREIGN KEY ("lastMessageId") REFERENCES "message_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_reads" ADD CONSTRAINT "conversation_reads_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversation_reads" ADD CONSTRAINT "conversation_reads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill summaries from existing history; everything starts out read
+INSERT INTO "conversations" ("id", "leadId", "lastMessageId", "lastMessageAt", "lastInboundAt", "updatedAt")
+SELECT
+    'conv_' || latest."leadId",
+    latest."leadId",
+    latest."id",
+    latest."createdAt",
+    (SELECT MAX(m."createdAt") FROM "message_logs" m WHERE m."leadId" = latest."leadId" AND m."direction" = 'INBOUND'),
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT DISTINCT ON ("leadId") "id", "leadId", "createdAt"
+    FROM "message_logs"
+    ORDER BY "leadId", "createdAt" DESC
+) latest;
+
+-- Existing history starts out read for every current user
+INSERT INTO "conversation_reads" ("id", "conversationId", "userId", "lastReadAt")
+SELECT c."id" || '_' || u."id", c."id", u."id", CURRENT_TIMESTAMP
+FROM "conversations" c CROSS JOIN "users" u;
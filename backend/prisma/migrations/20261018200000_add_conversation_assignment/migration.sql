@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "acceptsAutoAssign" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "lastAutoAssignedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN "assignedToId" TEXT,
+ADD COLUMN "assignedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "conversations_assignedToId_idx" ON "conversations"("assignedToId");
+
+-- AddForeignKey
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "LeadActivityType" ADD VALUE 'MERGED';
@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "CustomFieldType" AS ENUM ('TEXT', 'NUMBER', 'DATE', 'SELECT', 'MULTI_SELECT');
+
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "customFields" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "custom_fields" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "type" "CustomFieldType" NOT NULL,
+    "options" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_fields_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_fields_key_key" ON "custom_fields"("key");
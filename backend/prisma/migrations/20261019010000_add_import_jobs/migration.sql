@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "ImportDuplicateMode" AS ENUM ('SKIP', 'UPDATE', 'MERGE');
+
+-- CreateTable
+CREATE TABLE "import_jobs" (
+    "id" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "status" "JobStatus" NOT NULL DEFAULT 'PENDING',
+    "file" BYTEA,
+    "columns" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "mapping" JSONB NOT NULL DEFAULT '{}',
+    "duplicateMode" "ImportDuplicateMode" NOT NULL DEFAULT 'SKIP',
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "imported" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "duplicates" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB NOT NULL DEFAULT '[]',
+    "errorMessage" TEXT,
+    "createdById" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "import_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "import_jobs" ADD CONSTRAINT "import_jobs_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
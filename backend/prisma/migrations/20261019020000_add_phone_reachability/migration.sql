@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "PhoneType" AS ENUM ('MOBILE', 'LANDLINE', 'UNKNOWN');
+
+-- CreateEnum
+CREATE TYPE "Reachability" AS ENUM ('UNKNOWN', 'VALID', 'NOT_ON_WHATSAPP');
+
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "phoneType" "PhoneType" NOT NULL DEFAULT 'UNKNOWN',
+ADD COLUMN "reachability" "Reachability" NOT NULL DEFAULT 'UNKNOWN',
+ADD COLUMN "reachabilityAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "leads_reachability_idx" ON "leads"("reachability");
+
+-- Backfill: Indian mobiles are 91 followed by 6-9; other numbers are classified when next saved
+UPDATE "leads" SET "phoneType" = 'MOBILE' WHERE "phone" ~ '^91[6-9][0-9]{9}$';
+
+-- Backfill: numbers that received or sent a message are on WhatsApp
+UPDATE "leads" SET "reachability" = 'VALID', "reachabilityAt" = CURRENT_TIMESTAMP
+WHERE "id" IN (
+    SELECT DISTINCT "leadId" FROM "message_logs"
+    WHERE "direction" = 'INBOUND' OR "status" IN ('DELIVERED', 'READ')
+);
+
+-- Backfill: sends that failed with 131026 were previously recorded by marking the lead DO_NOT_CONTACT
+UPDATE "leads" SET "reachability" = 'NOT_ON_WHATSAPP', "reachabilityAt" = CURRENT_TIMESTAMP
+WHERE "reachability" = 'UNKNOWN' AND (
+    "notes" LIKE '%(131026)%'
+    OR "id" IN (SELECT "leadId" FROM "message_logs" WHERE "status" = 'FAILED' AND "errorMessage" LIKE '%131026%')
+);
@@ -23,6 +23,7 @@ const envSchema = z.object({
   WHATSAPP_ACCESS_TOKEN: z.string().optional(),
   WHATSAPP_BUSINESS_ACCOUNT_ID: z.string().optional(),
   WHATSAPP_WEBHOOK_VERIFY_TOKEN: z.string().optional(),
+  WHATSAPP_APP_SECRET: z.string().optional(), // signs webhook payloads (X-Hub-Signature-256)
   WHATSAPP_API_URL: z.string().default('https://graph.facebook.com/v18.0'),
 
   // Push Notifications (VAPID)
@@ -16,12 +16,22 @@ import scraperRoutes from './routes/scraper.js';
 import conversationRoutes from './routes/conversations.js';
 import pushRoutes from './routes/push.js';
 import autoReplyRoutes from './routes/autoReplies.js';
+import sequenceRoutes from './routes/sequences.js';
+import consentKeywordRoutes from './routes/consentKeywords.js';
+import chatbotFlowRoutes from './routes/chatbotFlows.js';
+import mediaRoutes from './routes/media.js';
+import userRoutes from './routes/users.js';
+import cannedResponseRoutes from './routes/cannedResponses.js';
+import customFieldRoutes from './routes/customFields.js';
+import eventRoutes from './routes/events.js';
+import { startCampaignSender } from './services/queue/campaignSender.js';
+import { startCampaignScheduler } from './services/campaigns/scheduler.js';
+import { startSequenceRunner } from './services/sequences/runner.js';
+import { resumeImportJobs } from './services/leadImport.js';
+import { resumeWebhookEvents } from './services/whatsapp/webhookEvents.js';
 
 const app = express();
 
-// Queue worker function (loaded dynamically if Redis is available)
-let startCampaignWorker: (() => any) | null = null;
-
 // Security middleware
 app.use(helmet());
 
@@ -37,7 +47,13 @@ app.use(cors({
 }));
 
 // Body parsing
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the raw webhook body — its signature is computed over the exact bytes
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith('/api/webhook')) (req as any).rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Health check endpoint
@@ -59,6 +75,14 @@ app.use('/api/scraper', scraperRoutes);
 app.use('/api/conversations', conversationRoutes);
 app.use('/api/push', pushRoutes);
 app.use('/api/auto-replies', autoReplyRoutes);
+app.use('/api/sequences', sequenceRoutes);
+app.use('/api/consent-keywords', consentKeywordRoutes);
+app.use('/api/chatbot-flows', chatbotFlowRoutes);
+app.use('/api/media', mediaRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/canned-responses', cannedResponseRoutes);
+app.use('/api/custom-fields', customFieldRoutes);
+app.use('/api/events', eventRoutes);
 
 // Dashboard stats endpoint
 app.get('/api/dashboard', async (req, res) => {
@@ -143,19 +167,19 @@ async function start(): Promise<void> {
     // Connect to database
     await connectDatabase();
 
-    // Start campaign worker (if Redis is available)
-    if (env.REDIS_URL) {
-      try {
-        const queueModule = await import('./services/queue/campaignWorker.js');
-        startCampaignWorker = queueModule.startCampaignWorker;
-        startCampaignWorker();
-        console.log('✅ Campaign worker started');
-      } catch (error) {
-        console.log('⚠️ Campaign worker not started (Redis connection failed)');
-      }
-    } else {
-      console.log('ℹ️  Redis not configured - queue system disabled');
-    }
+    // Start campaign sender (BullMQ if Redis is available) and resume interrupted campaigns
+    await startCampaignSender();
+
+    // Start scheduler for SCHEDULED and recurring campaigns
+    startCampaignScheduler();
+    startSequenceRunner();
+
+    // Carry on with lead imports a restart interrupted
+    await resumeImportJobs();
+
+    // Process webhook events acknowledged before a crash, in the background
+    resumeWebhookEvents()
+      .catch((err) => console.error('[Webhook] Resume error:', err));
 
     // Start HTTP server
     app.listen(env.PORT, () => {
@@ -7,8 +7,12 @@ interface JwtPayload {
   id: string;
   email: string;
   role: string;
+  scope?: 'events'; // stream-only tokens; absent on login tokens
 }
 
+// Stream tokens end up in URLs (and so in access logs), so they only open a connection
+const EVENT_STREAM_TOKEN_TTL = '60s';
+
 export function authenticate(
   req: AuthenticatedRequest,
   res: Response<ApiResponse>,
@@ -24,10 +28,42 @@ export function authenticate(
     return;
   }
 
-  const token = authHeader.substring(7);
+  verifyToken(authHeader.substring(7), undefined, req, res, next);
+}
+
+/**
+ * Authenticate an event stream. EventSource can't send headers, so a
+ * short-lived stream token (see generateEventStreamToken) comes in the query
+ * string instead — never the login token.
+ */
+export function authenticateEventStream(
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void {
+  const token = req.query.token;
 
+  if (typeof token !== 'string' || !token) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required. Please provide a valid token.',
+    });
+    return;
+  }
+
+  verifyToken(token, 'events', req, res, next);
+}
+
+function verifyToken(
+  token: string,
+  scope: JwtPayload['scope'],
+  req: AuthenticatedRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void {
   try {
     const decoded = jwt.verify(token, env.JWT_SECRET) as JwtPayload;
+    if (decoded.scope !== scope) throw new Error('Token scope mismatch');
     req.user = {
       id: decoded.id,
       email: decoded.email,
@@ -64,3 +100,11 @@ export function generateToken(user: { id: string; email: string; role: string })
     { expiresIn: env.JWT_EXPIRES_IN } as jwt.SignOptions
   );
 }
+
+export function generateEventStreamToken(user: { id: string; email: string; role: string }): string {
+  return jwt.sign(
+    { id: user.id, email: user.email, role: user.role, scope: 'events' },
+    env.JWT_SECRET,
+    { expiresIn: EVENT_STREAM_TOKEN_TTL }
+  );
+}
@@ -107,6 +107,7 @@ router.get('/me', authenticate, async (req: AuthenticatedRequest, res: Response<
       email: true,
       name: true,
       role: true,
+      acceptsAutoAssign: true,
       createdAt: true,
     },
   });
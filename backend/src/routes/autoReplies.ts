@@ -1,35 +1,259 @@
 import { Router, Response } from 'express';
+import { LeadStatus, Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../config/database.js';
 import { authenticate } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
 import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { isValidTimeZone } from '../services/campaigns/timezone.js';
+import { isSafeTriggerRegex, MAX_REGEX_LENGTH } from '../services/autoReplies/rules.js';
+import { AUTO_REPLY_VARIABLES, findUnknownVariables, renderReplyText } from '../services/autoReplies/render.js';
 
 const router = Router();
 
+const scheduleSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).default([]),
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Start must be HH:mm'),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'End must be HH:mm'),
+  timezone: z.string().default('Asia/Kolkata').refine(isValidTimeZone, 'Unknown time zone'),
+}).refine((s) => s.start !== s.end, {
+  message: 'Schedule must end at a different time than it starts',
+  path: ['end'],
+});
+
+const leadConditionsSchema = z.object({
+  statuses: z.array(z.enum(['NEW', 'CONTACTED', 'INTERESTED', 'NEGOTIATING', 'CONVERTED', 'REJECTED', 'DO_NOT_CONTACT'])).optional(),
+  sources: z.array(z.enum([
+    'MANUAL', 'CSV_IMPORT', 'JUSTDIAL', 'INDIAMART', 'GOOGLE_MAPS', 'FACEBOOK', 'INSTAGRAM', 'WEBSITE', 'REFERRAL', 'WHATSAPP_INBOUND',
+  ])).optional(),
+  tags: z.array(z.string().trim().min(1)).optional(),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pipeline order for "advanced after the reply" — REJECTED and DO_NOT_CONTACT never count
+const STATUS_PROGRESS: Partial<Record<LeadStatus, number>> = {
+  NEW: 0,
+  CONTACTED: 1,
+  INTERESTED: 2,
+  NEGOTIATING: 3,
+  CONVERTED: 4,
+};
+
+const previewSchema = z.object({
+  replyText: z.string(),
+  leadId: z.string().min(1, 'Choose a lead'),
+});
+
 const autoReplySchema = z.object({
   name: z.string().min(1, 'Name is required').max(100),
-  triggerType: z.enum(['KEYWORD', 'BUTTON', 'ANY']).default('KEYWORD'),
+  triggerType: z.enum(['KEYWORD', 'EXACT', 'WHOLE_WORD', 'REGEX', 'BUTTON', 'ANY']).default('KEYWORD'),
   triggerKeywords: z.array(z.string()).default([]),
-  replyText: z.string().min(1, 'Reply text is required'),
+  replyText: z.string().min(1, 'Reply text is required').max(4096).refine(
+    (text) => findUnknownVariables(text).length === 0,
+    (text) => ({
+      message: `Unknown variable ${findUnknownVariables(text).map((v) => `{{${v}}}`).join(', ')} — use ${
+        AUTO_REPLY_VARIABLES.map((v) => `{{${v}}}`).join(', ')}`,
+    })
+  ),
   isActive: z.boolean().default(true),
   priority: z.number().int().default(0),
+  mediaAssetId: z.string().nullable().optional(),
+  replyButtons: z.array(z.string().trim().min(1).max(20, 'Button titles are limited to 20 characters'))
+    .max(3, 'WhatsApp allows up to 3 reply buttons')
+    .refine((titles) => new Set(titles.map((t) => t.toLowerCase())).size === titles.length, 'Button titles must be different')
+    .default([]),
+  schedule: scheduleSchema.nullable().optional(),
+  leadConditions: leadConditionsSchema.nullable().optional(),
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60).default(0),
 });
 
+// Regex triggers must compile, and be safe to run, before they reach the webhook
+function checkRegexTriggers(triggerType: string | undefined, keywords: string[] | undefined) {
+  if (triggerType !== 'REGEX') return;
+  for (const pattern of keywords || []) {
+    if (pattern.length > MAX_REGEX_LENGTH) {
+      throw new AppError(`Pattern is longer than ${MAX_REGEX_LENGTH} characters: ${pattern.slice(0, 30)}...`, 400);
+    }
+    try {
+      new RegExp(pattern, 'iu');
+    } catch {
+      throw new AppError(`Invalid regular expression: ${pattern}`, 400);
+    }
+    if (!isSafeTriggerRegex(pattern)) {
+      throw new AppError(`Pattern has nested repetition that could hang message processing: ${pattern}`, 400);
+    }
+  }
+}
+
+// Media captions and button messages have a shorter body limit than plain text
+async function checkAttachments(replyText: string, mediaAssetId: string | null, replyButtons: string[]) {
+  if (mediaAssetId) {
+    const asset = await prisma.mediaAsset.findUnique({ where: { id: mediaAssetId }, select: { id: true } });
+    if (!asset) throw new AppError('Attached media not found', 400);
+  }
+  if ((mediaAssetId || replyButtons.length > 0) && replyText.length > 1024) {
+    throw new AppError('Replies with media or buttons are limited to 1024 characters', 400);
+  }
+}
+
+// null clears a JSON condition; undefined leaves it unchanged
+function jsonOrDbNull<T>(value: T | null | undefined) {
+  return value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue | undefined);
+}
+
 // GET /api/auto-replies — List all rules
 router.get('/', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const rules = await prisma.autoReply.findMany({
+    include: { mediaAsset: { select: { id: true, name: true, filename: true, mimeType: true, mediaType: true } } },
     orderBy: { priority: 'asc' },
   });
 
   res.json({ success: true, data: rules });
 });
 
+// GET /api/auto-replies/analytics — Per-rule hits, failures and what leads did afterwards
+router.get('/analytics', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const days = Math.min(365, Math.max(1, parseInt(req.query.days as string) || 30));
+  const since = new Date(Date.now() - days * DAY_MS);
+
+  const hits = await prisma.autoReplyHit.findMany({
+    where: { createdAt: { gte: since } },
+    select: { autoReplyId: true, leadId: true, status: true, leadStatus: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const leadIds = [...new Set(hits.map((h) => h.leadId))];
+  const [leads, lastInbound] = await Promise.all([
+    prisma.lead.findMany({ where: { id: { in: leadIds } }, select: { id: true, status: true } }),
+    prisma.messageLog.groupBy({
+      by: ['leadId'],
+      where: { leadId: { in: leadIds }, direction: 'INBOUND', createdAt: { gte: since } },
+      _max: { createdAt: true },
+    }),
+  ]);
+  const currentStatus = new Map(leads.map((l) => [l.id, l.status]));
+  const lastInboundAt = new Map(lastInbound.map((m) => [m.leadId, m._max.createdAt]));
+
+  const byRule = new Map<string, typeof hits>();
+  for (const hit of hits) {
+    byRule.set(hit.autoReplyId, [...(byRule.get(hit.autoReplyId) || []), hit]);
+  }
+
+  // Each lead counts once per rule, measured from the first time the rule answered them
+  const rules = [...byRule.entries()].map(([autoReplyId, ruleHits]) => {
+    const firstHits = new Map<string, typeof hits[number]>();
+    for (const hit of ruleHits) {
+      if (hit.status === 'SENT' && !firstHits.has(hit.leadId)) firstHits.set(hit.leadId, hit);
+    }
+
+    let repliedAgain = 0;
+    let advanced = 0;
+    let converted = 0;
+    for (const [leadId, hit] of firstHits) {
+      const inboundAt = lastInboundAt.get(leadId);
+      if (inboundAt && inboundAt > hit.createdAt) repliedAgain++;
+
+      const status = currentStatus.get(leadId);
+      const before = STATUS_PROGRESS[hit.leadStatus];
+      const after = status ? STATUS_PROGRESS[status] : undefined;
+      if (before !== undefined && after !== undefined && after > before) advanced++;
+      if (status === 'CONVERTED' && hit.leadStatus !== 'CONVERTED') converted++;
+    }
+
+    return {
+      autoReplyId,
+      hits: ruleHits.length,
+      failed: ruleHits.filter((h) => h.status === 'FAILED').length,
+      leads: firstHits.size,
+      repliedAgain,
+      advanced,
+      converted,
+      lastHitAt: ruleHits[ruleHits.length - 1]!.createdAt,
+    };
+  });
+
+  res.json({ success: true, data: { days, rules } });
+});
+
+// POST /api/auto-replies/preview — Render a reply for a lead without sending it
+router.post('/preview', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { replyText, leadId } = previewSchema.parse(req.body);
+
+  const lead = await prisma.lead.findUnique({ where: { id: leadId } });
+  if (!lead) throw new AppError('Lead not found', 404);
+
+  res.json({
+    success: true,
+    data: {
+      text: renderReplyText(replyText, lead),
+      unknownVariables: findUnknownVariables(replyText),
+    },
+  });
+});
+
+// GET /api/auto-replies/:id/hits — Hit log for a rule, newest first
+router.get('/:id/hits', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+  const status = req.query.status as string | undefined;
+
+  const rule = await prisma.autoReply.findUnique({ where: { id: req.params.id }, select: { id: true } });
+  if (!rule) throw new AppError('Auto-reply rule not found', 404);
+
+  const where: Prisma.AutoReplyHitWhereInput = {
+    autoReplyId: rule.id,
+    ...(status === 'SENT' || status === 'FAILED' ? { status } : {}),
+  };
+
+  const [hits, total] = await Promise.all([
+    prisma.autoReplyHit.findMany({
+      where,
+      include: { lead: { select: { id: true, name: true, phone: true, status: true } } },
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.autoReplyHit.count({ where }),
+  ]);
+
+  // Attach the triggering message and the reply
+  const messageIds = hits.flatMap((h) => [h.inboundMessageId, h.replyMessageId]).filter((id): id is string => !!id);
+  const messages = await prisma.messageLog.findMany({
+    where: { id: { in: messageIds } },
+    select: { id: true, content: true, status: true },
+  });
+  const messageById = new Map(messages.map((m) => [m.id, m]));
+
+  res.json({
+    success: true,
+    data: hits.map((hit) => ({
+      ...hit,
+      inboundMessage: hit.inboundMessageId ? messageById.get(hit.inboundMessageId) || null : null,
+      replyMessage: hit.replyMessageId ? messageById.get(hit.replyMessageId) || null : null,
+    })),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
 // POST /api/auto-replies — Create rule
 router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
-  const data = autoReplySchema.parse(req.body);
+  const { schedule, leadConditions, ...data } = autoReplySchema.parse(req.body);
+  checkRegexTriggers(data.triggerType, data.triggerKeywords);
+  await checkAttachments(data.replyText, data.mediaAssetId ?? null, data.replyButtons);
 
-  const rule = await prisma.autoReply.create({ data });
+  const rule = await prisma.autoReply.create({
+    data: {
+      ...data,
+      schedule: jsonOrDbNull(schedule),
+      leadConditions: jsonOrDbNull(leadConditions),
+    },
+  });
 
   res.status(201).json({ success: true, data: rule, message: 'Auto-reply rule created' });
 });
@@ -39,11 +263,24 @@ router.put('/:id', authenticate, async (req: AuthenticatedRequest, res: Response
   const existing = await prisma.autoReply.findUnique({ where: { id: req.params.id } });
   if (!existing) throw new AppError('Auto-reply rule not found', 404);
 
-  const data = autoReplySchema.partial().parse(req.body);
+  const { schedule, leadConditions, ...data } = autoReplySchema.partial().parse(req.body);
+  checkRegexTriggers(
+    data.triggerType ?? existing.triggerType,
+    data.triggerKeywords ?? existing.triggerKeywords
+  );
+  await checkAttachments(
+    data.replyText ?? existing.replyText,
+    data.mediaAssetId !== undefined ? data.mediaAssetId : existing.mediaAssetId,
+    data.replyButtons ?? existing.replyButtons
+  );
 
   const rule = await prisma.autoReply.update({
     where: { id: req.params.id },
-    data,
+    data: {
+      ...data,
+      schedule: jsonOrDbNull(schedule),
+      leadConditions: jsonOrDbNull(leadConditions),
+    },
   });
 
   res.json({ success: true, data: rule });
@@ -3,20 +3,30 @@ import { z } from 'zod';
 import { prisma } from '../config/database.js';
 import { authenticate } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { AuthenticatedRequest, ApiResponse, CreateCampaignInput } from '../types/index.js';
-import { sendCampaignMessage } from '../services/whatsapp/client.js';
+import { AuthenticatedRequest, ApiResponse, CreateCampaignInput, SendWindow } from '../types/index.js';
+import { enqueueCampaign } from '../services/queue/campaignSender.js';
+import { buildAudienceWhere, resolveCampaignAudience, launchCampaign } from '../services/campaigns/launcher.js';
+import { nextOccurrence } from '../services/campaigns/scheduler.js';
+import { isValidTimeZone } from '../services/campaigns/timezone.js';
+import { isWithinSendWindow, nextWindowOpening, sendWindowSchema } from '../services/campaigns/sendWindow.js';
+import { isLeadVariableField } from '../services/whatsapp/templateVariables.js';
+import { customFieldFiltersSchema } from '../services/customFields.js';
+import { getVariantStats } from '../services/campaigns/abTest.js';
+import { previewCampaign } from '../services/campaigns/preview.js';
+import { refreshCampaignStats } from '../services/campaigns/stats.js';
 
 const router = Router();
 
 // Validation schemas
-// Sending speed presets (delay in ms between messages)
-const SENDING_SPEEDS: Record<string, { delayMs: number; label: string; dailyLimit?: number }> = {
-  fast: { delayMs: 5_000, label: '1 per 5s' },             // ~12/min — risky for new numbers
-  normal: { delayMs: 30_000, label: '1 per 30s' },          // ~2/min — safe for established accounts
-  slow: { delayMs: 300_000, label: '1 per 5min' },          // safe for newer numbers
-  very_slow: { delayMs: 600_000, label: '1 per 10min' },    // for accounts with warnings
-  warmup: { delayMs: 1_800_000, label: '1 per 30min', dailyLimit: 10 }, // for new numbers getting 131049
-};
+const variableMappingSchema = z.record(
+  z.object({
+    type: z.enum(['FIELD', 'STATIC']),
+    field: z.string().refine(isLeadVariableField, 'Unknown lead field').optional(),
+    value: z.string().optional(),
+    fallback: z.string().optional(),
+  }).refine((m) => m.type !== 'FIELD' || !!m.field, { message: 'Pick a lead field', path: ['field'] })
+    .refine((m) => m.type !== 'STATIC' || !!m.value?.trim(), { message: 'Static value is required', path: ['value'] })
+);
 
 const createCampaignSchema = z.object({
   name: z.string().min(1, 'Campaign name is required'),
@@ -32,8 +42,39 @@ const createCampaignSchema = z.object({
     source: z.array(z.string()).optional(),
     tags: z.array(z.string()).optional(),
     cities: z.array(z.string()).optional(),
+    customFields: customFieldFiltersSchema.optional(),
   }).optional(),
   scheduledAt: z.string().datetime().optional(),
+  recurrence: z.object({
+    frequency: z.enum(['DAILY', 'WEEKLY']),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).default([]),
+    time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm'),
+    timezone: z.string().default('Asia/Kolkata').refine(isValidTimeZone, 'Unknown time zone'),
+  }).refine((r) => r.frequency !== 'WEEKLY' || r.daysOfWeek.length > 0, {
+    message: 'Weekly schedules need at least one day',
+    path: ['daysOfWeek'],
+  }).optional(),
+  sendWindow: sendWindowSchema.optional(),
+  variableMapping: variableMappingSchema.optional(),
+  variants: z.array(z.object({
+    templateId: z.string().min(1, 'Template ID is required'),
+    splitPercent: z.number().int().min(1).max(99),
+    headerMediaUrl: z.string().url().optional(),
+  })).min(2, 'An A/B test needs at least two variants').max(4).optional(),
+  autoWinner: z.object({
+    sampleSize: z.number().int().min(10, 'Sample size must be at least 10'),
+    metric: z.enum(['DELIVERED', 'READ', 'REPLIED', 'CONVERTED']).default('READ'),
+    waitHours: z.number().min(1).max(168).default(24),
+  }).optional(),
+}).refine((c) => !c.variants || c.variants.reduce((sum, v) => sum + v.splitPercent, 0) === 100, {
+  message: 'Variant splits must add up to 100%',
+  path: ['variants'],
+}).refine((c) => !c.variants || c.variants[0]!.templateId === c.templateId, {
+  message: 'The campaign template must be variant A',
+  path: ['templateId'],
+}).refine((c) => !c.autoWinner || !!c.variants, {
+  message: 'Auto-picking a winner needs A/B variants',
+  path: ['autoWinner'],
 });
 
 // GET /api/campaigns - List all campaigns
@@ -167,41 +208,30 @@ router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<A
     throw new AppError('Template must be approved before using in a campaign', 400);
   }
 
-  // Count leads: either specific leadIds or filter-based
-  let totalLeads: number;
-
-  if (data.leadIds?.length) {
-    // Specific leads selected — count only valid ones
-    totalLeads = await prisma.lead.count({
-      where: {
-        id: { in: data.leadIds },
-        optedOut: false,
-        status: { notIn: ['DO_NOT_CONTACT', 'REJECTED'] },
-      },
+  if (data.variants) {
+    const variantTemplates = await prisma.messageTemplate.findMany({
+      where: { id: { in: data.variants.map((v) => v.templateId) } },
+      select: { id: true, status: true },
     });
-  } else {
-    // Filter-based targeting
-    const leadWhere: any = {
-      optedOut: false,
-      status: { notIn: ['DO_NOT_CONTACT', 'REJECTED'] },
-    };
-
-    if (data.targetFilters?.status?.length) {
-      leadWhere.status = { in: data.targetFilters.status };
-    }
-    if (data.targetFilters?.source?.length) {
-      leadWhere.source = { in: data.targetFilters.source };
-    }
-    if (data.targetFilters?.tags?.length) {
-      leadWhere.tags = { hasSome: data.targetFilters.tags };
-    }
-    if (data.targetFilters?.cities?.length) {
-      leadWhere.city = { in: data.targetFilters.cities };
+    for (const variant of data.variants) {
+      const variantTemplate = variantTemplates.find((t) => t.id === variant.templateId);
+      if (!variantTemplate) throw new AppError('Variant template not found', 404);
+      if (variantTemplate.status !== 'APPROVED') {
+        throw new AppError('All variant templates must be approved before using in a campaign', 400);
+      }
     }
-
-    totalLeads = await prisma.lead.count({ where: leadWhere });
   }
 
+  // Count leads: either specific leadIds or filter-based
+  const totalLeads = await prisma.lead.count({
+    where: buildAudienceWhere(data.leadIds?.length ? { leadIds: data.leadIds } : data.targetFilters || {}),
+  });
+
+  // First run: explicit time, or the next occurrence of a recurring schedule
+  const scheduledAt = data.scheduledAt
+    ? new Date(data.scheduledAt)
+    : data.recurrence ? nextOccurrence(data.recurrence, new Date()) : null;
+
   // Create campaign
   const campaign = await prisma.campaign.create({
     data: {
@@ -214,11 +244,25 @@ router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<A
         ...(data.headerMediaUrl ? { headerMediaUrl: data.headerMediaUrl } : {}),
         skipDuplicateTemplate: data.skipDuplicateTemplate !== false,
         sendingSpeed: data.sendingSpeed || 'normal',
+        ...(data.sendWindow ? { sendWindow: { ...data.sendWindow } } : {}),
+        ...(data.variableMapping ? { variableMapping: data.variableMapping } : {}),
+        ...(data.autoWinner ? { autoWinner: { ...data.autoWinner } } : {}),
       },
-      scheduledAt: data.scheduledAt ? new Date(data.scheduledAt) : null,
-      status: data.scheduledAt ? 'SCHEDULED' : 'DRAFT',
+      scheduledAt,
+      recurrence: data.recurrence ? { ...data.recurrence } : undefined,
+      status: scheduledAt ? 'SCHEDULED' : 'DRAFT',
       totalLeads,
       createdById: req.user!.id,
+      variants: data.variants
+        ? {
+          create: data.variants.map((variant, i) => ({
+            label: String.fromCharCode(65 + i), // A, B, C...
+            templateId: variant.templateId,
+            splitPercent: variant.splitPercent,
+            headerMediaUrl: variant.headerMediaUrl,
+          })),
+        }
+        : undefined,
     },
     include: {
       template: { select: { name: true } },
@@ -232,6 +276,21 @@ router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<A
   });
 });
 
+// GET /api/campaigns/:id/preview - Dry-run: audience, exclusions, sample messages and ETA without sending
+router.get('/:id/preview', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: req.params.id },
+  });
+
+  if (!campaign) {
+    throw new AppError('Campaign not found', 404);
+  }
+
+  const preview = await previewCampaign(campaign);
+
+  res.json({ success: true, data: preview });
+});
+
 // POST /api/campaigns/:id/start - Start a campaign
 router.post('/:id/start', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const campaign = await prisma.campaign.findUnique({
@@ -251,105 +310,20 @@ router.post('/:id/start', authenticate, async (req: AuthenticatedRequest, res: R
     throw new AppError('Campaign has already completed', 400);
   }
 
-  // Get matching leads — either specific IDs or filter-based
-  const targetFilters = campaign.targetFilters as any || {};
-  let leads: { id: string }[];
-
-  // Find leads who already received this template successfully (for dedup)
-  let alreadyReceivedIds: Set<string> = new Set();
-  if (targetFilters.skipDuplicateTemplate !== false) {
-    const alreadyReceived = await prisma.messageLog.findMany({
-      where: {
-        templateId: campaign.templateId,
-        direction: 'OUTBOUND',
-        status: { notIn: ['FAILED'] },
-      },
-      select: { leadId: true },
-      distinct: ['leadId'],
-    });
-    alreadyReceivedIds = new Set(alreadyReceived.map(m => m.leadId));
-  }
-
-  if (targetFilters.leadIds?.length) {
-    // Specific leads were selected at creation
-    leads = await prisma.lead.findMany({
-      where: {
-        id: { in: targetFilters.leadIds },
-        optedOut: false,
-        status: { notIn: ['DO_NOT_CONTACT', 'REJECTED'] },
-      },
-      select: { id: true },
-    });
-  } else {
-    // Filter-based targeting
-    const leadWhere: any = {
-      optedOut: false,
-      status: { notIn: ['DO_NOT_CONTACT', 'REJECTED'] },
-    };
-
-    if (targetFilters.status?.length) {
-      leadWhere.status = { in: targetFilters.status };
-    }
-    if (targetFilters.source?.length) {
-      leadWhere.source = { in: targetFilters.source };
-    }
-    if (targetFilters.tags?.length) {
-      leadWhere.tags = { hasSome: targetFilters.tags };
-    }
-    if (targetFilters.cities?.length) {
-      leadWhere.city = { in: targetFilters.cities };
-    }
-
-    leads = await prisma.lead.findMany({
-      where: leadWhere,
-      select: { id: true },
-    });
-  }
-
-  // Remove leads who already received this template
-  if (alreadyReceivedIds.size > 0) {
-    const before = leads.length;
-    leads = leads.filter(l => !alreadyReceivedIds.has(l.id));
-    if (before !== leads.length) {
-      console.log(`[Campaign ${campaign.id}] Skipped ${before - leads.length} leads who already received this template`);
-    }
-  }
+  // Get matching leads, minus those who already received this template
+  const leadIds = await resolveCampaignAudience(campaign);
 
-  if (leads.length === 0) {
+  if (leadIds.length === 0) {
     throw new AppError('No leads match the campaign filters', 400);
   }
 
-  // Create campaign-lead associations
-  await prisma.campaignLead.createMany({
-    data: leads.map((lead) => ({
-      campaignId: campaign.id,
-      leadId: lead.id,
-      status: 'PENDING',
-    })),
-    skipDuplicates: true,
-  });
-
-  // Update campaign status
-  await prisma.campaign.update({
-    where: { id: campaign.id },
-    data: {
-      status: 'RUNNING',
-      startedAt: new Date(),
-      totalLeads: leads.length,
-    },
-  });
-
-  // Send messages in the background (non-blocking)
-  // Respond immediately, process sends asynchronously
-  const headerMediaUrl = (campaign.targetFilters as any)?.headerMediaUrl;
-  const sendingSpeed = (campaign.targetFilters as any)?.sendingSpeed || 'normal';
-  processCampaignMessages(campaign.id, campaign.templateId, leads.map(l => l.id), headerMediaUrl, sendingSpeed)
-    .catch(err => console.error(`Campaign ${campaign.id} send error:`, err));
+  // Enroll leads and send in the background (non-blocking)
+  await launchCampaign(campaign.id, leadIds);
 
   res.json({
     success: true,
-    message: `Campaign started. Sending messages to ${leads.length} leads.`,
-    data: { leadsCount: leads.length },
+    message: `Campaign started. Sending messages to ${leadIds.length} leads.`,
+    data: { leadsCount: leadIds.length },
   });
 });
 
@@ -394,6 +368,8 @@ router.post('/:id/resume', authenticate, async (req: AuthenticatedRequest, res:
     data: { status: 'RUNNING' },
   });
 
+  await enqueueCampaign(campaign.id);
+
   res.json({ success: true, message: 'Campaign resumed' });
 });
 
@@ -429,10 +405,7 @@ router.post('/:id/resend', authenticate, async (req: AuthenticatedRequest, res:
   });
 
   // Process in background
-  const resendHeaderMediaUrl = (campaign.targetFilters as any)?.headerMediaUrl;
-  const resendSpeed = (campaign.targetFilters as any)?.sendingSpeed || 'normal';
-  processCampaignMessages(campaign.id, campaign.templateId, pendingLeads.map(l => l.leadId), resendHeaderMediaUrl, resendSpeed)
-    .catch(err => console.error(`Campaign ${campaign.id} resend error:`, err));
+  await enqueueCampaign(campaign.id);
 
   res.json({
     success: true,
@@ -441,7 +414,7 @@ router.post('/:id/resend', authenticate, async (req: AuthenticatedRequest, res:
   });
 });
 
-// POST /api/campaigns/:id/retry-failed - Retry failed messages (excludes DO_NOT_CONTACT leads)
+// POST /api/campaigns/:id/retry-failed - Retry failed messages (excludes DO_NOT_CONTACT and unreachable leads)
 router.post('/:id/retry-failed', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const campaign = await prisma.campaign.findUnique({
     where: { id: req.params.id },
@@ -456,12 +429,12 @@ router.post('/:id/retry-failed', authenticate, async (req: AuthenticatedRequest,
     throw new AppError('Campaign must be running, paused, or completed to retry', 400);
   }
 
-  // Get all FAILED campaign leads, excluding DO_NOT_CONTACT leads
+  // Get all FAILED campaign leads the campaign could still send to
   const failedLeads = await prisma.campaignLead.findMany({
     where: {
       campaignId: campaign.id,
       status: 'FAILED',
-      lead: { status: { notIn: ['DO_NOT_CONTACT', 'REJECTED'] }, optedOut: false },
+      lead: buildAudienceWhere({}),
     },
     select: { leadId: true },
   });
@@ -480,17 +453,15 @@ router.post('/:id/retry-failed', authenticate, async (req: AuthenticatedRequest,
     data: { status: 'PENDING' },
   });
 
-  // Set campaign to RUNNING
+  // Set campaign to RUNNING; retried leads no longer count as failed
   await prisma.campaign.update({
     where: { id: campaign.id },
     data: { status: 'RUNNING' },
   });
+  await refreshCampaignStats(campaign.id);
 
   // Process in background
-  const retryHeaderMediaUrl = (campaign.targetFilters as any)?.headerMediaUrl;
-  const retrySpeed = (campaign.targetFilters as any)?.sendingSpeed || 'normal';
-  processCampaignMessages(campaign.id, campaign.templateId, failedLeads.map((l) => l.leadId), retryHeaderMediaUrl, retrySpeed)
-    .catch((err) => console.error(`Campaign ${campaign.id} retry-failed error:`, err));
+  await enqueueCampaign(campaign.id);
 
   res.json({
     success: true,
@@ -510,6 +481,10 @@ router.get('/:id/analytics', authenticate, async (req: AuthenticatedRequest, res
       createdBy: {
         select: { name: true },
       },
+      variants: {
+        include: { template: { select: { name: true, language: true, headerType: true } } },
+        orderBy: { label: 'asc' },
+      },
     },
   });
 
@@ -587,6 +562,24 @@ router.get('/:id/analytics', authenticate, async (req: AuthenticatedRequest, res
     .map(([hour, counts]) => ({ hour, ...counts }))
     .sort((a, b) => a.hour.localeCompare(b.hour));
 
+  // Send window state — a RUNNING campaign outside its window is waiting, not stuck
+  const windowConfig = (campaign.targetFilters as any)?.sendWindow as SendWindow | undefined;
+  const windowOpen = windowConfig ? isWithinSendWindow(windowConfig) : true;
+  const sendWindow = windowConfig
+    ? { ...windowConfig, open: windowOpen, nextOpenAt: windowOpen ? null : nextWindowOpening(windowConfig) }
+    : null;
+
+  // A/B test — funnel per variant
+  const variantStats = await getVariantStats(campaign.id);
+  const variants = campaign.variants.map((variant) => ({
+    id: variant.id,
+    label: variant.label,
+    template: variant.template,
+    splitPercent: variant.splitPercent,
+    isWinner: variant.isWinner,
+    ...variantStats.find((stats) => stats.variantId === variant.id),
+  }));
+
   res.json({
     success: true,
     data: {
@@ -598,6 +591,9 @@ router.get('/:id/analytics', authenticate, async (req: AuthenticatedRequest, res
       }, {} as Record<string, number>),
       leads: leadBreakdown,
       timelineChart,
+      sendWindow,
+      variants,
+      autoWinner: (campaign.targetFilters as any)?.autoWinner ?? null,
     },
   });
 });
@@ -623,127 +619,4 @@ router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Respo
   res.json({ success: true, message: 'Campaign deleted' });
 });
 
-/**
- * Process campaign messages in the background without Redis/BullMQ.
- * Sends one message at a time with a delay to respect WhatsApp rate limits.
- * Checks campaign status before each send so pause/cancel takes effect.
- */
-async function processCampaignMessages(
-  campaignId: string,
-  templateId: string,
-  leadIds: string[],
-  headerMediaUrl?: string,
-  sendingSpeed: string = 'normal'
-): Promise<void> {
-  const speedConfig = SENDING_SPEEDS[sendingSpeed] ?? SENDING_SPEEDS['normal']!;
-  const BASE_DELAY = speedConfig.delayMs;
-  const DAILY_LIMIT = speedConfig.dailyLimit || 0; // 0 = no limit
-  const RATE_WINDOW = 20;        // rolling window size for success rate check
-  const MIN_SUCCESS_RATE = 0.60; // auto-pause if success rate drops below 60%
-
-  console.log(`[Campaign ${campaignId}] Starting to send ${leadIds.length} messages (speed: ${sendingSpeed}, delay: ${BASE_DELAY / 1000}s${DAILY_LIMIT ? `, daily limit: ${DAILY_LIMIT}` : ''})`);
-  let sent = 0;
-  let failed = 0;
-  const recentOutcomes: boolean[] = []; // rolling window of last RATE_WINDOW outcomes
-
-  for (const leadId of leadIds) {
-    // Check if campaign is still running (allows pause/cancel)
-    const campaign = await prisma.campaign.findUnique({
-      where: { id: campaignId },
-      select: { status: true },
-    });
-
-    if (!campaign || campaign.status !== 'RUNNING') {
-      console.log(`[Campaign ${campaignId}] Stopped — status is ${campaign?.status}`);
-      break;
-    }
-
-    // Enforce daily limit: pause campaign when reached, user can resume tomorrow
-    if (DAILY_LIMIT > 0 && sent >= DAILY_LIMIT) {
-      console.log(`[Campaign ${campaignId}] Daily limit of ${DAILY_LIMIT} reached — auto-pausing`);
-      await prisma.campaign.update({
-        where: { id: campaignId },
-        data: { status: 'PAUSED' },
-      });
-      break;
-    }
-
-    try {
-      const result = await sendCampaignMessage(leadId, campaignId, templateId, [], headerMediaUrl);
-
-      // Update campaign-lead status
-      const newStatus = result.success ? 'SENT' : 'FAILED';
-      await prisma.campaignLead.updateMany({
-        where: { campaignId, leadId },
-        data: { status: newStatus },
-      });
-
-      if (result.success) {
-        sent++;
-      } else {
-        failed++;
-        console.log(`[Campaign ${campaignId}] Failed for lead ${leadId}: [${result.errorCode}] ${result.error}`);
-      }
-
-      // Update rolling window and check success rate
-      recentOutcomes.push(result.success);
-      if (recentOutcomes.length > RATE_WINDOW) recentOutcomes.shift();
-
-      if (recentOutcomes.length === RATE_WINDOW) {
-        const successCount = recentOutcomes.filter(Boolean).length;
-        const successRate = successCount / RATE_WINDOW;
-        if (successRate < MIN_SUCCESS_RATE) {
-          console.log(`[Campaign ${campaignId}] Success rate dropped to ${Math.round(successRate * 100)}% over last ${RATE_WINDOW} messages — auto-pausing`);
-          await prisma.campaign.update({
-            where: { id: campaignId },
-            data: { status: 'PAUSED', failedCount: failed },
-          });
-          break;
-        }
-      }
-
-      // Update campaign counters
-      await prisma.campaign.update({
-        where: { id: campaignId },
-        data: {
-          sentCount: sent,
-          failedCount: failed,
-        },
-      });
-    } catch (err: any) {
-      failed++;
-      console.error(`[Campaign ${campaignId}] Error sending to ${leadId}:`, err.message);
-
-      await prisma.campaignLead.updateMany({
-        where: { campaignId, leadId },
-        data: { status: 'FAILED' },
-      });
-    }
-
-    // Rate limit: configured delay + random jitter (up to 10% of delay) to appear natural
-    const jitter = Math.floor(Math.random() * Math.max(BASE_DELAY * 0.1, 2000));
-    await new Promise(resolve => setTimeout(resolve, BASE_DELAY + jitter));
-  }
-
-  // Mark campaign as completed if it's still running
-  const finalCampaign = await prisma.campaign.findUnique({
-    where: { id: campaignId },
-    select: { status: true },
-  });
-
-  if (finalCampaign?.status === 'RUNNING') {
-    await prisma.campaign.update({
-      where: { id: campaignId },
-      data: {
-        status: 'COMPLETED',
-        completedAt: new Date(),
-        sentCount: sent,
-        failedCount: failed,
-      },
-    });
-  }
-
-  console.log(`[Campaign ${campaignId}] Done — sent: ${sent}, failed: ${failed}`);
-}
-
 export default router;
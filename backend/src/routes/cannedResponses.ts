@@ -0,0 +1,128 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authenticate } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { renderReplyText, findUnknownVariables } from '../services/autoReplies/render.js';
+
+const router = Router();
+
+const cannedResponseSchema = z.object({
+  shortcut: z.string().trim().toLowerCase()
+    .transform((s) => s.replace(/^\//, ''))
+    .pipe(z.string().regex(/^[a-z0-9][a-z0-9_-]{0,29}$/, 'Shortcut: up to 30 letters, numbers, - or _')),
+  title: z.string().trim().min(1, 'Title is required').max(100),
+  body: z.string().trim().min(1, 'Reply text is required').max(4096),
+  mediaAssetId: z.string().nullable().optional(),
+});
+
+const include = {
+  mediaAsset: { select: { id: true, name: true, filename: true, mimeType: true, mediaType: true } },
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+async function checkCannedResponse(body: string, mediaAssetId: string | null | undefined) {
+  const unknown = findUnknownVariables(body);
+  if (unknown.length > 0) {
+    throw new AppError(`Unknown variable(s): ${unknown.map((v) => `{{${v}}}`).join(', ')}`, 400);
+  }
+  if (mediaAssetId) {
+    const asset = await prisma.mediaAsset.findUnique({ where: { id: mediaAssetId }, select: { id: true } });
+    if (!asset) throw new AppError('Attached media not found', 400);
+    // Sent as the media caption
+    if (body.length > 1024) throw new AppError('Replies with media are limited to 1024 characters', 400);
+  }
+}
+
+// GET /api/canned-responses — List saved replies, most used first
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const search = (req.query.search as string | undefined)?.trim().replace(/^\//, '');
+
+  const responses = await prisma.cannedResponse.findMany({
+    where: search
+      ? {
+        OR: [
+          { shortcut: { startsWith: search.toLowerCase() } },
+          { title: { contains: search, mode: 'insensitive' } },
+        ],
+      }
+      : undefined,
+    include,
+    orderBy: [{ usageCount: 'desc' }, { shortcut: 'asc' }],
+  });
+
+  res.json({ success: true, data: responses });
+});
+
+// GET /api/canned-responses/:id/render?leadId= — Reply text personalised for a lead
+router.get('/:id/render', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const leadId = z.string().min(1, 'leadId is required').parse(req.query.leadId);
+
+  const [response, lead] = await Promise.all([
+    prisma.cannedResponse.findUnique({ where: { id: req.params.id }, include }),
+    prisma.lead.findUnique({ where: { id: leadId } }),
+  ]);
+  if (!response) throw new AppError('Saved reply not found', 404);
+  if (!lead) throw new AppError('Lead not found', 404);
+
+  res.json({
+    success: true,
+    data: { text: renderReplyText(response.body, lead), mediaAsset: response.mediaAsset },
+  });
+});
+
+// POST /api/canned-responses — Add a saved reply
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const data = cannedResponseSchema.parse(req.body);
+
+  const existing = await prisma.cannedResponse.findUnique({ where: { shortcut: data.shortcut } });
+  if (existing) throw new AppError(`/${data.shortcut} is already used by "${existing.title}"`, 409);
+
+  await checkCannedResponse(data.body, data.mediaAssetId);
+
+  const response = await prisma.cannedResponse.create({
+    data: { ...data, mediaAssetId: data.mediaAssetId || null, createdById: req.user!.id },
+    include,
+  });
+
+  res.status(201).json({ success: true, data: response, message: 'Saved reply added' });
+});
+
+// PUT /api/canned-responses/:id — Update a saved reply
+router.put('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const existing = await prisma.cannedResponse.findUnique({ where: { id: req.params.id } });
+  if (!existing) throw new AppError('Saved reply not found', 404);
+
+  const data = cannedResponseSchema.partial().parse(req.body);
+
+  if (data.shortcut && data.shortcut !== existing.shortcut) {
+    const clash = await prisma.cannedResponse.findUnique({ where: { shortcut: data.shortcut } });
+    if (clash) throw new AppError(`/${data.shortcut} is already used by "${clash.title}"`, 409);
+  }
+
+  await checkCannedResponse(
+    data.body ?? existing.body,
+    data.mediaAssetId !== undefined ? data.mediaAssetId : existing.mediaAssetId
+  );
+
+  const response = await prisma.cannedResponse.update({
+    where: { id: req.params.id },
+    data: { ...data, ...(data.mediaAssetId !== undefined && { mediaAssetId: data.mediaAssetId || null }) },
+    include,
+  });
+
+  res.json({ success: true, data: response });
+});
+
+// DELETE /api/canned-responses/:id — Delete a saved reply
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const existing = await prisma.cannedResponse.findUnique({ where: { id: req.params.id } });
+  if (!existing) throw new AppError('Saved reply not found', 404);
+
+  await prisma.cannedResponse.delete({ where: { id: req.params.id } });
+
+  res.json({ success: true, message: 'Saved reply deleted' });
+});
+
+export default router;
@@ -0,0 +1,140 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authenticate } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, ApiResponse, ChatbotStep } from '../types/index.js';
+import { validateFlowSteps, startFlow, continueFlow } from '../services/chatbot/engine.js';
+
+const router = Router();
+
+// Validation schemas
+const stepSchema = z.object({
+  id: z.string().trim().min(1, 'Step id is required').max(50),
+  message: z.object({
+    type: z.enum(['TEXT', 'MEDIA', 'BUTTONS']),
+    text: z.string().trim().min(1, 'Message text is required').max(1024),
+    mediaUrl: z.string().url().optional(),
+    mediaType: z.enum(['image', 'video', 'document']).optional(),
+    buttons: z.array(z.object({
+      id: z.string().trim().min(1).max(50),
+      title: z.string().trim().min(1).max(20),
+      next: z.string().optional(),
+    })).optional(),
+  }),
+  actions: z.object({
+    setFields: z.record(z.string()).optional(),
+    addTags: z.array(z.string().trim().min(1)).optional(),
+    setStatus: z.enum(['NEW', 'CONTACTED', 'INTERESTED', 'NEGOTIATING', 'CONVERTED', 'REJECTED', 'DO_NOT_CONTACT']).optional(),
+  }).optional(),
+  capture: z.string().optional(),
+  next: z.string().optional(),
+  handoff: z.boolean().optional(),
+});
+
+const stepsSchema = z.array(stepSchema).superRefine((steps, ctx) => {
+  for (const error of validateFlowSteps(steps)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+const flowSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().optional(),
+  triggerKeywords: z.array(z.string().trim().min(1)).default([]),
+  steps: stepsSchema,
+  isActive: z.boolean().default(false),
+  priority: z.number().int().default(0),
+});
+
+const simulateSchema = z.object({
+  steps: stepsSchema,
+  stepId: z.string().optional(),   // waiting step; omit to start the flow
+  answer: z.object({
+    text: z.string(),
+    buttonId: z.string().optional(),
+  }).optional(),
+});
+
+// GET /api/chatbot-flows — List flows with session counts
+router.get('/', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const [flows, sessionCounts] = await Promise.all([
+    prisma.chatbotFlow.findMany({ orderBy: { priority: 'asc' } }),
+    prisma.chatbotSession.groupBy({
+      by: ['flowId', 'status'],
+      _count: true,
+    }),
+  ]);
+
+  const data = flows.map((flow) => {
+    const counts = sessionCounts.filter((c) => c.flowId === flow.id);
+    const count = (status: string) => counts.find((c) => c.status === status)?._count || 0;
+    return {
+      ...flow,
+      sessions: {
+        active: count('ACTIVE'),
+        completed: count('COMPLETED'),
+        handedOff: count('HANDED_OFF'),
+        expired: count('EXPIRED'),
+      },
+    };
+  });
+
+  res.json({ success: true, data });
+});
+
+// POST /api/chatbot-flows/simulate — Run one turn of a (possibly unsaved) flow without WhatsApp
+router.post('/simulate', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { steps, stepId, answer } = simulateSchema.parse(req.body);
+
+  const turn = stepId
+    ? continueFlow(steps as ChatbotStep[], stepId, answer || { text: '' })
+    : startFlow(steps as ChatbotStep[]);
+
+  res.json({ success: true, data: turn });
+});
+
+// POST /api/chatbot-flows — Create flow
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const data = flowSchema.parse(req.body);
+
+  const flow = await prisma.chatbotFlow.create({ data });
+
+  res.status(201).json({ success: true, data: flow, message: 'Chatbot flow created' });
+});
+
+// PUT /api/chatbot-flows/:id — Update flow
+router.put('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const existing = await prisma.chatbotFlow.findUnique({ where: { id: req.params.id } });
+  if (!existing) throw new AppError('Chatbot flow not found', 404);
+
+  const data = flowSchema.partial().parse(req.body);
+
+  const flow = await prisma.chatbotFlow.update({
+    where: { id: req.params.id },
+    data,
+  });
+
+  // Steps changed under open conversations — their waiting step may no longer exist
+  if (data.steps) {
+    const stepIds = data.steps.map((s) => s.id);
+    await prisma.chatbotSession.updateMany({
+      where: { flowId: flow.id, status: 'ACTIVE', stepId: { notIn: stepIds } },
+      data: { status: 'EXPIRED', endedAt: new Date() },
+    });
+  }
+
+  res.json({ success: true, data: flow });
+});
+
+// DELETE /api/chatbot-flows/:id — Delete flow (and its sessions)
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const existing = await prisma.chatbotFlow.findUnique({ where: { id: req.params.id } });
+  if (!existing) throw new AppError('Chatbot flow not found', 404);
+
+  await prisma.chatbotFlow.delete({ where: { id: req.params.id } });
+
+  res.json({ success: true, message: 'Chatbot flow deleted' });
+});
+
+export default router;
@@ -0,0 +1,93 @@
+import { Router, Response } from 'express';
+import { ConsentAction } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authenticate } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+const consentKeywordSchema = z.object({
+  keyword: z.string().trim().min(1, 'Keyword is required').max(50).transform((k) => k.toLowerCase().replace(/\s+/g, ' ')),
+  action: z.enum(['OPT_OUT', 'OPT_IN']),
+  language: z.string().trim().min(2).max(10).default('en'),
+  replyText: z.string().trim().max(1024).nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+// GET /api/consent-keywords — List keywords
+router.get('/', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const keywords = await prisma.consentKeyword.findMany({
+    orderBy: [{ action: 'asc' }, { language: 'asc' }, { keyword: 'asc' }],
+  });
+
+  res.json({ success: true, data: keywords });
+});
+
+/**
+ * A keyword is unique per language. The same word in another language may
+ * carry its own reply, but not the opposite action — a message can't both
+ * opt out and opt in.
+ */
+async function checkKeywordClash(
+  keyword: { keyword: string; language: string; action: ConsentAction },
+  excludeId?: string
+): Promise<void> {
+  const others = await prisma.consentKeyword.findMany({
+    where: { keyword: keyword.keyword, ...(excludeId && { id: { not: excludeId } }) },
+  });
+
+  if (others.some((k) => k.language === keyword.language)) {
+    throw new AppError(`"${keyword.keyword}" is already a keyword in ${keyword.language}`, 409);
+  }
+  const opposite = others.find((k) => k.action !== keyword.action);
+  if (opposite) {
+    throw new AppError(
+      `"${keyword.keyword}" is an ${opposite.action === 'OPT_OUT' ? 'opt-out' : 'opt-in'} keyword in ${opposite.language}`,
+      409
+    );
+  }
+}
+
+// POST /api/consent-keywords — Add keyword
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const data = consentKeywordSchema.parse(req.body);
+
+  await checkKeywordClash(data);
+
+  const keyword = await prisma.consentKeyword.create({
+    data: { ...data, replyText: data.replyText || null },
+  });
+
+  res.status(201).json({ success: true, data: keyword, message: 'Keyword added' });
+});
+
+// PUT /api/consent-keywords/:id — Update keyword
+router.put('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const existing = await prisma.consentKeyword.findUnique({ where: { id: req.params.id } });
+  if (!existing) throw new AppError('Keyword not found', 404);
+
+  const data = consentKeywordSchema.partial().parse(req.body);
+
+  await checkKeywordClash({ ...existing, ...data }, existing.id);
+
+  const keyword = await prisma.consentKeyword.update({
+    where: { id: req.params.id },
+    data: { ...data, ...(data.replyText !== undefined && { replyText: data.replyText || null }) },
+  });
+
+  res.json({ success: true, data: keyword });
+});
+
+// DELETE /api/consent-keywords/:id — Delete keyword
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const existing = await prisma.consentKeyword.findUnique({ where: { id: req.params.id } });
+  if (!existing) throw new AppError('Keyword not found', 404);
+
+  await prisma.consentKeyword.delete({ where: { id: req.params.id } });
+
+  res.json({ success: true, message: 'Keyword deleted' });
+});
+
+export default router;
@@ -1,11 +1,23 @@
 import { Router, Response, Request } from 'express';
+import { Lead, MessageTemplate, Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { prisma } from '../config/database.js';
 import { authenticate } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
-import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { AuthenticatedRequest, ApiResponse, ReplyWindow } from '../types/index.js';
 import { env } from '../config/env.js';
 import { whatsappClient } from '../services/whatsapp/client.js';
+import { resolveTemplateVariables } from '../services/whatsapp/templateVariables.js';
+import {
+  trackNewMessage, markConversationRead, markConversationUnread, assignConversation,
+  getUnreadConversationIds, getUnreadCounts,
+  getReplyWindow, replyWindowFrom,
+} from '../services/conversations.js';
+import { sendPushNotification } from '../services/pushNotification.js';
+import {
+  getLeadTimeline, announceTimelineChange, recordLeadActivity, leadChangeActivities,
+} from '../services/leadTimeline.js';
+import { getWhatsAppMediaId, LibraryMediaType } from '../services/mediaLibrary.js';
 import multer from 'multer';
 
 const router = Router();
@@ -15,8 +27,25 @@ const upload = multer({
   limits: { fileSize: 16 * 1024 * 1024 },
 });
 
+const noteSchema = z.object({
+  body: z.string().trim().min(1, 'Note is empty').max(4000),
+});
+
+const assignSchema = z.object({
+  userId: z.string().min(1).nullable(),
+});
+
 const sendTextSchema = z.object({
   text: z.string().min(1, 'Message text is required').max(4096),
+  cannedResponseId: z.string().optional(), // saved reply it started from, for usage stats
+  fallbackTemplateId: z.string().optional(), // sent instead if the reply window has closed
+});
+
+const sendMediaSchema = z.object({
+  caption: z.string().max(1024).default(''),
+  mediaAssetId: z.string().optional(), // send from the media library instead of an upload
+  cannedResponseId: z.string().optional(),
+  fallbackTemplateId: z.string().optional(),
 });
 
 const sendTemplateSchema = z.object({
@@ -25,69 +54,217 @@ const sendTemplateSchema = z.object({
   headerMediaUrl: z.string().url().optional(),
 });
 
-// GET /api/conversations - List leads with their latest message (paginated, sorted by latest message)
+async function markCannedResponseUsed(id: string) {
+  // updateMany: the saved reply may have been deleted while the agent was typing
+  await prisma.cannedResponse.updateMany({
+    where: { id },
+    data: { usageCount: { increment: 1 }, lastUsedAt: new Date() },
+  });
+}
+
+// A lead's first message moves it from NEW to CONTACTED, on the timeline too
+async function markLeadContacted(lead: Lead, actorId: string) {
+  const status = lead.status === 'NEW' ? 'CONTACTED' as const : undefined;
+  await prisma.lead.update({
+    where: { id: lead.id },
+    data: { lastContactedAt: new Date(), ...(status && { status }) },
+  });
+  await recordLeadActivity(leadChangeActivities(lead, { status }, { actorId }));
+}
+
+function windowClosedMessage(window: ReplyWindow): string {
+  if (!window.expiresAt) {
+    return 'This lead has not messaged you yet. Send an approved template message to start the conversation.';
+  }
+  return `The 24-hour reply window closed at ${window.expiresAt.toISOString()}. ` +
+    'You can only send approved template messages to restart the conversation.';
+}
+
+/**
+ * Send an approved template to a lead and log it. Blank body variables are
+ * filled from the lead's own data; an unfillable one is an error.
+ */
+async function sendTemplateToLead(
+  lead: Lead,
+  template: MessageTemplate,
+  actorId: string,
+  bodyParams: string[] = [],
+  headerMediaUrl?: string
+) {
+  if (template.status !== 'APPROVED') throw new AppError('Template must be approved', 400);
+  if (!template.whatsappTemplateName) throw new AppError('Template not configured for WhatsApp', 400);
+
+  // Typed values win; blanks fall back to the lead's own data. Never send an empty variable.
+  const { params: resolved } = resolveTemplateVariables(template.bodyText, lead);
+  const namedBodyParams = resolved.map((param, i) => ({
+    name: param.name,
+    value: bodyParams[i]?.trim() || param.value,
+  }));
+  const emptyParam = namedBodyParams.find((param) => !param.value);
+  if (emptyParam) throw new AppError(`Provide a value for template variable {{${emptyParam.name}}}`, 400);
+
+  // Build header params for templates with IMAGE/VIDEO headers
+  const mediaUrl = headerMediaUrl || template.headerContent || undefined;
+
+  const messageLog = await prisma.messageLog.create({
+    data: {
+      leadId: lead.id,
+      templateId: template.id,
+      channel: 'WHATSAPP',
+      direction: 'OUTBOUND',
+      content: mediaUrl ? JSON.stringify({ text: template.bodyText, mediaUrl, mediaType: template.headerType }) : template.bodyText,
+      status: 'PENDING',
+    },
+  });
+  let headerParams: { type: 'text' | 'image' | 'video'; value: string } | undefined;
+  if (template.headerType === 'IMAGE' && mediaUrl) {
+    headerParams = { type: 'image', value: mediaUrl };
+  } else if (template.headerType === 'VIDEO' && mediaUrl) {
+    headerParams = { type: 'video', value: mediaUrl };
+  }
+
+  const components = whatsappClient.buildTemplateComponents(namedBodyParams, headerParams);
+  const result = await whatsappClient.sendTemplateMessage({
+    to: lead.phone,
+    templateName: template.whatsappTemplateName,
+    languageCode: template.language,
+    components,
+  });
+
+  if (!result.success) {
+    const failedLog = await prisma.messageLog.update({
+      where: { id: messageLog.id },
+      data: {
+        status: 'FAILED',
+        failedAt: new Date(),
+        errorMessage: result.error,
+      },
+    });
+    await trackNewMessage(failedLog);
+
+    throw new AppError(`Failed to send template message: ${result.error}`, 400);
+  }
+
+  const updated = await prisma.messageLog.update({
+    where: { id: messageLog.id },
+    data: {
+      whatsappMessageId: result.messageId,
+      status: 'SENT',
+      sentAt: new Date(),
+    },
+  });
+  await trackNewMessage(updated);
+
+  await markLeadContacted(lead, actorId);
+
+  return updated;
+}
+
+/**
+ * Free-form messages are refused outside the reply window — unless the agent
+ * picked a re-engagement template to send instead
+ */
+async function sendFallbackIfWindowClosed(
+  lead: Lead,
+  fallbackTemplateId: string | undefined,
+  actorId: string,
+  res: Response<ApiResponse>
+): Promise<boolean> {
+  const window = await getReplyWindow(lead.id);
+  if (window.open) return false;
+
+  if (!fallbackTemplateId) throw new AppError(windowClosedMessage(window), 400);
+
+  const template = await prisma.messageTemplate.findUnique({ where: { id: fallbackTemplateId } });
+  if (!template) throw new AppError('Fallback template not found', 404);
+
+  const sent = await sendTemplateToLead(lead, template, actorId);
+  console.log(`[Inbox] Reply window closed for lead ${lead.id}; sent template "${template.name}" instead`);
+  res.json({
+    success: true,
+    data: sent,
+    message: `Reply window closed — sent template "${template.name}" instead`,
+  });
+  return true;
+}
+
+// GET /api/conversations - Inbox, newest activity first (paginated from the conversation summaries)
 router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const page = Math.max(1, parseInt(req.query.page as string) || 1);
   const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 30));
   const search = req.query.search as string | undefined;
-  const filter = req.query.filter as string | undefined; // 'replied' = only leads with inbound messages
+  // 'replied' = leads who have messaged us, 'unread' = new inbound since this user last looked
+  const filter = req.query.filter as string | undefined;
+  const assignee = req.query.assignee as string | undefined; // 'me' | 'unassigned' | a user ID
+  const userId = req.user!.id;
+
+  const where: Prisma.ConversationWhereInput = {};
+
+  if (assignee === 'me') {
+    where.assignedToId = userId;
+  } else if (assignee === 'unassigned') {
+    where.assignedToId = null;
+  } else if (assignee) {
+    where.assignedToId = assignee;
+  }
 
-  const where: any = {
-    messages: { some: filter === 'replied' ? { direction: 'INBOUND' } : {} },
-  };
+  if (filter === 'replied') {
+    where.lastInboundAt = { not: null };
+  } else if (filter === 'unread') {
+    where.id = { in: await getUnreadConversationIds(userId) };
+  }
 
   if (search) {
-    where.OR = [
-      { name: { contains: search, mode: 'insensitive' } },
-      { phone: { contains: search } },
-      { businessName: { contains: search, mode: 'insensitive' } },
-    ];
+    where.lead = {
+      OR: [
+        { name: { contains: search, mode: 'insensitive' } },
+        { phone: { contains: search } },
+        { businessName: { contains: search, mode: 'insensitive' } },
+      ],
+    };
   }
 
-  // Fetch all matching leads, sort by latest message, then paginate
-  const allLeads = await prisma.lead.findMany({
-    where,
-    select: {
-      id: true,
-      name: true,
-      phone: true,
-      businessName: true,
-      city: true,
-      optedOut: true,
-      lastContactedAt: true,
-      messages: {
-        orderBy: { createdAt: 'desc' },
-        take: 1,
-        select: {
-          id: true,
-          content: true,
-          direction: true,
-          status: true,
-          createdAt: true,
+  const [rows, total] = await Promise.all([
+    prisma.conversation.findMany({
+      where,
+      orderBy: { lastMessageAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        lead: {
+          select: { id: true, name: true, phone: true, businessName: true, city: true, optedOut: true },
+        },
+        lastMessage: {
+          select: { id: true, content: true, direction: true, status: true, createdAt: true },
+        },
+        assignedTo: {
+          select: { id: true, name: true },
         },
       },
-    },
-  });
-
-  // Sort all by latest message timestamp, then paginate
-  const sorted = allLeads
-    .map((lead) => ({
-      leadId: lead.id,
-      name: lead.name,
-      phone: lead.phone,
-      businessName: lead.businessName,
-      city: lead.city,
-      optedOut: lead.optedOut,
-      lastMessage: lead.messages[0] || null,
-    }))
-    .sort((a, b) => {
-      const aTime = a.lastMessage?.createdAt ? new Date(a.lastMessage.createdAt).getTime() : 0;
-      const bTime = b.lastMessage?.createdAt ? new Date(b.lastMessage.createdAt).getTime() : 0;
-      return bTime - aTime;
-    });
+    }),
+    prisma.conversation.count({ where }),
+  ]);
 
-  const total = sorted.length;
-  const conversations = sorted.slice((page - 1) * limit, page * limit);
+  const unreadCounts = await getUnreadCounts(userId, rows.map((row) => row.leadId));
+
+  const conversations = rows.map((row) => {
+    const window = replyWindowFrom(row.lastInboundAt);
+    return {
+      leadId: row.lead.id,
+      name: row.lead.name,
+      phone: row.lead.phone,
+      businessName: row.lead.businessName,
+      city: row.lead.city,
+      optedOut: row.lead.optedOut,
+      lastMessage: row.lastMessage,
+      lastMessageAt: row.lastMessageAt,
+      lastInboundAt: row.lastInboundAt,
+      windowOpen: window.open,
+      windowExpiresAt: window.expiresAt,
+      unreadCount: unreadCounts.get(row.leadId) ?? 0,
+      assignedTo: row.assignedTo,
+    };
+  });
 
   res.json({
     success: true,
@@ -96,6 +273,13 @@ router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response<Ap
   });
 });
 
+// GET /api/conversations/unread-count - Threads with unread messages for the current user
+router.get('/unread-count', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const count = (await getUnreadConversationIds(req.user!.id)).length;
+
+  res.json({ success: true, data: { count } });
+});
+
 // GET /api/conversations/media/:mediaId - Proxy inbound WhatsApp media for viewing/downloading
 router.get('/media/:mediaId', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   const { mediaId } = req.params;
@@ -167,7 +351,7 @@ router.get('/:leadId/messages', authenticate, async (req: AuthenticatedRequest,
     throw new AppError('Lead not found', 404);
   }
 
-  const [messages, total] = await Promise.all([
+  const [messages, total, window] = await Promise.all([
     prisma.messageLog.findMany({
       where: { leadId },
       orderBy: { createdAt: 'asc' },
@@ -193,6 +377,7 @@ router.get('/:leadId/messages', authenticate, async (req: AuthenticatedRequest,
       },
     }),
     prisma.messageLog.count({ where: { leadId } }),
+    getReplyWindow(lead.id),
   ]);
 
   res.json({
@@ -200,15 +385,66 @@ router.get('/:leadId/messages', authenticate, async (req: AuthenticatedRequest,
     data: {
       lead,
       messages,
+      window,
     },
     pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
   });
 });
 
+// GET /api/conversations/:leadId/timeline - Internal notes and lead events to show alongside the messages
+router.get('/:leadId/timeline', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const lead = await prisma.lead.findUnique({ where: { id: req.params.leadId }, select: { id: true } });
+
+  if (!lead) {
+    throw new AppError('Lead not found', 404);
+  }
+
+  res.json({ success: true, data: await getLeadTimeline(lead.id) });
+});
+
+// POST /api/conversations/:leadId/notes - Add an internal note (visible to the team, never sent)
+router.post('/:leadId/notes', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const leadId = req.params.leadId!;
+  const { body } = noteSchema.parse(req.body);
+
+  const lead = await prisma.lead.findUnique({ where: { id: leadId }, select: { id: true } });
+  if (!lead) {
+    throw new AppError('Lead not found', 404);
+  }
+
+  const note = await prisma.leadNote.create({
+    data: { leadId, body, authorId: req.user!.id },
+    include: { author: { select: { id: true, name: true } } },
+  });
+  announceTimelineChange(leadId);
+
+  res.status(201).json({ success: true, data: note, message: 'Note added' });
+});
+
+// DELETE /api/conversations/:leadId/notes/:noteId - Delete a note (its author or an admin)
+router.delete('/:leadId/notes/:noteId', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const note = await prisma.leadNote.findFirst({
+    where: { id: req.params.noteId, leadId: req.params.leadId },
+  });
+
+  if (!note) {
+    throw new AppError('Note not found', 404);
+  }
+
+  if (note.authorId !== req.user!.id && req.user!.role !== 'ADMIN') {
+    throw new AppError('Only the author or an admin can delete this note', 403);
+  }
+
+  await prisma.leadNote.delete({ where: { id: note.id } });
+  announceTimelineChange(note.leadId);
+
+  res.json({ success: true, message: 'Note deleted' });
+});
+
 // POST /api/conversations/:leadId/send-text - Send a text message to a lead
 router.post('/:leadId/send-text', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const leadId = req.params.leadId!;
-  const { text } = sendTextSchema.parse(req.body);
+  const { text, cannedResponseId, fallbackTemplateId } = sendTextSchema.parse(req.body);
 
   const lead = await prisma.lead.findUnique({ where: { id: leadId } });
 
@@ -220,6 +456,8 @@ router.post('/:leadId/send-text', authenticate, async (req: AuthenticatedRequest
     throw new AppError('Cannot send messages to opted-out leads', 400);
   }
 
+  if (await sendFallbackIfWindowClosed(lead, fallbackTemplateId, req.user!.id, res)) return;
+
   const messageLog = await prisma.messageLog.create({
     data: {
       leadId,
@@ -241,11 +479,11 @@ router.post('/:leadId/send-text', authenticate, async (req: AuthenticatedRequest
         sentAt: new Date(),
       },
     });
+    await trackNewMessage(updated);
 
-    await prisma.lead.update({
-      where: { id: leadId },
-      data: { lastContactedAt: new Date(), ...(lead.status === 'NEW' ? { status: 'CONTACTED' } : {}) },
-    });
+    await markLeadContacted(lead, req.user!.id);
+
+    if (cannedResponseId) await markCannedResponseUsed(cannedResponseId);
 
     res.json({
       success: true,
@@ -253,7 +491,7 @@ router.post('/:leadId/send-text', authenticate, async (req: AuthenticatedRequest
       message: 'Message sent',
     });
   } else {
-    await prisma.messageLog.update({
+    const failedLog = await prisma.messageLog.update({
       where: { id: messageLog.id },
       data: {
         status: 'FAILED',
@@ -261,6 +499,7 @@ router.post('/:leadId/send-text', authenticate, async (req: AuthenticatedRequest
         errorMessage: result.error,
       },
     });
+    await trackNewMessage(failedLog);
 
     // 131047 = 24-hour re-engagement window has closed
     if (result.errorCode === 131047) {
@@ -289,102 +528,57 @@ router.post('/:leadId/send-template', authenticate, async (req: AuthenticatedReq
 
   if (!lead) throw new AppError('Lead not found', 404);
   if (!template) throw new AppError('Template not found', 404);
-  if (template.status !== 'APPROVED') throw new AppError('Template must be approved', 400);
-  if (!template.whatsappTemplateName) throw new AppError('Template not configured for WhatsApp', 400);
   if (lead.optedOut) throw new AppError('Cannot send messages to opted-out leads', 400);
 
-  // Build header params for templates with IMAGE/VIDEO headers
-  const mediaUrl = headerMediaUrl || template.headerContent || undefined;
+  const sent = await sendTemplateToLead(lead, template, req.user!.id, bodyParams, headerMediaUrl);
 
-  const messageLog = await prisma.messageLog.create({
-    data: {
-      leadId,
-      templateId,
-      channel: 'WHATSAPP',
-      direction: 'OUTBOUND',
-      content: mediaUrl ? JSON.stringify({ text: template.bodyText, mediaUrl, mediaType: template.headerType }) : template.bodyText,
-      status: 'PENDING',
-    },
-  });
-  let headerParams: { type: 'text' | 'image' | 'video'; value: string } | undefined;
-  if (template.headerType === 'IMAGE' && mediaUrl) {
-    headerParams = { type: 'image', value: mediaUrl };
-  } else if (template.headerType === 'VIDEO' && mediaUrl) {
-    headerParams = { type: 'video', value: mediaUrl };
-  }
-
-  // Extract variable names from template body to build named params
-  const allVars = template.bodyText.match(/\{\{[^}]+\}\}/g) || [];
-  const namedBodyParams = bodyParams.map((value, i) => ({
-    name: allVars[i] ? allVars[i].replace(/\{|\}/g, '').toLowerCase() : String(i + 1),
-    value: value || 'N/A',
-  }));
-
-  const components = whatsappClient.buildTemplateComponents(namedBodyParams, headerParams);
-  const result = await whatsappClient.sendTemplateMessage({
-    to: lead.phone,
-    templateName: template.whatsappTemplateName,
-    languageCode: template.language,
-    components,
+  res.json({
+    success: true,
+    data: sent,
+    message: 'Template message sent',
   });
-
-  if (result.success) {
-    const updated = await prisma.messageLog.update({
-      where: { id: messageLog.id },
-      data: {
-        whatsappMessageId: result.messageId,
-        status: 'SENT',
-        sentAt: new Date(),
-      },
-    });
-
-    await prisma.lead.update({
-      where: { id: leadId },
-      data: { lastContactedAt: new Date(), ...(lead.status === 'NEW' ? { status: 'CONTACTED' } : {}) },
-    });
-
-    res.json({
-      success: true,
-      data: updated,
-      message: 'Template message sent',
-    });
-  } else {
-    await prisma.messageLog.update({
-      where: { id: messageLog.id },
-      data: {
-        status: 'FAILED',
-        failedAt: new Date(),
-        errorMessage: result.error,
-      },
-    });
-
-    throw new AppError(`Failed to send template message: ${result.error}`, 400);
-  }
 });
 
 // POST /api/conversations/:leadId/send-media - Send a media message (image, video, doc)
 router.post('/:leadId/send-media', authenticate, upload.single('file'), async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const leadId = req.params.leadId!;
   const file = (req as any).file as Express.Multer.File | undefined;
-  const caption = req.body?.caption || '';
+  const { caption, mediaAssetId, cannedResponseId, fallbackTemplateId } = sendMediaSchema.parse(req.body ?? {});
 
-  if (!file) throw new AppError('No file uploaded', 400);
+  if (!file && !mediaAssetId) throw new AppError('No file uploaded', 400);
 
   const lead = await prisma.lead.findUnique({ where: { id: leadId } });
   if (!lead) throw new AppError('Lead not found', 404);
   if (lead.optedOut) throw new AppError('Cannot send messages to opted-out leads', 400);
 
-  // Determine WhatsApp media type
+  // Checked before uploading anything to WhatsApp
+  if (await sendFallbackIfWindowClosed(lead, fallbackTemplateId, req.user!.id, res)) return;
+
+  let mediaId: string;
   let mediaType: 'image' | 'video' | 'document' | 'audio';
-  if (file.mimetype.startsWith('image/')) mediaType = 'image';
-  else if (file.mimetype.startsWith('video/')) mediaType = 'video';
-  else if (file.mimetype.startsWith('audio/')) mediaType = 'audio';
-  else mediaType = 'document';
-
-  // Upload to WhatsApp
-  const uploadResult = await whatsappClient.uploadMedia(file.buffer, file.mimetype, file.originalname);
-  if (!uploadResult.success) {
-    throw new AppError(`Media upload failed: ${uploadResult.error}`, 400);
+  let filename: string;
+
+  if (file) {
+    // Determine WhatsApp media type
+    if (file.mimetype.startsWith('image/')) mediaType = 'image';
+    else if (file.mimetype.startsWith('video/')) mediaType = 'video';
+    else if (file.mimetype.startsWith('audio/')) mediaType = 'audio';
+    else mediaType = 'document';
+
+    // Upload to WhatsApp
+    const uploadResult = await whatsappClient.uploadMedia(file.buffer, file.mimetype, file.originalname);
+    if (!uploadResult.success) {
+      throw new AppError(`Media upload failed: ${uploadResult.error}`, 400);
+    }
+    mediaId = uploadResult.mediaId;
+    filename = file.originalname;
+  } else {
+    const asset = await prisma.mediaAsset.findUnique({ where: { id: mediaAssetId } });
+    if (!asset) throw new AppError('Media not found', 404);
+
+    mediaId = await getWhatsAppMediaId(asset);
+    mediaType = asset.mediaType as LibraryMediaType;
+    filename = asset.filename;
   }
 
   // Create message log
@@ -394,16 +588,19 @@ router.post('/:leadId/send-media', authenticate, upload.single('file'), async (r
       channel: 'WHATSAPP',
       direction: 'OUTBOUND',
       content: JSON.stringify({
-        text: caption || file.originalname,
+        text: caption || filename,
         mediaType: mediaType.toUpperCase(),
-        filename: file.originalname,
+        mediaId: file ? undefined : mediaId,
+        filename,
       }),
       status: 'PENDING',
     },
   });
 
   // Send media message
-  const result = await whatsappClient.sendMediaMessage(lead.phone, uploadResult.mediaId, mediaType, caption || undefined);
+  const result = await whatsappClient.sendMediaMessage(
+    lead.phone, mediaId, mediaType, caption || undefined, file ? undefined : filename
+  );
 
   if (result.success) {
     const updated = await prisma.messageLog.update({
@@ -414,15 +611,15 @@ router.post('/:leadId/send-media', authenticate, upload.single('file'), async (r
         sentAt: new Date(),
       },
     });
+    await trackNewMessage(updated);
 
-    await prisma.lead.update({
-      where: { id: leadId },
-      data: { lastContactedAt: new Date(), ...(lead.status === 'NEW' ? { status: 'CONTACTED' } : {}) },
-    });
+    await markLeadContacted(lead, req.user!.id);
+
+    if (cannedResponseId) await markCannedResponseUsed(cannedResponseId);
 
     res.json({ success: true, data: updated, message: 'Media message sent' });
   } else {
-    await prisma.messageLog.update({
+    const failedLog = await prisma.messageLog.update({
       where: { id: messageLog.id },
       data: {
         status: 'FAILED',
@@ -430,14 +627,72 @@ router.post('/:leadId/send-media', authenticate, upload.single('file'), async (r
         errorMessage: result.error,
       },
     });
+    await trackNewMessage(failedLog);
 
-    throw new AppError(
-      `Failed to send media: ${result.error}. Note: Media messages only work within the 24-hour window.`,
-      400
-    );
+    throw new AppError(`Failed to send media: ${result.error}`, 400);
   }
 });
 
+// PUT /api/conversations/:leadId/assignee - Hand the conversation to a team member (or unassign)
+router.put('/:leadId/assignee', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const leadId = req.params.leadId!;
+  const { userId } = assignSchema.parse(req.body);
+
+  const conversation = await prisma.conversation.findUnique({ where: { leadId }, include: { lead: true } });
+  if (!conversation) {
+    throw new AppError('Conversation not found', 404);
+  }
+
+  const assignee = userId
+    ? await prisma.user.findUnique({ where: { id: userId }, select: { id: true, name: true } })
+    : null;
+  if (userId && !assignee) {
+    throw new AppError('User not found', 404);
+  }
+
+  if ((conversation.assignedToId ?? null) === (assignee?.id ?? null)) {
+    res.json({ success: true, data: { assignedTo: assignee }, message: 'No change' });
+    return;
+  }
+
+  await assignConversation(leadId, assignee, req.user!.id);
+
+  // Let the new owner know, unless they picked it up themselves
+  if (assignee && assignee.id !== req.user!.id) {
+    const assignedBy = await prisma.user.findUnique({ where: { id: req.user!.id }, select: { name: true } });
+    sendPushNotification({
+      title: 'Conversation assigned to you',
+      body: `${conversation.lead.name || conversation.lead.phone}, from ${assignedBy?.name || 'a teammate'}`,
+      url: `/conversations?lead=${leadId}`,
+      tag: `assign-${leadId}`,
+    }, assignee.id).catch((err) => console.error('Push notification error:', err));
+  }
+
+  res.json({
+    success: true,
+    data: { assignedTo: assignee },
+    message: assignee ? `Assigned to ${assignee.name}` : 'Conversation unassigned',
+  });
+});
+
+// POST /api/conversations/:leadId/read - Mark the thread read for the current user
+router.post('/:leadId/read', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  await markConversationRead(req.params.leadId!, req.user!.id);
+
+  res.json({ success: true, message: 'Marked as read' });
+});
+
+// POST /api/conversations/:leadId/unread - Mark the thread unread for the current user
+router.post('/:leadId/unread', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const found = await markConversationUnread(req.params.leadId!, req.user!.id);
+
+  if (!found) {
+    throw new AppError('Conversation not found', 404);
+  }
+
+  res.json({ success: true, message: 'Marked as unread' });
+});
+
 // DELETE /api/conversations/:leadId - Delete all messages for a lead
 router.delete('/:leadId', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const leadId = req.params.leadId;
@@ -448,9 +703,10 @@ router.delete('/:leadId', authenticate, async (req: AuthenticatedRequest, res: R
     throw new AppError('Lead not found', 404);
   }
 
-  const { count } = await prisma.messageLog.deleteMany({
-    where: { leadId },
-  });
+  const [{ count }] = await prisma.$transaction([
+    prisma.messageLog.deleteMany({ where: { leadId } }),
+    prisma.conversation.deleteMany({ where: { leadId } }),
+  ]);
 
   res.json({
     success: true,
@@ -0,0 +1,108 @@
+import { Router, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { getCustomFields, customFieldKey } from '../services/customFields.js';
+import { LEAD_VARIABLE_FIELDS } from '../services/whatsapp/templateVariables.js';
+
+const router = Router();
+
+// Keys double as template variable names — keep clear of the built-in ones
+const RESERVED_KEYS = new Set<string>([
+  ...LEAD_VARIABLE_FIELDS.map((f) => f.toLowerCase()),
+  'business_name', 'business_type', 'status', 'source', 'tags', 'notes',
+]);
+
+const optionsSchema = z.array(z.string().trim().min(1).max(100)).max(100)
+  .transform((options) => [...new Set(options)]);
+
+const createCustomFieldSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(60),
+  key: z.string().trim().toLowerCase()
+    .regex(/^[a-z][a-z0-9_]{1,39}$/, 'Key: 2-40 lowercase letters, numbers or _, starting with a letter')
+    .optional(),
+  type: z.enum(['TEXT', 'NUMBER', 'DATE', 'SELECT', 'MULTI_SELECT']),
+  options: optionsSchema.default([]),
+  order: z.number().int().default(0),
+}).refine((f) => (f.type !== 'SELECT' && f.type !== 'MULTI_SELECT') || f.options.length > 0, {
+  message: 'Add at least one option',
+  path: ['options'],
+});
+
+// The key and type stay fixed — stored values depend on them
+const updateCustomFieldSchema = z.object({
+  label: z.string().trim().min(1, 'Label is required').max(60).optional(),
+  options: optionsSchema.optional(),
+  order: z.number().int().optional(),
+});
+
+// GET /api/custom-fields — Field definitions, in display order
+router.get('/', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  res.json({ success: true, data: await getCustomFields() });
+});
+
+// POST /api/custom-fields — Define a field (admin only)
+router.post('/', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const data = createCustomFieldSchema.parse(req.body);
+  const key = data.key || customFieldKey(data.label);
+
+  if (!/^[a-z][a-z0-9_]{1,39}$/.test(key)) {
+    throw new AppError('Pick a key made of letters, numbers or _, starting with a letter', 400);
+  }
+  if (RESERVED_KEYS.has(key)) {
+    throw new AppError(`"${key}" is a built-in lead field — pick another key`, 400);
+  }
+  const existing = await prisma.customField.findUnique({ where: { key } });
+  if (existing) throw new AppError(`A field with key "${key}" already exists`, 409);
+
+  const field = await prisma.customField.create({
+    data: {
+      key,
+      label: data.label,
+      type: data.type,
+      options: data.type === 'SELECT' || data.type === 'MULTI_SELECT' ? data.options : [],
+      order: data.order,
+    },
+  });
+
+  res.status(201).json({ success: true, data: field, message: 'Field added' });
+});
+
+// PUT /api/custom-fields/:id — Rename, reorder or change options (admin only)
+router.put('/:id', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const existing = await prisma.customField.findUnique({ where: { id: req.params.id } });
+  if (!existing) throw new AppError('Field not found', 404);
+
+  const data = updateCustomFieldSchema.parse(req.body);
+  const isChoice = existing.type === 'SELECT' || existing.type === 'MULTI_SELECT';
+  if (data.options && isChoice && data.options.length === 0) {
+    throw new AppError('Add at least one option', 400);
+  }
+
+  const field = await prisma.customField.update({
+    where: { id: existing.id },
+    data: { ...data, ...(!isChoice && { options: [] }) },
+  });
+
+  res.json({ success: true, data: field });
+});
+
+// DELETE /api/custom-fields/:id — Remove a field and its values from every lead (admin only)
+router.delete('/:id', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const existing = await prisma.customField.findUnique({ where: { id: req.params.id } });
+  if (!existing) throw new AppError('Field not found', 404);
+
+  await prisma.$transaction([
+    prisma.$executeRaw(
+      Prisma.sql`UPDATE "leads" SET "customFields" = "customFields" - ${existing.key} WHERE "customFields" ? ${existing.key}`
+    ),
+    prisma.customField.delete({ where: { id: existing.id } }),
+  ]);
+
+  res.json({ success: true, message: 'Field deleted' });
+});
+
+export default router;
@@ -0,0 +1,37 @@
+import { Router, Response } from 'express';
+import { authenticate, authenticateEventStream, generateEventStreamToken } from '../middleware/auth.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { subscribeEvents } from '../services/realtime.js';
+
+const router = Router();
+
+// Comment lines keep proxies (and Railway's idle timeout) from closing a quiet stream
+const HEARTBEAT_MS = 25_000;
+
+// POST /api/events/token — Short-lived token for opening the event stream
+router.post('/token', authenticate, (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  res.json({ success: true, data: { token: generateEventStreamToken(req.user!) } });
+});
+
+// GET /api/events — Server-Sent Events stream of messages and campaign progress
+router.get('/', authenticateEventStream, (req: AuthenticatedRequest, res: Response) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribeEvents((event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export default router;
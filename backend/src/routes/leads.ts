@@ -1,7 +1,7 @@
-import { Router, Response } from 'express';
+import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { parse } from 'csv-parse';
 import multer from 'multer';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { authenticate } from '../middleware/auth.js';
 import { AppError } from '../middleware/errorHandler.js';
@@ -12,16 +12,33 @@ import {
   UpdateLeadInput,
   LeadFilters,
   ImportResult,
-  CsvLeadRow,
+  ImportRowError,
 } from '../types/index.js';
+import { exitSequences } from '../services/sequences/runner.js';
+import { optOutLead, optInLead } from '../services/consent.js';
+import { recordLeadActivity, leadChangeActivities } from '../services/leadTimeline.js';
+import { findDuplicateCandidates, mergeLeads } from '../services/leadDuplicates.js';
+import {
+  getCustomFields, applyCustomFieldValues, customFieldWhere, customFieldFiltersSchema,
+} from '../services/customFields.js';
+import { parsePhone } from '../services/phone.js';
+import {
+  IMPORT_FIELDS, MAX_IMPORT_ROWS, ImportFile, isSupportedImportFile, readImportFile, suggestMapping, mappingError,
+  previewImport, startImportJob, processImportJob, discardStaleImports, importErrorReport,
+} from '../services/leadImport.js';
+import { exportColumnKeys, writeLeadExport } from '../services/leadExport.js';
+import { isValidTimeZone } from '../services/campaigns/timezone.js';
 
 const router = Router();
-const upload = multer({ storage: multer.memoryStorage() });
+const importUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 20 * 1024 * 1024 } });
 
 // Validation schemas
 const createLeadSchema = z.object({
   name: z.string().min(1, 'Name is required'),
-  phone: z.string().min(10, 'Valid phone number required').max(15),
+  phone: z.string().max(30).refine(
+    (phone) => parsePhone(phone) !== null,
+    'Enter a valid phone number, with the country code if it is not Indian'
+  ),
   email: z.string().email().optional().nullable(),
   businessName: z.string().optional().nullable(),
   businessType: z.string().optional().nullable(),
@@ -31,6 +48,7 @@ const createLeadSchema = z.object({
   address: z.string().optional().nullable(),
   tags: z.array(z.string()).optional(),
   notes: z.string().optional().nullable(),
+  customFields: z.record(z.unknown()).optional(),
 });
 
 const updateLeadSchema = createLeadSchema.partial().extend({
@@ -38,36 +56,52 @@ const updateLeadSchema = createLeadSchema.partial().extend({
   optedOut: z.boolean().optional(),
 });
 
-// Normalize phone number to Indian format (strips all non-digits)
-function normalizePhone(phone: string): string {
-  const digits = phone.replace(/\D/g, '');
-  if (digits.startsWith('91') && digits.length === 12) {
-    return digits; // Already correct: 91XXXXXXXXXX
-  }
-  if (digits.startsWith('0') && digits.length === 11) {
-    return '91' + digits.substring(1); // 0XXXXXXXXXX → 91XXXXXXXXXX
-  }
-  if (digits.length === 10) {
-    return '91' + digits; // XXXXXXXXXX → 91XXXXXXXXXX
-  }
-  // Fallback: return digits as-is (e.g. already 12-digit non-91 or other)
-  return digits;
-}
+const mergePick = z.enum(['survivor', 'merged']);
+
+const mergeLeadsSchema = z.object({
+  survivorId: z.string().min(1),
+  mergedId: z.string().min(1),
+  // Which lead's value each field keeps; unlisted fields keep the survivor's
+  fields: z.object({
+    name: mergePick,
+    phone: mergePick,
+    email: mergePick,
+    businessName: mergePick,
+    businessType: mergePick,
+    source: mergePick,
+    status: mergePick,
+    city: mergePick,
+    state: mergePick,
+    pincode: mergePick,
+    address: mergePick,
+    notes: mergePick,
+  }).partial().default({}),
+  tags: z.array(z.string()).optional(), // defaults to both leads' tags combined
+});
 
-// GET /api/leads - List leads with pagination and filters
-router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
-  const page = Math.max(1, parseInt(req.query.page as string) || 1);
-  const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 20));
-  const skip = (page - 1) * limit;
+/**
+ * Validate custom field updates and merge them into the lead's current values
+ */
+async function resolveCustomFields(current: Prisma.JsonValue | undefined, updates: Record<string, unknown>) {
+  const { values, errors } = applyCustomFieldValues(current, updates, await getCustomFields());
+  if (errors.length > 0) throw new AppError(errors.join('; '), 400);
+  return values;
+}
 
-  // Build filters
+/**
+ * Lead conditions from the list's query filters, shared by the list and the export
+ */
+function leadListWhere(query: Request['query']): Prisma.LeadWhereInput {
   const filters: LeadFilters = {
-    status: req.query.status ? (req.query.status as string).split(',') : undefined,
-    source: req.query.source ? (req.query.source as string).split(',') : undefined,
-    tags: req.query.tags ? (req.query.tags as string).split(',') : undefined,
-    city: req.query.city as string | undefined,
-    search: req.query.search as string | undefined,
-    optedOut: req.query.optedOut === 'true' ? true : req.query.optedOut === 'false' ? false : undefined,
+    status: query.status ? (query.status as string).split(',') : undefined,
+    source: query.source ? (query.source as string).split(',') : undefined,
+    tags: query.tags ? (query.tags as string).split(',') : undefined,
+    city: query.city as string | undefined,
+    search: query.search as string | undefined,
+    optedOut: query.optedOut === 'true' ? true : query.optedOut === 'false' ? false : undefined,
+    customFields: parseCustomFieldFilters(query.customFields),
+    reachability: query.reachability ? (query.reachability as string).split(',') : undefined,
+    phoneType: query.phoneType ? (query.phoneType as string).split(',') : undefined,
   };
 
   const where: any = {};
@@ -95,11 +129,110 @@ router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response<Ap
   if (filters.optedOut !== undefined) {
     where.optedOut = filters.optedOut;
   }
-  const createdAfter = req.query.createdAfter ? new Date(req.query.createdAfter as string) : undefined;
+  if (filters.reachability?.length) {
+    where.reachability = { in: filters.reachability as any[] };
+  }
+  if (filters.phoneType?.length) {
+    where.phoneType = { in: filters.phoneType as any[] };
+  }
+  if (filters.customFields?.length) {
+    where.AND = customFieldWhere(filters.customFields);
+  }
+  const createdAfter = query.createdAfter ? new Date(query.createdAfter as string) : undefined;
   if (createdAfter && !isNaN(createdAfter.getTime())) {
     where.createdAt = { gte: createdAfter };
   }
 
+  return where;
+}
+
+const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'xlsx']).default('csv'),
+  columns: z.string().optional(),
+  include: z.string().optional(),
+  timezone: z.string().default('Asia/Kolkata').refine(isValidTimeZone, 'Unknown time zone'),
+});
+
+// Everything about an import job except the uploaded file and its failed rows
+const importJobSelect = {
+  id: true,
+  filename: true,
+  status: true,
+  columns: true,
+  totalRows: true,
+  mapping: true,
+  duplicateMode: true,
+  processedRows: true,
+  imported: true,
+  updated: true,
+  duplicates: true,
+  failed: true,
+  errorMessage: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+const importMappingSchema = z.object({
+  mapping: z.record(z.string()).transform((mapping) =>
+    // Columns mapped to nothing are left out
+    Object.fromEntries(Object.entries(mapping).filter(([, target]) => target !== ''))
+  ),
+});
+
+const startImportSchema = importMappingSchema.extend({
+  duplicateMode: z.enum(['SKIP', 'UPDATE', 'MERGE']).default('SKIP'),
+});
+
+async function readUploadedImport(upload: Express.Multer.File | undefined) {
+  if (!upload) throw new AppError('A CSV or XLSX file is required', 400);
+  if (!isSupportedImportFile(upload.originalname)) {
+    throw new AppError('Only .csv and .xlsx files can be imported', 400);
+  }
+
+  let file: ImportFile;
+  try {
+    file = await readImportFile(upload.buffer, upload.originalname);
+  } catch (error) {
+    throw new AppError(`Could not read ${upload.originalname}: ${error instanceof Error ? error.message : 'invalid file'}`, 400);
+  }
+  if (file.rows.length === 0) throw new AppError('The file has no rows to import', 400);
+  if (file.rows.length > MAX_IMPORT_ROWS) {
+    throw new AppError(`Files can have up to ${MAX_IMPORT_ROWS.toLocaleString('en-IN')} rows — split this one up`, 400);
+  }
+
+  return { file, customFields: await getCustomFields() };
+}
+
+// An uploaded import that hasn't been started yet, with its parsed file
+async function loadPendingImport(id: string) {
+  const job = await prisma.importJob.findUnique({ where: { id } });
+  if (!job) throw new AppError('Import not found', 404);
+  if (job.status !== 'PENDING' || !job.file) throw new AppError('This import has already been started', 409);
+
+  const [file, customFields] = await Promise.all([readImportFile(job.file, job.filename), getCustomFields()]);
+  return { job, file, customFields };
+}
+
+// ?customFields= carries a JSON list of CustomFieldFilter
+function parseCustomFieldFilters(raw: unknown) {
+  if (typeof raw !== 'string' || !raw) return undefined;
+  try {
+    return customFieldFiltersSchema.parse(JSON.parse(raw));
+  } catch {
+    throw new AppError('Invalid custom field filter', 400);
+  }
+}
+
+// GET /api/leads - List leads with pagination and filters
+router.get('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 20));
+  const skip = (page - 1) * limit;
+
+  const where = leadListWhere(req.query);
+
   const [leads, total] = await Promise.all([
     prisma.lead.findMany({
       where,
@@ -175,6 +308,158 @@ router.get('/cities', authenticate, async (_req: AuthenticatedRequest, res: Resp
   });
 });
 
+// GET /api/leads/duplicates - Pairs of leads that look like the same business
+router.get('/duplicates', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const minScore = Math.min(100, Math.max(1, parseInt(req.query.minScore as string) || 40));
+  const limit = Math.min(500, Math.max(1, parseInt(req.query.limit as string) || 100));
+
+  const candidates = await findDuplicateCandidates({ minScore, limit });
+
+  res.json({ success: true, data: candidates });
+});
+
+// GET /api/leads/export - Download the leads matching the list filters as CSV or XLSX.
+// ?columns= picks and orders the columns; ?include=lastMessage,campaigns adds summaries.
+router.get('/export', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  const query = exportQuerySchema.parse(req.query);
+  const customFields = await getCustomFields();
+
+  const available = exportColumnKeys(customFields);
+  const columns = query.columns ? query.columns.split(',').map((c) => c.trim()).filter(Boolean) : available;
+  const unknown = columns.find((c) => !available.includes(c));
+  if (unknown) throw new AppError(`Unknown export column "${unknown}"`, 400);
+  if (columns.length === 0) throw new AppError('Pick at least one column', 400);
+
+  const where = leadListWhere(req.query);
+  const include = query.include?.split(',') || [];
+  const filename = `leads-${new Date().toISOString().slice(0, 10)}.${query.format}`;
+
+  res.setHeader(
+    'Content-Type',
+    query.format === 'xlsx'
+      ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      : 'text/csv; charset=utf-8'
+  );
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  // Excel only reads a CSV as UTF-8 (₹, Hindi names) with a byte order mark
+  if (query.format === 'csv') res.write('\uFEFF');
+
+  let count: number;
+  try {
+    count = await writeLeadExport(res, where, {
+      format: query.format,
+      columns,
+      lastMessage: include.includes('lastMessage'),
+      campaigns: include.includes('campaigns'),
+      timezone: query.timezone,
+    }, customFields);
+  } catch (error) {
+    // The file is already partly sent, so the error handler can't reply — cut the download short
+    console.error('[Leads] Export failed:', error);
+    res.destroy();
+    return;
+  }
+
+  console.log(`[Leads] Exported ${count} leads as ${query.format} for ${req.user!.email}`);
+});
+
+// GET /api/leads/imports - Recent imports
+router.get('/imports', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const jobs = await prisma.importJob.findMany({
+    where: { status: { not: 'PENDING' } },
+    select: importJobSelect,
+    orderBy: { createdAt: 'desc' },
+    take: 20,
+  });
+  res.json({ success: true, data: jobs });
+});
+
+// POST /api/leads/imports - Upload a file for the import wizard; returns its
+// columns, suggested mapping, the fields they can map to and a few sample rows
+router.post(
+  '/imports',
+  authenticate,
+  importUpload.single('file'),
+  async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+    const { file, customFields } = await readUploadedImport(req.file);
+    await discardStaleImports();
+
+    const job = await prisma.importJob.create({
+      data: {
+        filename: req.file!.originalname,
+        file: req.file!.buffer,
+        columns: file.columns,
+        totalRows: file.rows.length,
+        createdById: req.user!.id,
+      },
+      select: importJobSelect,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        job,
+        mapping: suggestMapping(file.columns, customFields),
+        fields: [
+          ...IMPORT_FIELDS.map(({ field, label }) => ({ value: field, label })),
+          ...customFields.map((f) => ({ value: `custom.${f.key}`, label: f.label })),
+        ],
+        sample: file.rows.slice(0, 3).map((r) => r.values),
+      },
+    });
+  }
+);
+
+// GET /api/leads/imports/:id - Import progress
+router.get('/imports/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const job = await prisma.importJob.findUnique({ where: { id: req.params.id }, select: importJobSelect });
+  if (!job) throw new AppError('Import not found', 404);
+  res.json({ success: true, data: job });
+});
+
+// POST /api/leads/imports/:id/preview - The first rows under a mapping, with their errors
+router.post('/imports/:id/preview', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { mapping } = importMappingSchema.parse(req.body);
+  const { job, file, customFields } = await loadPendingImport(req.params.id!);
+
+  const problem = mappingError(mapping, job.columns, customFields);
+  if (problem) throw new AppError(problem, 400);
+
+  res.json({ success: true, data: await previewImport(file, mapping) });
+});
+
+// POST /api/leads/imports/:id/start - Run the import in the background
+router.post('/imports/:id/start', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { mapping, duplicateMode } = startImportSchema.parse(req.body);
+  const { job, customFields } = await loadPendingImport(req.params.id!);
+
+  const problem = mappingError(mapping, job.columns, customFields);
+  if (problem) throw new AppError(problem, 400);
+
+  const started = await prisma.importJob.update({
+    where: { id: job.id },
+    data: { mapping, duplicateMode, status: 'RUNNING', startedAt: new Date() },
+    select: importJobSelect,
+  });
+  startImportJob(job.id);
+
+  res.json({ success: true, data: started, message: 'Import started' });
+});
+
+// GET /api/leads/imports/:id/errors - Failed rows as CSV
+router.get('/imports/:id/errors', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  const job = await prisma.importJob.findUnique({
+    where: { id: req.params.id },
+    select: { filename: true, columns: true, errors: true },
+  });
+  if (!job) throw new AppError('Import not found', 404);
+
+  const name = job.filename.replace(/\.(csv|xlsx)$/i, '').replace(/[^\w.-]+/g, '_');
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${name}-errors.csv"`);
+  res.send(importErrorReport(job));
+});
+
 // GET /api/leads/:id - Get single lead
 router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const lead = await prisma.lead.findUnique({
@@ -203,14 +488,16 @@ router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response
 
 // POST /api/leads - Create single lead
 router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
-  const data = createLeadSchema.parse(req.body) as CreateLeadInput;
-  const normalizedPhone = normalizePhone(data.phone);
+  const { customFields, ...data } = createLeadSchema.parse(req.body) as CreateLeadInput;
+  const { phone, type } = parsePhone(data.phone)!;
 
   const lead = await prisma.lead.create({
     data: {
       ...data,
-      phone: normalizedPhone,
+      phone,
+      phoneType: type,
       source: 'MANUAL',
+      customFields: customFields ? await resolveCustomFields({}, customFields) : undefined,
     },
   });
 
@@ -221,25 +508,68 @@ router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<A
 router.put('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   const data = updateLeadSchema.parse(req.body) as UpdateLeadInput;
 
-  // If phone is being updated, normalize it
-  if (data.phone) {
-    data.phone = normalizePhone(data.phone);
+  const existing = await prisma.lead.findUnique({ where: { id: req.params.id } });
+  if (!existing) {
+    throw new AppError('Lead not found', 404);
   }
 
-  // If opting out, set the opt-out timestamp
-  const updateData: any = { ...data };
-  if (data.optedOut === true) {
-    updateData.optedOutAt = new Date();
-  }
+  // A new number starts over: nothing is known about it on WhatsApp yet
+  const parsedPhone = data.phone ? parsePhone(data.phone)! : undefined;
+  if (parsedPhone) data.phone = parsedPhone.phone;
+  const phoneChange = parsedPhone && parsedPhone.phone !== existing.phone
+    ? { phoneType: parsedPhone.type, reachability: 'UNKNOWN' as const, reachabilityAt: null }
+    : {};
+
+  // Consent changes go through the consent log
+  const { optedOut, customFields, ...updateData } = data;
 
-  const lead = await prisma.lead.update({
+  let lead = await prisma.lead.update({
     where: { id: req.params.id },
-    data: updateData,
+    data: {
+      ...updateData,
+      ...phoneChange,
+      ...(customFields && { customFields: await resolveCustomFields(existing.customFields, customFields) }),
+    },
   });
+  await recordLeadActivity(leadChangeActivities(existing, updateData, { actorId: req.user!.id }));
+
+  if (optedOut !== undefined && optedOut !== existing.optedOut) {
+    const change = { source: 'MANUAL' as const, changedById: req.user!.id };
+    if (optedOut) await optOutLead(lead, change);
+    else await optInLead(lead, change);
+    lead = await prisma.lead.findUniqueOrThrow({ where: { id: lead.id } });
+  }
+
+  // Converted and rejected leads leave their drip sequences (opt-outs already did)
+  if (data.status === 'CONVERTED' || data.status === 'REJECTED' || data.status === 'DO_NOT_CONTACT') {
+    await exitSequences(lead.id, data.status);
+  }
 
   res.json({ success: true, data: lead });
 });
 
+// GET /api/leads/:id/consent - Opt-out / opt-in history
+router.get('/:id/consent', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const lead = await prisma.lead.findUnique({
+    where: { id: req.params.id },
+    select: { id: true },
+  });
+
+  if (!lead) {
+    throw new AppError('Lead not found', 404);
+  }
+
+  const events = await prisma.consentEvent.findMany({
+    where: { leadId: lead.id },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      changedBy: { select: { name: true, email: true } },
+    },
+  });
+
+  res.json({ success: true, data: events });
+});
+
 // DELETE /api/leads/:id - Delete lead
 router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   await prisma.lead.delete({
@@ -249,108 +579,56 @@ router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Respo
   res.json({ success: true, message: 'Lead deleted successfully' });
 });
 
-// POST /api/leads/bulk-import - Import leads from CSV
+// POST /api/leads/bulk-import - Import a CSV or XLSX file in one go, with the suggested
+// column mapping and duplicates skipped. The /imports wizard handles large files.
 router.post(
   '/bulk-import',
   authenticate,
-  upload.single('file'),
+  importUpload.single('file'),
   async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
-    if (!req.file) {
-      throw new AppError('CSV file is required', 400);
-    }
+    const { file, customFields } = await readUploadedImport(req.file);
+    const mapping = suggestMapping(file.columns, customFields);
+    const problem = mappingError(mapping, file.columns, customFields);
+    if (problem) throw new AppError(`${problem} — or use the import wizard to map columns`, 400);
+
+    const job = await prisma.importJob.create({
+      data: {
+        filename: req.file!.originalname,
+        file: req.file!.buffer,
+        columns: file.columns,
+        totalRows: file.rows.length,
+        mapping,
+        status: 'RUNNING',
+        startedAt: new Date(),
+        createdById: req.user!.id,
+      },
+    });
+    await processImportJob(job.id);
 
+    const done = await prisma.importJob.findUniqueOrThrow({ where: { id: job.id } });
+    if (done.status === 'FAILED') throw new AppError(done.errorMessage || 'Import failed', 500);
     const result: ImportResult = {
-      total: 0,
-      imported: 0,
-      duplicates: 0,
-      errors: [],
+      total: done.totalRows,
+      imported: done.imported,
+      duplicates: done.duplicates,
+      errors: (done.errors as ImportRowError[]).map(({ row, error }) => ({ row, error })),
     };
 
-    const records: CsvLeadRow[] = [];
-
-    // Parse CSV
-    await new Promise<void>((resolve, reject) => {
-      const parser = parse(req.file!.buffer, {
-        columns: true,
-        skip_empty_lines: true,
-        trim: true,
-      });
-
-      parser.on('data', (row: CsvLeadRow) => {
-        records.push(row);
-      });
-
-      parser.on('error', reject);
-      parser.on('end', resolve);
-    });
-
-    result.total = records.length;
-
-    // Process records
-    for (let i = 0; i < records.length; i++) {
-      const row = records[i]!;
-
-      try {
-        // Validate required fields
-        if (!row.name || !row.phone) {
-          result.errors.push({
-            row: i + 2, // +2 for header row and 0-index
-            error: 'Name and phone are required',
-          });
-          continue;
-        }
-
-        const normalizedPhone = normalizePhone(row.phone);
-        const tags = row.tags ? row.tags.split(',').map((t) => t.trim()) : [];
-
-        // Check for duplicate
-        const existing = await prisma.lead.findUnique({
-          where: { phone: normalizedPhone },
-        });
-
-        if (existing) {
-          result.duplicates++;
-          continue;
-        }
-
-        // Create lead
-        await prisma.lead.create({
-          data: {
-            name: row.name,
-            phone: normalizedPhone,
-            email: row.email || null,
-            businessName: row.business_name || null,
-            businessType: row.business_type || null,
-            city: row.city || null,
-            state: row.state || null,
-            pincode: row.pincode || null,
-            address: row.address || null,
-            tags,
-            source: 'CSV_IMPORT',
-          },
-        });
-
-        result.imported++;
-      } catch (error) {
-        result.errors.push({
-          row: i + 2,
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-      }
-    }
-
     res.json({
       success: true,
       data: result,
-      message: `Imported ${result.imported} leads. ${result.duplicates} duplicates skipped. ${result.errors.length} errors.`,
+      message: `Imported ${result.imported} leads. ${result.duplicates} duplicates skipped. ${done.failed} errors.`,
     });
   }
 );
 
-// POST /api/leads/cleanup - Remove all DO_NOT_CONTACT leads (not on WhatsApp, etc.)
+// POST /api/leads/cleanup - Remove all DO_NOT_CONTACT and not-on-WhatsApp leads
 router.post('/cleanup', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const cleanupWhere: Prisma.LeadWhereInput = {
+    OR: [{ status: 'DO_NOT_CONTACT' }, { reachability: 'NOT_ON_WHATSAPP' }],
+  };
   const count = await prisma.lead.count({
-    where: { status: 'DO_NOT_CONTACT' },
+    where: cleanupWhere,
   });
 
   if (count === 0) {
@@ -360,7 +638,7 @@ router.post('/cleanup', authenticate, async (req: AuthenticatedRequest, res: Res
 
   // Delete related records first (campaign leads, message logs)
   const doNotContactLeads = await prisma.lead.findMany({
-    where: { status: 'DO_NOT_CONTACT' },
+    where: cleanupWhere,
     select: { id: true },
   });
   const leadIds = doNotContactLeads.map((l) => l.id);
@@ -372,18 +650,18 @@ router.post('/cleanup', authenticate, async (req: AuthenticatedRequest, res: Res
     where: { leadId: { in: leadIds } },
   });
   const result = await prisma.lead.deleteMany({
-    where: { status: 'DO_NOT_CONTACT' },
+    where: cleanupWhere,
   });
 
   res.json({
     success: true,
-    message: `Removed ${result.count} Do Not Contact leads`,
+    message: `Removed ${result.count} Do Not Contact and not-on-WhatsApp leads`,
     data: { deleted: result.count },
   });
 });
 
 // POST /api/leads/backfill-contacted - One-time fix: mark leads with outbound messages as CONTACTED
-router.post('/backfill-contacted', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+router.post('/backfill-contacted', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
   // Find leads that are still NEW but have at least one successful outbound message
   const leadsWithMessages = await prisma.messageLog.findMany({
     where: {
@@ -406,6 +684,9 @@ router.post('/backfill-contacted', authenticate, async (_req: AuthenticatedReque
     where: { id: { in: leadIds } },
     data: { status: 'CONTACTED' },
   });
+  await recordLeadActivity(leadIds.flatMap((id) =>
+    leadChangeActivities({ id, status: 'NEW', tags: [] }, { status: 'CONTACTED' }, { actorId: req.user!.id })
+  ));
 
   res.json({
     success: true,
@@ -440,17 +721,86 @@ router.post('/bulk-update', authenticate, async (req: AuthenticatedRequest, res:
     throw new AppError('Lead IDs array is required', 400);
   }
 
-  const updateData = updateLeadSchema.partial().parse(data);
+  // Custom field values are merged per lead, so they're edited one lead at a time
+  const { optedOut, ...updateData } = updateLeadSchema.omit({ customFields: true }).parse(data);
 
-  const result = await prisma.lead.updateMany({
+  // Snapshot what's changing for each lead's timeline
+  const before = updateData.status || updateData.tags
+    ? await prisma.lead.findMany({ where: { id: { in: ids } }, select: { id: true, status: true, tags: true } })
+    : [];
+
+  // Numbers are stored as E.164 digits, like a single-lead update
+  const parsedPhone = updateData.phone ? parsePhone(updateData.phone)! : undefined;
+  if (parsedPhone) updateData.phone = parsedPhone.phone;
+
+  const update = prisma.lead.updateMany({
     where: { id: { in: ids } },
     data: updateData,
   });
 
+  // A new number starts over: nothing is known about it on WhatsApp yet
+  const result = parsedPhone
+    ? (await prisma.$transaction([
+      prisma.lead.updateMany({
+        where: { id: { in: ids }, phone: { not: parsedPhone.phone } },
+        data: { phoneType: parsedPhone.type, reachability: 'UNKNOWN', reachabilityAt: null },
+      }),
+      update,
+    ]))[1]
+    : await update;
+
+  await recordLeadActivity(
+    before.flatMap((lead) => leadChangeActivities(lead, updateData, { actorId: req.user!.id }))
+  );
+
+  // Consent changes are logged per lead
+  if (optedOut !== undefined) {
+    const changing = await prisma.lead.findMany({
+      where: { id: { in: ids }, optedOut: !optedOut },
+    });
+    const change = { source: 'MANUAL' as const, changedById: req.user!.id };
+    for (const lead of changing) {
+      if (optedOut) await optOutLead(lead, change);
+      else await optInLead(lead, change);
+    }
+  }
+
+  // Converted and rejected leads leave their drip sequences (opt-outs already did)
+  const status = updateData.status;
+  if (status === 'CONVERTED' || status === 'REJECTED' || status === 'DO_NOT_CONTACT') {
+    for (const lead of before) await exitSequences(lead.id, status);
+  }
+
   res.json({
     success: true,
     message: `Updated ${result.count} leads`,
   });
 });
 
+// POST /api/leads/merge - Fold a duplicate into another lead, keeping both histories
+router.post('/merge', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { survivorId, mergedId, fields, tags } = mergeLeadsSchema.parse(req.body);
+
+  if (survivorId === mergedId) {
+    throw new AppError('Pick two different leads to merge', 400);
+  }
+
+  const [survivor, merged] = await Promise.all([
+    prisma.lead.findUnique({ where: { id: survivorId } }),
+    prisma.lead.findUnique({ where: { id: mergedId } }),
+  ]);
+  if (!survivor || !merged) {
+    throw new AppError('Lead not found', 404);
+  }
+
+  const lead = await mergeLeads(
+    survivor,
+    merged,
+    { fields, tags: tags ?? [...new Set([...survivor.tags, ...merged.tags])] },
+    req.user!.id
+  );
+
+  res.json({ success: true, data: lead, message: `Merged ${merged.name} into ${lead.name}` });
+});
+
 export default router;
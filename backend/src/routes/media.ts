@@ -0,0 +1,103 @@
+import { Router, Response } from 'express';
+import multer from 'multer';
+import { prisma } from '../config/database.js';
+import { authenticate } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { mediaTypeForMime } from '../services/mediaLibrary.js';
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 16 * 1024 * 1024 }, // WhatsApp's video limit; images are capped at 5 MB below
+});
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// Everything except the file bytes
+const assetSelect = {
+  id: true,
+  name: true,
+  filename: true,
+  mimeType: true,
+  mediaType: true,
+  size: true,
+  createdAt: true,
+  uploadedBy: { select: { id: true, name: true } },
+  _count: { select: { autoReplies: true, cannedResponses: true } },
+} as const;
+
+// GET /api/media — List the media library
+router.get('/', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const assets = await prisma.mediaAsset.findMany({
+    select: assetSelect,
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({ success: true, data: assets });
+});
+
+// POST /api/media — Upload a file to the library
+router.post('/', authenticate, upload.single('file'), async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const file = (req as any).file as Express.Multer.File | undefined;
+  if (!file) throw new AppError('No file uploaded', 400);
+
+  const mediaType = mediaTypeForMime(file.mimetype);
+  if (!mediaType) {
+    throw new AppError(`Unsupported file type ${file.mimetype}. Use JPEG/PNG images, MP4 videos or PDF/Office documents.`, 400);
+  }
+  if (mediaType === 'image' && file.size > MAX_IMAGE_SIZE) {
+    throw new AppError('Images must be 5 MB or smaller', 400);
+  }
+
+  const name = (req.body?.name as string | undefined)?.trim() || file.originalname;
+
+  const asset = await prisma.mediaAsset.create({
+    data: {
+      name: name.slice(0, 100),
+      filename: file.originalname,
+      mimeType: file.mimetype,
+      mediaType,
+      size: file.size,
+      data: file.buffer,
+      uploadedById: req.user!.id,
+    },
+    select: assetSelect,
+  });
+
+  res.status(201).json({ success: true, data: asset, message: 'File uploaded' });
+});
+
+// GET /api/media/:id/file — Download the file (for previews)
+router.get('/:id/file', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  const asset = await prisma.mediaAsset.findUnique({ where: { id: req.params.id } });
+  if (!asset) throw new AppError('Media not found', 404);
+
+  res.setHeader('Content-Type', asset.mimeType);
+  res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(asset.filename)}"`);
+  res.setHeader('Cache-Control', 'private, max-age=86400');
+  res.send(Buffer.from(asset.data));
+});
+
+// DELETE /api/media/:id — Delete a file that no rule uses
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const asset = await prisma.mediaAsset.findUnique({
+    where: { id: req.params.id },
+    select: assetSelect,
+  });
+  if (!asset) throw new AppError('Media not found', 404);
+
+  if (asset._count.autoReplies > 0) {
+    throw new AppError(`This file is attached to ${asset._count.autoReplies} auto-reply rule(s). Remove it from them first.`, 409);
+  }
+  if (asset._count.cannedResponses > 0) {
+    throw new AppError(`This file is attached to ${asset._count.cannedResponses} saved reply(s). Remove it from them first.`, 409);
+  }
+
+  await prisma.mediaAsset.delete({ where: { id: req.params.id } });
+
+  res.json({ success: true, message: 'File deleted' });
+});
+
+export default router;
@@ -0,0 +1,317 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authenticate } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+import { buildAudienceWhere, CampaignTargeting } from '../services/campaigns/launcher.js';
+import { sendWindowSchema } from '../services/campaigns/sendWindow.js';
+import { enrollLeads } from '../services/sequences/runner.js';
+
+const router = Router();
+
+// Validation schemas
+const stepSchema = z.object({
+  templateId: z.string().min(1, 'Template ID is required'),
+  delayHours: z.number().int().min(0).max(24 * 90).default(0),
+  condition: z.enum(['ALWAYS', 'DELIVERED', 'READ', 'NOT_READ']).default('ALWAYS'),
+  headerMediaUrl: z.string().url().optional(),
+});
+
+const sequenceSchema = z.object({
+  name: z.string().min(1, 'Sequence name is required'),
+  description: z.string().optional(),
+  targetFilters: z.object({
+    leadIds: z.array(z.string()).optional(),
+    status: z.array(z.string()).optional(),
+    source: z.array(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+    cities: z.array(z.string()).optional(),
+  }).optional(),
+  sendWindow: sendWindowSchema.optional(),
+  steps: z.array(stepSchema).min(1, 'Add at least one step').max(10),
+});
+
+const enrollSchema = z.object({
+  leadIds: z.array(z.string()).min(1, 'Select at least one lead'),
+});
+
+/**
+ * All step templates must exist and be approved
+ */
+async function assertApprovedTemplates(templateIds: string[]): Promise<void> {
+  const templates = await prisma.messageTemplate.findMany({
+    where: { id: { in: templateIds } },
+    select: { id: true, status: true },
+  });
+
+  for (const templateId of templateIds) {
+    const template = templates.find((t) => t.id === templateId);
+    if (!template) throw new AppError('Template not found', 404);
+    if (template.status !== 'APPROVED') {
+      throw new AppError('Template must be approved before using in a sequence', 400);
+    }
+  }
+}
+
+// GET /api/sequences - List sequences with enrollment counts
+router.get('/', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const sequences = await prisma.sequence.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: {
+      createdBy: { select: { name: true } },
+      _count: { select: { steps: true } },
+    },
+  });
+
+  const counts = await prisma.sequenceEnrollment.groupBy({
+    by: ['sequenceId', 'status'],
+    _count: true,
+  });
+
+  res.json({
+    success: true,
+    data: sequences.map((sequence) => ({
+      ...sequence,
+      enrollments: counts
+        .filter((c) => c.sequenceId === sequence.id)
+        .reduce((acc, c) => {
+          acc[c.status] = c._count;
+          return acc;
+        }, {} as Record<string, number>),
+    })),
+  });
+});
+
+// GET /api/sequences/:id - Sequence with steps, per-step funnel and enrollments
+router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const sequence = await prisma.sequence.findUnique({
+    where: { id: req.params.id },
+    include: {
+      createdBy: { select: { name: true } },
+      steps: {
+        orderBy: { order: 'asc' },
+        include: { template: { select: { name: true, language: true, headerType: true } } },
+      },
+    },
+  });
+
+  if (!sequence) {
+    throw new AppError('Sequence not found', 404);
+  }
+
+  const [enrollmentGroups, messages, enrollments] = await Promise.all([
+    prisma.sequenceEnrollment.groupBy({
+      by: ['status', 'currentStep', 'exitReason'],
+      where: { sequenceId: sequence.id },
+      _count: true,
+    }),
+    prisma.messageLog.findMany({
+      where: { sequenceStepId: { in: sequence.steps.map((s) => s.id) } },
+      select: { sequenceStepId: true, status: true, deliveredAt: true, readAt: true },
+    }),
+    prisma.sequenceEnrollment.findMany({
+      where: { sequenceId: sequence.id },
+      include: {
+        lead: { select: { id: true, name: true, phone: true, businessName: true, city: true, status: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: 200,
+    }),
+  ]);
+
+  const countEnrollments = (match: (g: typeof enrollmentGroups[number]) => boolean) =>
+    enrollmentGroups.filter(match).reduce((sum, g) => sum + g._count, 0);
+
+  // Failed sends exit on the step itself; everything else past a step has moved beyond it
+  const funnel = sequence.steps.map((step) => {
+    const stepMessages = messages.filter((m) => m.sequenceStepId === step.id);
+    const sent = stepMessages.filter((m) => m.status !== 'FAILED').length;
+    const passed = countEnrollments((g) => g.currentStep > step.order);
+
+    return {
+      stepId: step.id,
+      order: step.order,
+      waiting: countEnrollments((g) => g.status === 'ACTIVE' && g.currentStep === step.order),
+      left: countEnrollments((g) => g.status === 'EXITED' && g.currentStep === step.order && g.exitReason !== 'FAILED'),
+      sent,
+      failed: stepMessages.length - sent,
+      skipped: Math.max(0, passed - sent),
+      delivered: stepMessages.filter((m) => m.deliveredAt || m.status === 'DELIVERED' || m.status === 'READ').length,
+      read: stepMessages.filter((m) => m.readAt || m.status === 'READ').length,
+      replied: countEnrollments((g) => g.exitReason === 'REPLIED' && g.currentStep === step.order + 1),
+    };
+  });
+
+  const summary = {
+    total: countEnrollments(() => true),
+    active: countEnrollments((g) => g.status === 'ACTIVE'),
+    completed: countEnrollments((g) => g.status === 'COMPLETED'),
+    exited: countEnrollments((g) => g.status === 'EXITED'),
+    exitReasons: enrollmentGroups
+      .filter((g) => g.status === 'EXITED' && g.exitReason)
+      .reduce((acc, g) => {
+        acc[g.exitReason!] = (acc[g.exitReason!] || 0) + g._count;
+        return acc;
+      }, {} as Record<string, number>),
+  };
+
+  res.json({
+    success: true,
+    data: { sequence, funnel, summary, enrollments },
+  });
+});
+
+// POST /api/sequences - Create a sequence with its steps
+router.post('/', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const data = sequenceSchema.parse(req.body);
+
+  await assertApprovedTemplates(data.steps.map((s) => s.templateId));
+
+  const sequence = await prisma.sequence.create({
+    data: {
+      name: data.name,
+      description: data.description,
+      targetFilters: data.targetFilters,
+      sendWindow: data.sendWindow,
+      createdById: req.user!.id,
+      steps: {
+        create: data.steps.map((step, order) => ({ ...step, order })),
+      },
+    },
+    include: { steps: { orderBy: { order: 'asc' } } },
+  });
+
+  res.status(201).json({ success: true, data: sequence, message: 'Sequence created' });
+});
+
+// PUT /api/sequences/:id - Update a sequence; steps can only change before anyone is enrolled
+router.put('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const data = sequenceSchema.parse(req.body);
+
+  const existing = await prisma.sequence.findUnique({
+    where: { id: req.params.id },
+    include: { _count: { select: { enrollments: true } } },
+  });
+  if (!existing) throw new AppError('Sequence not found', 404);
+
+  if (existing._count.enrollments > 0) {
+    const currentSteps = await prisma.sequenceStep.findMany({
+      where: { sequenceId: existing.id },
+      orderBy: { order: 'asc' },
+    });
+    const stepsChanged = currentSteps.length !== data.steps.length || currentSteps.some((step, i) => {
+      const next = data.steps[i]!;
+      return step.templateId !== next.templateId
+        || step.delayHours !== next.delayHours
+        || step.condition !== next.condition
+        || (step.headerMediaUrl ?? undefined) !== next.headerMediaUrl;
+    });
+    if (stepsChanged) {
+      throw new AppError('Steps cannot be changed once leads are enrolled. Create a new sequence instead.', 400);
+    }
+  }
+
+  await assertApprovedTemplates(data.steps.map((s) => s.templateId));
+
+  const sequence = await prisma.$transaction(async (tx) => {
+    if (existing._count.enrollments === 0) {
+      await tx.sequenceStep.deleteMany({ where: { sequenceId: existing.id } });
+      await tx.sequenceStep.createMany({
+        data: data.steps.map((step, order) => ({ ...step, order, sequenceId: existing.id })),
+      });
+    }
+
+    return tx.sequence.update({
+      where: { id: existing.id },
+      data: {
+        name: data.name,
+        description: data.description,
+        targetFilters: data.targetFilters,
+        sendWindow: data.sendWindow,
+      },
+      include: { steps: { orderBy: { order: 'asc' } } },
+    });
+  });
+
+  res.json({ success: true, data: sequence, message: 'Sequence updated' });
+});
+
+// POST /api/sequences/:id/activate - Start sending and enroll the leads matching its filters
+router.post('/:id/activate', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const sequence = await prisma.sequence.findUnique({ where: { id: req.params.id } });
+  if (!sequence) throw new AppError('Sequence not found', 404);
+  if (sequence.status === 'ACTIVE') throw new AppError('Sequence is already active', 400);
+
+  let enrolled = 0;
+  const targetFilters = sequence.targetFilters as CampaignTargeting | null;
+  if (targetFilters) {
+    const leads = await prisma.lead.findMany({
+      where: buildAudienceWhere(targetFilters),
+      select: { id: true },
+    });
+    enrolled = await enrollLeads(sequence.id, leads.map((l) => l.id));
+  }
+
+  await prisma.sequence.update({
+    where: { id: sequence.id },
+    data: { status: 'ACTIVE' },
+  });
+
+  res.json({
+    success: true,
+    message: enrolled > 0 ? `Sequence activated. ${enrolled} leads enrolled.` : 'Sequence activated',
+    data: { enrolled },
+  });
+});
+
+// POST /api/sequences/:id/pause - Pause sending; enrollments keep their place
+router.post('/:id/pause', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const sequence = await prisma.sequence.findUnique({ where: { id: req.params.id } });
+  if (!sequence) throw new AppError('Sequence not found', 404);
+  if (sequence.status !== 'ACTIVE') throw new AppError('Only active sequences can be paused', 400);
+
+  await prisma.sequence.update({
+    where: { id: sequence.id },
+    data: { status: 'PAUSED' },
+  });
+
+  res.json({ success: true, message: 'Sequence paused' });
+});
+
+// POST /api/sequences/:id/enroll - Enroll specific leads
+router.post('/:id/enroll', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { leadIds } = enrollSchema.parse(req.body);
+
+  const sequence = await prisma.sequence.findUnique({ where: { id: req.params.id } });
+  if (!sequence) throw new AppError('Sequence not found', 404);
+
+  // Same exclusions as campaigns — opted-out, DO_NOT_CONTACT, REJECTED and unreachable leads are skipped
+  const leads = await prisma.lead.findMany({
+    where: buildAudienceWhere({ leadIds }),
+    select: { id: true },
+  });
+  const enrolled = await enrollLeads(sequence.id, leads.map((l) => l.id));
+
+  res.json({
+    success: true,
+    message: `${enrolled} leads enrolled`,
+    data: { enrolled, skipped: leadIds.length - enrolled },
+  });
+});
+
+// DELETE /api/sequences/:id - Delete a sequence
+router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const sequence = await prisma.sequence.findUnique({ where: { id: req.params.id } });
+  if (!sequence) throw new AppError('Sequence not found', 404);
+
+  if (sequence.status === 'ACTIVE') {
+    throw new AppError('Cannot delete an active sequence. Pause it first.', 400);
+  }
+
+  await prisma.sequence.delete({ where: { id: sequence.id } });
+
+  res.json({ success: true, message: 'Sequence deleted' });
+});
+
+export default router;
@@ -371,7 +371,7 @@ router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Respo
   const template = await prisma.messageTemplate.findUnique({
     where: { id: req.params.id },
     include: {
-      _count: { select: { campaigns: true } },
+      _count: { select: { campaigns: true, campaignVariants: true, sequenceSteps: true } },
     },
   });
 
@@ -379,10 +379,14 @@ router.delete('/:id', authenticate, async (req: AuthenticatedRequest, res: Respo
     throw new AppError('Template not found', 404);
   }
 
-  if (template._count.campaigns > 0) {
+  if (template._count.campaigns > 0 || template._count.campaignVariants > 0) {
     throw new AppError('Cannot delete template that is used in campaigns', 400);
   }
 
+  if (template._count.sequenceSteps > 0) {
+    throw new AppError('Cannot delete template that is used in sequences', 400);
+  }
+
   await prisma.messageTemplate.delete({
     where: { id: template.id },
   });
@@ -0,0 +1,54 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { authenticate } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import { AuthenticatedRequest, ApiResponse } from '../types/index.js';
+
+const router = Router();
+
+const teamMemberSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  acceptsAutoAssign: true,
+} as const;
+
+// GET /api/users - Team members, for assigning conversations
+router.get('/', authenticate, async (_req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const users = await prisma.user.findMany({
+    select: teamMemberSelect,
+    orderBy: { name: 'asc' },
+  });
+
+  res.json({ success: true, data: users });
+});
+
+// PATCH /api/users/:id/auto-assign - Join or leave the round-robin for new inbound chats (self or admin)
+router.patch('/:id/auto-assign', authenticate, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const { acceptsAutoAssign } = z.object({ acceptsAutoAssign: z.boolean() }).parse(req.body);
+
+  if (req.params.id !== req.user!.id && req.user!.role !== 'ADMIN') {
+    throw new AppError('You can only change your own round-robin setting', 403);
+  }
+
+  const existing = await prisma.user.findUnique({ where: { id: req.params.id } });
+  if (!existing) {
+    throw new AppError('User not found', 404);
+  }
+
+  const user = await prisma.user.update({
+    where: { id: req.params.id },
+    data: { acceptsAutoAssign },
+    select: teamMemberSelect,
+  });
+
+  res.json({
+    success: true,
+    data: user,
+    message: acceptsAutoAssign ? 'Receiving new chats' : 'No longer receiving new chats',
+  });
+});
+
+export default router;
@@ -1,10 +1,35 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import { env } from '../config/env.js';
-import { processWebhookEvent } from '../services/whatsapp/webhook.js';
-import { WhatsAppWebhookPayload } from '../types/index.js';
+import { prisma } from '../config/database.js';
+import { authenticate, requireAdmin } from '../middleware/auth.js';
+import { AppError } from '../middleware/errorHandler.js';
+import {
+  verifyWebhookSignature,
+  recordWebhookEvent,
+  processStoredEvent,
+  replayWebhookEvents,
+} from '../services/whatsapp/webhookEvents.js';
+import { AuthenticatedRequest, ApiResponse, WhatsAppWebhookPayload } from '../types/index.js';
 
 const router = Router();
 
+// Without the app secret payloads can't be verified: refuse them in production,
+// accept them unsigned elsewhere so local testing keeps working
+const allowUnsigned = !env.WHATSAPP_APP_SECRET && env.NODE_ENV !== 'production';
+
+if (!env.WHATSAPP_APP_SECRET) {
+  console.warn(allowUnsigned
+    ? '[Webhook] WHATSAPP_APP_SECRET not set — webhook signatures are NOT verified'
+    : '[Webhook] WHATSAPP_APP_SECRET not set — all webhook payloads will be rejected');
+}
+
+const replaySchema = z.object({
+  status: z.enum(['RECEIVED', 'PROCESSED', 'FAILED', 'ALL']).default('FAILED'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
 /**
  * GET /api/webhook/whatsapp - Webhook verification (required by Meta)
  */
@@ -26,23 +51,119 @@ router.get('/whatsapp', (req: Request, res: Response) => {
  * POST /api/webhook/whatsapp - Receive WhatsApp events
  */
 router.post('/whatsapp', async (req: Request, res: Response) => {
-  // Always respond with 200 immediately to acknowledge receipt
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+
+  if (!allowUnsigned
+    && !verifyWebhookSignature(rawBody, req.get('x-hub-signature-256'), env.WHATSAPP_APP_SECRET || '')) {
+    console.log('[Webhook] Rejected payload with missing or invalid signature');
+    res.sendStatus(401);
+    return;
+  }
+
+  const payload = req.body as WhatsAppWebhookPayload;
+
+  // Verify this is a WhatsApp webhook
+  if (payload?.object !== 'whatsapp_business_account') {
+    console.log('Ignoring non-WhatsApp webhook');
+    res.sendStatus(200);
+    return;
+  }
+
+  // Store before acknowledging — if this fails Meta gets an error and redelivers
+  const event = await recordWebhookEvent(rawBody ?? Buffer.from(JSON.stringify(payload)), payload);
+
   res.sendStatus(200);
 
-  try {
-    const payload = req.body as WhatsAppWebhookPayload;
+  if (!event) {
+    console.log('[Webhook] Duplicate delivery ignored');
+    return;
+  }
 
-    // Verify this is a WhatsApp webhook
-    if (payload.object !== 'whatsapp_business_account') {
-      console.log('Ignoring non-WhatsApp webhook');
-      return;
-    }
+  // Process after acknowledging; failures are recorded on the event for replay
+  await processStoredEvent(event.id);
+});
 
-    // Process the event asynchronously
-    await processWebhookEvent(payload);
-  } catch (error) {
-    console.error('Error processing WhatsApp webhook:', error);
+/**
+ * GET /api/webhook/events - List stored webhook events (admin)
+ */
+router.get('/events', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 20));
+  const status = req.query.status as string | undefined;
+
+  const where: any = {};
+  if (status) {
+    where.status = status;
   }
+
+  const [events, total] = await Promise.all([
+    prisma.webhookEvent.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { receivedAt: 'desc' },
+    }),
+    prisma.webhookEvent.count({ where }),
+  ]);
+
+  res.json({
+    success: true,
+    data: events,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+/**
+ * POST /api/webhook/events/replay - Replay stored events (admin).
+ * Defaults to failed events; pass status (or ALL) and from/to to reprocess a range.
+ */
+router.post('/events/replay', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const data = replaySchema.parse(req.body ?? {});
+  const status = data.status === 'ALL' ? undefined : data.status;
+  const { from, to } = data;
+
+  const count = await prisma.webhookEvent.count({
+    where: { status, receivedAt: { gte: from, lte: to } },
+  });
+
+  if (count === 0) {
+    throw new AppError('No webhook events to replay', 400);
+  }
+
+  // Replay in background (non-blocking)
+  replayWebhookEvents({ status, from, to })
+    .catch((err) => console.error('[Webhook] Replay error:', err));
+
+  res.json({
+    success: true,
+    message: `Replaying ${count} webhook events.`,
+    data: { count },
+  });
+});
+
+/**
+ * POST /api/webhook/events/:id/replay - Replay a single stored event (admin)
+ */
+router.post('/events/:id/replay', authenticate, requireAdmin, async (req: AuthenticatedRequest, res: Response<ApiResponse>) => {
+  const event = await prisma.webhookEvent.findUnique({ where: { id: req.params.id } });
+
+  if (!event) {
+    throw new AppError('Webhook event not found', 404);
+  }
+
+  const processed = await processStoredEvent(event.id);
+  const updated = await prisma.webhookEvent.findUnique({ where: { id: event.id } });
+
+  res.json({
+    success: processed,
+    message: processed ? 'Event processed' : `Event failed again: ${updated?.errorMessage}`,
+    data: updated,
+  });
 });
 
 export default router;
@@ -0,0 +1,49 @@
+import { Lead } from '@prisma/client';
+
+export const AUTO_REPLY_VARIABLES = ['name', 'business_name', 'city'] as const;
+
+type AutoReplyVariable = typeof AUTO_REPLY_VARIABLES[number];
+
+// {{name}} or {{name|fallback}}
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+// Used when the lead has no value and the reply gives no fallback
+const DEFAULT_FALLBACKS: Partial<Record<AutoReplyVariable, string>> = {
+  name: 'there',
+};
+
+/**
+ * Variables in a reply that aren't supported, e.g. a typo like {{nmae}}
+ */
+export function findUnknownVariables(text: string): string[] {
+  const unknown = [...text.matchAll(VARIABLE_PATTERN)]
+    .map((m) => (m[1] || '').toLowerCase())
+    .filter((name) => !(AUTO_REPLY_VARIABLES as readonly string[]).includes(name));
+  return [...new Set(unknown)];
+}
+
+/**
+ * Personalise a reply for a lead. "{{city|your city}}" falls back to the text
+ * after the bar when the lead has no city.
+ */
+export function renderReplyText(text: string, lead: Pick<Lead, 'name' | 'phone' | 'businessName' | 'city'>): string {
+  return text.replace(VARIABLE_PATTERN, (match, rawName: string, fallback?: string) => {
+    const name = rawName.toLowerCase() as AutoReplyVariable;
+    if (!(AUTO_REPLY_VARIABLES as readonly string[]).includes(name)) return match;
+
+    const value = leadValue(name, lead);
+    return value || fallback?.trim() || DEFAULT_FALLBACKS[name] || '';
+  });
+}
+
+function leadValue(variable: AutoReplyVariable, lead: Pick<Lead, 'name' | 'phone' | 'businessName' | 'city'>): string {
+  switch (variable) {
+    case 'name':
+      // Leads created from an inbound message without a profile name are named after their number
+      return lead.name && lead.name !== lead.phone ? lead.name.trim() : '';
+    case 'business_name':
+      return lead.businessName?.trim() || '';
+    case 'city':
+      return lead.city?.trim() || '';
+  }
+}
@@ -0,0 +1,125 @@
+import { AutoReply, Lead } from '@prisma/client';
+import safeRegex from 'safe-regex2';
+import { containsWholeWord } from '../whatsapp/keywords.js';
+import { getZonedParts, parseTimeOfDay } from '../campaigns/timezone.js';
+import { AutoReplySchedule, AutoReplyLeadConditions } from '../../types/index.js';
+
+export const MAX_REGEX_LENGTH = 200;
+
+export interface AutoReplyMessage {
+  text: string;
+  isButton: boolean;  // template quick-reply or interactive button tap
+}
+
+// Compiled triggers by pattern; rules rarely change, so this stays small
+const regexCache = new Map<string, RegExp | null>();
+const MAX_CACHED_REGEXES = 500;
+
+/**
+ * Check a pattern for nested quantifiers like (a+)+ that can backtrack
+ * catastrophically and stall the event loop on a crafted message
+ */
+export function isSafeTriggerRegex(pattern: string): boolean {
+  return safeRegex(pattern);
+}
+
+/**
+ * Compile a rule's regex trigger — case-insensitive, Unicode-aware.
+ * Returns null for patterns that are too long, unsafe or don't compile.
+ */
+export function compileTriggerRegex(pattern: string): RegExp | null {
+  const cached = regexCache.get(pattern);
+  if (cached !== undefined) return cached;
+
+  let regex: RegExp | null = null;
+  if (pattern.length <= MAX_REGEX_LENGTH && isSafeTriggerRegex(pattern)) {
+    try {
+      regex = new RegExp(pattern, 'iu');
+    } catch {
+      regex = null;
+    }
+  }
+
+  if (regexCache.size >= MAX_CACHED_REGEXES) regexCache.clear();
+  regexCache.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Check whether a message fires the rule's trigger
+ */
+export function matchesTrigger(
+  rule: Pick<AutoReply, 'triggerType' | 'triggerKeywords'>,
+  message: AutoReplyMessage
+): boolean {
+  const text = message.text.toLowerCase();
+  const keywords = rule.triggerKeywords.filter((kw) => kw.trim());
+
+  switch (rule.triggerType) {
+    case 'KEYWORD':
+      return keywords.some((kw) => text.includes(kw.toLowerCase()));
+    case 'EXACT':
+      return keywords.some((kw) => normalizeExact(kw) === normalizeExact(text));
+    case 'WHOLE_WORD':
+      return keywords.some((kw) => containsWholeWord(text, kw));
+    case 'REGEX':
+      return keywords.some((kw) => compileTriggerRegex(kw)?.test(message.text) ?? false);
+    case 'BUTTON':
+      return message.isButton
+        && (keywords.length === 0 || keywords.some((kw) => text.includes(kw.toLowerCase())));
+    case 'ANY':
+      return true;
+    default:
+      return false;
+  }
+}
+
+// "Price?" and "  price " both count as exactly "price"
+function normalizeExact(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/^[^\p{L}\p{M}\p{N}]+|[^\p{L}\p{M}\p{N}]+$/gu, '')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Check whether the rule's schedule covers the given instant. A window that
+ * ends before it starts runs overnight and belongs to the day it opened, so
+ * "Mon-Fri 19:00-09:00" covers Saturday 02:00 but not Sunday 02:00.
+ */
+export function isWithinSchedule(schedule: AutoReplySchedule, at: Date = new Date()): boolean {
+  const now = getZonedParts(at, schedule.timezone);
+  const minutes = now.hour * 60 + now.minute;
+  const start = parseTimeOfDay(schedule.start);
+  const end = parseTimeOfDay(schedule.end);
+
+  let weekday = now.weekday;
+  let inWindow: boolean;
+
+  if (start < end) {
+    inWindow = minutes >= start && minutes < end;
+  } else {
+    inWindow = minutes >= start || minutes < end;
+    if (minutes < end) weekday = (weekday + 6) % 7; // past midnight — window opened yesterday
+  }
+
+  return inWindow && (schedule.days.length === 0 || schedule.days.includes(weekday));
+}
+
+/**
+ * Check the lead against the rule's status, source and tag conditions
+ */
+export function matchesLeadConditions(
+  conditions: AutoReplyLeadConditions,
+  lead: Pick<Lead, 'status' | 'source' | 'tags'>
+): boolean {
+  const { statuses, sources, tags } = conditions;
+
+  if (statuses?.length && !statuses.includes(lead.status)) return false;
+  if (sources?.length && !sources.includes(lead.source)) return false;
+  if (tags?.length) {
+    const leadTags = lead.tags.map((t) => t.toLowerCase());
+    if (!tags.some((t) => leadTags.includes(t.toLowerCase()))) return false;
+  }
+  return true;
+}
@@ -0,0 +1,154 @@
+import { AutoReply, AutoReplyHitStatus, Lead } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { whatsappClient } from '../whatsapp/client.js';
+import { getWhatsAppMediaId, LibraryMediaType } from '../mediaLibrary.js';
+import { matchesTrigger, isWithinSchedule, matchesLeadConditions, AutoReplyMessage } from './rules.js';
+import { renderReplyText } from './render.js';
+import { trackNewMessage } from '../conversations.js';
+import { AutoReplySchedule, AutoReplyLeadConditions, WhatsAppIncomingMessage } from '../../types/index.js';
+
+/**
+ * Send the first active rule (by priority) whose trigger, schedule and lead
+ * conditions match and that isn't cooling down for this lead. Every firing is
+ * recorded as an AutoReplyHit.
+ */
+export async function handleAutoReply(
+  message: WhatsAppIncomingMessage,
+  lead: Lead,
+  inboundMessageId: string
+): Promise<void> {
+  const rules = await prisma.autoReply.findMany({
+    where: { isActive: true },
+    orderBy: { priority: 'asc' },
+  });
+
+  if (rules.length === 0) return;
+
+  const incoming: AutoReplyMessage = {
+    text: message.button?.text || message.button?.payload
+      || message.text?.body
+      || message.interactive?.button_reply?.title || message.interactive?.list_reply?.title
+      || '',
+    isButton: message.type === 'button' || message.type === 'interactive',
+  };
+
+  const lastReplies = await prisma.autoReplyHit.groupBy({
+    by: ['autoReplyId'],
+    where: { leadId: lead.id, status: 'SENT' },
+    _max: { createdAt: true },
+  });
+  const now = new Date();
+
+  for (const rule of rules) {
+    if (!matchesTrigger(rule, incoming)) continue;
+
+    const schedule = rule.schedule as AutoReplySchedule | null;
+    if (schedule && !isWithinSchedule(schedule, now)) continue;
+
+    const leadConditions = rule.leadConditions as AutoReplyLeadConditions | null;
+    if (leadConditions && !matchesLeadConditions(leadConditions, lead)) continue;
+
+    const lastRepliedAt = lastReplies.find((r) => r.autoReplyId === rule.id)?._max.createdAt;
+    if (rule.cooldownMinutes > 0 && lastRepliedAt
+      && now.getTime() - lastRepliedAt.getTime() < rule.cooldownMinutes * 60_000) {
+      continue;
+    }
+
+    console.log(`[AutoReply] Rule "${rule.name}" triggered for lead ${lead.id} (${lead.phone})`);
+
+    try {
+      const { result, content } = await sendRuleReply(rule, lead);
+
+      const replyLog = await prisma.messageLog.create({
+        data: {
+          leadId: lead.id,
+          autoReplyId: rule.id,
+          channel: 'WHATSAPP',
+          direction: 'OUTBOUND',
+          content,
+          whatsappMessageId: result.messageId || undefined,
+          status: result.success ? 'SENT' : 'FAILED',
+          sentAt: result.success ? new Date() : undefined,
+          failedAt: result.success ? undefined : new Date(),
+          errorMessage: result.error || undefined,
+        },
+      });
+
+      await trackNewMessage(replyLog);
+
+      await recordHit(rule, lead, inboundMessageId, {
+        replyMessageId: replyLog.id,
+        status: result.success ? 'SENT' : 'FAILED',
+        errorMessage: result.error,
+      });
+
+      if (result.success) {
+        console.log(`[AutoReply] Sent to ${lead.phone}`);
+      } else {
+        console.log(`[AutoReply] Failed for ${lead.phone}: ${result.error}`);
+      }
+    } catch (err: any) {
+      console.error(`[AutoReply] Error for ${lead.phone}:`, err.message);
+      await recordHit(rule, lead, inboundMessageId, { status: 'FAILED', errorMessage: err.message })
+        .catch((hitErr) => console.error('[AutoReply] Failed to record hit:', hitErr.message));
+    }
+
+    break; // only send one auto-reply per message
+  }
+}
+
+async function recordHit(
+  rule: AutoReply,
+  lead: Lead,
+  inboundMessageId: string,
+  outcome: { replyMessageId?: string; status: AutoReplyHitStatus; errorMessage?: string }
+): Promise<void> {
+  await prisma.autoReplyHit.create({
+    data: {
+      autoReplyId: rule.id,
+      leadId: lead.id,
+      inboundMessageId,
+      leadStatus: lead.status,
+      ...outcome,
+    },
+  });
+}
+
+/**
+ * Send a rule's personalised reply — as reply buttons, a media message or
+ * plain text — and return the MessageLog content for it
+ */
+async function sendRuleReply(rule: AutoReply, lead: Lead) {
+  const text = renderReplyText(rule.replyText, lead);
+  const asset = rule.mediaAssetId
+    ? await prisma.mediaAsset.findUnique({ where: { id: rule.mediaAssetId } })
+    : null;
+  const media = asset && {
+    media: await getWhatsAppMediaId(asset),
+    mediaType: asset.mediaType as LibraryMediaType,
+    filename: asset.filename,
+  };
+
+  const result = rule.replyButtons.length > 0
+    ? await whatsappClient.sendInteractiveButtons(
+      lead.phone,
+      text,
+      rule.replyButtons.map((title, i) => ({ id: `auto_reply_${rule.id}_${i}`, title })),
+      media || undefined
+    )
+    : media
+      ? await whatsappClient.sendMediaMessage(lead.phone, media.media, media.mediaType, text, media.filename)
+      : await whatsappClient.sendTextMessage(lead.phone, text);
+
+  const content = media || rule.replyButtons.length > 0
+    ? JSON.stringify({
+      text,
+      mediaType: media?.mediaType.toUpperCase(),
+      mediaId: media?.media,
+      filename: media?.filename,
+      buttons: rule.replyButtons.length > 0 ? rule.replyButtons : undefined,
+    })
+    : text;
+
+  return { result, content };
+}
@@ -0,0 +1,188 @@
+import { CampaignVariant } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { AutoWinnerConfig } from '../../types/index.js';
+
+export interface VariantStats {
+  variantId: string;
+  assigned: number;
+  sent: number;
+  winnerSent: number; // sent to the remaining audience after the variant won
+  delivered: number;
+  read: number;
+  replied: number;
+  converted: number;
+  deliveryRate: number;
+  readRate: number;
+  replyRate: number;
+  conversionRate: number;
+}
+
+const METRIC_RATE: Record<AutoWinnerConfig['metric'], keyof VariantStats> = {
+  DELIVERED: 'deliveryRate',
+  READ: 'readRate',
+  REPLIED: 'replyRate',
+  CONVERTED: 'conversionRate',
+};
+
+/**
+ * Spread leads over variants by their split percentages. Uses smooth weighted
+ * round-robin so variants are interleaved in send order instead of sent in blocks.
+ */
+export function assignVariants(
+  leadIds: string[],
+  variants: Array<{ id: string; splitPercent: number }>
+): Array<{ leadId: string; variantId: string }> {
+  const credit = variants.map(() => 0);
+
+  return leadIds.map((leadId) => {
+    let best = 0;
+    variants.forEach((variant, i) => {
+      credit[i]! += variant.splitPercent;
+      if (credit[i]! > credit[best]!) best = i;
+    });
+    credit[best]! -= 100;
+    return { leadId, variantId: variants[best]!.id };
+  });
+}
+
+/**
+ * Per-variant funnel of the test sample. Rates are percentages of messages
+ * sent; a reply is any inbound message after the lead's campaign message.
+ * Sends to the rest of the audience after a winner was picked are only counted
+ * in `winnerSent`, so they can't tip the comparison.
+ */
+export async function getVariantStats(campaignId: string): Promise<VariantStats[]> {
+  const variants = await prisma.campaignVariant.findMany({
+    where: { campaignId },
+    select: { id: true },
+    orderBy: { label: 'asc' },
+  });
+  if (variants.length === 0) return [];
+
+  const campaignLeads = await prisma.campaignLead.findMany({
+    where: { campaignId, variantId: { not: null } },
+    select: { leadId: true, variantId: true, winnerPhase: true, lead: { select: { status: true } } },
+  });
+
+  const messages = await prisma.messageLog.findMany({
+    where: { campaignId, direction: 'OUTBOUND', sentAt: { not: null } },
+    select: { leadId: true, status: true, sentAt: true, deliveredAt: true, readAt: true },
+  });
+  // A retried lead can have a failed attempt too — keep the successful one
+  const messageByLead = new Map<string, typeof messages[number]>();
+  for (const m of messages) {
+    if (!messageByLead.has(m.leadId) || messageByLead.get(m.leadId)!.status === 'FAILED') {
+      messageByLead.set(m.leadId, m);
+    }
+  }
+
+  // Inbound messages since the campaign's earliest send
+  const firstSentAt = messages.reduce<Date | null>(
+    (min, m) => (!min || m.sentAt! < min ? m.sentAt : min),
+    null
+  );
+  const inbound = firstSentAt
+    ? await prisma.messageLog.findMany({
+      where: {
+        leadId: { in: [...messageByLead.keys()] },
+        direction: 'INBOUND',
+        createdAt: { gte: firstSentAt },
+      },
+      select: { leadId: true, createdAt: true },
+    })
+    : [];
+  const repliedLeads = new Set(
+    inbound
+      .filter((m) => m.createdAt >= messageByLead.get(m.leadId)!.sentAt!)
+      .map((m) => m.leadId)
+  );
+
+  const rate = (count: number, sent: number) =>
+    sent > 0 ? parseFloat(((count / sent) * 100).toFixed(2)) : 0;
+
+  return variants.map((variant) => {
+    const counts = { assigned: 0, sent: 0, winnerSent: 0, delivered: 0, read: 0, replied: 0, converted: 0 };
+
+    for (const cl of campaignLeads) {
+      if (cl.variantId !== variant.id) continue;
+
+      const message = messageByLead.get(cl.leadId);
+      const sent = !!message && message.status !== 'FAILED';
+      if (cl.winnerPhase) {
+        if (sent) counts.winnerSent++;
+        continue;
+      }
+
+      counts.assigned++;
+      if (!message || !sent) continue;
+      counts.sent++;
+      if (message.deliveredAt || message.status === 'DELIVERED' || message.status === 'READ') counts.delivered++;
+      if (message.readAt || message.status === 'READ') counts.read++;
+      if (repliedLeads.has(cl.leadId)) counts.replied++;
+      if (cl.lead.status === 'CONVERTED') counts.converted++;
+    }
+
+    return {
+      variantId: variant.id,
+      ...counts,
+      deliveryRate: rate(counts.delivered, counts.sent),
+      readRate: rate(counts.read, counts.sent),
+      replyRate: rate(counts.replied, counts.sent),
+      conversionRate: rate(counts.converted, counts.sent),
+    };
+  });
+}
+
+/**
+ * Pick the winning variant once the test sample has been sent and had
+ * `waitHours` to collect results, then hand the remaining audience to it.
+ * Returns null while the test is still running.
+ */
+export async function pickWinner(campaignId: string, config: AutoWinnerConfig): Promise<CampaignVariant | null> {
+  const existing = await prisma.campaignVariant.findFirst({ where: { campaignId, isWinner: true } });
+  if (existing) return existing;
+
+  const samplePending = await prisma.campaignLead.count({
+    where: { campaignId, status: 'PENDING', variantId: { not: null } },
+  });
+  if (samplePending > 0) return null;
+
+  const lastSample = await prisma.messageLog.findFirst({
+    where: { campaignId, direction: 'OUTBOUND', sentAt: { not: null } },
+    orderBy: { sentAt: 'desc' },
+    select: { sentAt: true },
+  });
+  if (lastSample && Date.now() - lastSample.sentAt!.getTime() < config.waitHours * 60 * 60 * 1000) {
+    return null;
+  }
+
+  const variants = await prisma.campaignVariant.findMany({
+    where: { campaignId },
+    orderBy: { label: 'asc' },
+  });
+  if (variants.length === 0) return null;
+
+  // Highest rate on the chosen metric wins; ties go to the earlier variant
+  const stats = await getVariantStats(campaignId);
+  const rateKey = METRIC_RATE[config.metric];
+  let winner = variants[0]!;
+  let bestRate = -1;
+  for (const variant of variants) {
+    const value = stats.find((s) => s.variantId === variant.id)?.[rateKey] as number ?? 0;
+    if (value > bestRate) {
+      bestRate = value;
+      winner = variant;
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.campaignVariant.update({ where: { id: winner.id }, data: { isWinner: true } }),
+    prisma.campaignLead.updateMany({
+      where: { campaignId, status: 'PENDING', variantId: null },
+      data: { variantId: winner.id, winnerPhase: true },
+    }),
+  ]);
+
+  console.log(`[Campaign ${campaignId}] Variant ${winner.label} won with ${bestRate}% (${config.metric}) — sending it to the remaining audience`);
+  return { ...winner, isWinner: true };
+}
@@ -0,0 +1,271 @@
+import { Lead } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { enqueueCampaign } from '../queue/campaignSender.js';
+import { assignVariants } from './abTest.js';
+import { refreshCampaignStats } from './stats.js';
+import { AutoWinnerConfig, CustomFieldFilter } from '../../types/index.js';
+import { customFieldWhere } from '../customFields.js';
+import { parsePhone } from '../phone.js';
+
+export interface CampaignTargeting {
+  leadIds?: string[];
+  status?: string[];
+  source?: string[];
+  tags?: string[];
+  cities?: string[];
+  customFields?: CustomFieldFilter[];
+  skipDuplicateTemplate?: boolean;
+  autoWinner?: AutoWinnerConfig;
+}
+
+/**
+ * Build the lead filter for a campaign — either specific IDs or filter-based.
+ * Opted-out, DO_NOT_CONTACT and REJECTED leads are always excluded, as are
+ * unreachable numbers: not on WhatsApp, or landlines never delivered to.
+ */
+export function buildAudienceWhere(targetFilters: CampaignTargeting): any {
+  return {
+    optedOut: false,
+    status: { notIn: ['DO_NOT_CONTACT', 'REJECTED'] },
+    reachability: { not: 'NOT_ON_WHATSAPP' },
+    NOT: { phoneType: 'LANDLINE', reachability: { not: 'VALID' } },
+    AND: [buildTargetingWhere(targetFilters)],
+  };
+}
+
+/**
+ * Lead filter for a campaign's targeting alone, before any exclusions
+ */
+function buildTargetingWhere(targetFilters: CampaignTargeting): any {
+  if (targetFilters.leadIds?.length) {
+    // Specific leads were selected at creation
+    return { id: { in: targetFilters.leadIds } };
+  }
+
+  // Filter-based targeting
+  const leadWhere: any = {};
+
+  if (targetFilters.status?.length) {
+    leadWhere.status = { in: targetFilters.status };
+  }
+  if (targetFilters.source?.length) {
+    leadWhere.source = { in: targetFilters.source };
+  }
+  if (targetFilters.tags?.length) {
+    leadWhere.tags = { hasSome: targetFilters.tags };
+  }
+  if (targetFilters.cities?.length) {
+    leadWhere.city = { in: targetFilters.cities };
+  }
+  if (targetFilters.customFields?.length) {
+    leadWhere.AND = customFieldWhere(targetFilters.customFields);
+  }
+
+  return leadWhere;
+}
+
+export interface AudienceAnalysis {
+  leads: Lead[];     // leads the campaign would send to
+  matched: number;   // leads matching the targeting before exclusions
+  excluded: {
+    optedOut: number;
+    doNotContact: number;
+    rejected: number;
+    alreadyReceived: number;
+    invalidPhone: number;
+    notOnWhatsApp: number;
+    landline: number;
+  };
+}
+
+/**
+ * Run a campaign's targeting and exclusions without sending anything.
+ * Used both to start a campaign and to preview it, so the two always agree.
+ */
+export async function analyzeCampaignAudience(campaign: {
+  id: string;
+  templateId: string;
+  targetFilters: unknown;
+}): Promise<AudienceAnalysis> {
+  const targetFilters = (campaign.targetFilters as CampaignTargeting) || {};
+
+  // Find leads who already received this template (or any A/B variant) successfully (for dedup)
+  let alreadyReceivedIds: Set<string> = new Set();
+  if (targetFilters.skipDuplicateTemplate !== false) {
+    const variants = await prisma.campaignVariant.findMany({
+      where: { campaignId: campaign.id },
+      select: { templateId: true },
+    });
+    const alreadyReceived = await prisma.messageLog.findMany({
+      where: {
+        templateId: { in: [campaign.templateId, ...variants.map((v) => v.templateId)] },
+        direction: 'OUTBOUND',
+        status: { notIn: ['FAILED'] },
+      },
+      select: { leadId: true },
+      distinct: ['leadId'],
+    });
+    alreadyReceivedIds = new Set(alreadyReceived.map(m => m.leadId));
+  }
+
+  const candidates = await prisma.lead.findMany({
+    where: buildTargetingWhere(targetFilters),
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const excluded = {
+    optedOut: 0,
+    doNotContact: 0,
+    rejected: 0,
+    alreadyReceived: 0,
+    invalidPhone: 0,
+    notOnWhatsApp: 0,
+    landline: 0,
+  };
+  const leads: Lead[] = [];
+
+  // Each lead is counted under the first reason that excludes it
+  for (const lead of candidates) {
+    if (lead.optedOut) excluded.optedOut++;
+    else if (lead.status === 'DO_NOT_CONTACT') excluded.doNotContact++;
+    else if (lead.status === 'REJECTED') excluded.rejected++;
+    else if (alreadyReceivedIds.has(lead.id)) excluded.alreadyReceived++;
+    else if (!hasValidPhone(lead.phone)) excluded.invalidPhone++;
+    else if (lead.reachability === 'NOT_ON_WHATSAPP') excluded.notOnWhatsApp++;
+    else if (lead.phoneType === 'LANDLINE' && lead.reachability !== 'VALID') excluded.landline++;
+    else leads.push(lead);
+  }
+
+  return { leads, matched: candidates.length, excluded };
+}
+
+/**
+ * Resolve the lead IDs a campaign would send to right now, skipping leads
+ * who already received the template when skipDuplicateTemplate is on.
+ */
+export async function resolveCampaignAudience(campaign: {
+  id: string;
+  templateId: string;
+  targetFilters: unknown;
+}): Promise<string[]> {
+  const { leads, excluded } = await analyzeCampaignAudience(campaign);
+
+  if (excluded.alreadyReceived > 0) {
+    console.log(`[Campaign ${campaign.id}] Skipped ${excluded.alreadyReceived} leads who already received this template`);
+  }
+  if (excluded.invalidPhone > 0) {
+    console.log(`[Campaign ${campaign.id}] Skipped ${excluded.invalidPhone} leads with an invalid phone number`);
+  }
+  if (excluded.notOnWhatsApp + excluded.landline > 0) {
+    console.log(
+      `[Campaign ${campaign.id}] Skipped ${excluded.notOnWhatsApp} leads not on WhatsApp ` +
+      `and ${excluded.landline} landlines`
+    );
+  }
+
+  return leads.map((l) => l.id);
+}
+
+/**
+ * Stored numbers are E.164 digits; older leads may hold ones saved before
+ * numbers were validated
+ */
+function hasValidPhone(phone: string): boolean {
+  return /^\d+$/.test(phone) && parsePhone(`+${phone}`) !== null;
+}
+
+/**
+ * Enroll leads into a campaign, mark it RUNNING and hand it to the sender.
+ * Each run of a recurring campaign sends again to leads an earlier run reached
+ * (unless skipDuplicateTemplate left them out of the audience).
+ * Returns the campaign's total number of enrolled leads.
+ */
+export async function launchCampaign(campaignId: string, leadIds: string[]): Promise<number> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { recurrence: true },
+  });
+
+  if (campaign?.recurrence) {
+    await prisma.campaignLead.updateMany({
+      where: { campaignId, leadId: { in: leadIds }, status: { not: 'PENDING' } },
+      data: { status: 'PENDING' },
+    });
+  }
+
+  // Create campaign-lead associations
+  await prisma.campaignLead.createMany({
+    data: await assignLeadVariants(campaignId, leadIds),
+    skipDuplicates: true,
+  });
+
+  // Update campaign status
+  await prisma.campaign.update({
+    where: { id: campaignId },
+    data: {
+      status: 'RUNNING',
+      startedAt: new Date(),
+    },
+  });
+  const { totalLeads } = await refreshCampaignStats(campaignId);
+
+  await enqueueCampaign(campaignId);
+
+  return totalLeads;
+}
+
+/**
+ * Give each new lead its A/B variant. With auto-winner on, only the test sample
+ * is assigned; the rest wait (variantId null) until a winner is picked.
+ */
+async function assignLeadVariants(
+  campaignId: string,
+  leadIds: string[]
+): Promise<Array<{ campaignId: string; leadId: string; status: 'PENDING'; variantId?: string; winnerPhase?: boolean }>> {
+  const variants = await prisma.campaignVariant.findMany({
+    where: { campaignId },
+    orderBy: { label: 'asc' },
+  });
+
+  if (variants.length === 0) {
+    return leadIds.map((leadId) => ({ campaignId, leadId, status: 'PENDING' }));
+  }
+
+  const enrolled = await prisma.campaignLead.findMany({
+    where: { campaignId, leadId: { in: leadIds } },
+    select: { leadId: true },
+  });
+  const enrolledIds = new Set(enrolled.map((cl) => cl.leadId));
+
+  // Shuffle so the split isn't biased by lead order
+  const newLeadIds = leadIds.filter((id) => !enrolledIds.has(id));
+  for (let i = newLeadIds.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [newLeadIds[i], newLeadIds[j]] = [newLeadIds[j]!, newLeadIds[i]!];
+  }
+
+  const winner = variants.find((v) => v.isWinner);
+  if (winner) {
+    return newLeadIds.map((leadId) => ({
+      campaignId, leadId, status: 'PENDING', variantId: winner.id, winnerPhase: true,
+    }));
+  }
+
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { targetFilters: true },
+  });
+  const autoWinner = ((campaign?.targetFilters as CampaignTargeting) || {}).autoWinner;
+
+  let sampleCount = newLeadIds.length;
+  if (autoWinner) {
+    const alreadySampled = await prisma.campaignLead.count({ where: { campaignId, variantId: { not: null } } });
+    sampleCount = Math.max(0, Math.min(newLeadIds.length, autoWinner.sampleSize - alreadySampled));
+  }
+
+  return [
+    ...assignVariants(newLeadIds.slice(0, sampleCount), variants)
+      .map(({ leadId, variantId }) => ({ campaignId, leadId, status: 'PENDING' as const, variantId })),
+    ...newLeadIds.slice(sampleCount).map((leadId) => ({ campaignId, leadId, status: 'PENDING' as const })),
+  ];
+}
@@ -0,0 +1,154 @@
+import { prisma } from '../../config/database.js';
+import { SENDING_SPEEDS } from '../queue/campaignSender.js';
+import { analyzeCampaignAudience, AudienceAnalysis } from './launcher.js';
+import { assignVariants } from './abTest.js';
+import { isWithinSendWindow, nextWindowOpening, windowClosing } from './sendWindow.js';
+import { resolveTemplateVariables, renderTemplateBody } from '../whatsapp/templateVariables.js';
+import { SendWindow, TemplateVariableMapping } from '../../types/index.js';
+
+const SAMPLE_SIZE = 5;
+const MAX_SIMULATED_DAYS = 366;
+
+export interface SendEstimate {
+  perMessageSeconds: number;
+  dailyLimit: number | null;
+  sendingDays: number;             // calendar days with sending
+  requiresDailyResume: boolean;    // daily limit auto-pauses the campaign each day
+  estimatedCompletionAt: string | null;
+}
+
+export interface CampaignPreview {
+  leadCount: number;
+  matched: number;
+  excluded: AudienceAnalysis['excluded'];
+  missingVariables: number;        // leads that would be blocked for an empty template variable
+  samples: Array<{
+    leadId: string;
+    name: string;
+    phone: string;
+    templateName: string;
+    variantLabel?: string;
+    message: string;
+    missing: string[];
+  }>;
+  estimate: SendEstimate;
+}
+
+/**
+ * Dry-run a campaign: same audience resolution as a start, nothing is sent
+ */
+export async function previewCampaign(campaign: {
+  id: string;
+  templateId: string;
+  targetFilters: unknown;
+  scheduledAt: Date | null;
+}): Promise<CampaignPreview> {
+  const analysis = await analyzeCampaignAudience(campaign);
+  const targetFilters = (campaign.targetFilters as any) || {};
+  const variableMapping: TemplateVariableMapping | undefined = targetFilters.variableMapping;
+
+  const [template, variants] = await Promise.all([
+    prisma.messageTemplate.findUnique({ where: { id: campaign.templateId } }),
+    prisma.campaignVariant.findMany({
+      where: { campaignId: campaign.id },
+      include: { template: true },
+      orderBy: { label: 'asc' },
+    }),
+  ]);
+
+  // Without variants every lead gets the campaign template
+  const templatesFor = (leadIds: string[]) => {
+    if (variants.length === 0) return leadIds.map(() => ({ template: template!, label: undefined }));
+    const byId = new Map(variants.map((v) => [v.id, v]));
+    return assignVariants(leadIds, variants).map(({ variantId }) => {
+      const variant = byId.get(variantId)!;
+      return { template: variant.template, label: variant.label };
+    });
+  };
+
+  const leadTemplates = templatesFor(analysis.leads.map((l) => l.id));
+  let missingVariables = 0;
+  const samples: CampaignPreview['samples'] = [];
+
+  analysis.leads.forEach((lead, i) => {
+    const { template: leadTemplate, label } = leadTemplates[i]!;
+    const { params, missing } = resolveTemplateVariables(leadTemplate.bodyText, lead, variableMapping);
+    if (missing.length > 0) missingVariables++;
+
+    if (samples.length < SAMPLE_SIZE) {
+      samples.push({
+        leadId: lead.id,
+        name: lead.businessName || lead.name,
+        phone: lead.phone,
+        templateName: leadTemplate.name,
+        variantLabel: label,
+        message: renderTemplateBody(leadTemplate.bodyText, params),
+        missing,
+      });
+    }
+  });
+
+  const sendable = analysis.leads.length - missingVariables;
+  const start = campaign.scheduledAt && campaign.scheduledAt > new Date() ? campaign.scheduledAt : new Date();
+
+  return {
+    leadCount: analysis.leads.length,
+    matched: analysis.matched,
+    excluded: analysis.excluded,
+    missingVariables,
+    samples,
+    estimate: estimateCompletion(sendable, targetFilters.sendingSpeed || 'normal', targetFilters.sendWindow, start),
+  };
+}
+
+/**
+ * Estimate when a campaign of `count` messages finishes, walking through send
+ * windows and daily limits the same way the sender does
+ */
+export function estimateCompletion(
+  count: number,
+  sendingSpeed: string,
+  sendWindow: SendWindow | undefined,
+  start: Date
+): SendEstimate {
+  const speed = SENDING_SPEEDS[sendingSpeed] ?? SENDING_SPEEDS['normal']!;
+  // Configured delay plus the sender's average random jitter
+  const perMessageMs = speed.delayMs + Math.max(speed.delayMs * 0.1, 2000) / 2;
+  const dailyLimit = speed.dailyLimit || null;
+
+  let t = start.getTime();
+  let remaining = count;
+  const days = new Set<string>();
+
+  while (remaining > 0 && days.size < MAX_SIMULATED_DAYS) {
+    if (sendWindow && !isWithinSendWindow(sendWindow, new Date(t))) {
+      t = nextWindowOpening(sendWindow, new Date(t)).getTime();
+    }
+
+    let batch = remaining;
+    if (dailyLimit) batch = Math.min(batch, dailyLimit);
+    if (sendWindow) {
+      const fits = Math.floor((windowClosing(sendWindow, new Date(t)).getTime() - t) / perMessageMs);
+      batch = Math.min(batch, Math.max(1, fits));
+    }
+
+    days.add(new Date(t).toDateString());
+    t += batch * perMessageMs;
+    remaining -= batch;
+
+    // Daily limit reached — assume a resume when the sender's day rolls over (server-local midnight)
+    if (remaining > 0 && dailyLimit && batch === dailyLimit) {
+      const nextDay = new Date(t);
+      nextDay.setHours(24, 0, 0, 0);
+      t = nextDay.getTime();
+    }
+  }
+
+  return {
+    perMessageSeconds: Math.round(perMessageMs / 1000),
+    dailyLimit,
+    sendingDays: days.size,
+    requiresDailyResume: !!dailyLimit && count > dailyLimit,
+    estimatedCompletionAt: count > 0 && remaining === 0 ? new Date(t).toISOString() : null,
+  };
+}
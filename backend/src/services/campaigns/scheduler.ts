@@ -0,0 +1,131 @@
+import { prisma } from '../../config/database.js';
+import { CampaignRecurrence } from '../../types/index.js';
+import { getZonedParts, zonedTimeToUtc, parseTimeOfDay } from './timezone.js';
+import { resolveCampaignAudience, launchCampaign } from './launcher.js';
+
+const TICK_INTERVAL_MS = 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STALE_CLAIM_MS = 5 * 60_000; // a claim this old whose launch never finished was interrupted
+
+let ticking = false;
+
+/**
+ * Start the background scheduler. Every minute it launches SCHEDULED campaigns
+ * whose scheduledAt has passed, using the same lead resolution as a manual start.
+ */
+export function startCampaignScheduler(): void {
+  const tick = () => {
+    if (ticking) return;
+    ticking = true;
+    runDueCampaigns()
+      .catch((err) => console.error('[Scheduler] Error:', err))
+      .finally(() => { ticking = false; });
+  };
+
+  tick();
+  setInterval(tick, TICK_INTERVAL_MS);
+  console.log('✅ Campaign scheduler started');
+}
+
+/**
+ * Compute the first occurrence of a recurring schedule strictly after `after`
+ */
+export function nextOccurrence(recurrence: CampaignRecurrence, after: Date): Date {
+  const minutes = parseTimeOfDay(recurrence.time);
+
+  for (let i = 0; i <= 7; i++) {
+    const day = getZonedParts(new Date(after.getTime() + i * DAY_MS), recurrence.timezone);
+
+    if (recurrence.frequency === 'WEEKLY' && !recurrence.daysOfWeek.includes(day.weekday)) {
+      continue;
+    }
+
+    const candidate = zonedTimeToUtc(
+      day.year, day.month, day.day, Math.floor(minutes / 60), minutes % 60, recurrence.timezone
+    );
+    if (candidate > after) return candidate;
+  }
+
+  throw new Error('Recurrence has no matching days');
+}
+
+/**
+ * Launch every campaign that is due. Recurring campaigns get their next run
+ * time set before launching; one-off campaigns keep their scheduledAt.
+ * Campaigns whose launch was cut short by a restart are launched again.
+ */
+async function runDueCampaigns(): Promise<void> {
+  const now = new Date();
+
+  const due = await prisma.campaign.findMany({
+    where: { status: 'SCHEDULED', scheduledAt: { lte: now } },
+    select: { id: true, templateId: true, targetFilters: true, recurrence: true, scheduledAt: true },
+  });
+
+  for (const campaign of due) {
+    const recurrence = campaign.recurrence as CampaignRecurrence | null;
+    const nextRunAt = recurrence ? nextOccurrence(recurrence, now) : campaign.scheduledAt;
+
+    // Claim the campaign so an overlapping tick or another instance can't launch it twice.
+    // startedAt stays empty until its leads are enrolled, marking the launch as unfinished.
+    const claimed = await prisma.campaign.updateMany({
+      where: { id: campaign.id, status: 'SCHEDULED' },
+      data: { status: 'RUNNING', scheduledAt: nextRunAt, startedAt: null },
+    });
+    if (claimed.count === 0) continue;
+
+    await startClaimedCampaign(campaign, nextRunAt);
+  }
+
+  // Claimed but never launched — the process stopped between the claim and enrolling leads
+  const interrupted = await prisma.campaign.findMany({
+    where: { status: 'RUNNING', startedAt: null, updatedAt: { lte: new Date(now.getTime() - STALE_CLAIM_MS) } },
+    select: { id: true, templateId: true, targetFilters: true, recurrence: true, scheduledAt: true, updatedAt: true },
+  });
+
+  for (const campaign of interrupted) {
+    // Re-claim (bumping updatedAt) so another instance doesn't recover it too
+    const claimed = await prisma.campaign.updateMany({
+      where: { id: campaign.id, status: 'RUNNING', startedAt: null, updatedAt: campaign.updatedAt },
+      data: { status: 'RUNNING' },
+    });
+    if (claimed.count === 0) continue;
+
+    console.log(`[Scheduler] Campaign ${campaign.id} was claimed but never launched — launching again`);
+    await startClaimedCampaign(campaign, campaign.scheduledAt);
+  }
+}
+
+/**
+ * Enroll a claimed campaign's audience and start sending. Without leads, or if
+ * the launch fails, it goes back to SCHEDULED (recurring) or DRAFT.
+ */
+async function startClaimedCampaign(
+  campaign: { id: string; templateId: string; targetFilters: unknown; recurrence: unknown },
+  nextRunAt: Date | null
+): Promise<void> {
+  const recurrence = campaign.recurrence as CampaignRecurrence | null;
+
+  try {
+    const leadIds = await resolveCampaignAudience(campaign);
+
+    if (leadIds.length === 0) {
+      // Nothing to send this time — recurring campaigns wait for the next run
+      await prisma.campaign.update({
+        where: { id: campaign.id },
+        data: { status: recurrence ? 'SCHEDULED' : 'DRAFT' },
+      });
+      console.log(`[Scheduler] Campaign ${campaign.id} has no matching leads${recurrence ? `, next run ${nextRunAt?.toISOString()}` : ''}`);
+      return;
+    }
+
+    const totalLeads = await launchCampaign(campaign.id, leadIds);
+    console.log(`[Scheduler] Started campaign ${campaign.id} with ${leadIds.length} leads (${totalLeads} total)`);
+  } catch (err: any) {
+    console.error(`[Scheduler] Failed to start campaign ${campaign.id}:`, err.message);
+    await prisma.campaign.update({
+      where: { id: campaign.id },
+      data: { status: recurrence ? 'SCHEDULED' : 'DRAFT' },
+    });
+  }
+}
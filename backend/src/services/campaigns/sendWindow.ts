@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { SendWindow } from '../../types/index.js';
+import { getZonedParts, zonedTimeToUtc, parseTimeOfDay, isValidTimeZone } from './timezone.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shared by campaigns and sequences; nextWindowOpening relies on at least one allowed day
+export const sendWindowSchema = z.object({
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Start must be HH:mm'),
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'End must be HH:mm'),
+  timezone: z.string().default('Asia/Kolkata').refine(isValidTimeZone, 'Unknown time zone'),
+  excludedDays: z.array(z.number().int().min(0).max(6)).default([]),
+}).refine((w) => w.start < w.end, {
+  message: 'Send window must end after it starts',
+  path: ['end'],
+}).refine((w) => w.excludedDays.length < 7, {
+  message: 'Send window must allow at least one day',
+  path: ['excludedDays'],
+});
+
+/**
+ * Check whether messages may be sent at the given instant
+ */
+export function isWithinSendWindow(window: SendWindow, at: Date = new Date()): boolean {
+  const now = getZonedParts(at, window.timezone);
+
+  if (window.excludedDays.includes(now.weekday)) return false;
+
+  const minutes = now.hour * 60 + now.minute;
+  return minutes >= parseTimeOfDay(window.start) && minutes < parseTimeOfDay(window.end);
+}
+
+/**
+ * Find when the send window next opens after the given instant
+ */
+export function nextWindowOpening(window: SendWindow, after: Date = new Date()): Date {
+  const start = parseTimeOfDay(window.start);
+
+  for (let i = 0; i <= 7; i++) {
+    const day = getZonedParts(new Date(after.getTime() + i * DAY_MS), window.timezone);
+    if (window.excludedDays.includes(day.weekday)) continue;
+
+    const opening = zonedTimeToUtc(
+      day.year, day.month, day.day, Math.floor(start / 60), start % 60, window.timezone
+    );
+    if (opening > after) return opening;
+  }
+
+  throw new Error('Send window excludes every day of the week');
+}
+
+/**
+ * Find when the send window that is open at the given instant closes
+ */
+export function windowClosing(window: SendWindow, at: Date = new Date()): Date {
+  const end = parseTimeOfDay(window.end);
+  const day = getZonedParts(at, window.timezone);
+
+  return zonedTimeToUtc(day.year, day.month, day.day, Math.floor(end / 60), end % 60, window.timezone);
+}
@@ -0,0 +1,82 @@
+import { Campaign, CampaignLeadStatus, MessageLog } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { publishCampaignProgress } from '../realtime.js';
+
+// How far a campaign lead got; a receipt never moves it backwards
+const LEAD_STATUS_RANK: Partial<Record<CampaignLeadStatus, number>> = {
+  PENDING: 0,
+  SENT: 1,
+  DELIVERED: 2,
+  READ: 3,
+};
+
+/**
+ * Recount a campaign's totals from its campaign leads — one row per lead, at
+ * the status of its latest attempt. This is the only place the counters are
+ * written, so the sender, retries and delivery receipts always agree.
+ */
+export async function refreshCampaignStats(campaignId: string): Promise<Campaign> {
+  const stats = await prisma.campaignLead.groupBy({
+    by: ['status'],
+    where: { campaignId },
+    _count: true,
+  });
+
+  const count = (...statuses: CampaignLeadStatus[]) =>
+    stats.filter((s) => statuses.includes(s.status)).reduce((sum, s) => sum + s._count, 0);
+
+  const campaign = await prisma.campaign.update({
+    where: { id: campaignId },
+    data: {
+      totalLeads: stats.reduce((sum, s) => sum + s._count, 0),
+      sentCount: count('SENT', 'DELIVERED', 'READ'),
+      deliveredCount: count('DELIVERED', 'READ'),
+      readCount: count('READ'),
+      failedCount: count('FAILED'),
+    },
+  });
+  publishCampaignProgress(campaign);
+  return campaign;
+}
+
+/**
+ * Carry a campaign message's delivery status over to its campaign lead. Only
+ * the lead's latest attempt counts — a receipt for an earlier, retried one is
+ * ignored. Returns whether the campaign lead changed.
+ */
+export async function syncCampaignLeadStatus(
+  messageLog: Pick<MessageLog, 'id' | 'campaignId' | 'leadId' | 'status'>
+): Promise<boolean> {
+  if (!messageLog.campaignId) return false;
+
+  const latest = await prisma.messageLog.findFirst({
+    where: { campaignId: messageLog.campaignId, leadId: messageLog.leadId, direction: 'OUTBOUND' },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true },
+  });
+  if (latest?.id !== messageLog.id) return false;
+
+  const status = messageLog.status as CampaignLeadStatus;
+  const updated = status === 'FAILED'
+    // A sent message WhatsApp failed to deliver
+    ? await prisma.campaignLead.updateMany({
+      where: { campaignId: messageLog.campaignId, leadId: messageLog.leadId, status: 'SENT' },
+      data: { status: 'FAILED' },
+    })
+    : await prisma.campaignLead.updateMany({
+      where: {
+        campaignId: messageLog.campaignId,
+        leadId: messageLog.leadId,
+        status: { in: statusesBelow(status) },
+      },
+      data: { status },
+    });
+  return updated.count > 0;
+}
+
+function statusesBelow(status: CampaignLeadStatus): CampaignLeadStatus[] {
+  const rank = LEAD_STATUS_RANK[status];
+  if (rank === undefined) return [];
+  return (Object.keys(LEAD_STATUS_RANK) as CampaignLeadStatus[])
+    .filter((s) => LEAD_STATUS_RANK[s]! < rank && s !== 'PENDING');
+}
@@ -0,0 +1,89 @@
+/**
+ * Minimal time zone helpers built on Intl — enough to work with wall-clock
+ * times like "10:00 Asia/Kolkata" without pulling in a date library.
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Check whether a string is an IANA time zone the runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock date and time of an instant in the given time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')),
+    day: parseInt(get('day')),
+    hour: parseInt(get('hour')),
+    minute: parseInt(get('minute')),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Convert a wall-clock time in the given time zone to a UTC instant
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getOffsetMs(new Date(guess), timeZone);
+  const result = guess - offset;
+
+  // Re-check once in case the guess crossed a DST transition
+  const adjustedOffset = getOffsetMs(new Date(result), timeZone);
+  return new Date(adjustedOffset === offset ? result : guess - adjustedOffset);
+}
+
+/**
+ * Parse "HH:mm" into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  const minuteFloor = Math.floor(date.getTime() / 60_000) * 60_000;
+  return asUtc - minuteFloor;
+}
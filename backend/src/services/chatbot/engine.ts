@@ -0,0 +1,163 @@
+import { LeadStatus } from '@prisma/client';
+import { ChatbotStep, ChatbotMessage } from '../../types/index.js';
+
+// Lead fields a step may capture an answer into or set directly
+export const CHATBOT_LEAD_FIELDS = [
+  'name', 'businessName', 'businessType', 'email', 'city', 'state', 'pincode', 'address', 'notes',
+] as const;
+
+const MAX_BUTTONS = 3;            // WhatsApp reply-button limit
+const MAX_BUTTON_TITLE = 20;
+const MAX_STEPS_PER_TURN = 10;    // guards against next-loops between steps that don't wait
+
+export interface ChatbotAnswer {
+  text: string;
+  buttonId?: string;  // interactive button_reply id
+}
+
+export interface ChatbotTurn {
+  replies: ChatbotMessage[];
+  leadUpdate: {
+    fields: Record<string, string>;
+    addTags: string[];
+    status?: LeadStatus;
+  };
+  stepId: string | null;          // step now waiting for an answer
+  outcome: 'WAITING' | 'COMPLETED' | 'HANDED_OFF';
+  invalidAnswer?: boolean;        // answer didn't match any button — the step was asked again
+}
+
+/**
+ * Check a flow's steps for broken references and WhatsApp limits
+ */
+export function validateFlowSteps(steps: ChatbotStep[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  if (steps.length === 0) errors.push('A flow needs at least one step');
+
+  for (const step of steps) {
+    if (ids.has(step.id)) errors.push(`Duplicate step id "${step.id}"`);
+    ids.add(step.id);
+  }
+
+  for (const step of steps) {
+    const where = `Step "${step.id}"`;
+    const { message } = step;
+
+    if (step.next && !ids.has(step.next)) errors.push(`${where}: next step "${step.next}" does not exist`);
+    if (step.capture && !(CHATBOT_LEAD_FIELDS as readonly string[]).includes(step.capture)) {
+      errors.push(`${where}: cannot capture into "${step.capture}"`);
+    }
+    for (const field of Object.keys(step.actions?.setFields || {})) {
+      if (!(CHATBOT_LEAD_FIELDS as readonly string[]).includes(field)) errors.push(`${where}: cannot set field "${field}"`);
+    }
+
+    if (message.type === 'MEDIA' && !message.mediaUrl) errors.push(`${where}: media message needs a mediaUrl`);
+
+    if (message.type === 'BUTTONS') {
+      const buttons = message.buttons || [];
+      if (buttons.length === 0 || buttons.length > MAX_BUTTONS) {
+        errors.push(`${where}: needs 1-${MAX_BUTTONS} buttons`);
+      }
+      const buttonIds = new Set<string>();
+      for (const button of buttons) {
+        if (buttonIds.has(button.id)) errors.push(`${where}: duplicate button id "${button.id}"`);
+        buttonIds.add(button.id);
+        if (button.title.length > MAX_BUTTON_TITLE) {
+          errors.push(`${where}: button "${button.title}" is longer than ${MAX_BUTTON_TITLE} characters`);
+        }
+        if (button.next && !ids.has(button.next)) {
+          errors.push(`${where}: button "${button.title}" goes to missing step "${button.next}"`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Begin a flow at its first step
+ */
+export function startFlow(steps: ChatbotStep[]): ChatbotTurn {
+  return enterStep(steps, steps[0]?.id, emptyTurn());
+}
+
+/**
+ * Feed the lead's answer to the step that is waiting for it
+ */
+export function continueFlow(steps: ChatbotStep[], stepId: string, answer: ChatbotAnswer): ChatbotTurn {
+  const turn = emptyTurn();
+  const step = steps.find((s) => s.id === stepId);
+  if (!step) return { ...turn, outcome: 'COMPLETED' };
+
+  let next = step.next;
+
+  if (step.message.type === 'BUTTONS') {
+    const button = matchButton(step, answer);
+
+    if (!button && !step.capture) {
+      // Ask again rather than guess
+      return { ...turn, replies: [step.message], stepId: step.id, outcome: 'WAITING', invalidAnswer: true };
+    }
+    if (button?.next) next = button.next;
+  }
+
+  if (step.capture && answer.text.trim()) {
+    turn.leadUpdate.fields[step.capture] = answer.text.trim();
+  }
+
+  return enterStep(steps, next, turn);
+}
+
+function enterStep(steps: ChatbotStep[], stepId: string | undefined, turn: ChatbotTurn): ChatbotTurn {
+  for (let hops = 0; stepId && hops < MAX_STEPS_PER_TURN; hops++) {
+    const step = steps.find((s) => s.id === stepId);
+    if (!step) break;
+
+    turn.replies.push(step.message);
+    applyActions(step, turn);
+
+    if (step.handoff) return { ...turn, stepId: null, outcome: 'HANDED_OFF' };
+
+    // Buttons and captures wait for the lead's answer
+    if (step.message.type === 'BUTTONS' || step.capture) {
+      return { ...turn, stepId: step.id, outcome: 'WAITING' };
+    }
+
+    stepId = step.next;
+  }
+
+  return { ...turn, stepId: null, outcome: 'COMPLETED' };
+}
+
+function applyActions(step: ChatbotStep, turn: ChatbotTurn): void {
+  const { actions } = step;
+  if (!actions) return;
+
+  Object.assign(turn.leadUpdate.fields, actions.setFields);
+  for (const tag of actions.addTags || []) {
+    if (!turn.leadUpdate.addTags.includes(tag)) turn.leadUpdate.addTags.push(tag);
+  }
+  if (actions.setStatus) turn.leadUpdate.status = actions.setStatus;
+}
+
+// Tapped button (by id), typed title, or the option's number ("2")
+function matchButton(step: ChatbotStep, answer: ChatbotAnswer) {
+  const buttons = step.message.buttons || [];
+  const text = answer.text.trim().toLowerCase();
+
+  return buttons.find((b) => answer.buttonId && b.id === answer.buttonId)
+    || buttons.find((b) => b.title.trim().toLowerCase() === text)
+    || buttons[parseInt(text) - 1];
+}
+
+function emptyTurn(): ChatbotTurn {
+  return {
+    replies: [],
+    leadUpdate: { fields: {}, addTags: [] },
+    stepId: null,
+    outcome: 'COMPLETED',
+  };
+}
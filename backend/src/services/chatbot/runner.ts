@@ -0,0 +1,171 @@
+import { ChatbotFlow, Lead } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { whatsappClient } from '../whatsapp/client.js';
+import { containsWholeWord } from '../whatsapp/keywords.js';
+import { sendPushNotification } from '../pushNotification.js';
+import { trackNewMessage, getConversationAssigneeId } from '../conversations.js';
+import { exitSequences } from '../sequences/runner.js';
+import { recordLeadActivity, leadChangeActivities } from '../leadTimeline.js';
+import { startFlow, continueFlow, ChatbotAnswer, ChatbotTurn } from './engine.js';
+import { ChatbotMessage, ChatbotStep, WhatsAppIncomingMessage } from '../../types/index.js';
+
+// An unanswered question goes stale with WhatsApp's 24h customer-service window
+const SESSION_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Run an incoming message through chatbot flows: answer the lead's open
+ * session, or start a flow whose trigger keyword matches.
+ * Returns true when a flow handled the message (auto-reply rules are skipped).
+ */
+export async function handleChatbotMessage(message: WhatsAppIncomingMessage, lead: Lead): Promise<boolean> {
+  const answer = extractAnswer(message);
+  if (!answer) return false;
+
+  await prisma.chatbotSession.updateMany({
+    where: { leadId: lead.id, status: 'ACTIVE', updatedAt: { lt: new Date(Date.now() - SESSION_TIMEOUT_MS) } },
+    data: { status: 'EXPIRED', endedAt: new Date() },
+  });
+
+  const session = await prisma.chatbotSession.findFirst({
+    where: { leadId: lead.id, status: 'ACTIVE' },
+    include: { flow: true },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  if (session?.stepId && session.flow.isActive) {
+    const turn = continueFlow(session.flow.steps as unknown as ChatbotStep[], session.stepId, answer);
+    await applyTurn(lead, session.flow, session.id, turn);
+    return true;
+  }
+
+  if (session) {
+    // Flow was switched off mid-conversation
+    await prisma.chatbotSession.update({
+      where: { id: session.id },
+      data: { status: 'EXPIRED', endedAt: new Date() },
+    });
+  }
+
+  const flows = await prisma.chatbotFlow.findMany({
+    where: { isActive: true },
+    orderBy: { priority: 'asc' },
+  });
+  const flow = flows.find((f) => f.triggerKeywords.some((kw) => containsWholeWord(answer.text, kw)));
+  if (!flow) return false;
+
+  console.log(`[Chatbot] Flow "${flow.name}" started for lead ${lead.id}`);
+
+  const created = await prisma.chatbotSession.create({
+    data: { leadId: lead.id, flowId: flow.id },
+  });
+  await applyTurn(lead, flow, created.id, startFlow(flow.steps as unknown as ChatbotStep[]));
+  return true;
+}
+
+function extractAnswer(message: WhatsAppIncomingMessage): ChatbotAnswer | null {
+  switch (message.type) {
+    case 'text':
+      return message.text?.body ? { text: message.text.body } : null;
+    case 'button':
+      return { text: message.button?.text || message.button?.payload || '' };
+    case 'interactive':
+      return {
+        text: message.interactive?.button_reply?.title || message.interactive?.list_reply?.title || '',
+        buttonId: message.interactive?.button_reply?.id || message.interactive?.list_reply?.id,
+      };
+    default:
+      return null; // media doesn't answer a question
+  }
+}
+
+async function applyTurn(lead: Lead, flow: ChatbotFlow, sessionId: string, turn: ChatbotTurn): Promise<void> {
+  const { fields, addTags, status } = turn.leadUpdate;
+
+  if (Object.keys(fields).length > 0 || addTags.length > 0 || status) {
+    const tags = addTags.length > 0 ? [...new Set([...lead.tags, ...addTags])] : undefined;
+    await prisma.lead.update({
+      where: { id: lead.id },
+      data: {
+        ...fields,
+        ...(tags && { tags }),
+        ...(status && { status }),
+      },
+    });
+    await recordLeadActivity(
+      leadChangeActivities(lead, { status: status || undefined, tags }, { source: `Chatbot flow "${flow.name}"` })
+    );
+
+    if (status === 'CONVERTED' || status === 'REJECTED' || status === 'DO_NOT_CONTACT') {
+      await exitSequences(lead.id, status);
+    }
+  }
+
+  for (const reply of turn.replies) {
+    await sendChatbotMessage(lead, reply);
+  }
+
+  const ended = turn.outcome !== 'WAITING';
+  await prisma.chatbotSession.update({
+    where: { id: sessionId },
+    data: {
+      stepId: turn.stepId,
+      status: turn.outcome === 'WAITING' ? 'ACTIVE' : turn.outcome,
+      endedAt: ended ? new Date() : undefined,
+    },
+  });
+
+  if (turn.outcome === 'HANDED_OFF') {
+    console.log(`[Chatbot] Lead ${lead.id} handed off to a human from "${flow.name}"`);
+    sendPushNotification({
+      title: `${lead.name || lead.phone} wants to talk to sales`,
+      body: `Handed off by chatbot flow "${flow.name}"`,
+      url: `/conversations?lead=${lead.id}`,
+      tag: `handoff-${lead.id}`,
+    }, await getConversationAssigneeId(lead.id)).catch((err) => console.error('Push notification error:', err));
+  }
+}
+
+async function sendChatbotMessage(lead: Lead, message: ChatbotMessage): Promise<void> {
+  const buttons = message.type === 'BUTTONS' ? message.buttons || [] : [];
+  const media = message.mediaUrl && message.type !== 'TEXT'
+    ? { mediaUrl: message.mediaUrl, mediaType: message.mediaType || 'image' }
+    : undefined;
+
+  try {
+    const result = buttons.length > 0
+      ? await whatsappClient.sendInteractiveButtons(
+        lead.phone, message.text, buttons, media && { media: media.mediaUrl, mediaType: media.mediaType }
+      )
+      : media
+        ? await whatsappClient.sendMediaMessage(lead.phone, media.mediaUrl, media.mediaType, message.text || undefined)
+        : await whatsappClient.sendTextMessage(lead.phone, message.text);
+
+    const messageLog = await prisma.messageLog.create({
+      data: {
+        leadId: lead.id,
+        channel: 'WHATSAPP',
+        direction: 'OUTBOUND',
+        content: media || buttons.length > 0
+          ? JSON.stringify({
+            text: message.text,
+            mediaUrl: media?.mediaUrl,
+            mediaType: media?.mediaType.toUpperCase(),
+            buttons: buttons.map((b) => b.title),
+          })
+          : message.text,
+        whatsappMessageId: result.messageId || undefined,
+        status: result.success ? 'SENT' : 'FAILED',
+        sentAt: result.success ? new Date() : undefined,
+        failedAt: result.success ? undefined : new Date(),
+        errorMessage: result.error || undefined,
+      },
+    });
+    await trackNewMessage(messageLog);
+
+    if (!result.success) {
+      console.log(`[Chatbot] Failed for ${lead.phone}: ${result.error}`);
+    }
+  } catch (err: any) {
+    console.error(`[Chatbot] Error for ${lead.phone}:`, err.message);
+  }
+}
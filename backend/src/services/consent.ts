@@ -0,0 +1,121 @@
+import { ConsentKeyword, ConsentSource, Lead } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { exitSequences } from './sequences/runner.js';
+import { announceTimelineChange } from './leadTimeline.js';
+import { wholeWordPattern } from './whatsapp/keywords.js';
+
+// A keyword right after one of these doesn't count — "don't stop sending" is not an opt-out
+const NEGATION = /(?:^|[^\p{L}\p{M}\p{N}'])(?:don't|dont|do not|not|never|no|मत|नहीं|ना)\s*$/u;
+
+interface ConsentChange {
+  source: ConsentSource;
+  keyword?: string;
+  messageText?: string;
+  messageLogId?: string;
+  changedById?: string;
+}
+
+/**
+ * Find the active opt-out/opt-in keyword a message triggers, if any.
+ * Keywords match as whole words or phrases, never as part of a longer word.
+ * A word set up in several languages resolves to the lead's language, so the
+ * confirmation goes out in it.
+ */
+export async function findConsentKeyword(text: string, leadId?: string): Promise<ConsentKeyword | null> {
+  const keywords = await prisma.consentKeyword.findMany({ where: { isActive: true } });
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'");
+
+  // Longest first, so "opt out" wins over a shorter keyword inside it
+  keywords.sort((a, b) => b.keyword.length - a.keyword.length);
+
+  const match = keywords.find((k) => matchesKeyword(normalized, k.keyword));
+  if (!match) return null;
+
+  const variants = keywords.filter((k) => k.keyword === match.keyword);
+  if (variants.length === 1) return match;
+
+  const language = leadId ? await getLeadLanguage(leadId) : undefined;
+  return variants.find((k) => k.language === language)
+    ?? variants.find((k) => k.language === 'en')
+    ?? match;
+}
+
+/**
+ * The language we last wrote to a lead in — the language of the latest
+ * template sent, e.g. "hi" for hi or "en" for en_US
+ */
+async function getLeadLanguage(leadId: string): Promise<string | undefined> {
+  const last = await prisma.messageLog.findFirst({
+    where: { leadId, direction: 'OUTBOUND', templateId: { not: null } },
+    orderBy: { createdAt: 'desc' },
+    select: { template: { select: { language: true } } },
+  });
+  return last?.template?.language.split('_')[0]?.toLowerCase();
+}
+
+function matchesKeyword(text: string, keyword: string): boolean {
+  const pattern = wholeWordPattern(keyword);
+  if (!pattern) return false;
+
+  for (const match of text.matchAll(pattern)) {
+    if (!NEGATION.test(text.slice(0, match.index))) return true;
+  }
+  return false;
+}
+
+/**
+ * Opt a lead out of WhatsApp messages and record why
+ */
+export async function optOutLead(lead: Lead, change: ConsentChange): Promise<void> {
+  await prisma.$transaction([
+    prisma.lead.update({
+      where: { id: lead.id },
+      data: {
+        optedOut: true,
+        optedOutAt: new Date(),
+        status: 'DO_NOT_CONTACT',
+      },
+    }),
+    prisma.consentEvent.create({
+      data: { ...change, leadId: lead.id, action: 'OPT_OUT', previousStatus: lead.status },
+    }),
+  ]);
+
+  await exitSequences(lead.id, 'OPTED_OUT');
+  announceTimelineChange(lead.id);
+
+  console.log(`Lead ${lead.id} opted out (${change.source}${change.keyword ? `: ${change.keyword}` : ''})`);
+}
+
+/**
+ * Opt a lead back in. A DO_NOT_CONTACT status set by the opt-out is restored
+ * to what it was before.
+ */
+export async function optInLead(lead: Lead, change: ConsentChange): Promise<void> {
+  const lastOptOut = await prisma.consentEvent.findFirst({
+    where: { leadId: lead.id, action: 'OPT_OUT' },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const restoredStatus = lastOptOut?.previousStatus && lastOptOut.previousStatus !== 'DO_NOT_CONTACT'
+    ? lastOptOut.previousStatus
+    : 'CONTACTED';
+
+  await prisma.$transaction([
+    prisma.lead.update({
+      where: { id: lead.id },
+      data: {
+        optedOut: false,
+        optedOutAt: null,
+        ...(lead.status === 'DO_NOT_CONTACT' && { status: restoredStatus }),
+      },
+    }),
+    prisma.consentEvent.create({
+      data: { ...change, leadId: lead.id, action: 'OPT_IN', previousStatus: lead.status },
+    }),
+  ]);
+
+  announceTimelineChange(lead.id);
+
+  console.log(`Lead ${lead.id} opted back in (${change.source}${change.keyword ? `: ${change.keyword}` : ''})`);
+}
@@ -0,0 +1,175 @@
+import { MessageLog, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { publishEvent, publishMessage } from './realtime.js';
+import { recordLeadActivity } from './leadTimeline.js';
+import { ReplyWindow } from '../types/index.js';
+
+// WhatsApp only allows free-form messages within 24 hours of the lead's last message
+export const REPLY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export function replyWindowFrom(lastInboundAt: Date | null): ReplyWindow {
+  if (!lastInboundAt) return { open: false, expiresAt: null };
+  const expiresAt = new Date(lastInboundAt.getTime() + REPLY_WINDOW_MS);
+  return { open: expiresAt.getTime() > Date.now(), expiresAt };
+}
+
+/**
+ * The lead's reply window, from their latest inbound message. Read from the
+ * message log rather than the inbox summary so a send is never let through
+ * on a stale summary.
+ */
+export async function getReplyWindow(leadId: string): Promise<ReplyWindow> {
+  const lastInbound = await prisma.messageLog.findFirst({
+    where: { leadId, direction: 'INBOUND' },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+  return replyWindowFrom(lastInbound?.createdAt ?? null);
+}
+
+/**
+ * Bring the lead's inbox summary up to date with a newly logged message, then
+ * announce it. Unread state is worked out per user from their read cursor, so
+ * nothing per user is written here.
+ */
+export async function trackNewMessage(log: MessageLog): Promise<void> {
+  const inbound = log.direction === 'INBOUND';
+
+  try {
+    await prisma.conversation.upsert({
+      where: { leadId: log.leadId },
+      create: {
+        leadId: log.leadId,
+        lastMessageId: log.id,
+        lastMessageAt: log.createdAt,
+        lastInboundAt: inbound ? log.createdAt : undefined,
+      },
+      update: {
+        lastMessageId: log.id,
+        lastMessageAt: log.createdAt,
+        ...(inbound && { lastInboundAt: log.createdAt }),
+      },
+    });
+  } catch (err: any) {
+    // The message itself is logged; a stale summary shouldn't fail the send
+    console.error(`[Inbox] Failed to update conversation for lead ${log.leadId}:`, err.message);
+  }
+
+  publishMessage('message.created', log);
+}
+
+/**
+ * IDs of the conversations with unread messages for a user. The read cursor is
+ * the user's own createdAt until they first open the thread.
+ */
+export async function getUnreadConversationIds(userId: string): Promise<string[]> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT c."id"
+    FROM "conversations" c
+    JOIN "users" u ON u."id" = ${userId}
+    LEFT JOIN "conversation_reads" r ON r."conversationId" = c."id" AND r."userId" = u."id"
+    WHERE r."markedUnread" = true
+       OR c."lastInboundAt" > COALESCE(r."lastReadAt", u."createdAt")
+  `;
+  return rows.map((r) => r.id);
+}
+
+/**
+ * Unread inbound messages per lead for a user; a thread flagged unread counts
+ * at least one
+ */
+export async function getUnreadCounts(userId: string, leadIds: string[]): Promise<Map<string, number>> {
+  if (leadIds.length === 0) return new Map();
+
+  const rows = await prisma.$queryRaw<Array<{ leadId: string; count: number; markedUnread: boolean | null }>>`
+    SELECT c."leadId", r."markedUnread",
+      (SELECT COUNT(*)::int FROM "message_logs" m
+        WHERE m."leadId" = c."leadId" AND m."direction" = 'INBOUND'
+          AND m."createdAt" > COALESCE(r."lastReadAt", u."createdAt")) AS "count"
+    FROM "conversations" c
+    JOIN "users" u ON u."id" = ${userId}
+    LEFT JOIN "conversation_reads" r ON r."conversationId" = c."id" AND r."userId" = u."id"
+    WHERE c."leadId" IN (${Prisma.join(leadIds)})
+  `;
+  return new Map(rows.map((r) => [r.leadId, r.markedUnread ? Math.max(r.count, 1) : r.count]));
+}
+
+export async function markConversationRead(leadId: string, userId: string): Promise<void> {
+  const conversation = await prisma.conversation.findUnique({ where: { leadId } });
+  if (!conversation) return;
+
+  await prisma.conversationRead.upsert({
+    where: { conversationId_userId: { conversationId: conversation.id, userId } },
+    create: { conversationId: conversation.id, userId, lastReadAt: new Date() },
+    update: { lastReadAt: new Date(), markedUnread: false },
+  });
+}
+
+/**
+ * Flag a thread for the user to come back to — keeps any unread messages
+ */
+export async function markConversationUnread(leadId: string, userId: string): Promise<boolean> {
+  const conversation = await prisma.conversation.findUnique({ where: { leadId } });
+  if (!conversation) return false;
+
+  await prisma.conversationRead.upsert({
+    where: { conversationId_userId: { conversationId: conversation.id, userId } },
+    create: { conversationId: conversation.id, userId, lastReadAt: new Date(), markedUnread: true },
+    update: { markedUnread: true },
+  });
+  return true;
+}
+
+/**
+ * Hand an unassigned conversation to the next round-robin user, if anyone has
+ * opted in. Returns whoever owns the conversation afterwards.
+ */
+export async function autoAssignConversation(leadId: string): Promise<string | null> {
+  const conversation = await prisma.conversation.findUnique({ where: { leadId } });
+  if (!conversation) return null;
+  if (conversation.assignedToId) return conversation.assignedToId;
+
+  const next = await prisma.user.findFirst({
+    where: { acceptsAutoAssign: true },
+    orderBy: [{ lastAutoAssignedAt: { sort: 'asc', nulls: 'first' } }, { createdAt: 'asc' }],
+  });
+  if (!next) return null;
+
+  // Only claim it if nobody picked it up in the meantime
+  const { count } = await prisma.conversation.updateMany({
+    where: { id: conversation.id, assignedToId: null },
+    data: { assignedToId: next.id, assignedAt: new Date() },
+  });
+  if (count === 0) {
+    const current = await prisma.conversation.findUnique({ where: { id: conversation.id } });
+    return current?.assignedToId ?? null;
+  }
+
+  await prisma.user.update({ where: { id: next.id }, data: { lastAutoAssignedAt: new Date() } });
+  const assignedTo = { id: next.id, name: next.name };
+  await recordLeadActivity([{ leadId, type: 'ASSIGNED', data: { to: assignedTo, auto: true } }]);
+  publishEvent({ type: 'conversation.assigned', leadId, assignedTo });
+  console.log(`[Inbox] Auto-assigned lead ${leadId} to ${next.name}`);
+  return next.id;
+}
+
+export async function assignConversation(
+  leadId: string,
+  assignee: { id: string; name: string } | null,
+  actorId: string
+): Promise<void> {
+  await prisma.conversation.update({
+    where: { leadId },
+    data: { assignedToId: assignee?.id ?? null, assignedAt: assignee ? new Date() : null },
+  });
+  await recordLeadActivity([{ leadId, type: 'ASSIGNED', actorId, data: { to: assignee } }]);
+  publishEvent({ type: 'conversation.assigned', leadId, assignedTo: assignee });
+}
+
+export async function getConversationAssigneeId(leadId: string): Promise<string | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { leadId },
+    select: { assignedToId: true },
+  });
+  return conversation?.assignedToId ?? null;
+}
@@ -0,0 +1,6 @@
+/**
+ * One CSV line (RFC 4180): cells with commas, quotes or line breaks are quoted
+ */
+export function csvLine(cells: string[]): string {
+  return cells.map((cell) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(',') + '\r\n';
+}
@@ -0,0 +1,164 @@
+import { CustomField, Lead, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/database.js';
+import { CustomFieldFilter, CustomFieldValue } from '../types/index.js';
+
+// Validates CustomFieldFilter lists from lead queries and campaign targeting
+export const customFieldFiltersSchema = z.array(z.object({
+  key: z.string().min(1),
+  values: z.array(z.string()).optional(),
+  contains: z.string().optional(),
+  min: z.union([z.number(), z.string()]).optional(),
+  max: z.union([z.number(), z.string()]).optional(),
+})).max(20);
+
+export async function getCustomFields(): Promise<CustomField[]> {
+  return prisma.customField.findMany({ orderBy: [{ order: 'asc' }, { createdAt: 'asc' }] });
+}
+
+/**
+ * A readable key from a field's label: "Monthly oil volume (L)" → "monthly_oil_volume_l"
+ */
+export function customFieldKey(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40);
+}
+
+function isBlank(raw: unknown): boolean {
+  return raw == null || (typeof raw === 'string' && raw.trim() === '') || (Array.isArray(raw) && raw.length === 0);
+}
+
+function matchOption(field: CustomField, raw: string): string | undefined {
+  const wanted = raw.trim().toLowerCase();
+  return field.options.find((option) => option.toLowerCase() === wanted);
+}
+
+// Dates come in as YYYY-MM-DD from the app, often DD/MM/YYYY from spreadsheets
+function parseDate(raw: string): string | undefined {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  let [year, month, day] = match ? [match[1], match[2], match[3]] : [];
+  if (!match) {
+    match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+    if (match) [day, month, year] = [match[1], match[2], match[3]];
+  }
+  if (!year || !month || !day) return undefined;
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1) return undefined; // 31/02 and the like
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Check a raw value (form input or CSV cell) against the field's type. Returns
+ * the value to store, null to clear it, or an error message.
+ */
+export function coerceCustomFieldValue(
+  field: CustomField,
+  raw: unknown
+): { value: CustomFieldValue | null } | { error: string } {
+  if (isBlank(raw)) return { value: null };
+
+  switch (field.type) {
+    case 'TEXT': {
+      const text = String(raw).trim();
+      if (text.length > 500) return { error: `${field.label} is too long (500 characters max)` };
+      return { value: text };
+    }
+    case 'NUMBER': {
+      const number = typeof raw === 'number' ? raw : Number(String(raw).replace(/,/g, '').trim());
+      if (!Number.isFinite(number)) return { error: `${field.label} must be a number` };
+      return { value: number };
+    }
+    case 'DATE': {
+      const date = parseDate(String(raw));
+      if (!date) return { error: `${field.label} must be a date (YYYY-MM-DD or DD/MM/YYYY)` };
+      return { value: date };
+    }
+    case 'SELECT': {
+      const option = matchOption(field, String(raw));
+      if (!option) return { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+      return { value: option };
+    }
+    case 'MULTI_SELECT': {
+      const items = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[,;]/);
+      const options: string[] = [];
+      for (const item of items.filter((i) => i.trim())) {
+        const option = matchOption(field, item);
+        if (!option) return { error: `${field.label}: "${item.trim()}" is not one of ${field.options.join(', ')}` };
+        if (!options.includes(option)) options.push(option);
+      }
+      return { value: options.length > 0 ? options : null };
+    }
+  }
+}
+
+/**
+ * Apply updates (keyed by field key) to a lead's stored values. Unknown keys
+ * and invalid values are reported rather than saved.
+ */
+export function applyCustomFieldValues(
+  current: Prisma.JsonValue | undefined,
+  updates: Record<string, unknown>,
+  fields: CustomField[]
+): { values: Record<string, CustomFieldValue>; errors: string[] } {
+  const values = { ...((current as Record<string, CustomFieldValue> | null) || {}) };
+  const errors: string[] = [];
+  const byKey = new Map(fields.map((f) => [f.key, f]));
+
+  for (const [key, raw] of Object.entries(updates)) {
+    const field = byKey.get(key);
+    if (!field) {
+      errors.push(`Unknown custom field "${key}"`);
+      continue;
+    }
+    const result = coerceCustomFieldValue(field, raw);
+    if ('error' in result) errors.push(result.error);
+    else if (result.value === null) delete values[key];
+    else values[key] = result.value;
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Lead conditions for custom field filters, usable in any lead query. They
+ * don't need the field definitions: a filter on a field that no longer exists
+ * matches no leads, rather than silently widening a campaign's audience.
+ */
+export function customFieldWhere(filters: CustomFieldFilter[] = []): Prisma.LeadWhereInput[] {
+  const conditions: Prisma.LeadWhereInput[] = [];
+
+  for (const filter of filters) {
+    const path = [filter.key];
+
+    if (filter.values?.length) {
+      conditions.push({
+        OR: filter.values.flatMap((value): Prisma.LeadWhereInput[] => [
+          { customFields: { path, equals: value } },
+          { customFields: { path, array_contains: [value] } },
+        ]),
+      });
+    }
+    if (filter.contains?.trim()) {
+      conditions.push({ customFields: { path, string_contains: filter.contains.trim() } });
+    }
+    if (filter.min !== undefined && filter.min !== '') {
+      conditions.push({ customFields: { path, gte: filter.min } });
+    }
+    if (filter.max !== undefined && filter.max !== '') {
+      conditions.push({ customFields: { path, lte: filter.max } });
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * A lead's custom field as text, for template variables — multi-select
+ * options are joined with commas
+ */
+export function customFieldText(lead: Pick<Lead, 'customFields'>, key: string): string {
+  const value = (lead.customFields as Record<string, CustomFieldValue> | null)?.[key];
+  if (value == null) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
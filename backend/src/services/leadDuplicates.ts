@@ -0,0 +1,320 @@
+import { Lead, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { announceTimelineChange } from './leadTimeline.js';
+import { CustomFieldValue, DuplicateCandidate, LeadMergeField } from '../types/index.js';
+
+// Points per signal; a pair is worth reviewing from about 40
+const WEIGHTS = { name: 45, email: 30, address: 25, pincode: 15 };
+
+// Leads sharing a pincode, email or name word are compared pairwise. Larger
+// groups (a common word, a city-wide pincode) are skipped — too broad to mean much.
+const MAX_BLOCK_SIZE = 250;
+
+// Words that say what kind of shop it is, not which one
+const NAME_STOPWORDS = new Set([
+  'the', 'and', 'shop', 'store', 'stores', 'kirana', 'general', 'traders', 'trading', 'enterprises',
+  'enterprise', 'mart', 'supermarket', 'super', 'market', 'sons', 'pvt', 'ltd', 'agency', 'agencies',
+  'bhandar', 'provision', 'provisions', 'mall', 'centre', 'center',
+]);
+
+const leadSelect = {
+  id: true,
+  name: true,
+  phone: true,
+  email: true,
+  businessName: true,
+  businessType: true,
+  source: true,
+  status: true,
+  tags: true,
+  city: true,
+  state: true,
+  pincode: true,
+  address: true,
+  notes: true,
+  optedOut: true,
+  createdAt: true,
+  _count: { select: { messages: true, campaignLeads: true } },
+} as const;
+
+type CandidateLead = Prisma.LeadGetPayload<{ select: typeof leadSelect }>;
+
+function normalize(value: string | null | undefined): string {
+  return (value || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function nameTokens(value: string | null | undefined): string[] {
+  return normalize(value).split(' ').filter((t) => t.length >= 3 && !NAME_STOPWORDS.has(t));
+}
+
+function bigrams(value: string): Map<string, number> {
+  const compact = value.replace(/ /g, '');
+  const grams = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+// Sørensen–Dice over character bigrams: 1 for identical, 0 for nothing in common
+function dice(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const count of gramsA.values()) total += count;
+  for (const [gram, count] of gramsB) {
+    total += count;
+    overlap += Math.min(count, gramsA.get(gram) || 0);
+  }
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = new Set(a.filter((t) => setB.has(t))).size;
+  return shared / new Set([...a, ...b]).size;
+}
+
+// Scraped leads carry the shop name, imported ones often the owner's — compare across both
+function nameSimilarity(a: CandidateLead, b: CandidateLead): number {
+  const namesA = [a.businessName, a.name].filter(Boolean) as string[];
+  const namesB = [b.businessName, b.name].filter(Boolean) as string[];
+  let best = 0;
+  for (const x of namesA) {
+    for (const y of namesB) {
+      const tokensX = nameTokens(x);
+      const tokensY = nameTokens(y);
+      best = Math.max(best, jaccard(tokensX, tokensY), dice(tokensX.join(' '), tokensY.join(' ')));
+    }
+  }
+  return best;
+}
+
+function scorePair(a: CandidateLead, b: CandidateLead): DuplicateCandidate | null {
+  // Different cities are different shops, however alike the names
+  if (a.city && b.city && normalize(a.city) !== normalize(b.city)) return null;
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  const name = nameSimilarity(a, b);
+  if (name > 0) {
+    score += WEIGHTS.name * name;
+    reasons.push(name >= 0.99 ? 'Same name' : `Similar name (${Math.round(name * 100)}%)`);
+  }
+
+  if (a.email && b.email && a.email.trim().toLowerCase() === b.email.trim().toLowerCase()) {
+    score += WEIGHTS.email;
+    reasons.push('Same email');
+  }
+
+  const address = dice(normalize(a.address), normalize(b.address));
+  if (address >= 0.5) {
+    score += WEIGHTS.address * address;
+    reasons.push(address >= 0.99 ? 'Same address' : `Similar address (${Math.round(address * 100)}%)`);
+  }
+
+  if (a.pincode && b.pincode && a.pincode.trim() === b.pincode.trim()) {
+    score += WEIGHTS.pincode;
+    reasons.push('Same pincode');
+  }
+
+  // Older lead first — the usual survivor
+  const [first, second] = a.createdAt <= b.createdAt ? [a, b] : [b, a];
+  return { score: Math.min(100, Math.round(score)), reasons, leads: [first, second] };
+}
+
+/**
+ * Pairs of leads that look like the same business under different numbers,
+ * best matches first
+ */
+export async function findDuplicateCandidates(
+  options: { minScore?: number; limit?: number } = {}
+): Promise<DuplicateCandidate[]> {
+  const { minScore = 40, limit = 100 } = options;
+
+  const leads = await prisma.lead.findMany({ select: leadSelect });
+
+  const blocks = new Map<string, CandidateLead[]>();
+  const addToBlock = (key: string, lead: CandidateLead) => {
+    const block = blocks.get(key);
+    if (block) block.push(lead);
+    else blocks.set(key, [lead]);
+  };
+  for (const lead of leads) {
+    if (lead.email) addToBlock(`email:${lead.email.trim().toLowerCase()}`, lead);
+    if (lead.pincode) addToBlock(`pin:${lead.pincode.trim()}`, lead);
+    const tokens = new Set([...nameTokens(lead.name), ...nameTokens(lead.businessName)]);
+    for (const token of tokens) addToBlock(`name:${token}`, lead);
+  }
+
+  const seen = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const key = [block[i]!.id, block[j]!.id].sort().join('|');
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const candidate = scorePair(block[i]!, block[j]!);
+        if (candidate && candidate.score >= minScore) candidates.push(candidate);
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+// Survivor values win; the merged lead's values fill the survivor's blanks
+function mergeCustomFields(survivor: Lead, merged: Lead): Record<string, CustomFieldValue> {
+  const result = { ...(survivor.customFields as Record<string, CustomFieldValue> | null) };
+  for (const [key, value] of Object.entries((merged.customFields as Record<string, CustomFieldValue> | null) || {})) {
+    const current = result[key];
+    const blank = current == null || current === '' || (Array.isArray(current) && current.length === 0);
+    if (blank) result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Fold `merged` into `survivor`: the survivor takes the chosen field values
+ * and tags, fills its blank custom fields from the merged lead, and inherits the merged lead's messages, campaign and sequence
+ * enrollments, consent log, notes and conversation. The merged lead is then
+ * deleted.
+ */
+export async function mergeLeads(
+  survivor: Lead,
+  merged: Lead,
+  choices: { fields: Partial<Record<LeadMergeField, 'survivor' | 'merged'>>; tags: string[] },
+  actorId: string
+): Promise<Lead> {
+  const data: Prisma.LeadUpdateInput = {
+    tags: choices.tags,
+    customFields: mergeCustomFields(survivor, merged) as Prisma.InputJsonValue,
+  };
+  for (const [field, pick] of Object.entries(choices.fields) as [LeadMergeField, 'survivor' | 'merged'][]) {
+    if (pick === 'merged') (data as Record<string, unknown>)[field] = merged[field];
+  }
+  // What we know about a number goes with it
+  if (choices.fields.phone === 'merged') {
+    data.phoneType = merged.phoneType;
+    data.reachability = merged.reachability;
+    data.reachabilityAt = merged.reachabilityAt;
+  }
+  // Never lose an opt-out, or the latest contact
+  if (merged.optedOut && !survivor.optedOut) {
+    data.optedOut = true;
+    data.optedOutAt = merged.optedOutAt;
+  }
+  if (merged.lastContactedAt && (!survivor.lastContactedAt || merged.lastContactedAt > survivor.lastContactedAt)) {
+    data.lastContactedAt = merged.lastContactedAt;
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const move = { where: { leadId: merged.id }, data: { leadId: survivor.id } };
+    await tx.messageLog.updateMany(move);
+    await tx.consentEvent.updateMany(move);
+    await tx.chatbotSession.updateMany(move);
+    await tx.autoReplyHit.updateMany(move);
+    await tx.leadNote.updateMany(move);
+    await tx.leadActivity.updateMany(move);
+
+    // One enrollment per campaign/sequence: where both leads were in it, the
+    // survivor's row stays (the messages themselves have already moved)
+    const survivorCampaigns = await tx.campaignLead.findMany({
+      where: { leadId: survivor.id },
+      select: { campaignId: true },
+    });
+    await tx.campaignLead.updateMany({
+      where: { leadId: merged.id, campaignId: { notIn: survivorCampaigns.map((c) => c.campaignId) } },
+      data: { leadId: survivor.id },
+    });
+    const survivorSequences = await tx.sequenceEnrollment.findMany({
+      where: { leadId: survivor.id },
+      select: { sequenceId: true },
+    });
+    await tx.sequenceEnrollment.updateMany({
+      where: { leadId: merged.id, sequenceId: { notIn: survivorSequences.map((s) => s.sequenceId) } },
+      data: { leadId: survivor.id },
+    });
+
+    await mergeConversations(tx, survivor.id, merged.id);
+
+    // The merged lead goes first: the survivor may be taking its phone number
+    await tx.lead.delete({ where: { id: merged.id } });
+    const updated = await tx.lead.update({ where: { id: survivor.id }, data });
+
+    await tx.leadActivity.create({
+      data: {
+        leadId: survivor.id,
+        type: 'MERGED',
+        actorId,
+        data: { merged: { id: merged.id, name: merged.name, phone: merged.phone } },
+      },
+    });
+
+    return updated;
+  }, { timeout: 30_000 });
+
+  console.log(`[Leads] Merged lead ${merged.id} (${merged.phone}) into ${survivor.id}`);
+  announceTimelineChange(survivor.id);
+  return result;
+}
+
+// No cursor counts as earliest of all
+function earlierCursor(a: Date | null, b: Date | null): Date | null {
+  if (!a || !b) return null;
+  return a < b ? a : b;
+}
+
+async function mergeConversations(tx: Prisma.TransactionClient, survivorId: string, mergedId: string) {
+  const [kept, absorbed] = await Promise.all([
+    tx.conversation.findUnique({ where: { leadId: survivorId } }),
+    tx.conversation.findUnique({ where: { leadId: mergedId }, include: { reads: true } }),
+  ]);
+  if (!absorbed) return;
+
+  if (!kept) {
+    await tx.conversation.update({ where: { id: absorbed.id }, data: { leadId: survivorId } });
+    return;
+  }
+
+  // Keep each user's unread messages unread: the earlier read cursor wins
+  const keptReads = await tx.conversationRead.findMany({ where: { conversationId: kept.id } });
+  for (const read of absorbed.reads) {
+    const current = keptReads.find((r) => r.userId === read.userId);
+    const lastReadAt = earlierCursor(current ? current.lastReadAt : read.lastReadAt, read.lastReadAt);
+    await tx.conversationRead.upsert({
+      where: { conversationId_userId: { conversationId: kept.id, userId: read.userId } },
+      create: { conversationId: kept.id, userId: read.userId, lastReadAt, markedUnread: read.markedUnread },
+      update: { lastReadAt, markedUnread: read.markedUnread || current?.markedUnread },
+    });
+  }
+
+  // Frees its lastMessageId for the survivor to take
+  await tx.conversation.delete({ where: { id: absorbed.id } });
+
+  const absorbedIsNewer = absorbed.lastMessageAt > kept.lastMessageAt;
+  const lastInboundAt = [kept.lastInboundAt, absorbed.lastInboundAt]
+    .filter((d): d is Date => !!d)
+    .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+  await tx.conversation.update({
+    where: { id: kept.id },
+    data: {
+      ...(absorbedIsNewer && { lastMessageId: absorbed.lastMessageId, lastMessageAt: absorbed.lastMessageAt }),
+      lastInboundAt,
+      ...(!kept.assignedToId && absorbed.assignedToId && {
+        assignedToId: absorbed.assignedToId,
+        assignedAt: absorbed.assignedAt,
+      }),
+    },
+  });
+}
@@ -0,0 +1,196 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import ExcelJS from 'exceljs';
+import { CustomField, PhoneType, Prisma, Reachability } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { customFieldText } from './customFields.js';
+import { getZonedParts } from './campaigns/timezone.js';
+import { csvLine } from './csv.js';
+
+// Leads read per query — the file is written as each page arrives
+const PAGE_SIZE = 1000;
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface LeadExportOptions {
+  format: ExportFormat;
+  columns: string[];       // EXPORT_COLUMNS keys and "custom.<key>", in order
+  lastMessage: boolean;    // Add the conversation's latest message
+  campaigns: boolean;      // Add a summary of the campaigns the lead was in
+  timezone: string;        // For dates, e.g. Asia/Kolkata
+}
+
+const exportInclude = {
+  conversation: {
+    select: { lastMessage: { select: { direction: true, content: true, createdAt: true } } },
+  },
+  campaignLeads: {
+    select: { status: true, createdAt: true, campaign: { select: { name: true } } },
+    orderBy: { createdAt: 'desc' },
+  },
+} satisfies Prisma.LeadInclude;
+
+type ExportLead = Prisma.LeadGetPayload<{ include: typeof exportInclude }>;
+
+type Cell = string | number;
+
+interface ExportColumn {
+  header: string;
+  value: (lead: ExportLead, formatDate: (date: Date | null) => string) => Cell;
+}
+
+const PHONE_TYPE_LABELS: Record<PhoneType, string> = { MOBILE: 'Mobile', LANDLINE: 'Landline', UNKNOWN: '' };
+const REACHABILITY_LABELS: Record<Reachability, string> = { VALID: 'Yes', NOT_ON_WHATSAPP: 'No', UNKNOWN: '' };
+
+// Lead columns that can be exported, in their default order
+export const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  name: { header: 'Name', value: (l) => l.name },
+  phone: { header: 'Phone', value: (l) => l.phone },
+  email: { header: 'Email', value: (l) => l.email || '' },
+  businessName: { header: 'Business name', value: (l) => l.businessName || '' },
+  businessType: { header: 'Business type', value: (l) => l.businessType || '' },
+  status: { header: 'Status', value: (l) => l.status },
+  source: { header: 'Source', value: (l) => l.source },
+  tags: { header: 'Tags', value: (l) => l.tags.join(', ') },
+  address: { header: 'Address', value: (l) => l.address || '' },
+  city: { header: 'City', value: (l) => l.city || '' },
+  state: { header: 'State', value: (l) => l.state || '' },
+  pincode: { header: 'Pincode', value: (l) => l.pincode || '' },
+  notes: { header: 'Notes', value: (l) => l.notes || '' },
+  phoneType: { header: 'Phone type', value: (l) => PHONE_TYPE_LABELS[l.phoneType] },
+  reachability: { header: 'WhatsApp', value: (l) => REACHABILITY_LABELS[l.reachability] },
+  optedOut: { header: 'Opted out', value: (l) => (l.optedOut ? 'Yes' : 'No') },
+  lastContactedAt: { header: 'Last contacted', value: (l, date) => date(l.lastContactedAt) },
+  createdAt: { header: 'Added', value: (l, date) => date(l.createdAt) },
+};
+
+const LAST_MESSAGE_COLUMNS: ExportColumn[] = [
+  { header: 'Last message', value: (l) => l.conversation?.lastMessage?.content || '' },
+  {
+    header: 'Last message from',
+    value: (l) => {
+      const direction = l.conversation?.lastMessage?.direction;
+      return direction ? (direction === 'INBOUND' ? 'Lead' : 'Us') : '';
+    },
+  },
+  { header: 'Last message at', value: (l, date) => date(l.conversation?.lastMessage?.createdAt ?? null) },
+];
+
+const CAMPAIGN_COLUMNS: ExportColumn[] = [
+  { header: 'Campaigns', value: (l) => l.campaignLeads.length },
+  { header: 'Campaigns read', value: (l) => l.campaignLeads.filter((c) => c.status === 'READ').length },
+  { header: 'Campaigns failed', value: (l) => l.campaignLeads.filter((c) => c.status === 'FAILED').length },
+  { header: 'Last campaign', value: (l) => l.campaignLeads[0]?.campaign.name || '' },
+];
+
+/**
+ * Column keys the export accepts: the built-in ones and every custom field
+ */
+export function exportColumnKeys(customFields: CustomField[]): string[] {
+  return [...Object.keys(EXPORT_COLUMNS), ...customFields.map((f) => `custom.${f.key}`)];
+}
+
+function resolveColumns(options: LeadExportOptions, customFields: CustomField[]): ExportColumn[] {
+  const columns = options.columns.map((key): ExportColumn => {
+    if (!key.startsWith('custom.')) return EXPORT_COLUMNS[key]!;
+    const field = customFields.find((f) => `custom.${f.key}` === key)!;
+    return {
+      header: field.label,
+      value: (l) => (field.type === 'NUMBER' ? (l.customFields as Record<string, number>)[field.key] ?? '' : customFieldText(l, field.key)),
+    };
+  });
+  if (options.lastMessage) columns.push(...LAST_MESSAGE_COLUMNS);
+  if (options.campaigns) columns.push(...CAMPAIGN_COLUMNS);
+  return columns;
+}
+
+// Text that spreadsheet apps would run as a formula gets a leading quote
+function spreadsheetSafe(cell: Cell): Cell {
+  if (typeof cell !== 'string' || !/^[=+\-@]/.test(cell) || /^[-+]?\d[\d.,]*$/.test(cell)) return cell;
+  return `'${cell}`;
+}
+
+/**
+ * Write the leads matching `where` to `output` as CSV or XLSX, a page at a
+ * time, so large exports never sit in memory. Stops early if the output is
+ * closed (the download was cancelled). Returns the number of leads written.
+ */
+export async function writeLeadExport(
+  output: Writable,
+  where: Prisma.LeadWhereInput,
+  options: LeadExportOptions,
+  customFields: CustomField[]
+): Promise<number> {
+  const columns = resolveColumns(options, customFields);
+  const formatDate = (date: Date | null) => {
+    if (!date) return '';
+    const p = getZonedParts(date, options.timezone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+  };
+
+  // Campaign history is only read when its summary was asked for
+  const include = {
+    ...exportInclude,
+    campaignLeads: { ...exportInclude.campaignLeads, ...(!options.campaigns && { take: 0 }) },
+  };
+
+  const workbook = options.format === 'xlsx'
+    ? new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: false, useSharedStrings: false })
+    : null;
+  const sheet = workbook?.addWorksheet('Leads');
+
+  // A cancelled download closes the response without ever draining it
+  const drainOrClose = async () => {
+    const abort = new AbortController();
+    try {
+      await Promise.race([
+        once(output, 'drain', { signal: abort.signal }),
+        once(output, 'close', { signal: abort.signal }),
+      ]);
+    } finally {
+      abort.abort();
+    }
+  };
+
+  const writeRow = async (cells: Cell[]) => {
+    if (output.destroyed) return;
+    if (sheet) {
+      sheet.addRow(cells).commit();
+    } else if (!output.write(csvLine(cells.map((c) => String(spreadsheetSafe(c)))))) {
+      await drainOrClose();
+    }
+  };
+
+  await writeRow(columns.map((c) => c.header));
+
+  let written = 0;
+  let cursor: string | undefined;
+  while (!output.destroyed) {
+    const leads = await prisma.lead.findMany({
+      where,
+      include,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: PAGE_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    for (const lead of leads) {
+      if (output.destroyed) break;
+      await writeRow(columns.map((c) => c.value(lead, formatDate)));
+    }
+    written += leads.length;
+
+    if (leads.length < PAGE_SIZE) break;
+    cursor = leads[leads.length - 1]!.id;
+  }
+
+  if (output.destroyed) return written;
+  if (workbook && sheet) {
+    sheet.commit();
+    await workbook.commit();
+  } else {
+    output.end();
+  }
+  return written;
+}
@@ -0,0 +1,441 @@
+import ExcelJS from 'exceljs';
+import { parse } from 'csv-parse/sync';
+import { z } from 'zod';
+import { CustomField, ImportDuplicateMode, ImportJob, Lead, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { getCustomFields, applyCustomFieldValues, customFieldKey } from './customFields.js';
+import { parsePhone } from './phone.js';
+import { publishImportProgress } from './realtime.js';
+import { csvLine } from './csv.js';
+import { CustomFieldValue, ImportMapping, ImportPreviewRow, ImportRowError, ImportedLead } from '../types/index.js';
+
+export const MAX_IMPORT_ROWS = 50_000;
+
+// Rows written per transaction; progress is published after each batch
+const BATCH_SIZE = 500;
+
+// Failed rows kept for the error report — the failed count stays exact past this
+const MAX_STORED_ERRORS = 5_000;
+
+// Files uploaded but never started are dropped after a day
+const STALE_PENDING_MS = 24 * 60 * 60 * 1000;
+
+type LeadImportField = Exclude<keyof ImportedLead, 'customFields' | 'phoneType'>;
+
+// Lead fields a column can fill, with the header spellings that suggest each
+export const IMPORT_FIELDS: { field: LeadImportField; label: string; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', aliases: ['name', 'contact_name', 'owner', 'owner_name', 'full_name', 'contact_person'] },
+  {
+    field: 'phone',
+    label: 'Phone',
+    aliases: ['phone', 'phone_number', 'phone_no', 'mobile', 'mobile_number', 'mobile_no', 'whatsapp', 'whatsapp_number', 'contact', 'contact_number'],
+  },
+  { field: 'email', label: 'Email', aliases: ['email', 'email_address', 'e_mail', 'mail'] },
+  {
+    field: 'businessName',
+    label: 'Business name',
+    aliases: ['business_name', 'business', 'shop_name', 'shop', 'store_name', 'store', 'company', 'company_name', 'firm', 'firm_name'],
+  },
+  { field: 'businessType', label: 'Business type', aliases: ['business_type', 'type', 'category', 'shop_type'] },
+  { field: 'address', label: 'Address', aliases: ['address', 'street', 'street_address', 'full_address'] },
+  { field: 'city', label: 'City', aliases: ['city', 'town', 'district'] },
+  { field: 'state', label: 'State', aliases: ['state', 'province'] },
+  { field: 'pincode', label: 'Pincode', aliases: ['pincode', 'pin', 'pin_code', 'zip', 'zip_code', 'zipcode', 'postal_code', 'postcode'] },
+  { field: 'tags', label: 'Tags', aliases: ['tags', 'tag', 'labels', 'label'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'remarks', 'comments', 'comment'] },
+];
+
+// Fields a duplicate row can update on the existing lead
+const UPDATABLE_FIELDS = [
+  'name', 'email', 'businessName', 'businessType', 'address', 'city', 'state', 'pincode', 'notes',
+] as const;
+
+const emailSchema = z.string().email();
+
+export interface ImportFile {
+  columns: string[];
+  rows: { row: number; values: string[] }[];
+}
+
+export function isSupportedImportFile(filename: string): boolean {
+  return /\.(csv|xlsx)$/i.test(filename);
+}
+
+/**
+ * The header and data rows of an uploaded CSV or XLSX file (its first
+ * worksheet), as text. Blank rows are left out but keep their numbering.
+ */
+export async function readImportFile(file: Buffer, filename: string): Promise<ImportFile> {
+  const table = /\.xlsx$/i.test(filename) ? await readWorkbook(file) : readCsv(file);
+  const [header, ...rows] = table.filter((r) => r.values.some((v) => v !== ''));
+  if (!header) return { columns: [], rows: [] };
+
+  // Mappings are keyed by header, so every column needs a distinct one
+  const columns: string[] = [];
+  header.values.forEach((value, i) => {
+    let column = value || `Column ${i + 1}`;
+    for (let n = 2; columns.includes(column); n++) column = `${value || `Column ${i + 1}`} (${n})`;
+    columns.push(column);
+  });
+
+  return { columns, rows };
+}
+
+function readCsv(file: Buffer): ImportFile['rows'] {
+  const records: string[][] = parse(file, { bom: true, trim: true, relax_column_count: true });
+  return records.map((values, i) => ({ row: i + 1, values }));
+}
+
+async function readWorkbook(file: Buffer): Promise<ImportFile['rows']> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type, which Node's no longer matches
+  await workbook.xlsx.load(file as unknown as Parameters<typeof workbook.xlsx.load>[0]);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: ImportFile['rows'] = [];
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const values: string[] = [];
+    for (let col = 1; col <= row.cellCount; col++) values.push(cellText(row.getCell(col).value));
+    rows.push({ row: rowNumber, values });
+  });
+  return rows;
+}
+
+function cellText(value: ExcelJS.CellValue): string {
+  if (value == null) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map((t) => t.text).join('').trim();
+    if ('hyperlink' in value) return String(value.text).trim();
+    if ('formula' in value || 'sharedFormula' in value) return cellText((value.result ?? null) as ExcelJS.CellValue);
+    return ''; // error cells
+  }
+  return String(value).trim();
+}
+
+/**
+ * Suggest where each column goes from its header: a lead field by its usual
+ * spellings, else a custom field by key or label. Each target is used once.
+ */
+export function suggestMapping(columns: string[], customFields: CustomField[]): ImportMapping {
+  const compact = (value: string) => customFieldKey(value).replace(/_/g, '');
+  const mapping: ImportMapping = {};
+  const taken = new Set<string>();
+
+  for (const column of columns) {
+    const header = compact(column);
+    const field = IMPORT_FIELDS.find((f) => f.aliases.some((alias) => alias.replace(/_/g, '') === header));
+    const custom = customFields.find((f) => compact(f.key) === header || compact(f.label) === header);
+    const target = field?.field ?? (custom && `custom.${custom.key}`);
+    if (target && !taken.has(target)) {
+      mapping[column] = target;
+      taken.add(target);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Why a mapping can't be imported with, or null if it can
+ */
+export function mappingError(mapping: ImportMapping, columns: string[], customFields: CustomField[]): string | null {
+  const targets = new Set<string>();
+
+  for (const [column, target] of Object.entries(mapping)) {
+    if (!columns.includes(column)) return `The file has no column "${column}"`;
+    const known = target.startsWith('custom.')
+      ? customFields.some((f) => `custom.${f.key}` === target)
+      : IMPORT_FIELDS.some((f) => f.field === target);
+    if (!known) return `Unknown field "${target}" for column "${column}"`;
+    if (targets.has(target)) return `More than one column is mapped to ${fieldLabel(target, customFields)}`;
+    targets.add(target);
+  }
+
+  if (!targets.has('phone')) return 'Map a column to Phone';
+  if (!targets.has('name') && !targets.has('businessName')) return 'Map a column to Name or Business name';
+  return null;
+}
+
+function fieldLabel(target: string, customFields: CustomField[]): string {
+  return IMPORT_FIELDS.find((f) => f.field === target)?.label
+    ?? customFields.find((f) => `custom.${f.key}` === target)?.label
+    ?? target;
+}
+
+/**
+ * One row's values on lead fields, with anything that stops it being imported
+ */
+export function mapRow(
+  values: string[],
+  columns: string[],
+  mapping: ImportMapping,
+  customFields: CustomField[]
+): { lead: ImportedLead; errors: string[] } {
+  const lead: ImportedLead = { tags: [], customFields: {} };
+  const custom: Record<string, string> = {};
+
+  columns.forEach((column, i) => {
+    const target = mapping[column];
+    const value = (values[i] || '').trim();
+    if (!target || !value) return;
+
+    if (target.startsWith('custom.')) custom[target.slice('custom.'.length)] = value;
+    else if (target === 'tags') lead.tags = value.split(/[,;]/).map((t) => t.trim()).filter(Boolean);
+    else lead[target as Exclude<LeadImportField, 'tags'>] = value;
+  });
+
+  const errors: string[] = [];
+  if (!lead.phone) {
+    errors.push('Phone is required');
+  } else {
+    const parsed = parsePhone(lead.phone);
+    if (!parsed) {
+      errors.push(`"${lead.phone}" is not a valid phone number`);
+    } else {
+      lead.phone = parsed.phone;
+      lead.phoneType = parsed.type;
+    }
+  }
+  if (!lead.name && !lead.businessName) errors.push('Name is required');
+  if (lead.email && !emailSchema.safeParse(lead.email).success) errors.push(`"${lead.email}" is not a valid email`);
+
+  const result = applyCustomFieldValues({}, custom, customFields);
+  lead.customFields = result.values;
+  errors.push(...result.errors);
+
+  return { lead, errors };
+}
+
+/**
+ * The first rows as they would be imported, and how many rows in the whole
+ * file would fail
+ */
+export async function previewImport(
+  file: ImportFile,
+  mapping: ImportMapping,
+  limit = 20
+): Promise<{ rows: ImportPreviewRow[]; invalidRows: number }> {
+  const customFields = await getCustomFields();
+  const mapped = file.rows.map((row) => ({ row: row.row, ...mapRow(row.values, file.columns, mapping, customFields) }));
+
+  const sample = mapped.slice(0, limit);
+  const phones = sample.flatMap((r) => (r.lead.phone ? [r.lead.phone] : []));
+  const existing = await prisma.lead.findMany({ where: { phone: { in: phones } }, select: { phone: true } });
+  const existingPhones = new Set(existing.map((l) => l.phone));
+
+  return {
+    rows: sample.map((r) => ({ ...r, duplicate: !!r.lead.phone && existingPhones.has(r.lead.phone) })),
+    invalidRows: mapped.filter((r) => r.errors.length > 0).length,
+  };
+}
+
+// Imports currently being processed by this server (prevents double loops)
+const activeImports = new Set<string>();
+
+/**
+ * Process a RUNNING import in the background, from wherever it got to. Safe
+ * to call repeatedly — a job is only ever processed by one loop at a time.
+ */
+export function startImportJob(jobId: string): void {
+  void processImportJob(jobId);
+}
+
+/**
+ * Process a RUNNING import and wait for it. A job that throws is marked
+ * FAILED rather than left RUNNING for the next boot to pick up again.
+ */
+export async function processImportJob(jobId: string): Promise<void> {
+  if (activeImports.has(jobId)) return;
+
+  activeImports.add(jobId);
+  await runImportJob(jobId)
+    .catch(async (error) => {
+      console.error(`[Import ${jobId}] Failed:`, error);
+      const job = await prisma.importJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'FAILED',
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Import failed',
+        },
+      });
+      publishImportProgress(job);
+    })
+    .catch((error) => console.error(`[Import ${jobId}] Could not record failure:`, error))
+    .finally(() => activeImports.delete(jobId));
+}
+
+/**
+ * Pick up imports that were running when the server last stopped
+ */
+export async function resumeImportJobs(): Promise<void> {
+  const running = await prisma.importJob.findMany({ where: { status: 'RUNNING' }, select: { id: true } });
+  for (const job of running) {
+    console.log(`[Import ${job.id}] Resuming after restart`);
+    startImportJob(job.id);
+  }
+}
+
+/**
+ * Import a RUNNING job's rows in batches. Each batch — its new leads, updated
+ * duplicates and the job's progress — is written in one transaction, so a
+ * restart carries on from the last finished batch.
+ */
+async function runImportJob(jobId: string): Promise<void> {
+  let job = await prisma.importJob.findUnique({ where: { id: jobId } });
+  if (!job || job.status !== 'RUNNING' || !job.file) return;
+
+  const [file, customFields] = await Promise.all([readImportFile(job.file, job.filename), getCustomFields()]);
+  const mapping = job.mapping as ImportMapping;
+  const errors = job.errors as ImportRowError[];
+  const seenPhones = new Set<string>();
+
+  console.log(`[Import ${job.id}] Importing ${file.rows.length - job.processedRows} rows from ${job.filename}`);
+
+  for (let start = job.processedRows; start < file.rows.length; start += BATCH_SIZE) {
+    const batch = file.rows.slice(start, start + BATCH_SIZE);
+    let failed = 0;
+    let duplicates = 0;
+
+    const valid: (ImportedLead & { phone: string })[] = [];
+    for (const row of batch) {
+      const { lead, errors: rowErrors } = mapRow(row.values, file.columns, mapping, customFields);
+      if (rowErrors.length > 0) {
+        failed++;
+        if (errors.length < MAX_STORED_ERRORS) errors.push({ row: row.row, error: rowErrors.join('; '), values: row.values });
+        continue;
+      }
+      // The same number twice in one file: the first row wins
+      if (seenPhones.has(lead.phone!)) {
+        duplicates++;
+        continue;
+      }
+      seenPhones.add(lead.phone!);
+      valid.push(lead as ImportedLead & { phone: string });
+    }
+
+    const mode = job.duplicateMode;
+    job = await prisma.$transaction(async (tx) => {
+      const existing = await tx.lead.findMany({ where: { phone: { in: valid.map((l) => l.phone) } } });
+      const byPhone = new Map(existing.map((l) => [l.phone, l]));
+
+      const creates = valid.filter((l) => !byPhone.has(l.phone));
+      const created = await tx.lead.createMany({ data: creates.map(createInput), skipDuplicates: true });
+
+      let updated = 0;
+      for (const lead of valid) {
+        const current = byPhone.get(lead.phone);
+        const data = current && mode !== 'SKIP' ? duplicateUpdate(current, lead, mode) : null;
+        if (!current || !data) continue;
+        await tx.lead.update({ where: { id: current.id }, data });
+        updated++;
+      }
+
+      // Rows matching a lead with nothing to change count as duplicates, as
+      // do leads created by someone else since the lookup above
+      duplicates += valid.length - created.count - updated;
+
+      return tx.importJob.update({
+        where: { id: jobId },
+        data: {
+          processedRows: start + batch.length,
+          imported: { increment: created.count },
+          updated: { increment: updated },
+          duplicates: { increment: duplicates },
+          failed: { increment: failed },
+          errors,
+        },
+      });
+    }, { timeout: 60_000 });
+
+    publishImportProgress(job);
+  }
+
+  job = await prisma.importJob.update({
+    where: { id: jobId },
+    data: { status: 'COMPLETED', completedAt: new Date(), file: null },
+  });
+  publishImportProgress(job);
+
+  console.log(
+    `[Import ${job.id}] Done: ${job.imported} imported, ${job.updated} updated, ` +
+    `${job.duplicates} duplicates, ${job.failed} failed`
+  );
+}
+
+function createInput(lead: ImportedLead & { phone: string }): Prisma.LeadCreateManyInput {
+  return {
+    name: lead.name || lead.businessName!,
+    phone: lead.phone,
+    email: lead.email || null,
+    businessName: lead.businessName || null,
+    businessType: lead.businessType || null,
+    address: lead.address || null,
+    city: lead.city || null,
+    state: lead.state || null,
+    pincode: lead.pincode || null,
+    notes: lead.notes || null,
+    tags: lead.tags,
+    customFields: lead.customFields,
+    phoneType: lead.phoneType,
+    source: 'CSV_IMPORT',
+  };
+}
+
+/**
+ * Changes a duplicate row makes to the existing lead, or null for none.
+ * UPDATE overwrites with the row's values; MERGE only fills in blanks and
+ * adds tags. Empty cells never clear anything.
+ */
+function duplicateUpdate(current: Lead, lead: ImportedLead, mode: ImportDuplicateMode): Prisma.LeadUpdateInput | null {
+  const data: Prisma.LeadUpdateInput = {};
+
+  for (const field of UPDATABLE_FIELDS) {
+    const value = lead[field];
+    if (!value || value === current[field]) continue;
+    if (mode === 'UPDATE' || !current[field]) data[field] = value;
+  }
+
+  if (lead.tags.length > 0) {
+    const tags = mode === 'UPDATE' ? lead.tags : [...new Set([...current.tags, ...lead.tags])];
+    if (tags.join('\n') !== current.tags.join('\n')) data.tags = tags;
+  }
+
+  const currentValues = (current.customFields as Record<string, CustomFieldValue> | null) || {};
+  const customFields = mode === 'UPDATE'
+    ? { ...currentValues, ...lead.customFields }
+    : { ...lead.customFields, ...currentValues };
+  if (Object.keys(lead.customFields).some((key) => JSON.stringify(customFields[key]) !== JSON.stringify(currentValues[key]))) {
+    data.customFields = customFields;
+  }
+
+  return Object.keys(data).length > 0 ? data : null;
+}
+
+/**
+ * Files uploaded to the wizard but never imported
+ */
+export async function discardStaleImports(): Promise<void> {
+  await prisma.importJob.deleteMany({
+    where: { status: 'PENDING', createdAt: { lt: new Date(Date.now() - STALE_PENDING_MS) } },
+  });
+}
+
+/**
+ * The rows that failed, as CSV: the file's own columns plus the row number
+ * and the reason, ready to fix and import again
+ */
+export function importErrorReport(job: Pick<ImportJob, 'columns' | 'errors'>): string {
+  const errors = job.errors as ImportRowError[];
+  const lines = [
+    [...job.columns, 'Row', 'Error'],
+    ...errors.map((e) => [
+      ...job.columns.map((_, i) => e.values[i] ?? ''),
+      String(e.row),
+      e.error,
+    ]),
+  ];
+  return lines.map(csvLine).join('');
+}
@@ -0,0 +1,126 @@
+import { Lead, LeadActivityType, LeadStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { publishEvent } from './realtime.js';
+import { LeadActivityData, TimelineEntry } from '../types/index.js';
+
+// Newest entries per source; the thread shows its latest stretch of history
+const TIMELINE_LIMIT = 200;
+
+interface LeadActivityInput {
+  leadId: string;
+  type: LeadActivityType;
+  actorId?: string | null;
+  data: LeadActivityData;
+}
+
+export async function recordLeadActivity(activities: LeadActivityInput[]): Promise<void> {
+  if (activities.length === 0) return;
+
+  await prisma.leadActivity.createMany({
+    data: activities.map((a) => ({ ...a, data: a.data as Prisma.InputJsonValue })),
+  });
+
+  for (const leadId of new Set(activities.map((a) => a.leadId))) {
+    announceTimelineChange(leadId);
+  }
+}
+
+export function announceTimelineChange(leadId: string): void {
+  publishEvent({ type: 'lead.timeline', leadId });
+}
+
+/**
+ * The status and tag activities for an edit to a lead — none if neither changed
+ */
+export function leadChangeActivities(
+  before: Pick<Lead, 'id' | 'status' | 'tags'>,
+  after: { status?: LeadStatus; tags?: string[] },
+  actor: { actorId?: string | null; source?: string } = {}
+): LeadActivityInput[] {
+  const activities: LeadActivityInput[] = [];
+  const { actorId = null, source } = actor;
+
+  if (after.status && after.status !== before.status) {
+    activities.push({
+      leadId: before.id,
+      type: 'STATUS_CHANGED',
+      actorId,
+      data: { from: before.status, to: after.status, source },
+    });
+  }
+
+  if (after.tags) {
+    const added = after.tags.filter((t) => !before.tags.includes(t));
+    const removed = before.tags.filter((t) => !after.tags!.includes(t));
+    if (added.length > 0 || removed.length > 0) {
+      activities.push({ leadId: before.id, type: 'TAGS_CHANGED', actorId, data: { added, removed, source } });
+    }
+  }
+
+  return activities;
+}
+
+/**
+ * Notes and events for a lead, oldest first — recorded activities plus the
+ * consent log and campaign/sequence enrollments, which have their own tables
+ */
+export async function getLeadTimeline(leadId: string): Promise<TimelineEntry[]> {
+  const newest = { where: { leadId }, take: TIMELINE_LIMIT } as const;
+  const userSelect = { select: { id: true, name: true } } as const;
+
+  const [notes, activities, consentEvents, campaignLeads, enrollments] = await Promise.all([
+    prisma.leadNote.findMany({ ...newest, orderBy: { createdAt: 'desc' }, include: { author: userSelect } }),
+    prisma.leadActivity.findMany({ ...newest, orderBy: { createdAt: 'desc' }, include: { actor: userSelect } }),
+    prisma.consentEvent.findMany({ ...newest, orderBy: { createdAt: 'desc' }, include: { changedBy: userSelect } }),
+    prisma.campaignLead.findMany({
+      ...newest,
+      orderBy: { createdAt: 'desc' },
+      include: { campaign: { select: { id: true, name: true, createdBy: userSelect } } },
+    }),
+    prisma.sequenceEnrollment.findMany({
+      ...newest,
+      orderBy: { enrolledAt: 'desc' },
+      include: { sequence: { select: { id: true, name: true } } },
+    }),
+  ]);
+
+  const entries: TimelineEntry[] = [
+    ...notes.map((n): TimelineEntry => ({
+      id: n.id,
+      type: 'NOTE',
+      createdAt: n.createdAt,
+      actor: n.author,
+      body: n.body,
+    })),
+    ...activities.map((a): TimelineEntry => ({
+      id: a.id,
+      type: a.type,
+      createdAt: a.createdAt,
+      actor: a.actor,
+      data: a.data as Record<string, unknown>,
+    })),
+    ...consentEvents.map((e): TimelineEntry => ({
+      id: e.id,
+      type: e.action === 'OPT_OUT' ? 'OPTED_OUT' : 'OPTED_IN',
+      createdAt: e.createdAt,
+      actor: e.changedBy,
+      data: { source: e.source, keyword: e.keyword },
+    })),
+    ...campaignLeads.map((cl): TimelineEntry => ({
+      id: cl.id,
+      type: 'CAMPAIGN_ENROLLED',
+      createdAt: cl.createdAt,
+      actor: cl.campaign.createdBy,
+      data: { campaignId: cl.campaign.id, campaignName: cl.campaign.name },
+    })),
+    ...enrollments.map((e): TimelineEntry => ({
+      id: e.id,
+      type: 'SEQUENCE_ENROLLED',
+      createdAt: e.enrolledAt,
+      actor: null,
+      data: { sequenceId: e.sequence.id, sequenceName: e.sequence.name },
+    })),
+  ];
+
+  return entries.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
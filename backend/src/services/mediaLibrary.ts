@@ -0,0 +1,52 @@
+import { MediaAsset } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { whatsappClient } from './whatsapp/client.js';
+
+// WhatsApp deletes uploaded media after 30 days — re-upload a little before that
+const MEDIA_ID_TTL_MS = 25 * 24 * 60 * 60 * 1000;
+
+export type LibraryMediaType = 'image' | 'video' | 'document';
+
+// File types WhatsApp accepts for each media message type
+const ACCEPTED_MIME_TYPES: Record<LibraryMediaType, string[]> = {
+  image: ['image/jpeg', 'image/png'],
+  video: ['video/mp4', 'video/3gpp'],
+  document: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+  ],
+};
+
+/**
+ * Work out which WhatsApp media type a file is sent as, or null if unsupported
+ */
+export function mediaTypeForMime(mimeType: string): LibraryMediaType | null {
+  const entry = Object.entries(ACCEPTED_MIME_TYPES).find(([, types]) => types.includes(mimeType));
+  return entry ? (entry[0] as LibraryMediaType) : null;
+}
+
+/**
+ * Get a WhatsApp media ID for the asset, uploading it if it has none or the
+ * cached one is about to expire
+ */
+export async function getWhatsAppMediaId(asset: MediaAsset): Promise<string> {
+  if (asset.whatsappMediaId && asset.whatsappUploadedAt
+    && Date.now() - asset.whatsappUploadedAt.getTime() < MEDIA_ID_TTL_MS) {
+    return asset.whatsappMediaId;
+  }
+
+  const result = await whatsappClient.uploadMedia(Buffer.from(asset.data), asset.mimeType, asset.filename);
+  if (!result.success) throw new Error(`Media upload failed: ${result.error}`);
+
+  await prisma.mediaAsset.update({
+    where: { id: asset.id },
+    data: { whatsappMediaId: result.mediaId, whatsappUploadedAt: new Date() },
+  });
+  console.log(`[Media] Uploaded "${asset.name}" to WhatsApp (${result.mediaId})`);
+
+  return result.mediaId;
+}
@@ -0,0 +1,42 @@
+import { PhoneType } from '@prisma/client';
+import { CountryCode, NumberType, parsePhoneNumberFromString } from 'libphonenumber-js/max';
+
+// Numbers without a country code are read as Indian
+const DEFAULT_COUNTRY: CountryCode = 'IN';
+
+export interface ParsedPhone {
+  phone: string;    // E.164 without the "+", as WhatsApp uses for wa_id and recipients: 919876543210
+  type: PhoneType;
+}
+
+function phoneType(type: NumberType): PhoneType {
+  if (type === 'MOBILE') return 'MOBILE';
+  if (type === 'FIXED_LINE') return 'LANDLINE';
+  return 'UNKNOWN';
+}
+
+/**
+ * Parse a phone number as typed, imported, scraped or received from WhatsApp.
+ * Accepts national formats ("098765 43210"), international ones ("+91 98765
+ * 43210", "0091...") and bare E.164 digits ("447911123456"). Returns null when
+ * the number isn't valid for its country.
+ */
+export function parsePhone(raw: string, defaultCountry: CountryCode = DEFAULT_COUNTRY): ParsedPhone | null {
+  const input = raw.trim();
+  let parsed = parsePhoneNumberFromString(input, defaultCountry);
+
+  // Stored and wa_id numbers carry their country code without the "+"
+  if (!parsed?.isValid() && !input.startsWith('+')) {
+    parsed = parsePhoneNumberFromString(`+${input.replace(/\D/g, '')}`);
+  }
+  if (!parsed?.isValid()) return null;
+
+  return { phone: parsed.number.slice(1), type: phoneType(parsed.getType()) };
+}
+
+/**
+ * Normalize a phone number to E.164 digits (no "+"), or null if it isn't valid
+ */
+export function normalizePhone(raw: string): string | null {
+  return parsePhone(raw)?.phone ?? null;
+}
@@ -12,19 +12,22 @@ if (env.VAPID_PUBLIC_KEY && env.VAPID_PRIVATE_KEY) {
 }
 
 /**
- * Send push notification to all subscribed clients
+ * Send push notification to one user's devices, or to every subscribed client
+ * when there's no user (e.g. an unassigned conversation)
  */
 export async function sendPushNotification(payload: {
   title: string;
   body: string;
   url?: string;
   tag?: string;
-}): Promise<void> {
+}, userId?: string | null): Promise<void> {
   if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY) {
     return; // Push not configured
   }
 
-  const subscriptions = await prisma.pushSubscription.findMany();
+  const subscriptions = await prisma.pushSubscription.findMany({
+    where: userId ? { userId } : undefined,
+  });
 
   const notifications = subscriptions.map(async (sub) => {
     try {
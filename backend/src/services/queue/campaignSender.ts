@@ -0,0 +1,325 @@
+import { env } from '../../config/env.js';
+import { prisma } from '../../config/database.js';
+import { sendCampaignMessage } from '../whatsapp/client.js';
+import { isWithinSendWindow, nextWindowOpening } from '../campaigns/sendWindow.js';
+import { pickWinner } from '../campaigns/abTest.js';
+import { refreshCampaignStats, syncCampaignLeadStatus } from '../campaigns/stats.js';
+import { publishCampaignProgress } from '../realtime.js';
+import { SendWindow, TemplateVariableMapping, AutoWinnerConfig } from '../../types/index.js';
+
+// Sending speed presets (delay in ms between messages)
+export const SENDING_SPEEDS: Record<string, { delayMs: number; label: string; dailyLimit?: number }> = {
+  fast: { delayMs: 5_000, label: '1 per 5s' },             // ~12/min — risky for new numbers
+  normal: { delayMs: 30_000, label: '1 per 30s' },          // ~2/min — safe for established accounts
+  slow: { delayMs: 300_000, label: '1 per 5min' },          // safe for newer numbers
+  very_slow: { delayMs: 600_000, label: '1 per 10min' },    // for accounts with warnings
+  warmup: { delayMs: 1_800_000, label: '1 per 30min', dailyLimit: 10 }, // for new numbers getting 131049
+};
+
+const RATE_WINDOW = 20;        // rolling window size for success rate check
+const MIN_SUCCESS_RATE = 0.60; // auto-pause if success rate drops below 60%
+const WINDOW_RECHECK_MS = 60_000; // how often a campaign waiting for its send window re-checks
+
+// Dispatch mode — BullMQ when Redis is available, otherwise an in-process loop
+let enqueueToQueue: ((campaignId: string) => Promise<void>) | null = null;
+
+// Campaigns with an in-process loop currently running (prevents double loops)
+const activeRuns = new Set<string>();
+
+/**
+ * Start the campaign sender. Uses the BullMQ worker when REDIS_URL is set,
+ * then picks up every RUNNING campaign left over from a previous process.
+ */
+export async function startCampaignSender(): Promise<void> {
+  if (env.REDIS_URL) {
+    try {
+      const queueModule = await import('./campaignWorker.js');
+      queueModule.startCampaignWorker();
+      enqueueToQueue = queueModule.queueCampaign;
+      console.log('✅ Campaign worker started');
+    } catch (error) {
+      console.log('⚠️ Campaign worker not started (Redis connection failed) - sending in-process');
+    }
+  } else {
+    console.log('ℹ️  Redis not configured - campaigns will be sent in-process');
+  }
+
+  await resumeRunningCampaigns();
+}
+
+/**
+ * Re-dispatch campaigns that were RUNNING when the server last stopped.
+ * Sending continues from the remaining PENDING campaign leads.
+ */
+export async function resumeRunningCampaigns(): Promise<void> {
+  // No startedAt yet: the scheduler was still enrolling leads, and it relaunches those itself
+  const running = await prisma.campaign.findMany({
+    where: { status: 'RUNNING', startedAt: { not: null } },
+    select: { id: true },
+  });
+
+  for (const campaign of running) {
+    console.log(`[Campaign ${campaign.id}] Resuming after restart`);
+    await enqueueCampaign(campaign.id);
+  }
+}
+
+/**
+ * Hand a RUNNING campaign to the sender. Safe to call repeatedly —
+ * a campaign is only ever processed by one loop at a time.
+ */
+export async function enqueueCampaign(campaignId: string): Promise<void> {
+  if (enqueueToQueue) {
+    await enqueueToQueue(campaignId);
+    return;
+  }
+
+  if (activeRuns.has(campaignId)) return;
+
+  activeRuns.add(campaignId);
+  runCampaign(campaignId)
+    .catch((err) => console.error(`Campaign ${campaignId} send error:`, err))
+    .finally(() => activeRuns.delete(campaignId));
+}
+
+/**
+ * What a campaign's sender remembers between sends — kept in memory by the
+ * in-process loop and in the job's data by the BullMQ worker
+ */
+export interface CampaignRunState {
+  started: boolean;
+  sent: number;
+  failed: number;
+  recentOutcomes: boolean[]; // rolling window of last RATE_WINDOW outcomes
+  waitingUntil: number | null;
+  waitingForWinner: boolean;
+}
+
+export function newCampaignRunState(): CampaignRunState {
+  return { started: false, sent: 0, failed: 0, recentOutcomes: [], waitingUntil: null, waitingForWinner: false };
+}
+
+// After a step the campaign is either finished for now, or due another step after a delay
+export type CampaignStep = { done: true } | { done: false; delayMs: number };
+
+/**
+ * In-process sender: take steps until the campaign completes, pauses or is stopped
+ */
+async function runCampaign(campaignId: string): Promise<void> {
+  const state = newCampaignRunState();
+
+  while (true) {
+    const step = await sendNextCampaignMessage(campaignId, state);
+    if (step.done) return;
+    await new Promise(resolve => setTimeout(resolve, step.delayMs));
+  }
+}
+
+/**
+ * Send a campaign's next PENDING message and say how long to wait before the
+ * next one, to respect WhatsApp rate limits. All progress lives in the database
+ * (CampaignLead status and MessageLog), so sending can be stopped between any
+ * two steps and resumed later. Checks campaign status first so pause/cancel
+ * takes effect.
+ */
+export async function sendNextCampaignMessage(campaignId: string, state: CampaignRunState): Promise<CampaignStep> {
+  const campaign = await prisma.campaign.findUnique({
+    where: { id: campaignId },
+    select: { status: true, templateId: true, targetFilters: true, recurrence: true, startedAt: true },
+  });
+
+  // A scheduled launch that hasn't finished enrolling leads has no startedAt yet
+  if (!campaign || campaign.status !== 'RUNNING' || !campaign.startedAt) {
+    if (state.started) console.log(`[Campaign ${campaignId}] Stopped — status is ${campaign?.status}`);
+    return finishRun(campaignId, state);
+  }
+
+  const targetFilters = (campaign.targetFilters as any) || {};
+  const headerMediaUrl: string | undefined = targetFilters.headerMediaUrl;
+  const sendingSpeed: string = targetFilters.sendingSpeed || 'normal';
+  const speedConfig = SENDING_SPEEDS[sendingSpeed] ?? SENDING_SPEEDS['normal']!;
+  const BASE_DELAY = speedConfig.delayMs;
+  const DAILY_LIMIT = speedConfig.dailyLimit || 0; // 0 = no limit
+  const sendWindow: SendWindow | undefined = targetFilters.sendWindow;
+  const variableMapping: TemplateVariableMapping | undefined = targetFilters.variableMapping;
+  const autoWinner: AutoWinnerConfig | undefined = targetFilters.autoWinner;
+
+  // A/B variants — each campaign lead is sent its own variant's template
+  const variants = await prisma.campaignVariant.findMany({
+    where: { campaignId },
+    select: { id: true, templateId: true, headerMediaUrl: true },
+  });
+  const variantById = new Map(variants.map((v) => [v.id, v]));
+
+  if (!state.started) {
+    state.started = true;
+    const pendingCount = await prisma.campaignLead.count({
+      where: { campaignId, status: 'PENDING' },
+    });
+    console.log(`[Campaign ${campaignId}] Starting to send ${pendingCount} messages (speed: ${sendingSpeed}, delay: ${BASE_DELAY / 1000}s${DAILY_LIMIT ? `, daily limit: ${DAILY_LIMIT}` : ''})`);
+  }
+
+  // A/B test sample (variant assigned) goes before leads waiting for the winner
+  const next = await prisma.campaignLead.findFirst({
+    where: { campaignId, status: 'PENDING', ...(variants.length > 0 ? { variantId: { not: null } } : {}) },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    select: { id: true, leadId: true, variantId: true },
+  }) ?? (variants.length > 0
+    ? await prisma.campaignLead.findFirst({
+      where: { campaignId, status: 'PENDING', variantId: null },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      select: { id: true, leadId: true, variantId: true },
+    })
+    : null);
+
+  if (!next) {
+    // Recurring campaigns go back to SCHEDULED and wait for their next run
+    publishCampaignProgress(await prisma.campaign.update({
+      where: { id: campaignId },
+      data: { status: campaign.recurrence ? 'SCHEDULED' : 'COMPLETED', completedAt: new Date() },
+    }));
+    return finishRun(campaignId, state);
+  }
+
+  // Hold outside the send window — re-check in short steps so pause still takes effect
+  if (sendWindow && !isWithinSendWindow(sendWindow)) {
+    const opensAt = nextWindowOpening(sendWindow);
+    if (state.waitingUntil !== opensAt.getTime()) {
+      state.waitingUntil = opensAt.getTime();
+      console.log(`[Campaign ${campaignId}] Outside send window — waiting until ${opensAt.toISOString()}`);
+    }
+    return { done: false, delayMs: Math.min(opensAt.getTime() - Date.now(), WINDOW_RECHECK_MS) };
+  }
+
+  // Remaining audience of an A/B test waits until the winning variant is picked
+  let variant = next.variantId ? variantById.get(next.variantId) : undefined;
+  if (!variant && autoWinner && variants.length > 0) {
+    const winner = await pickWinner(campaignId, autoWinner);
+    if (!winner) {
+      if (!state.waitingForWinner) {
+        state.waitingForWinner = true;
+        console.log(`[Campaign ${campaignId}] A/B test sample sent — waiting to pick a winner`);
+      }
+      return { done: false, delayMs: WINDOW_RECHECK_MS };
+    }
+    variant = variantById.get(winner.id);
+  }
+
+  // Enforce daily limit: pause campaign when reached, user can resume tomorrow
+  if (DAILY_LIMIT > 0 && await countSentToday(campaignId) >= DAILY_LIMIT) {
+    console.log(`[Campaign ${campaignId}] Daily limit of ${DAILY_LIMIT} reached — auto-pausing`);
+    await pauseRunningCampaign(campaignId);
+    return finishRun(campaignId, state);
+  }
+
+  // A message log from this run means the lead was already sent to before a restart — never
+  // send twice. Earlier runs of a recurring campaign don't count.
+  const existingLog = await prisma.messageLog.findFirst({
+    where: {
+      campaignId,
+      leadId: next.leadId,
+      direction: 'OUTBOUND',
+      status: { not: 'FAILED' },
+      createdAt: { gte: campaign.startedAt },
+    },
+    select: { id: true },
+  });
+
+  if (existingLog) {
+    await prisma.campaignLead.update({
+      where: { id: next.id },
+      data: { status: 'SENT' },
+    });
+    await refreshCampaignStats(campaignId);
+    return { done: false, delayMs: 0 };
+  }
+
+  // A thrown send counts as a failure like any other, for the totals and the success rate
+  let result: Awaited<ReturnType<typeof sendCampaignMessage>>;
+  try {
+    result = await sendCampaignMessage(
+      next.leadId,
+      campaignId,
+      variant?.templateId ?? campaign.templateId,
+      variableMapping,
+      variant?.headerMediaUrl ?? headerMediaUrl
+    );
+    if (!result.success) {
+      console.log(`[Campaign ${campaignId}] Failed for lead ${next.leadId}: [${result.errorCode}] ${result.error}`);
+    }
+  } catch (err: any) {
+    console.error(`[Campaign ${campaignId}] Error sending to ${next.leadId}:`, err.message);
+    result = { success: false, error: err.message };
+  }
+
+  // Update campaign-lead status, then catch up with any receipt that beat us to it
+  await prisma.campaignLead.update({
+    where: { id: next.id },
+    data: { status: result.success ? 'SENT' : 'FAILED' },
+  });
+  if (result.success && result.messageLogId) {
+    const log = await prisma.messageLog.findUnique({ where: { id: result.messageLogId } });
+    if (log) await syncCampaignLeadStatus(log);
+  }
+
+  if (result.success) state.sent++;
+  else state.failed++;
+
+  await refreshCampaignStats(campaignId);
+
+  // Update rolling window and check success rate (blocked sends never reached WhatsApp)
+  if (!result.blocked) state.recentOutcomes.push(result.success);
+  if (state.recentOutcomes.length > RATE_WINDOW) state.recentOutcomes.shift();
+
+  if (state.recentOutcomes.length === RATE_WINDOW) {
+    const successCount = state.recentOutcomes.filter(Boolean).length;
+    const successRate = successCount / RATE_WINDOW;
+    if (successRate < MIN_SUCCESS_RATE) {
+      console.log(`[Campaign ${campaignId}] Success rate dropped to ${Math.round(successRate * 100)}% over last ${RATE_WINDOW} messages — auto-pausing`);
+      await pauseRunningCampaign(campaignId);
+      return finishRun(campaignId, state);
+    }
+  }
+
+  // Rate limit: configured delay + random jitter (up to 10% of delay) to appear natural
+  const jitter = Math.floor(Math.random() * Math.max(BASE_DELAY * 0.1, 2000));
+  return { done: false, delayMs: BASE_DELAY + jitter };
+}
+
+function finishRun(campaignId: string, state: CampaignRunState): CampaignStep {
+  if (state.started) {
+    console.log(`[Campaign ${campaignId}] Done — sent: ${state.sent}, failed: ${state.failed}`);
+  }
+  return { done: true };
+}
+
+/**
+ * Pause a campaign the sender can't carry on with, if it is still RUNNING
+ */
+export async function pauseRunningCampaign(campaignId: string): Promise<void> {
+  const paused = await prisma.campaign.updateMany({
+    where: { id: campaignId, status: 'RUNNING' },
+    data: { status: 'PAUSED' },
+  });
+  if (paused.count === 0) return;
+
+  const campaign = await prisma.campaign.findUnique({ where: { id: campaignId } });
+  if (campaign) publishCampaignProgress(campaign);
+}
+
+/**
+ * Count messages of this campaign successfully sent since local midnight
+ */
+async function countSentToday(campaignId: string): Promise<number> {
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+
+  return prisma.messageLog.count({
+    where: {
+      campaignId,
+      direction: 'OUTBOUND',
+      status: { in: ['SENT', 'DELIVERED', 'READ'] },
+      sentAt: { gte: startOfDay },
+    },
+  });
+}
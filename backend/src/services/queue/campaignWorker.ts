@@ -1,15 +1,20 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, DelayedError } from 'bullmq';
 import IORedis from 'ioredis';
 import { env } from '../../config/env.js';
-import { prisma } from '../../config/database.js';
-import { sendCampaignMessage } from '../whatsapp/client.js';
+import {
+  CampaignRunState,
+  newCampaignRunState,
+  sendNextCampaignMessage,
+  pauseRunningCampaign,
+} from './campaignSender.js';
 
 // Redis connection
 const connection = new IORedis(env.REDIS_URL!, {
   maxRetriesPerRequest: null,
 });
 
-// Campaign message queue
+// Campaign queue — one job per running campaign. Each run of the job sends one
+// message, then the job is delayed until the next one is due.
 export const campaignQueue = new Queue('campaign-messages', {
   connection,
   defaultJobOptions: {
@@ -18,180 +23,64 @@ export const campaignQueue = new Queue('campaign-messages', {
       type: 'exponential',
       delay: 5000,
     },
-    removeOnComplete: 100,
-    removeOnFail: 1000,
+    removeOnComplete: true,
+    removeOnFail: true,
   },
 });
 
 // Job types
-interface SendMessageJob {
-  campaignId: string;
-  leadId: string;
-  templateId: string;
-  bodyParams: string[];
-}
-
 interface ProcessCampaignJob {
   campaignId: string;
+  state?: CampaignRunState;
 }
 
 /**
- * Add all campaign leads to the message queue
+ * Add a campaign to the queue. The job ID is the campaign ID, so a campaign
+ * that is already queued or being processed is not added twice.
  */
-export async function queueCampaignMessages(campaignId: string): Promise<number> {
-  const campaign = await prisma.campaign.findUnique({
-    where: { id: campaignId },
-    include: {
-      template: true,
-      leads: {
-        where: { status: 'PENDING' },
-        include: {
-          lead: true,
-        },
-      },
-    },
-  });
-
-  if (!campaign) {
-    throw new Error('Campaign not found');
-  }
-
-  const jobs: { name: string; data: SendMessageJob }[] = [];
-
-  for (const campaignLead of campaign.leads) {
-    const lead = campaignLead.lead;
-
-    // Skip opted-out leads
-    if (lead.optedOut) {
-      await prisma.campaignLead.update({
-        where: { id: campaignLead.id },
-        data: { status: 'OPTED_OUT' },
-      });
-      continue;
-    }
-
-    // Build body parameters from lead data
-    const bodyParams = [
-      lead.name, // {{1}} - Name
-      lead.businessName || 'your business', // {{2}} - Business name
-    ];
-
-    jobs.push({
-      name: 'send-message',
-      data: {
-        campaignId,
-        leadId: lead.id,
-        templateId: campaign.templateId,
-        bodyParams,
-      },
-    });
-  }
-
-  // Add jobs to queue in batches with rate limiting
-  // WhatsApp allows ~1000 messages/day for new numbers, ~10k for established
-  const batchSize = 50;
-  for (let i = 0; i < jobs.length; i += batchSize) {
-    const batch = jobs.slice(i, i + batchSize);
-    await campaignQueue.addBulk(
-      batch.map((job, index) => ({
-        name: job.name,
-        data: job.data,
-        opts: {
-          delay: (i + index) * 2000, // 2 second delay between messages
-        },
-      }))
-    );
-  }
-
-  return jobs.length;
+export async function queueCampaign(campaignId: string): Promise<void> {
+  await campaignQueue.add('process-campaign', { campaignId }, { jobId: campaignId });
 }
 
 /**
- * Campaign message worker
+ * Campaign worker
  */
 export function startCampaignWorker(): Worker {
-  const worker = new Worker<SendMessageJob>(
+  const worker = new Worker<ProcessCampaignJob>(
     'campaign-messages',
-    async (job: Job<SendMessageJob>) => {
-      const { campaignId, leadId, templateId, bodyParams } = job.data;
+    async (job: Job<ProcessCampaignJob>, token?: string) => {
+      const { campaignId } = job.data;
+      const state = job.data.state ?? newCampaignRunState();
 
-      console.log(`Processing message for lead ${leadId} in campaign ${campaignId}`);
+      const step = await sendNextCampaignMessage(campaignId, state);
+      if (step.done) return { success: true };
 
-      // Update campaign lead status to indicate processing
-      await prisma.campaignLead.updateMany({
-        where: {
-          campaignId,
-          leadId,
-        },
-        data: { status: 'SENT' },
-      });
-
-      // Send the message
-      const result = await sendCampaignMessage(leadId, campaignId, templateId, bodyParams);
-
-      if (!result.success) {
-        // Update campaign lead status to failed
-        await prisma.campaignLead.updateMany({
-          where: {
-            campaignId,
-            leadId,
-          },
-          data: { status: 'FAILED' },
-        });
-
-        throw new Error(result.error || 'Failed to send message');
-      }
-
-      // Update campaign stats
-      await prisma.campaign.update({
-        where: { id: campaignId },
-        data: {
-          sentCount: { increment: 1 },
-        },
-      });
-
-      return { success: true, messageId: result.messageId };
+      // Wait as a delayed job rather than in the worker, so waiting campaigns don't hold a slot
+      await job.updateData({ campaignId, state });
+      await job.moveToDelayed(Date.now() + step.delayMs, token);
+      throw new DelayedError();
     },
     {
       connection,
-      concurrency: 5, // Process 5 messages at a time
-      limiter: {
-        max: 50, // Max 50 jobs per minute
-        duration: 60000,
-      },
+      concurrency: 5, // Send for up to 5 campaigns at a time
+      // A job interrupted by a restart is stalled, not failed — always pick it up again
+      maxStalledCount: 100,
     }
   );
 
   worker.on('completed', (job) => {
-    console.log(`Message sent for job ${job.id}`);
+    console.log(`Campaign job ${job.id} finished`);
   });
 
   worker.on('failed', (job, err) => {
     console.error(`Job ${job?.id} failed:`, err.message);
-  });
-
-  return worker;
-}
 
-/**
- * Check and update campaign completion status
- */
-export async function checkCampaignCompletion(campaignId: string): Promise<void> {
-  const pendingCount = await prisma.campaignLead.count({
-    where: {
-      campaignId,
-      status: 'PENDING',
-    },
+    // Out of retries — pause rather than leave the campaign RUNNING with nothing sending it
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      pauseRunningCampaign(job.data.campaignId)
+        .catch((pauseErr) => console.error(`Failed to pause campaign ${job.data.campaignId}:`, pauseErr));
+    }
   });
 
-  if (pendingCount === 0) {
-    await prisma.campaign.update({
-      where: { id: campaignId },
-      data: {
-        status: 'COMPLETED',
-        completedAt: new Date(),
-      },
-    });
-    console.log(`Campaign ${campaignId} completed`);
-  }
+  return worker;
 }
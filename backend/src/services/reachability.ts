@@ -0,0 +1,18 @@
+import { Reachability } from '@prisma/client';
+import { prisma } from '../config/database.js';
+
+// Cloud API error for a recipient that has no WhatsApp account
+export const NOT_ON_WHATSAPP_ERROR = 131026;
+
+/**
+ * Record what a send, receipt or inbound message showed about a lead's number.
+ * The latest evidence wins; nothing is written when the state is unchanged,
+ * so this is safe to call for every message.
+ */
+export async function setReachability(leadId: string, reachability: Reachability): Promise<void> {
+  const { count } = await prisma.lead.updateMany({
+    where: { id: leadId, reachability: { not: reachability } },
+    data: { reachability, reachabilityAt: new Date() },
+  });
+  if (count > 0) console.log(`[Reachability] Lead ${leadId} is now ${reachability}`);
+}
@@ -0,0 +1,79 @@
+import { EventEmitter } from 'events';
+import { Campaign, ImportJob, MessageLog } from '@prisma/client';
+import { RealtimeEvent } from '../types/index.js';
+
+// In-process bus: browsers hold an event stream to this server instance, and
+// the webhook, senders and routes publish to it as they write. Running more
+// than one instance would need a shared channel (e.g. Redis pub/sub) here.
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+export function publishEvent(event: RealtimeEvent): void {
+  bus.emit('event', event);
+}
+
+/**
+ * Listen to every published event; returns the unsubscribe function
+ */
+export function subscribeEvents(listener: (event: RealtimeEvent) => void): () => void {
+  bus.on('event', listener);
+  return () => {
+    bus.off('event', listener);
+  };
+}
+
+/**
+ * Announce a new message log, or a status change on one
+ */
+export function publishMessage(type: 'message.created' | 'message.status', log: MessageLog): void {
+  publishEvent({
+    type,
+    leadId: log.leadId,
+    message: {
+      id: log.id,
+      leadId: log.leadId,
+      campaignId: log.campaignId,
+      direction: log.direction,
+      content: log.content,
+      status: log.status,
+      sentAt: log.sentAt,
+      deliveredAt: log.deliveredAt,
+      readAt: log.readAt,
+      failedAt: log.failedAt,
+      errorMessage: log.errorMessage,
+      createdAt: log.createdAt,
+    },
+  });
+}
+
+export function publishCampaignProgress(campaign: Campaign): void {
+  publishEvent({
+    type: 'campaign.progress',
+    campaign: {
+      id: campaign.id,
+      status: campaign.status,
+      totalLeads: campaign.totalLeads,
+      sentCount: campaign.sentCount,
+      deliveredCount: campaign.deliveredCount,
+      readCount: campaign.readCount,
+      failedCount: campaign.failedCount,
+    },
+  });
+}
+
+export function publishImportProgress(job: ImportJob): void {
+  publishEvent({
+    type: 'import.progress',
+    job: {
+      id: job.id,
+      status: job.status,
+      totalRows: job.totalRows,
+      processedRows: job.processedRows,
+      imported: job.imported,
+      updated: job.updated,
+      duplicates: job.duplicates,
+      failed: job.failed,
+      errorMessage: job.errorMessage,
+    },
+  });
+}
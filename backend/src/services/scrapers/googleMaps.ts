@@ -1,6 +1,7 @@
 import axios from 'axios';
 import { env } from '../../config/env.js';
 import { prisma } from '../../config/database.js';
+import { parsePhone } from '../phone.js';
 
 // New Places API base URL
 const PLACES_API_URL = 'https://places.googleapis.com/v1';
@@ -108,32 +109,6 @@ export async function searchPlaces(
   return allPlaces;
 }
 
-/**
- * Normalize phone number to Indian format
- */
-function normalizePhone(phone: string): string | null {
-  if (!phone) return null;
-
-  // Remove all non-digit characters
-  let digits = phone.replace(/\D/g, '');
-
-  // Handle Indian numbers
-  if (digits.startsWith('91') && digits.length === 12) {
-    return digits; // Already in correct format
-  }
-  if (digits.startsWith('0') && digits.length === 11) {
-    return '91' + digits.substring(1);
-  }
-  if (digits.length === 10) {
-    return '91' + digits;
-  }
-
-  // Return null if not a valid Indian number
-  if (digits.length < 10) return null;
-
-  return digits;
-}
-
 /**
  * Extract business type from Google Places types
  */
@@ -212,15 +187,15 @@ async function processPlaces(
 ): Promise<void> {
   for (const place of places) {
     try {
-      const phone = normalizePhone(
-        place.internationalPhoneNumber || place.nationalPhoneNumber || ''
-      );
+      // Places list numbers in the country's own format; ones that don't parse can't be messaged
+      const parsed = parsePhone(place.internationalPhoneNumber || place.nationalPhoneNumber || '');
 
       const businessName = place.displayName?.text || 'Unknown';
 
-      if (!phone) {
+      if (!parsed) {
         continue;
       }
+      const { phone } = parsed;
 
       // Check for duplicate
       const existing = await prisma.lead.findUnique({
@@ -237,6 +212,7 @@ async function processPlaces(
         data: {
           name: businessName,
           phone,
+          phoneType: parsed.type,
           businessName: businessName,
           businessType: extractBusinessType(place.types),
           address: place.formattedAddress,
@@ -0,0 +1,228 @@
+import { SequenceEnrollment, SequenceStep } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { sendCampaignMessage } from '../whatsapp/client.js';
+import { isWithinSendWindow, nextWindowOpening } from '../campaigns/sendWindow.js';
+import { SendWindow } from '../../types/index.js';
+
+const TICK_INTERVAL_MS = 60_000;
+const BATCH_SIZE = 30;           // due enrollments handled per tick
+const SEND_DELAY_MS = 10_000;    // gap between sequence messages
+const HOUR_MS = 60 * 60 * 1000;
+
+export type SequenceExitReason = 'REPLIED' | 'OPTED_OUT' | 'CONVERTED' | 'REJECTED' | 'DO_NOT_CONTACT' | 'FAILED';
+
+let ticking = false;
+
+/**
+ * Start the drip sequence runner. Every minute it sends the next step to
+ * enrollments whose wait is over, in ACTIVE sequences only.
+ */
+export function startSequenceRunner(): void {
+  const tick = () => {
+    if (ticking) return;
+    ticking = true;
+    processDueEnrollments()
+      .catch((err) => console.error('[Sequences] Error:', err))
+      .finally(() => { ticking = false; });
+  };
+
+  tick();
+  setInterval(tick, TICK_INTERVAL_MS);
+  console.log('✅ Sequence runner started');
+}
+
+/**
+ * Enroll leads into a sequence. Leads already enrolled (in any state) are left
+ * alone, so nobody receives a sequence twice. Returns the number of new enrollments.
+ */
+export async function enrollLeads(sequenceId: string, leadIds: string[]): Promise<number> {
+  const firstStep = await prisma.sequenceStep.findFirst({
+    where: { sequenceId },
+    orderBy: { order: 'asc' },
+  });
+  if (!firstStep) return 0;
+
+  const nextRunAt = new Date(Date.now() + firstStep.delayHours * HOUR_MS);
+  const result = await prisma.sequenceEnrollment.createMany({
+    data: leadIds.map((leadId) => ({ sequenceId, leadId, nextRunAt })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+/**
+ * Take a lead out of every sequence it is active in
+ */
+export async function exitSequences(leadId: string, reason: SequenceExitReason): Promise<void> {
+  const { count } = await prisma.sequenceEnrollment.updateMany({
+    where: { leadId, status: 'ACTIVE' },
+    data: { status: 'EXITED', exitReason: reason, nextRunAt: null, completedAt: new Date() },
+  });
+
+  if (count > 0) {
+    console.log(`[Sequences] Lead ${leadId} left ${count} sequence(s) — ${reason}`);
+  }
+}
+
+/**
+ * Run the next step for every enrollment that is due
+ */
+export async function processDueEnrollments(): Promise<void> {
+  const due = await prisma.sequenceEnrollment.findMany({
+    where: {
+      status: 'ACTIVE',
+      nextRunAt: { lte: new Date() },
+      sequence: { status: 'ACTIVE' },
+    },
+    include: {
+      sequence: {
+        select: { sendWindow: true, steps: { orderBy: { order: 'asc' } } },
+      },
+    },
+    orderBy: { nextRunAt: 'asc' },
+    take: BATCH_SIZE,
+  });
+
+  for (const enrollment of due) {
+    try {
+      const sent = await runEnrollmentStep(
+        enrollment,
+        enrollment.sequence.steps,
+        enrollment.sequence.sendWindow as SendWindow | null
+      );
+      if (sent) await new Promise(resolve => setTimeout(resolve, SEND_DELAY_MS));
+    } catch (err: any) {
+      console.error(`[Sequences] Enrollment ${enrollment.id} error:`, err.message);
+    }
+  }
+}
+
+/**
+ * Advance one enrollment: exit it if the lead is done, skip the step if its
+ * condition is unmet, otherwise send it. Returns true when a message went out.
+ */
+async function runEnrollmentStep(
+  enrollment: SequenceEnrollment,
+  steps: SequenceStep[],
+  sendWindow: SendWindow | null
+): Promise<boolean> {
+  const exitReason = await getExitReason(enrollment);
+  if (exitReason) {
+    await prisma.sequenceEnrollment.update({
+      where: { id: enrollment.id },
+      data: { status: 'EXITED', exitReason, nextRunAt: null, completedAt: new Date() },
+    });
+    return false;
+  }
+
+  const step = steps.find((s) => s.order === enrollment.currentStep);
+  if (!step) {
+    await prisma.sequenceEnrollment.update({
+      where: { id: enrollment.id },
+      data: { status: 'COMPLETED', nextRunAt: null, completedAt: new Date() },
+    });
+    return false;
+  }
+
+  // Due outside the send window — push to the next opening
+  if (sendWindow && !isWithinSendWindow(sendWindow)) {
+    await prisma.sequenceEnrollment.update({
+      where: { id: enrollment.id },
+      data: { nextRunAt: nextWindowOpening(sendWindow) },
+    });
+    return false;
+  }
+
+  const nextStep = steps.find((s) => s.order === step.order + 1);
+  const advance = {
+    currentStep: step.order + 1,
+    nextRunAt: new Date(Date.now() + (nextStep?.delayHours ?? 0) * HOUR_MS),
+  };
+
+  if (!(await conditionMet(step.condition, enrollment.lastMessageId))) {
+    await prisma.sequenceEnrollment.update({ where: { id: enrollment.id }, data: advance });
+    return false;
+  }
+
+  const result = await sendCampaignMessage(
+    enrollment.leadId,
+    null,
+    step.templateId,
+    undefined,
+    step.headerMediaUrl ?? undefined,
+    step.id
+  );
+
+  if (!result.success) {
+    console.log(`[Sequences] Step ${step.order + 1} failed for lead ${enrollment.leadId}: ${result.error}`);
+    await prisma.sequenceEnrollment.update({
+      where: { id: enrollment.id },
+      data: {
+        status: 'EXITED',
+        exitReason: 'FAILED',
+        nextRunAt: null,
+        completedAt: new Date(),
+        lastMessageId: result.messageLogId,
+      },
+    });
+    return !result.blocked;
+  }
+
+  await prisma.sequenceEnrollment.update({
+    where: { id: enrollment.id },
+    data: { ...advance, lastMessageId: result.messageLogId },
+  });
+  return true;
+}
+
+/**
+ * Why a lead should leave the sequence now, if at all
+ */
+async function getExitReason(enrollment: SequenceEnrollment): Promise<SequenceExitReason | null> {
+  const lead = await prisma.lead.findUnique({
+    where: { id: enrollment.leadId },
+    select: { optedOut: true, status: true, reachability: true },
+  });
+
+  if (!lead || lead.optedOut) return 'OPTED_OUT';
+  if (lead.status === 'CONVERTED' || lead.status === 'REJECTED' || lead.status === 'DO_NOT_CONTACT') {
+    return lead.status;
+  }
+  // An earlier step bounced with 131026 after it was sent
+  if (lead.reachability === 'NOT_ON_WHATSAPP') return 'FAILED';
+
+  const reply = await prisma.messageLog.findFirst({
+    where: { leadId: enrollment.leadId, direction: 'INBOUND', createdAt: { gte: enrollment.enrolledAt } },
+    select: { id: true },
+  });
+  return reply ? 'REPLIED' : null;
+}
+
+/**
+ * Check a step condition against the lead's previous step message.
+ * The first step (no previous message) always runs.
+ */
+async function conditionMet(condition: SequenceStep['condition'], lastMessageId: string | null): Promise<boolean> {
+  if (condition === 'ALWAYS' || !lastMessageId) return true;
+
+  const last = await prisma.messageLog.findUnique({
+    where: { id: lastMessageId },
+    select: { status: true, deliveredAt: true, readAt: true },
+  });
+  if (!last) return true;
+
+  const read = last.status === 'READ' || !!last.readAt;
+  const delivered = read || last.status === 'DELIVERED' || !!last.deliveredAt;
+
+  switch (condition) {
+    case 'DELIVERED':
+      return delivered;
+    case 'READ':
+      return read;
+    case 'NOT_READ':
+      return !read;
+    default:
+      return true;
+  }
+}
@@ -1,7 +1,11 @@
 import axios, { AxiosInstance } from 'axios';
 import { env } from '../../config/env.js';
 import { prisma } from '../../config/database.js';
-import { WhatsAppMessageRequest, WhatsAppTemplateComponent } from '../../types/index.js';
+import { WhatsAppMessageRequest, WhatsAppTemplateComponent, TemplateVariableMapping } from '../../types/index.js';
+import { resolveTemplateVariables } from './templateVariables.js';
+import { trackNewMessage } from '../conversations.js';
+import { recordLeadActivity, leadChangeActivities } from '../leadTimeline.js';
+import { setReachability, NOT_ON_WHATSAPP_ERROR } from '../reachability.js';
 
 export class WhatsAppClient {
   private client: AxiosInstance;
@@ -158,19 +162,24 @@ export class WhatsAppClient {
   }
 
   /**
-   * Send a media message (image, video, document, audio) within 24hr window
+   * Send a media message (image, video, document, audio) within 24hr window.
+   * `media` is an uploaded media ID or a public URL.
    */
   async sendMediaMessage(
     to: string,
-    mediaId: string,
+    media: string,
     mediaType: 'image' | 'video' | 'document' | 'audio',
-    caption?: string
+    caption?: string,
+    filename?: string
   ): Promise<{ messageId: string; success: boolean; error?: string }> {
     try {
-      const mediaPayload: any = { id: mediaId };
+      const mediaPayload: any = mediaReference(media);
       if (caption && ['image', 'video', 'document'].includes(mediaType)) {
         mediaPayload.caption = caption;
       }
+      if (filename && mediaType === 'document') {
+        mediaPayload.filename = filename;
+      }
 
       const payload = {
         messaging_product: 'whatsapp',
@@ -198,6 +207,53 @@ export class WhatsAppClient {
     }
   }
 
+  /**
+   * Send an interactive reply-button message (max 3 buttons) within 24hr window
+   */
+  async sendInteractiveButtons(
+    to: string,
+    body: string,
+    buttons: Array<{ id: string; title: string }>,
+    header?: { media: string; mediaType: 'image' | 'video' | 'document'; filename?: string }
+  ): Promise<{ messageId: string; success: boolean; error?: string }> {
+    try {
+      const interactive: any = {
+        type: 'button',
+        body: { text: body },
+        action: {
+          buttons: buttons.map((b) => ({ type: 'reply', reply: { id: b.id, title: b.title } })),
+        },
+      };
+      if (header) {
+        const headerMedia: any = mediaReference(header.media);
+        if (header.filename && header.mediaType === 'document') headerMedia.filename = header.filename;
+        interactive.header = { type: header.mediaType, [header.mediaType]: headerMedia };
+      }
+
+      const response = await this.client.post(
+        `/${this.phoneNumberId}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to,
+          type: 'interactive',
+          interactive,
+        }
+      );
+
+      return {
+        messageId: response.data?.messages?.[0]?.id || '',
+        success: true,
+      };
+    } catch (error: any) {
+      return {
+        messageId: '',
+        success: false,
+        error: error.response?.data?.error?.message || error.message,
+      };
+    }
+  }
+
   /**
    * Get all message templates from WhatsApp Business Account
    * Handles pagination to fetch every template across all pages
@@ -334,16 +390,24 @@ export class WhatsAppClient {
 // Singleton instance
 export const whatsappClient = new WhatsAppClient();
 
+// Media is either an uploaded media ID or a public URL
+function mediaReference(media: string): { id: string } | { link: string } {
+  return /^https?:\/\//.test(media) ? { link: media } : { id: media };
+}
+
 /**
- * Send a campaign message to a lead
+ * Send a campaign (or drip sequence step) message to a lead.
+ * Template variables are filled from the campaign's variable mapping; a send
+ * where a variable resolves to an empty value is blocked and logged as failed.
  */
 export async function sendCampaignMessage(
   leadId: string,
-  campaignId: string,
+  campaignId: string | null,
   templateId: string,
-  bodyParams: string[],
-  headerMediaUrl?: string
-): Promise<{ success: boolean; messageId?: string; error?: string; errorCode?: number }> {
+  variableMapping?: TemplateVariableMapping,
+  headerMediaUrl?: string,
+  sequenceStepId?: string
+): Promise<{ success: boolean; messageId?: string; messageLogId?: string; error?: string; errorCode?: number; blocked?: boolean }> {
   // Get lead and template
   const [lead, template] = await Promise.all([
     prisma.lead.findUnique({ where: { id: leadId } }),
@@ -362,32 +426,27 @@ export async function sendCampaignMessage(
     return { success: false, error: 'Lead has opted out' };
   }
 
-  // Auto-fill body params from lead data when none provided
   // WhatsApp requires parameter_name for named variables ({{name}}, {{1}}, etc.)
-  let resolvedBodyParams: Array<{ name: string; value: string }> = bodyParams.map((v, i) => ({ name: String(i + 1), value: v }));
-  if (bodyParams.length === 0 && template.bodyText) {
-    // Extract all variables in order (both {{1}} and {{name}} styles)
-    const allVars = template.bodyText.match(/\{\{[^}]+\}\}/g) || [];
-
-    if (allVars.length > 0) {
-      const fieldMap: Record<string, string> = {
-        name: lead.name || lead.businessName || 'there',
-        business_name: lead.businessName || lead.name || '',
-        businessname: lead.businessName || lead.name || '',
-        city: lead.city || '',
-        phone: lead.phone || '',
-        '1': lead.name || lead.businessName || 'there',
-        '2': lead.businessName || lead.name || '',
-        '3': lead.city || '',
-        '4': lead.phone || '',
-      };
+  const { params: resolvedBodyParams, missing } = resolveTemplateVariables(template.bodyText, lead, variableMapping);
 
-      resolvedBodyParams = allVars.map((v) => {
-        const key = v.replace(/\{|\}/g, '').toLowerCase();
-        const value = fieldMap[key] || lead.name || 'there';
-        return { name: key, value: value || 'N/A' };
-      });
-    }
+  if (missing.length > 0) {
+    const error = `No value for template variable ${missing.map((v) => `{{${v}}}`).join(', ')}`;
+    const failedLog = await prisma.messageLog.create({
+      data: {
+        leadId,
+        campaignId,
+        templateId,
+        sequenceStepId,
+        channel: 'WHATSAPP',
+        direction: 'OUTBOUND',
+        content: template.bodyText,
+        status: 'FAILED',
+        failedAt: new Date(),
+        errorMessage: error,
+      },
+    });
+    await trackNewMessage(failedLog);
+    return { success: false, messageLogId: failedLog.id, error, blocked: true };
   }
 
   // Build header params from template type + provided media URL
@@ -399,6 +458,7 @@ export async function sendCampaignMessage(
       leadId,
       campaignId,
       templateId,
+      sequenceStepId,
       channel: 'WHATSAPP',
       direction: 'OUTBOUND',
       content: mediaUrl ? JSON.stringify({ text: template.bodyText, mediaUrl, mediaType: template.headerType }) : template.bodyText,
@@ -424,7 +484,7 @@ export async function sendCampaignMessage(
 
   // Update message log
   if (result.success) {
-    await prisma.messageLog.update({
+    const sentLog = await prisma.messageLog.update({
       where: { id: messageLog.id },
       data: {
         whatsappMessageId: result.messageId,
@@ -432,6 +492,7 @@ export async function sendCampaignMessage(
         sentAt: new Date(),
       },
     });
+    await trackNewMessage(sentLog);
 
     // Update lead's last contacted time and status (NEW → CONTACTED)
     const updateData: any = { lastContactedAt: new Date() };
@@ -442,8 +503,13 @@ export async function sendCampaignMessage(
       where: { id: leadId },
       data: updateData,
     });
+    await recordLeadActivity(leadChangeActivities(
+      lead,
+      { status: updateData.status },
+      { source: sequenceStepId ? 'Sequence message' : 'Campaign message' }
+    ));
   } else {
-    await prisma.messageLog.update({
+    const failedSendLog = await prisma.messageLog.update({
       where: { id: messageLog.id },
       data: {
         status: 'FAILED',
@@ -451,20 +517,18 @@ export async function sendCampaignMessage(
         errorMessage: result.error,
       },
     });
+    await trackNewMessage(failedSendLog);
 
-    // 131026 = number not on WhatsApp — mark lead so future campaigns skip them
-    if (result.errorCode === 131026) {
-      await prisma.lead.update({
-        where: { id: leadId },
-        data: { status: 'DO_NOT_CONTACT', notes: 'Phone number not on WhatsApp (131026)' },
-      });
-      console.log(`[Campaign] Lead ${leadId} marked DO_NOT_CONTACT — not on WhatsApp`);
+    // Number not on WhatsApp — future campaigns skip the lead
+    if (result.errorCode === NOT_ON_WHATSAPP_ERROR) {
+      await setReachability(leadId, 'NOT_ON_WHATSAPP');
     }
   }
 
   return {
     success: result.success,
     messageId: result.messageId,
+    messageLogId: messageLog.id,
     error: result.error,
     errorCode: result.errorCode,
   };
@@ -0,0 +1,24 @@
+// Letters, combining marks (Devanagari matras) and digits form words; \b only knows ASCII
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+
+/**
+ * Regex matching a keyword or phrase as whole words, case-insensitively.
+ * "stop" matches "STOP please" but not "stopped"; "opt out" also matches "opt  out".
+ */
+export function wholeWordPattern(keyword: string): RegExp | null {
+  const phrase = keyword
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('\\s+');
+  if (!phrase) return null;
+
+  return new RegExp(`(?<!${WORD_CHAR})${phrase}(?!${WORD_CHAR})`, 'giu');
+}
+
+export function containsWholeWord(text: string, keyword: string): boolean {
+  const pattern = wholeWordPattern(keyword);
+  return !!pattern && pattern.test(text.toLowerCase());
+}
@@ -0,0 +1,113 @@
+import { Lead } from '@prisma/client';
+import { TemplateVariableMapping } from '../../types/index.js';
+import { customFieldText } from '../customFields.js';
+
+// Lead fields that can be mapped to a template variable
+export const LEAD_VARIABLE_FIELDS = [
+  'name',
+  'businessName',
+  'businessType',
+  'phone',
+  'email',
+  'city',
+  'state',
+  'pincode',
+  'address',
+] as const;
+
+export type LeadVariableField = typeof LEAD_VARIABLE_FIELDS[number];
+
+// Custom fields are mapped as "custom.<key>", e.g. "custom.gst_number"
+const CUSTOM_FIELD_PREFIX = 'custom.';
+
+export function isLeadVariableField(field: string): boolean {
+  return (LEAD_VARIABLE_FIELDS as readonly string[]).includes(field) ||
+    /^custom\.[a-z][a-z0-9_]*$/.test(field);
+}
+
+function leadFieldValue(lead: Lead, field: string): string {
+  if (field.startsWith(CUSTOM_FIELD_PREFIX)) return customFieldText(lead, field.slice(CUSTOM_FIELD_PREFIX.length));
+  const value = (lead as any)[field];
+  return value != null ? String(value) : '';
+}
+
+export interface ResolvedVariables {
+  params: Array<{ name: string; value: string }>;
+  missing: string[]; // variables that resolved to an empty value
+}
+
+/**
+ * Extract variable names from a template body in order of appearance
+ * ({{1}} → "1", {{Name}} → "name"), without duplicates
+ */
+export function extractTemplateVariables(bodyText: string): string[] {
+  const matches = bodyText.match(/\{\{[^}]+\}\}/g) || [];
+  const names = matches.map((v) => v.replace(/\{|\}/g, '').trim().toLowerCase());
+  return [...new Set(names)];
+}
+
+/**
+ * Resolve every template variable for a lead. Mapped variables use the campaign's
+ * mapping; unmapped ones only match a lead field of the same name. Every variable
+ * left empty is reported in `missing` so the caller can block the send.
+ */
+export function resolveTemplateVariables(
+  bodyText: string,
+  lead: Lead,
+  mapping: TemplateVariableMapping = {}
+): ResolvedVariables {
+  const params: ResolvedVariables['params'] = [];
+  const missing: string[] = [];
+
+  for (const name of extractTemplateVariables(bodyText)) {
+    const entry = mapping[name];
+    let value: string;
+
+    if (!entry) {
+      value = defaultVariableValue(name, lead);
+    } else if (entry.type === 'STATIC') {
+      value = entry.value || '';
+    } else {
+      value = (entry.field ? leadFieldValue(lead, entry.field).trim() : '') || entry.fallback || '';
+    }
+
+    value = value.trim();
+    if (!value) missing.push(name);
+    params.push({ name, value });
+  }
+
+  return { params, missing };
+}
+
+// Variable names accepted for a lead field when the campaign has no mapping
+const VARIABLE_NAME_ALIASES: Record<string, LeadVariableField> = {
+  business_name: 'businessName',
+  businessname: 'businessName',
+  business_type: 'businessType',
+  businesstype: 'businessType',
+};
+
+/**
+ * Value for an unmapped variable: only a lead field or custom field with the
+ * same name ({{city}}, {{gst_number}}). Anything else — including positional
+ * {{1}}, {{2}} — needs an explicit mapping and otherwise resolves empty.
+ */
+function defaultVariableValue(name: string, lead: Lead): string {
+  const custom = customFieldText(lead, name);
+  if (custom) return custom;
+
+  const field = VARIABLE_NAME_ALIASES[name] ||
+    LEAD_VARIABLE_FIELDS.find((f) => f.toLowerCase() === name);
+  return field ? leadFieldValue(lead, field) : '';
+}
+
+/**
+ * Fill a template body with resolved values, for previews
+ */
+export function renderTemplateBody(bodyText: string, params: ResolvedVariables['params']): string {
+  const values = new Map(params.map((p) => [p.name, p.value]));
+  return bodyText.replace(/\{\{([^}]+)\}\}/g, (match, name: string) => {
+    const value = values.get(name.trim().toLowerCase());
+    return value || match;
+  });
+}
@@ -6,11 +6,25 @@ import {
 } from '../../types/index.js';
 import { sendPushNotification } from '../pushNotification.js';
 import { whatsappClient } from './client.js';
+import { exitSequences } from '../sequences/runner.js';
+import { findConsentKeyword, optOutLead, optInLead } from '../consent.js';
+import { handleChatbotMessage } from '../chatbot/runner.js';
+import { handleAutoReply } from '../autoReplies/runner.js';
+import { publishMessage } from '../realtime.js';
+import { refreshCampaignStats, syncCampaignLeadStatus } from '../campaigns/stats.js';
+import { trackNewMessage, autoAssignConversation } from '../conversations.js';
+import { parsePhone } from '../phone.js';
+import { setReachability, NOT_ON_WHATSAPP_ERROR } from '../reachability.js';
 
 /**
- * Process incoming WhatsApp webhook events
+ * Process incoming WhatsApp webhook events. `retry` is set when the stored
+ * event never finished processing: messages it already logged then carry on
+ * with the steps that come after logging instead of being skipped.
  */
-export async function processWebhookEvent(payload: WhatsAppWebhookPayload): Promise<void> {
+export async function processWebhookEvent(
+  payload: WhatsAppWebhookPayload,
+  options: { retry?: boolean } = {}
+): Promise<void> {
   for (const entry of payload.entry) {
     for (const change of entry.changes) {
       const value = change.value;
@@ -25,13 +39,31 @@ export async function processWebhookEvent(payload: WhatsAppWebhookPayload): Prom
       // Process incoming messages
       if (value.messages) {
         for (const message of value.messages) {
-          await processIncomingMessage(message);
+          const contact = value.contacts?.find((c) => c.wa_id === message.from);
+          await processIncomingMessage(message, contact?.profile?.name, options.retry ?? false);
         }
       }
     }
   }
 }
 
+// Statuses only move forward, so redelivered or replayed receipts can't regress a message
+const STATUS_RANK: Record<string, number> = {
+  PENDING: 0,
+  QUEUED: 0,
+  SENT: 1,
+  DELIVERED: 2,
+  READ: 3,
+  FAILED: 4,
+};
+
+const STATUS_TIMESTAMP_FIELD: Record<string, 'sentAt' | 'deliveredAt' | 'readAt' | 'failedAt'> = {
+  SENT: 'sentAt',
+  DELIVERED: 'deliveredAt',
+  READ: 'readAt',
+  FAILED: 'failedAt',
+};
+
 /**
  * Handle message status updates (sent, delivered, read, failed)
  */
@@ -78,14 +110,36 @@ async function processStatusUpdate(status: WhatsAppMessageStatus): Promise<void>
       break;
   }
 
-  await prisma.messageLog.update({
+  if (!updateData.status) return;
+
+  // Already at or past this status — only backfill a missing timestamp (e.g. "delivered" arriving after "read")
+  if (STATUS_RANK[updateData.status]! <= STATUS_RANK[messageLog.status]!) {
+    const field = STATUS_TIMESTAMP_FIELD[updateData.status]!;
+    if (messageLog[field] || updateData.status === 'FAILED') return;
+
+    await prisma.messageLog.update({
+      where: { id: messageLog.id },
+      data: { [field]: statusTimestamp },
+    });
+    return;
+  }
+
+  const updated = await prisma.messageLog.update({
     where: { id: messageLog.id },
     data: updateData,
   });
+  publishMessage('message.status', updated);
+
+  // A delivery proves the number is on WhatsApp; 131026 proves it isn't
+  if (updated.status === 'DELIVERED' || updated.status === 'READ') {
+    await setReachability(messageLog.leadId, 'VALID');
+  } else if (errors?.some((e) => e.code === NOT_ON_WHATSAPP_ERROR)) {
+    await setReachability(messageLog.leadId, 'NOT_ON_WHATSAPP');
+  }
 
-  // Update campaign stats if this message is part of a campaign
-  if (messageLog.campaignId) {
-    await updateCampaignStats(messageLog.campaignId);
+  // Campaign totals follow the lead's campaign status
+  if (updated.campaignId && await syncCampaignLeadStatus(updated)) {
+    await refreshCampaignStats(updated.campaignId);
   }
 
   console.log(`Updated message ${messageLog.id} status to ${messageStatus}`);
@@ -94,68 +148,133 @@ async function processStatusUpdate(status: WhatsAppMessageStatus): Promise<void>
 /**
  * Handle incoming messages from leads
  */
-async function processIncomingMessage(message: WhatsAppIncomingMessage): Promise<void> {
+async function processIncomingMessage(
+  message: WhatsAppIncomingMessage,
+  profileName: string | undefined,
+  retry: boolean
+): Promise<void> {
   const { from, id } = message;
 
+  // Redelivered or replayed message — already logged. A processed event acted
+  // on it too; a retried one may have stopped part-way, so pick up from here.
+  const alreadyLogged = await prisma.messageLog.findUnique({
+    where: { whatsappMessageId: id },
+  });
+  if (alreadyLogged && !retry) return;
+
   // Extract readable content based on message type
   const content = extractMessageContent(message);
   if (!content) return; // Skip reaction removals, etc.
 
-  // Find lead by phone number
-  const lead = await prisma.lead.findUnique({
-    where: { phone: from },
-  });
+  // Find lead by phone number — unknown numbers become new leads. wa_id is
+  // already E.164 digits; parsing it classifies the number too.
+  const parsed = parsePhone(from);
+  const phone = parsed?.phone ?? from;
+  let lead = alreadyLogged
+    ? await prisma.lead.findUnique({ where: { id: alreadyLogged.leadId } })
+    : await prisma.lead.findUnique({ where: { phone } });
+  const isNewLead = !lead;
 
   if (!lead) {
-    console.log(`Lead not found for phone: ${from}`);
-    return;
+    // upsert: a second message from the same number may be processed concurrently
+    lead = await prisma.lead.upsert({
+      where: { phone },
+      create: {
+        name: profileName?.trim() || phone,
+        phone,
+        phoneType: parsed?.type,
+        reachability: 'VALID',
+        reachabilityAt: new Date(),
+        source: 'WHATSAPP_INBOUND',
+      },
+      update: {},
+    });
+    console.log(`Created lead ${lead.id} from inbound message (${phone})`);
+  } else {
+    await setReachability(lead.id, 'VALID');
   }
 
-  // Check for opt-out keywords
-  const messageText = content.toLowerCase();
-  const optOutKeywords = ['stop', 'unsubscribe', 'opt out', 'रोकें', 'बंद करो'];
-
-  if (optOutKeywords.some((keyword) => messageText.includes(keyword))) {
-    await prisma.lead.update({
-      where: { id: lead.id },
+  // Log incoming message (opt-outs too — the message ID makes replays no-ops)
+  let messageLog = alreadyLogged;
+  if (!messageLog) {
+    messageLog = await prisma.messageLog.create({
       data: {
-        optedOut: true,
-        optedOutAt: new Date(),
-        status: 'DO_NOT_CONTACT',
+        leadId: lead.id,
+        channel: 'WHATSAPP',
+        direction: 'INBOUND',
+        whatsappMessageId: id,
+        content,
+        status: 'DELIVERED',
+        deliveredAt: new Date(),
       },
     });
+    await trackNewMessage(messageLog);
+  } else if (!(await prisma.conversation.findUnique({ where: { leadId: lead.id }, select: { id: true } }))) {
+    await trackNewMessage(messageLog);
+  }
 
-    console.log(`Lead ${lead.id} opted out`);
+  // Opt-out / opt-in keywords (typed or tapped text only, not media captions)
+  const consentKeyword = ['text', 'button', 'interactive'].includes(message.type)
+    ? await findConsentKeyword(content, lead.id)
+    : null;
+
+  if (consentKeyword?.action === 'OPT_OUT') {
+    if (!lead.optedOut) {
+      await optOutLead(lead, {
+        source: 'WHATSAPP_KEYWORD',
+        keyword: consentKeyword.keyword,
+        messageText: content,
+        messageLogId: messageLog.id,
+      });
+      await sendConsentConfirmation(lead.id, from, consentKeyword.replyText);
+    }
     return;
   }
 
-  // Log incoming message
-  await prisma.messageLog.create({
-    data: {
-      leadId: lead.id,
-      channel: 'WHATSAPP',
-      direction: 'INBOUND',
-      whatsappMessageId: id,
-      content,
-      status: 'DELIVERED',
-      deliveredAt: new Date(),
-    },
-  });
+  if (consentKeyword?.action === 'OPT_IN' && lead.optedOut) {
+    await optInLead(lead, {
+      source: 'WHATSAPP_KEYWORD',
+      keyword: consentKeyword.keyword,
+      messageText: content,
+      messageLogId: messageLog.id,
+    });
+    await sendConsentConfirmation(lead.id, from, consentKeyword.replyText);
+    return;
+  }
 
   console.log(`Received message from lead ${lead.id}: ${content}`);
 
+  // A reply ends any drip sequence the lead is in
+  await exitSequences(lead.id, 'REPLIED');
+
+  // New chats go round-robin; the owner (or everyone, if unowned) gets the push
+  const assigneeId = await autoAssignConversation(lead.id);
+
   // Send push notification
   const senderName = lead.name || lead.phone;
   const msgPreview = content.length > 100 ? content.slice(0, 100) + '...' : content;
   sendPushNotification({
-    title: `New message from ${senderName}`,
+    title: isNewLead ? `New lead: ${senderName}` : `New message from ${senderName}`,
     body: msgPreview,
     url: `/conversations?lead=${lead.id}`,
     tag: `msg-${lead.id}`,
-  }).catch((err) => console.error('Push notification error:', err));
+  }, assigneeId).catch((err) => console.error('Push notification error:', err));
+
+  // On a retry, anything sent to the lead since this message means the
+  // chatbot or auto-reply already answered it
+  if (alreadyLogged) {
+    const answered = await prisma.messageLog.findFirst({
+      where: { leadId: lead.id, direction: 'OUTBOUND', createdAt: { gt: alreadyLogged.createdAt } },
+      select: { id: true },
+    });
+    if (answered) return;
+  }
+
+  // An open chatbot conversation (or a flow trigger) takes precedence over single-shot rules
+  if (await handleChatbotMessage(message, lead)) return;
 
-  // Auto-reply for button clicks
-  await handleAutoReply(message, lead.id, from);
+  // Rule-based auto-reply
+  await handleAutoReply(message, lead, messageLog.id);
 }
 
 /**
@@ -208,104 +327,30 @@ function extractMessageContent(message: WhatsAppIncomingMessage): string {
 }
 
 /**
- * Auto-reply using rules from the database
+ * Send the keyword's confirmation reply, if it has one
  */
-async function handleAutoReply(
-  message: WhatsAppIncomingMessage,
-  leadId: string,
-  phone: string
-): Promise<void> {
-  const rules = await prisma.autoReply.findMany({
-    where: { isActive: true },
-    orderBy: { priority: 'asc' },
-  });
-
-  if (rules.length === 0) return;
-
-  const buttonText = (message.button?.text || message.button?.payload || '').toLowerCase();
-  const textBody = (message.text?.body || '').toLowerCase();
-  const interactiveText = (
-    message.interactive?.button_reply?.title || message.interactive?.list_reply?.title || ''
-  ).toLowerCase();
-  const combinedText = `${buttonText} ${textBody} ${interactiveText}`.trim();
-  const isButtonMessage = message.type === 'button' || message.type === 'interactive';
-
-  for (const rule of rules) {
-    let matched = false;
-
-    switch (rule.triggerType) {
-      case 'KEYWORD':
-        matched = rule.triggerKeywords.some((kw) => combinedText.includes(kw.toLowerCase()));
-        break;
-      case 'BUTTON':
-        if (isButtonMessage) {
-          matched = rule.triggerKeywords.length === 0
-            || rule.triggerKeywords.some((kw) =>
-              buttonText.includes(kw.toLowerCase()) || interactiveText.includes(kw.toLowerCase())
-            );
-        }
-        break;
-      case 'ANY':
-        matched = true;
-        break;
-    }
+async function sendConsentConfirmation(leadId: string, phone: string, replyText: string | null): Promise<void> {
+  if (!replyText) return;
 
-    if (!matched) continue;
-
-    console.log(`[AutoReply] Rule "${rule.name}" triggered for lead ${leadId} (${phone})`);
-
-    try {
-      const result = await whatsappClient.sendTextMessage(phone, rule.replyText);
-
-      await prisma.messageLog.create({
-        data: {
-          leadId,
-          channel: 'WHATSAPP',
-          direction: 'OUTBOUND',
-          content: rule.replyText,
-          whatsappMessageId: result.messageId || undefined,
-          status: result.success ? 'SENT' : 'FAILED',
-          sentAt: result.success ? new Date() : undefined,
-          failedAt: result.success ? undefined : new Date(),
-          errorMessage: result.error || undefined,
-        },
-      });
+  try {
+    const result = await whatsappClient.sendTextMessage(phone, replyText);
 
-      if (result.success) {
-        console.log(`[AutoReply] Sent to ${phone}`);
-      } else {
-        console.log(`[AutoReply] Failed for ${phone}: ${result.error}`);
-      }
-    } catch (err: any) {
-      console.error(`[AutoReply] Error for ${phone}:`, err.message);
-    }
-
-    break; // only send one auto-reply per message
+    const confirmationLog = await prisma.messageLog.create({
+      data: {
+        leadId,
+        channel: 'WHATSAPP',
+        direction: 'OUTBOUND',
+        content: replyText,
+        whatsappMessageId: result.messageId || undefined,
+        status: result.success ? 'SENT' : 'FAILED',
+        sentAt: result.success ? new Date() : undefined,
+        failedAt: result.success ? undefined : new Date(),
+        errorMessage: result.error || undefined,
+      },
+    });
+    await trackNewMessage(confirmationLog);
+  } catch (err: any) {
+    console.error(`[Consent] Confirmation to ${phone} failed:`, err.message);
   }
 }
 
-/**
- * Update campaign statistics after status change
- */
-async function updateCampaignStats(campaignId: string): Promise<void> {
-  const stats = await prisma.messageLog.groupBy({
-    by: ['status'],
-    where: { campaignId },
-    _count: true,
-  });
-
-  const statsMap = stats.reduce((acc, item) => {
-    acc[item.status] = item._count;
-    return acc;
-  }, {} as Record<string, number>);
-
-  await prisma.campaign.update({
-    where: { id: campaignId },
-    data: {
-      sentCount: (statsMap['SENT'] || 0) + (statsMap['DELIVERED'] || 0) + (statsMap['READ'] || 0),
-      deliveredCount: (statsMap['DELIVERED'] || 0) + (statsMap['READ'] || 0),
-      readCount: statsMap['READ'] || 0,
-      failedCount: statsMap['FAILED'] || 0,
-    },
-  });
-}
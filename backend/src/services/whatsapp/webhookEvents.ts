@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { Prisma, WebhookEvent, WebhookEventStatus } from '@prisma/client';
+import { prisma } from '../../config/database.js';
+import { processWebhookEvent } from './webhook.js';
+import { WhatsAppWebhookPayload } from '../../types/index.js';
+
+/**
+ * Check Meta's X-Hub-Signature-256 header (HMAC-SHA256 of the raw body with the app secret)
+ */
+export function verifyWebhookSignature(
+  rawBody: Buffer | undefined,
+  signatureHeader: string | undefined,
+  appSecret: string
+): boolean {
+  if (!rawBody || !signatureHeader?.startsWith('sha256=')) return false;
+
+  const expected = crypto.createHmac('sha256', appSecret).update(rawBody).digest();
+  const received = Buffer.from(signatureHeader.slice('sha256='.length), 'hex');
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Persist a webhook payload before it is processed.
+ * Returns null when the exact same payload was already stored (Meta redelivery).
+ */
+export async function recordWebhookEvent(
+  rawBody: Buffer,
+  payload: WhatsAppWebhookPayload
+): Promise<WebhookEvent | null> {
+  const payloadHash = crypto.createHash('sha256').update(rawBody).digest('hex');
+
+  const existing = await prisma.webhookEvent.findUnique({ where: { payloadHash } });
+  if (existing) return null;
+
+  try {
+    return await prisma.webhookEvent.create({
+      data: { payloadHash, payload: payload as unknown as Prisma.InputJsonValue },
+    });
+  } catch (err) {
+    // Concurrent delivery of the same payload won the insert
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') return null;
+    throw err;
+  }
+}
+
+/**
+ * Process a stored event and record the outcome. Never throws.
+ */
+export async function processStoredEvent(eventId: string): Promise<boolean> {
+  const event = await prisma.webhookEvent.findUnique({ where: { id: eventId } });
+  if (!event) return false;
+
+  try {
+    // Only an event that never finished may redo steps after a message was logged
+    await processWebhookEvent(event.payload as unknown as WhatsAppWebhookPayload, {
+      retry: event.status !== 'PROCESSED',
+    });
+
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: { status: 'PROCESSED', attempts: { increment: 1 }, errorMessage: null, processedAt: new Date() },
+    });
+    return true;
+  } catch (err: any) {
+    console.error(`[Webhook] Event ${eventId} failed:`, err);
+
+    await prisma.webhookEvent.update({
+      where: { id: eventId },
+      data: { status: 'FAILED', attempts: { increment: 1 }, errorMessage: err?.message || String(err) },
+    }).catch((updateErr) => console.error(`[Webhook] Could not record failure of ${eventId}:`, updateErr));
+    return false;
+  }
+}
+
+/**
+ * Replay stored events oldest first. Processing is idempotent, so already
+ * processed events can be replayed too (e.g. to rebuild stats after a bug).
+ */
+export async function replayWebhookEvents(where: {
+  status?: WebhookEventStatus;
+  from?: Date;
+  to?: Date;
+}): Promise<{ processed: number; failed: number }> {
+  const events = await prisma.webhookEvent.findMany({
+    where: {
+      status: where.status,
+      receivedAt: { gte: where.from, lte: where.to },
+    },
+    select: { id: true },
+    orderBy: { receivedAt: 'asc' },
+  });
+
+  let processed = 0;
+  let failed = 0;
+
+  for (const event of events) {
+    if (await processStoredEvent(event.id)) processed++;
+    else failed++;
+  }
+
+  console.log(`[Webhook] Replayed ${events.length} events: ${processed} processed, ${failed} failed`);
+  return { processed, failed };
+}
+
+// Failed events are retried on boot this many times; after that only an admin replay picks them up
+const MAX_BOOT_ATTEMPTS = 5;
+
+/**
+ * Pick up events a restart left behind: RECEIVED ones were acknowledged but never
+ * processed (crash between the ack and processing), FAILED ones get another try.
+ */
+export async function resumeWebhookEvents(): Promise<void> {
+  const events = await prisma.webhookEvent.findMany({
+    where: {
+      OR: [
+        { status: 'RECEIVED' },
+        { status: 'FAILED', attempts: { lt: MAX_BOOT_ATTEMPTS } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { receivedAt: 'asc' },
+  });
+  if (events.length === 0) return;
+
+  console.log(`[Webhook] Resuming ${events.length} unprocessed events`);
+  let failed = 0;
+  for (const event of events) {
+    if (!(await processStoredEvent(event.id))) failed++;
+  }
+  console.log(`[Webhook] Resumed ${events.length} events: ${events.length - failed} processed, ${failed} failed`);
+}
@@ -1,5 +1,5 @@
 import { Request } from 'express';
-import { User, Lead, Campaign, MessageTemplate } from '@prisma/client';
+import { User, Lead, Campaign, MessageTemplate, MessageLog, LeadStatus, LeadActivityType, ImportJob, PhoneType } from '@prisma/client';
 
 // Extend Express Request to include authenticated user
 export interface AuthenticatedRequest extends Request {
@@ -39,6 +39,7 @@ export interface CreateLeadInput {
   address?: string;
   tags?: string[];
   notes?: string;
+  customFields?: Record<string, unknown>; // by CustomField.key; null or blank clears a value
 }
 
 export interface UpdateLeadInput extends Partial<CreateLeadInput> {
@@ -53,8 +54,25 @@ export interface LeadFilters {
   city?: string;
   search?: string;
   optedOut?: boolean;
+  customFields?: CustomFieldFilter[];
+  reachability?: string[];
+  phoneType?: string[];
 }
 
+// Custom lead fields: TEXT, SELECT and DATE (YYYY-MM-DD) hold a string,
+// NUMBER a number, MULTI_SELECT an array of options
+export type CustomFieldValue = string | number | string[];
+
+// Matches leads on one custom field; every condition given must hold
+// (a type, not an interface, so campaign targeting stays assignable to JSON)
+export type CustomFieldFilter = {
+  key: string;
+  values?: string[];       // equals any of these (for MULTI_SELECT: includes any)
+  contains?: string;       // TEXT
+  min?: number | string;   // NUMBER, or DATE as YYYY-MM-DD
+  max?: number | string;
+};
+
 // Campaign types
 export interface CreateCampaignInput {
   name: string;
@@ -70,10 +88,51 @@ export interface CreateCampaignInput {
     source?: string[];
     tags?: string[];
     cities?: string[];
+    customFields?: CustomFieldFilter[];
   };
   scheduledAt?: Date;
+  recurrence?: CampaignRecurrence;
+  sendWindow?: SendWindow;
+  variableMapping?: TemplateVariableMapping;
+  variants?: CampaignVariantInput[];
+  autoWinner?: AutoWinnerConfig;
+}
+
+export interface CampaignVariantInput {
+  templateId: string;
+  splitPercent: number;
+  headerMediaUrl?: string;
+}
+
+// Send a test sample first, then the best variant to everyone else
+export interface AutoWinnerConfig {
+  sampleSize: number;                        // leads in the test phase, split across variants
+  metric: 'DELIVERED' | 'READ' | 'REPLIED' | 'CONVERTED';
+  waitHours: number;                         // time after the last sample send before judging
 }
 
+export interface CampaignRecurrence {
+  frequency: 'DAILY' | 'WEEKLY';
+  daysOfWeek: number[]; // 0 = Sunday ... 6 = Saturday (WEEKLY only)
+  time: string;         // HH:mm wall-clock time in `timezone`
+  timezone: string;     // IANA name, e.g. Asia/Kolkata
+}
+
+export interface SendWindow {
+  start: string;          // HH:mm — first minute messages may go out
+  end: string;            // HH:mm — sending holds from this minute on
+  timezone: string;
+  excludedDays: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+// Template variable → value source, keyed by variable name ("1", "name", ...)
+export type TemplateVariableMapping = Record<string, {
+  type: 'FIELD' | 'STATIC';
+  field?: string;    // lead field for FIELD
+  value?: string;    // fixed text for STATIC
+  fallback?: string; // used when the lead field is empty
+}>;
+
 export interface CampaignStats {
   totalLeads: number;
   sentCount: number;
@@ -125,12 +184,18 @@ export interface WhatsAppWebhookChange {
       display_phone_number: string;
       phone_number_id: string;
     };
+    contacts?: WhatsAppContact[];
     statuses?: WhatsAppMessageStatus[];
     messages?: WhatsAppIncomingMessage[];
   };
   field: string;
 }
 
+export interface WhatsAppContact {
+  wa_id: string;
+  profile?: { name?: string };
+}
+
 export interface WhatsAppMessageStatus {
   id: string;
   status: 'sent' | 'delivered' | 'read' | 'failed';
@@ -164,20 +229,106 @@ export interface WhatsAppIncomingMessage {
   sticker?: { id: string; mime_type: string; animated?: boolean };
 }
 
-// CSV Import types
-export interface CsvLeadRow {
-  name: string;
-  phone: string;
-  email?: string;
-  business_name?: string;
-  business_type?: string;
-  city?: string;
-  state?: string;
-  pincode?: string;
-  address?: string;
-  tags?: string;
+// Chatbot flows — steps are stored as JSON on ChatbotFlow.steps; the first step starts the flow
+export interface ChatbotStep {
+  id: string;                // unique within the flow, referenced by `next`
+  message: ChatbotMessage;
+  actions?: ChatbotActions;  // applied when the step is reached
+  capture?: string;          // lead field the lead's answer is saved to
+  next?: string;             // step after the answer (or straight away if no answer is expected)
+  handoff?: boolean;         // hand the conversation to a human and end the flow
+}
+
+export interface ChatbotMessage {
+  type: 'TEXT' | 'MEDIA' | 'BUTTONS';
+  text: string;                                    // body, or caption for media
+  mediaUrl?: string;                               // MEDIA, or a header for BUTTONS
+  mediaType?: 'image' | 'video' | 'document';
+  buttons?: Array<{ id: string; title: string; next?: string }>; // BUTTONS — up to 3 reply buttons
+}
+
+export interface ChatbotActions {
+  setFields?: Record<string, string>;
+  addTags?: string[];
+  setStatus?: Lead['status'];
+}
+
+// Auto-reply rules — how the message is matched, then when and for whom the rule applies
+export type AutoReplyTriggerType = 'KEYWORD' | 'EXACT' | 'WHOLE_WORD' | 'REGEX' | 'BUTTON' | 'ANY';
+
+export interface AutoReplySchedule {
+  days: number[];   // 0 = Sunday ... 6 = Saturday
+  start: string;    // HH:mm — first minute the rule applies
+  end: string;      // HH:mm — rule stops applying from this minute; before `start` spans midnight
+  timezone: string;
 }
 
+export interface AutoReplyLeadConditions {
+  statuses?: Lead['status'][];
+  sources?: Lead['source'][];
+  tags?: string[];  // lead has at least one of these
+}
+
+// Realtime events pushed to browsers over /api/events
+export type RealtimeMessage = Pick<
+  MessageLog,
+  'id' | 'leadId' | 'campaignId' | 'direction' | 'content' | 'status' | 'sentAt' | 'deliveredAt' | 'readAt' | 'failedAt' | 'errorMessage' | 'createdAt'
+>;
+
+export type RealtimeEvent =
+  | { type: 'message.created'; leadId: string; message: RealtimeMessage }
+  | { type: 'message.status'; leadId: string; message: RealtimeMessage }
+  | { type: 'conversation.assigned'; leadId: string; assignedTo: { id: string; name: string } | null }
+  | { type: 'lead.timeline'; leadId: string }
+  | {
+    type: 'campaign.progress';
+    campaign: Pick<Campaign, 'id' | 'status' | 'totalLeads' | 'sentCount' | 'deliveredCount' | 'readCount' | 'failedCount'>;
+  }
+  | {
+    type: 'import.progress';
+    job: Pick<ImportJob, 'id' | 'status' | 'totalRows' | 'processedRows' | 'imported' | 'updated' | 'duplicates' | 'failed' | 'errorMessage'>;
+  };
+
+// LeadActivity.data, by type. `source` names what made an automatic change.
+export type LeadActivityData =
+  | { from: LeadStatus; to: LeadStatus; source?: string }          // STATUS_CHANGED
+  | { added: string[]; removed: string[]; source?: string }       // TAGS_CHANGED
+  | { to: { id: string; name: string } | null; auto?: boolean }   // ASSIGNED
+  | { merged: { id: string; name: string; phone: string } };     // MERGED
+
+// One entry in a conversation's timeline, alongside its messages
+export interface TimelineEntry {
+  id: string;
+  type: 'NOTE' | LeadActivityType | 'OPTED_OUT' | 'OPTED_IN' | 'CAMPAIGN_ENROLLED' | 'SEQUENCE_ENROLLED';
+  createdAt: Date;
+  actor: { id: string; name: string } | null;
+  body?: string;                   // NOTE
+  data?: Record<string, unknown>;  // everything else
+}
+
+// WhatsApp's customer service window: free-form messages only until expiresAt
+export interface ReplyWindow {
+  open: boolean;
+  expiresAt: Date | null;  // null if the lead has never messaged us
+}
+
+// Duplicate finder and merge
+export type LeadMergeField =
+  | 'name' | 'phone' | 'email' | 'businessName' | 'businessType' | 'source' | 'status'
+  | 'city' | 'state' | 'pincode' | 'address' | 'notes';
+
+export type DuplicateLead = Pick<
+  Lead,
+  LeadMergeField | 'id' | 'tags' | 'optedOut' | 'createdAt'
+> & { _count: { messages: number; campaignLeads: number } };
+
+export interface DuplicateCandidate {
+  score: number;      // 0-100
+  reasons: string[];  // e.g. "Same pincode", "Similar name (67%)"
+  leads: [DuplicateLead, DuplicateLead];  // older first
+}
+
+// CSV Import types
 export interface ImportResult {
   total: number;
   imported: number;
@@ -188,6 +339,41 @@ export interface ImportResult {
   }>;
 }
 
+// Lead import wizard: file column header → lead field or "custom.<key>";
+// columns left out are ignored
+export type ImportMapping = Record<string, string>;
+
+// One row of an import file, mapped onto lead fields
+export interface ImportedLead {
+  name?: string;
+  phone?: string;
+  email?: string;
+  businessName?: string;
+  businessType?: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+  address?: string;
+  notes?: string;
+  tags: string[];
+  customFields: Record<string, CustomFieldValue>;
+  phoneType?: PhoneType; // set once the phone has been parsed
+}
+
+// A type rather than an interface, so it can be stored in ImportJob.errors (Json)
+export type ImportRowError = {
+  row: number;       // As numbered in the spreadsheet — the header is row 1
+  error: string;
+  values: string[];  // The row as uploaded, for the error report
+};
+
+export interface ImportPreviewRow {
+  row: number;
+  lead: ImportedLead;
+  errors: string[];
+  duplicate: boolean; // The phone number already belongs to a lead
+}
+
 // Scraper types
 export interface ScraperConfig {
   source: Lead['source'];
@@ -4,12 +4,19 @@ import { Toaster } from 'react-hot-toast';
 import Layout from './components/Layout';
 import Dashboard from './pages/Dashboard';
 import Leads from './pages/Leads';
+import LeadDuplicates from './pages/LeadDuplicates';
+import LeadFields from './pages/LeadFields';
+import LeadImport from './pages/LeadImport';
 import Campaigns from './pages/Campaigns';
 import Templates from './pages/Templates';
 import Scraper from './pages/Scraper';
 import CampaignDetail from './pages/CampaignDetail';
 import Conversations from './pages/Conversations';
 import AutoReplies from './pages/AutoReplies';
+import ConsentKeywords from './pages/ConsentKeywords';
+import QuickReplies from './pages/QuickReplies';
+import Sequences from './pages/Sequences';
+import SequenceDetail from './pages/SequenceDetail';
 import Login from './pages/Login';
 import { useAuth } from './hooks/useAuth';
 
@@ -50,11 +57,18 @@ function AppRoutes() {
       >
         <Route index element={<Dashboard />} />
         <Route path="leads" element={<Leads />} />
+        <Route path="leads/duplicates" element={<LeadDuplicates />} />
+        <Route path="leads/fields" element={<LeadFields />} />
+        <Route path="leads/import" element={<LeadImport />} />
         <Route path="campaigns" element={<Campaigns />} />
         <Route path="campaigns/:id" element={<CampaignDetail />} />
+        <Route path="sequences" element={<Sequences />} />
+        <Route path="sequences/:id" element={<SequenceDetail />} />
         <Route path="conversations" element={<Conversations />} />
         <Route path="templates" element={<Templates />} />
         <Route path="auto-replies" element={<AutoReplies />} />
+        <Route path="consent-keywords" element={<ConsentKeywords />} />
+        <Route path="quick-replies" element={<QuickReplies />} />
         <Route path="scraper" element={<Scraper />} />
       </Route>
     </Routes>
@@ -3,10 +3,13 @@ import {
   LayoutDashboard,
   Users,
   Megaphone,
+  ListOrdered,
   FileText,
   Search,
   MessageSquare,
   MessageSquareReply,
+  ShieldCheck,
+  Zap,
   LogOut,
   Menu,
   X,
@@ -14,17 +17,22 @@ import {
   BellOff,
 } from 'lucide-react';
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '../hooks/useAuth';
-import { pushApi } from '../services/api';
+import { useRealtimeUpdates, useRealtimeConnected } from '../hooks/useRealtime';
+import { pushApi, conversationsApi } from '../services/api';
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Find Leads', href: '/scraper', icon: Search },
   { name: 'Leads', href: '/leads', icon: Users },
   { name: 'Campaigns', href: '/campaigns', icon: Megaphone },
+  { name: 'Sequences', href: '/sequences', icon: ListOrdered },
   { name: 'Conversations', href: '/conversations', icon: MessageSquare },
   { name: 'Templates', href: '/templates', icon: FileText },
   { name: 'Auto-Replies', href: '/auto-replies', icon: MessageSquareReply },
+  { name: 'Quick Replies', href: '/quick-replies', icon: Zap },
+  { name: 'Opt-out', href: '/consent-keywords', icon: ShieldCheck },
 ];
 
 function useNotifications() {
@@ -101,6 +109,16 @@ export default function Layout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { user, logout } = useAuth();
   const notifications = useNotifications();
+  useRealtimeUpdates();
+  const realtimeConnected = useRealtimeConnected();
+
+  // Under the 'conversations' key so pushed messages refresh it with the inbox
+  const { data: unreadData } = useQuery({
+    queryKey: ['conversations', 'unread-count'],
+    queryFn: conversationsApi.unreadCount,
+    refetchInterval: realtimeConnected ? false : 30000,
+  });
+  const unreadThreads = unreadData?.data?.count || 0;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -149,6 +167,11 @@ export default function Layout() {
             >
               <item.icon size={20} />
               {item.name}
+              {item.href === '/conversations' && unreadThreads > 0 && (
+                <span className="ml-auto min-w-[20px] h-5 px-1.5 bg-green-500 text-white text-[11px] font-semibold rounded-full flex items-center justify-center">
+                  {unreadThreads > 99 ? '99+' : unreadThreads}
+                </span>
+              )}
             </NavLink>
           ))}
         </nav>
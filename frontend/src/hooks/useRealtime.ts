@@ -0,0 +1,174 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { eventsApi } from '../services/api';
+import type { ApiResponse, Campaign, CampaignAnalytics, ConversationMessages, ImportJob, RealtimeEvent } from '../types';
+
+const EVENT_TYPES: RealtimeEvent['type'][] = [
+  'message.created', 'message.status', 'conversation.assigned', 'lead.timeline', 'campaign.progress', 'import.progress',
+];
+const RECONNECT_DELAY_MS = 30_000;
+// A stream that was open and dropped is retried sooner, like the browser would
+const RETRY_DELAY_MS = 5_000;
+// Bursts of events (a campaign batch, a webhook retry) collapse into one refetch
+const REFETCH_THROTTLE_MS = 2_000;
+
+let connected = false;
+const connectionListeners = new Set<() => void>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  connectionListeners.forEach((listener) => listener());
+}
+
+/**
+ * Whether the event stream is open — pages keep polling only while it isn't
+ */
+export function useRealtimeConnected(): boolean {
+  return useSyncExternalStore(
+    (listener) => {
+      connectionListeners.add(listener);
+      return () => {
+        connectionListeners.delete(listener);
+      };
+    },
+    () => connected
+  );
+}
+
+/**
+ * Hold one event stream for the signed-in session and apply pushed message
+ * and campaign updates to the query cache. Mount once, in the app layout.
+ */
+export function useRealtimeUpdates(): void {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    const pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const refetchSoon = (queryKey: unknown[]) => {
+      const key = JSON.stringify(queryKey);
+      if (pending.has(key)) return;
+      pending.set(key, setTimeout(() => {
+        pending.delete(key);
+        queryClient.invalidateQueries({ queryKey });
+      }, REFETCH_THROTTLE_MS));
+    };
+
+    let closed = false;
+
+    const connect = async () => {
+      if (!localStorage.getItem('token')) return;
+
+      // The stream token only opens the connection; each (re)connect gets a new one
+      let token: string | undefined;
+      try {
+        token = (await eventsApi.getStreamToken()).data?.token;
+      } catch {
+        // Polling carries on until the next attempt
+      }
+      if (closed) return;
+      if (!token) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        return;
+      }
+
+      const baseUrl = (import.meta.env.VITE_API_URL || '') + '/api';
+      source = new EventSource(`${baseUrl}/events?token=${encodeURIComponent(token)}`);
+      source.onopen = () => setConnected(true);
+      source.onerror = () => {
+        const dropped = connected;
+        setConnected(false);
+        // The browser would retry with the same, by then expired, token —
+        // close the stream and reconnect with a fresh one
+        source?.close();
+        reconnectTimer = setTimeout(connect, dropped ? RETRY_DELAY_MS : RECONNECT_DELAY_MS);
+      };
+      for (const type of EVENT_TYPES) {
+        source.addEventListener(type, (e) => {
+          applyEvent(queryClient, JSON.parse((e as MessageEvent).data), refetchSoon);
+        });
+      }
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      source?.close();
+      clearTimeout(reconnectTimer);
+      pending.forEach((timer) => clearTimeout(timer));
+      setConnected(false);
+    };
+  }, [queryClient]);
+}
+
+function applyEvent(
+  queryClient: QueryClient,
+  event: RealtimeEvent,
+  refetchSoon: (queryKey: unknown[]) => void
+) {
+  switch (event.type) {
+    case 'message.created':
+      // Refetch rather than append: the thread shows template and campaign
+      // details the event doesn't carry
+      refetchSoon(['conversation-messages', event.leadId]);
+      // A campaign or sequence message usually means a new enrollment
+      refetchSoon(['conversation-timeline', event.leadId]);
+      refetchSoon(['conversations']);
+      break;
+
+    case 'message.status':
+      queryClient.setQueryData<ApiResponse<ConversationMessages>>(
+        ['conversation-messages', event.leadId],
+        (old) => old?.data && {
+          ...old,
+          data: {
+            ...old.data,
+            messages: old.data.messages.map((m) => (m.id === event.message.id ? { ...m, ...event.message } : m)),
+          },
+        }
+      );
+      refetchSoon(['conversations']);
+      break;
+
+    case 'conversation.assigned':
+      refetchSoon(['conversations']);
+      break;
+
+    case 'lead.timeline':
+      refetchSoon(['conversation-timeline', event.leadId]);
+      break;
+
+    case 'campaign.progress': {
+      const { campaign } = event;
+      queryClient.setQueryData<ApiResponse<Campaign[]>>(
+        ['campaigns'],
+        (old) => old?.data && {
+          ...old,
+          data: old.data.map((c) => (c.id === campaign.id ? { ...c, ...campaign } : c)),
+        }
+      );
+      queryClient.setQueryData<ApiResponse<CampaignAnalytics>>(
+        ['campaign-analytics', campaign.id],
+        (old) => old?.data && { ...old, data: { ...old.data, campaign: { ...old.data.campaign, ...campaign } } }
+      );
+      // The funnel and per-lead statuses come from the analytics endpoint
+      refetchSoon(['campaign-analytics', campaign.id]);
+      break;
+    }
+
+    case 'import.progress': {
+      const { job } = event;
+      queryClient.setQueryData<ApiResponse<ImportJob>>(
+        ['lead-import', job.id],
+        (old) => old?.data && { ...old, data: { ...old.data, ...job } }
+      );
+      refetchSoon(['lead-imports']);
+      refetchSoon(['leads']);
+      break;
+    }
+  }
+}
@@ -1,20 +1,158 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Trash2, Pencil, X, MessageSquareReply } from 'lucide-react';
+import {
+  Plus, Trash2, Pencil, X, MessageSquareReply, Workflow, RotateCcw, Send, UserRound,
+  Paperclip, FileText, Film, Upload, History,
+} from 'lucide-react';
 import toast from 'react-hot-toast';
-import { autoRepliesApi } from '../services/api';
-import type { AutoReply } from '../types';
+import { autoRepliesApi, chatbotFlowsApi, leadsApi, mediaApi } from '../services/api';
+import type {
+  AutoReply,
+  AutoReplyHit,
+  AutoReplySchedule,
+  AutoReplyStats,
+  AutoReplyTriggerType,
+  ChatbotFlow,
+  ChatbotMessage,
+  ChatbotStep,
+  ChatbotTurn,
+  LeadSource,
+  LeadStatus,
+  MediaAsset,
+} from '../types';
+
+const TRIGGER_TYPES: Record<AutoReplyTriggerType, { label: string; hint: string; placeholder: string }> = {
+  KEYWORD: {
+    label: 'Contains Text',
+    hint: 'Matches if the message contains any of these anywhere, even inside a longer word.',
+    placeholder: 'price, send price, price detail',
+  },
+  WHOLE_WORD: {
+    label: 'Whole Word',
+    hint: 'Matches these as whole words — "price" matches "price?" but not "priceless".',
+    placeholder: 'price, rate, catalogue',
+  },
+  EXACT: {
+    label: 'Exact Message',
+    hint: 'Matches only if the whole message is one of these (case and surrounding punctuation ignored).',
+    placeholder: 'hi, hello, namaste',
+  },
+  REGEX: {
+    label: 'Regular Expression',
+    hint: 'Case-insensitive JavaScript patterns, comma-separated. Avoid commas inside a pattern.',
+    placeholder: '^\\d{6}$, \\b(rate|price)s?\\b',
+  },
+  BUTTON: {
+    label: 'Button Click',
+    hint: 'Matches button taps whose text contains any of these. Leave empty to match every button.',
+    placeholder: 'Send price details',
+  },
+  ANY: {
+    label: 'Any Message',
+    hint: '',
+    placeholder: '',
+  },
+};
+
+const REPLY_VARIABLES = ['name', 'business_name', 'city'];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const LEAD_STATUSES: LeadStatus[] = ['NEW', 'CONTACTED', 'INTERESTED', 'NEGOTIATING', 'CONVERTED', 'REJECTED'];
+const LEAD_SOURCES: LeadSource[] = [
+  'WHATSAPP_INBOUND', 'MANUAL', 'CSV_IMPORT', 'JUSTDIAL', 'INDIAMART', 'GOOGLE_MAPS',
+  'FACEBOOK', 'INSTAGRAM', 'WEBSITE', 'REFERRAL',
+];
+
+const formatEnum = (value: string) =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, ' ');
+
+// One-line summaries of when a rule applies, for the rule card
+function describeConditions(rule: AutoReply): string[] {
+  const parts: string[] = [];
+  const { schedule, leadConditions } = rule;
+
+  if (schedule) {
+    const days = schedule.days.length === 0 || schedule.days.length === 7
+      ? 'Every day'
+      : schedule.days.map((d) => WEEKDAYS[d]).join(', ');
+    const overnight = schedule.end < schedule.start ? ' (overnight)' : '';
+    parts.push(`${days} ${schedule.start}–${schedule.end}${overnight}`);
+  }
+  if (leadConditions?.statuses?.length) {
+    parts.push(`Status: ${leadConditions.statuses.map(formatEnum).join(' / ')}`);
+  }
+  if (leadConditions?.sources?.length) {
+    parts.push(`Source: ${leadConditions.sources.map(formatEnum).join(' / ')}`);
+  }
+  if (leadConditions?.tags?.length) {
+    parts.push(`Tagged: ${leadConditions.tags.join(' / ')}`);
+  }
+  if (rule.cooldownMinutes > 0) {
+    parts.push(`Once per lead every ${formatCooldown(rule.cooldownMinutes)}`);
+  }
+  return parts;
+}
+
+function formatCooldown(minutes: number): string {
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `${minutes} min`;
+}
+
+// Starting point for a new flow: ask the city, offer pack sizes, route "Talk to sales" to a human
+const EXAMPLE_FLOW_STEPS: ChatbotStep[] = [
+  {
+    id: 'ask_city',
+    message: { type: 'TEXT', text: 'Namaste! Which city are you in?' },
+    capture: 'city',
+    next: 'pack_size',
+  },
+  {
+    id: 'pack_size',
+    message: {
+      type: 'BUTTONS',
+      text: 'Which pack size are you interested in?',
+      buttons: [
+        { id: 'pack_1l', title: '1 L bottle', next: 'prices' },
+        { id: 'pack_15l', title: '15 L tin', next: 'prices' },
+        { id: 'sales', title: 'Talk to sales', next: 'handoff' },
+      ],
+    },
+  },
+  {
+    id: 'prices',
+    message: { type: 'TEXT', text: 'Thanks! Our team will share the latest wholesale prices shortly.' },
+    actions: { addTags: ['chatbot-prices'], setStatus: 'INTERESTED' },
+  },
+  {
+    id: 'handoff',
+    message: { type: 'TEXT', text: 'Connecting you with our sales team. They will reply here soon.' },
+    actions: { setStatus: 'INTERESTED' },
+    handoff: true,
+  },
+];
 
 export default function AutoReplies() {
   const queryClient = useQueryClient();
+  const [tab, setTab] = useState<'rules' | 'flows'>('rules');
   const [showModal, setShowModal] = useState(false);
   const [editingRule, setEditingRule] = useState<AutoReply | null>(null);
+  const [showFlowModal, setShowFlowModal] = useState(false);
+  const [editingFlow, setEditingFlow] = useState<ChatbotFlow | null>(null);
+  const [statsDays, setStatsDays] = useState(30);
+  const [hitLogRule, setHitLogRule] = useState<AutoReply | null>(null);
 
   const { data, isLoading } = useQuery({
     queryKey: ['auto-replies'],
     queryFn: autoRepliesApi.list,
   });
 
+  const { data: analyticsData } = useQuery({
+    queryKey: ['auto-replies', 'analytics', statsDays],
+    queryFn: () => autoRepliesApi.analytics(statsDays),
+  });
+  const statsByRule = new Map((analyticsData?.data?.rules || []).map((s) => [s.autoReplyId, s]));
+
   const toggleMutation = useMutation({
     mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
       autoRepliesApi.update(id, { isActive }),
@@ -35,12 +173,6 @@ export default function AutoReplies() {
 
   const rules = data?.data || [];
 
-  const triggerTypeLabel: Record<string, string> = {
-    KEYWORD: 'Keyword Match',
-    BUTTON: 'Button Click',
-    ANY: 'Any Message',
-  };
-
   return (
     <div>
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
@@ -52,126 +184,204 @@ export default function AutoReplies() {
         </div>
         <button
           onClick={() => {
-            setEditingRule(null);
-            setShowModal(true);
+            if (tab === 'rules') {
+              setEditingRule(null);
+              setShowModal(true);
+            } else {
+              setEditingFlow(null);
+              setShowFlowModal(true);
+            }
           }}
           className="btn btn-primary flex items-center gap-2"
         >
           <Plus size={18} />
-          Add Rule
+          {tab === 'rules' ? 'Add Rule' : 'Add Flow'}
         </button>
       </div>
 
-      {/* Info Card */}
-      <div className="card p-4 mb-6 bg-blue-50 border-blue-200">
-        <div className="flex gap-3">
-          <MessageSquareReply className="text-blue-600 flex-shrink-0" size={20} />
-          <div className="text-sm text-blue-800">
-            <p className="font-medium mb-1">How Auto-Replies Work</p>
-            <p>
-              When a lead sends a WhatsApp message that matches a rule's trigger, the system
-              automatically sends the configured reply. Rules are checked in priority order
-              (lower number = checked first). Only the first matching rule fires per message.
-            </p>
-          </div>
-        </div>
+      {/* Tabs */}
+      <div className="flex gap-1 border-b mb-6">
+        {([['rules', 'Reply Rules'], ['flows', 'Chatbot Flows']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              tab === value
+                ? 'border-primary-600 text-primary-700'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
       </div>
 
-      {/* Rules List */}
-      <div className="space-y-4">
-        {isLoading ? (
-          <div className="card p-8 text-center text-gray-500">Loading...</div>
-        ) : rules.length === 0 ? (
-          <div className="card p-8 text-center text-gray-500">
-            No auto-reply rules yet. Add your first rule to get started.
+      {tab === 'flows' ? (
+        <ChatbotFlowList
+          onEdit={(flow) => {
+            setEditingFlow(flow);
+            setShowFlowModal(true);
+          }}
+        />
+      ) : (
+        <>
+          {/* Info Card */}
+          <div className="card p-4 mb-6 bg-blue-50 border-blue-200">
+            <div className="flex gap-3">
+              <MessageSquareReply className="text-blue-600 flex-shrink-0" size={20} />
+              <div className="text-sm text-blue-800">
+                <p className="font-medium mb-1">How Auto-Replies Work</p>
+                <p>
+                  When a lead sends a WhatsApp message that matches a rule's trigger, the system
+                  automatically sends the configured reply. Rules are checked in priority order
+                  (lower number = checked first). Rules outside their schedule, not meant for the
+                  lead, or still cooling down for the lead are skipped. Only the first matching rule
+                  fires per message.
+                </p>
+              </div>
+            </div>
           </div>
-        ) : (
-          rules.map((rule) => (
-            <div key={rule.id} className={`card p-4 ${!rule.isActive ? 'opacity-60' : ''}`}>
-              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
-                <div className="flex-1">
-                  <div className="flex items-center gap-3 mb-2">
-                    <h3 className="font-semibold text-gray-900">{rule.name}</h3>
-                    <span className="badge bg-purple-100 text-purple-800">
-                      {triggerTypeLabel[rule.triggerType] || rule.triggerType}
-                    </span>
-                    <span className="badge bg-gray-100 text-gray-600">
-                      Priority: {rule.priority}
-                    </span>
-                  </div>
 
-                  {/* Keywords */}
-                  {rule.triggerKeywords.length > 0 && (
-                    <div className="flex flex-wrap gap-1.5 mb-2">
-                      {rule.triggerKeywords.map((kw, i) => (
-                        <span
-                          key={i}
-                          className="text-xs px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full"
-                        >
-                          {kw}
+          {/* Rules List */}
+          <div className="flex justify-end mb-3">
+            <select
+              className="input w-auto text-sm py-1.5"
+              value={statsDays}
+              onChange={(e) => setStatsDays(Number(e.target.value))}
+            >
+              <option value={7}>Results: last 7 days</option>
+              <option value={30}>Results: last 30 days</option>
+              <option value={90}>Results: last 90 days</option>
+            </select>
+          </div>
+          <div className="space-y-4">
+            {isLoading ? (
+              <div className="card p-8 text-center text-gray-500">Loading...</div>
+            ) : rules.length === 0 ? (
+              <div className="card p-8 text-center text-gray-500">
+                No auto-reply rules yet. Add your first rule to get started.
+              </div>
+            ) : (
+              rules.map((rule) => (
+                <div key={rule.id} className={`card p-4 ${!rule.isActive ? 'opacity-60' : ''}`}>
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="font-semibold text-gray-900">{rule.name}</h3>
+                        <span className="badge bg-purple-100 text-purple-800">
+                          {TRIGGER_TYPES[rule.triggerType]?.label || rule.triggerType}
+                        </span>
+                        <span className="badge bg-gray-100 text-gray-600">
+                          Priority: {rule.priority}
                         </span>
-                      ))}
+                      </div>
+
+                      {/* Keywords */}
+                      {rule.triggerKeywords.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5 mb-2">
+                          {rule.triggerKeywords.map((kw, i) => (
+                            <span
+                              key={i}
+                              className="text-xs px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full"
+                            >
+                              {kw}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+
+                      {/* Conditions */}
+                      {describeConditions(rule).length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {describeConditions(rule).join(' · ')}
+                        </p>
+                      )}
+
+                      <RuleStats stats={statsByRule.get(rule.id)} />
+
+                      {/* Reply Preview */}
+                      <div className="bg-gray-50 rounded-lg p-3 mt-2">
+                        {rule.mediaAsset && (
+                          <p className="flex items-center gap-1.5 text-xs text-gray-500 mb-1">
+                            <Paperclip size={12} /> {rule.mediaAsset.name}
+                          </p>
+                        )}
+                        <pre className="text-sm text-gray-700 whitespace-pre-wrap font-sans">
+                          {rule.replyText.length > 300
+                            ? rule.replyText.slice(0, 300) + '...'
+                            : rule.replyText}
+                        </pre>
+                        {rule.replyButtons.length > 0 && (
+                          <div className="flex flex-wrap gap-1.5 mt-2">
+                            {rule.replyButtons.map((title) => (
+                              <span key={title} className="text-xs px-2 py-0.5 bg-white border text-primary-600 rounded">
+                                {title}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  )}
 
-                  {/* Reply Preview */}
-                  <div className="bg-gray-50 rounded-lg p-3 mt-2">
-                    <pre className="text-sm text-gray-700 whitespace-pre-wrap font-sans">
-                      {rule.replyText.length > 300
-                        ? rule.replyText.slice(0, 300) + '...'
-                        : rule.replyText}
-                    </pre>
-                  </div>
-                </div>
+                    <div className="flex items-center gap-2">
+                      {/* Active Toggle */}
+                      <button
+                        onClick={() =>
+                          toggleMutation.mutate({ id: rule.id, isActive: !rule.isActive })
+                        }
+                        className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                          rule.isActive ? 'bg-green-500' : 'bg-gray-300'
+                        }`}
+                        title={rule.isActive ? 'Active — click to disable' : 'Disabled — click to enable'}
+                      >
+                        <span
+                          className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            rule.isActive ? 'translate-x-6' : 'translate-x-1'
+                          }`}
+                        />
+                      </button>
 
-                <div className="flex items-center gap-2">
-                  {/* Active Toggle */}
-                  <button
-                    onClick={() =>
-                      toggleMutation.mutate({ id: rule.id, isActive: !rule.isActive })
-                    }
-                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
-                      rule.isActive ? 'bg-green-500' : 'bg-gray-300'
-                    }`}
-                    title={rule.isActive ? 'Active — click to disable' : 'Disabled — click to enable'}
-                  >
-                    <span
-                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
-                        rule.isActive ? 'translate-x-6' : 'translate-x-1'
-                      }`}
-                    />
-                  </button>
+                      {/* Hit log */}
+                      <button
+                        onClick={() => setHitLogRule(rule)}
+                        className="p-2 text-gray-400 hover:text-blue-600"
+                        title="Hit log"
+                      >
+                        <History size={18} />
+                      </button>
 
-                  {/* Edit */}
-                  <button
-                    onClick={() => {
-                      setEditingRule(rule);
-                      setShowModal(true);
-                    }}
-                    className="p-2 text-gray-400 hover:text-blue-600"
-                    title="Edit"
-                  >
-                    <Pencil size={18} />
-                  </button>
+                      {/* Edit */}
+                      <button
+                        onClick={() => {
+                          setEditingRule(rule);
+                          setShowModal(true);
+                        }}
+                        className="p-2 text-gray-400 hover:text-blue-600"
+                        title="Edit"
+                      >
+                        <Pencil size={18} />
+                      </button>
 
-                  {/* Delete */}
-                  <button
-                    onClick={() => {
-                      if (confirm('Delete this auto-reply rule?')) {
-                        deleteMutation.mutate(rule.id);
-                      }
-                    }}
-                    className="p-2 text-gray-400 hover:text-red-600"
-                    title="Delete"
-                  >
-                    <Trash2 size={18} />
-                  </button>
+                      {/* Delete */}
+                      <button
+                        onClick={() => {
+                          if (confirm('Delete this auto-reply rule?')) {
+                            deleteMutation.mutate(rule.id);
+                          }
+                        }}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 size={18} />
+                      </button>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          ))
-        )}
-      </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
 
       {/* Create/Edit Modal */}
       {showModal && (
@@ -183,6 +393,167 @@ export default function AutoReplies() {
           }}
         />
       )}
+
+      {hitLogRule && <HitLogModal rule={hitLogRule} onClose={() => setHitLogRule(null)} />}
+
+      {showFlowModal && (
+        <ChatbotFlowModal
+          flow={editingFlow}
+          onClose={() => {
+            setShowFlowModal(false);
+            setEditingFlow(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—');
+
+function RuleStats({ stats }: { stats?: AutoReplyStats }) {
+  if (!stats) {
+    return <p className="text-xs text-gray-400 mt-1">Not triggered in this period</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 mt-1">
+      <span><span className="font-semibold text-gray-900">{stats.hits}</span> hits</span>
+      {stats.failed > 0 && (
+        <span className="text-red-600"><span className="font-semibold">{stats.failed}</span> failed</span>
+      )}
+      <span><span className="font-semibold text-gray-900">{stats.leads}</span> leads</span>
+      <span title="Leads who sent another message after the reply">
+        <span className="font-semibold text-gray-900">{percent(stats.repliedAgain, stats.leads)}</span> replied again
+      </span>
+      <span title="Leads whose status moved forward since the reply">
+        <span className="font-semibold text-gray-900">{percent(stats.advanced, stats.leads)}</span> advanced
+      </span>
+      {stats.converted > 0 && (
+        <span className="text-green-700"><span className="font-semibold">{stats.converted}</span> converted</span>
+      )}
+    </div>
+  );
+}
+
+// Message content may be JSON ({ text, mediaType, ... }) for media and button messages
+const messageText = (content: string | null | undefined) => {
+  if (!content) return '';
+  if (!content.startsWith('{')) return content;
+  try {
+    return JSON.parse(content).text || content;
+  } catch {
+    return content;
+  }
+};
+
+function HitLogModal({ rule, onClose }: { rule: AutoReply; onClose: () => void }) {
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['auto-replies', rule.id, 'hits', page, status],
+    queryFn: () => autoRepliesApi.hits(rule.id, { page, limit: 20, status: status || undefined }),
+  });
+
+  const hits: AutoReplyHit[] = data?.data || [];
+  const pagination = data?.pagination;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b shrink-0">
+          <h2 className="text-lg font-semibold">Hit Log — {rule.name}</h2>
+          <div className="flex items-center gap-3">
+            <select
+              className="input w-auto text-sm py-1.5"
+              value={status}
+              onChange={(e) => {
+                setStatus(e.target.value);
+                setPage(1);
+              }}
+            >
+              <option value="">All</option>
+              <option value="SENT">Sent</option>
+              <option value="FAILED">Failed</option>
+            </select>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto">
+          {isLoading ? (
+            <p className="p-8 text-center text-gray-500">Loading...</p>
+          ) : hits.length === 0 ? (
+            <p className="p-8 text-center text-gray-500">This rule hasn't fired yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+                <tr>
+                  <th className="px-4 py-2">When</th>
+                  <th className="px-4 py-2">Lead</th>
+                  <th className="px-4 py-2">Their message</th>
+                  <th className="px-4 py-2">Result</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {hits.map((hit) => (
+                  <tr key={hit.id} className="align-top">
+                    <td className="px-4 py-2 text-xs text-gray-500 whitespace-nowrap">
+                      {new Date(hit.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2">
+                      <p className="font-medium text-gray-900">{hit.lead.name}</p>
+                      <p className="text-xs text-gray-500">{hit.lead.phone}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatEnum(hit.leadStatus)}
+                        {hit.lead.status !== hit.leadStatus && ` → ${formatEnum(hit.lead.status)}`}
+                      </p>
+                    </td>
+                    <td className="px-4 py-2 text-gray-700 max-w-xs">
+                      <p className="line-clamp-2">{messageText(hit.inboundMessage?.content) || '—'}</p>
+                    </td>
+                    <td className="px-4 py-2">
+                      {hit.status === 'SENT' ? (
+                        <span className="badge bg-green-100 text-green-700">
+                          {formatEnum(hit.replyMessage?.status || 'SENT')}
+                        </span>
+                      ) : (
+                        <>
+                          <span className="badge bg-red-100 text-red-700">Failed</span>
+                          {hit.errorMessage && <p className="text-xs text-red-600 mt-1">{hit.errorMessage}</p>}
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex items-center justify-between p-4 border-t shrink-0 text-sm">
+            <span className="text-gray-500">
+              Page {pagination.page} of {pagination.totalPages} ({pagination.total} hits)
+            </span>
+            <div className="flex gap-2">
+              <button className="btn btn-secondary" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Previous
+              </button>
+              <button
+                className="btn btn-secondary"
+                disabled={page >= pagination.totalPages}
+                onClick={() => setPage(page + 1)}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -199,12 +570,41 @@ function AutoReplyModal({
 
   const [formData, setFormData] = useState({
     name: rule?.name || '',
-    triggerType: rule?.triggerType || ('KEYWORD' as 'KEYWORD' | 'BUTTON' | 'ANY'),
+    triggerType: rule?.triggerType || ('KEYWORD' as AutoReplyTriggerType),
     triggerKeywords: rule?.triggerKeywords.join(', ') || '',
     replyText: rule?.replyText || '',
     isActive: rule?.isActive ?? true,
     priority: rule?.priority ?? 0,
+    cooldownMinutes: rule?.cooldownMinutes ?? 0,
   });
+  const [useSchedule, setUseSchedule] = useState(!!rule?.schedule);
+  const [schedule, setSchedule] = useState<AutoReplySchedule>(rule?.schedule || {
+    days: [1, 2, 3, 4, 5, 6],
+    start: '19:00',
+    end: '09:00',
+    timezone: 'Asia/Kolkata',
+  });
+  const [statuses, setStatuses] = useState<LeadStatus[]>(rule?.leadConditions?.statuses || []);
+  const [sources, setSources] = useState<LeadSource[]>(rule?.leadConditions?.sources || []);
+  const [tags, setTags] = useState(rule?.leadConditions?.tags?.join(', ') || '');
+  const [mediaAsset, setMediaAsset] = useState<AutoReply['mediaAsset']>(rule?.mediaAsset || null);
+  const [replyButtons, setReplyButtons] = useState<string[]>(rule?.replyButtons || []);
+  const replyTextRef = useRef<HTMLTextAreaElement>(null);
+
+  const insertVariable = (variable: string) => {
+    const textarea = replyTextRef.current;
+    const token = `{{${variable}}}`;
+    const at = textarea?.selectionStart ?? formData.replyText.length;
+    const replyText = formData.replyText.slice(0, at) + token + formData.replyText.slice(textarea?.selectionEnd ?? at);
+    setFormData({ ...formData, replyText });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(at + token.length, at + token.length);
+    });
+  };
+
+  const toggle = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
 
   const createMutation = useMutation({
     mutationFn: autoRepliesApi.create,
@@ -213,7 +613,7 @@ function AutoReplyModal({
       toast.success('Auto-reply rule created');
       onClose();
     },
-    onError: () => toast.error('Failed to create rule'),
+    onError: (err: any) => toast.error(apiError(err, 'Failed to create rule')),
   });
 
   const updateMutation = useMutation({
@@ -224,7 +624,7 @@ function AutoReplyModal({
       toast.success('Auto-reply rule updated');
       onClose();
     },
-    onError: () => toast.error('Failed to update rule'),
+    onError: (err: any) => toast.error(apiError(err, 'Failed to update rule')),
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -234,6 +634,9 @@ function AutoReplyModal({
       .map((k) => k.trim())
       .filter(Boolean);
 
+    const tagList = tags.split(',').map((t) => t.trim()).filter(Boolean);
+    const hasLeadConditions = statuses.length > 0 || sources.length > 0 || tagList.length > 0;
+
     const payload = {
       name: formData.name,
       triggerType: formData.triggerType,
@@ -241,6 +644,11 @@ function AutoReplyModal({
       replyText: formData.replyText,
       isActive: formData.isActive,
       priority: formData.priority,
+      cooldownMinutes: formData.cooldownMinutes,
+      mediaAssetId: mediaAsset?.id || null,
+      replyButtons: replyButtons.map((b) => b.trim()).filter(Boolean),
+      schedule: useSchedule ? schedule : null,
+      leadConditions: hasLeadConditions ? { statuses, sources, tags: tagList } : null,
     };
 
     if (isEdit && rule) {
@@ -288,13 +696,13 @@ function AutoReplyModal({
                 onChange={(e) =>
                   setFormData({
                     ...formData,
-                    triggerType: e.target.value as 'KEYWORD' | 'BUTTON' | 'ANY',
+                    triggerType: e.target.value as AutoReplyTriggerType,
                   })
                 }
               >
-                <option value="KEYWORD">Keyword Match</option>
-                <option value="BUTTON">Button Click</option>
-                <option value="ANY">Any Message</option>
+                {(Object.keys(TRIGGER_TYPES) as AutoReplyTriggerType[]).map((type) => (
+                  <option key={type} value={type}>{TRIGGER_TYPES[type].label}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -306,15 +714,15 @@ function AutoReplyModal({
               </label>
               <input
                 type="text"
-                className="input"
-                placeholder="price, send price, price detail"
+                className={`input ${formData.triggerType === 'REGEX' ? 'font-mono text-sm' : ''}`}
+                placeholder={TRIGGER_TYPES[formData.triggerType].placeholder}
                 value={formData.triggerKeywords}
                 onChange={(e) =>
                   setFormData({ ...formData, triggerKeywords: e.target.value })
                 }
               />
               <p className="text-xs text-gray-500 mt-1">
-                Comma-separated keywords. Message will match if it contains any of these words.
+                Comma-separated. {TRIGGER_TYPES[formData.triggerType].hint}
               </p>
             </div>
           )}
@@ -324,6 +732,7 @@ function AutoReplyModal({
               Reply Text *
             </label>
             <textarea
+              ref={replyTextRef}
               className="input font-mono text-sm"
               rows={8}
               placeholder="Enter the auto-reply message..."
@@ -331,11 +740,187 @@ function AutoReplyModal({
               onChange={(e) => setFormData({ ...formData, replyText: e.target.value })}
               required
             />
+            <div className="flex flex-wrap items-center gap-1.5 mt-1">
+              <span className="text-xs text-gray-500">Insert:</span>
+              {REPLY_VARIABLES.map((variable) => (
+                <button
+                  key={variable}
+                  type="button"
+                  onClick={() => insertVariable(variable)}
+                  className="text-xs px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full hover:bg-gray-200 font-mono"
+                >
+                  {`{{${variable}}}`}
+                </button>
+              ))}
+            </div>
             <p className="text-xs text-gray-500 mt-1">
-              Supports WhatsApp formatting: *bold*, _italic_, ~strikethrough~
+              Supports WhatsApp formatting: *bold*, _italic_, ~strikethrough~. Add a fallback for leads
+              without the detail: {'{{city|your city}}'}.
             </p>
           </div>
 
+          {/* Attachment */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Attachment
+            </label>
+            <MediaPicker value={mediaAsset || null} onChange={setMediaAsset} />
+          </div>
+
+          {/* Reply buttons */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reply Buttons
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {[0, 1, 2].map((index) => (
+                <input
+                  key={index}
+                  type="text"
+                  className="input text-sm"
+                  maxLength={20}
+                  placeholder={`Button ${index + 1}`}
+                  value={replyButtons[index] || ''}
+                  onChange={(e) => {
+                    const next = [...replyButtons];
+                    next[index] = e.target.value;
+                    setReplyButtons(next);
+                  }}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Optional, up to 20 characters each. A tap comes back as a button message — pair it with
+              a Button Click rule to answer it.
+            </p>
+          </div>
+
+          {/* Conditions */}
+          <div className="border rounded-lg p-3 space-y-4">
+            <p className="text-sm font-medium text-gray-700">Conditions</p>
+
+            <div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={useSchedule}
+                  onChange={(e) => setUseSchedule(e.target.checked)}
+                />
+                Only at certain times
+              </label>
+              {useSchedule && (
+                <div className="mt-2 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      className="input"
+                      value={schedule.start}
+                      onChange={(e) => setSchedule({ ...schedule, start: e.target.value })}
+                      required
+                    />
+                    <span className="text-sm text-gray-400">to</span>
+                    <input
+                      type="time"
+                      className="input"
+                      value={schedule.end}
+                      onChange={(e) => setSchedule({ ...schedule, end: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {WEEKDAYS.map((day, index) => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => setSchedule({ ...schedule, days: toggle(schedule.days, index) })}
+                        className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                          schedule.days.includes(index)
+                            ? 'bg-blue-100 text-blue-700 border-blue-300 font-medium'
+                            : 'bg-gray-100 text-gray-500 border-transparent hover:border-gray-300'
+                        }`}
+                      >
+                        {day}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Times are in {schedule.timezone}. An end before the start runs overnight — e.g.
+                    19:00 to 09:00 for an after-hours reply. No days selected means every day.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">Lead status</label>
+              <div className="flex flex-wrap gap-1.5">
+                {LEAD_STATUSES.map((status) => (
+                  <button
+                    key={status}
+                    type="button"
+                    onClick={() => setStatuses(toggle(statuses, status))}
+                    className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                      statuses.includes(status)
+                        ? 'bg-blue-100 text-blue-700 border-blue-300 font-medium'
+                        : 'bg-gray-100 text-gray-500 border-transparent hover:border-gray-300'
+                    }`}
+                  >
+                    {formatEnum(status)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-700 mb-1">Lead source</label>
+              <div className="flex flex-wrap gap-1.5">
+                {LEAD_SOURCES.map((source) => (
+                  <button
+                    key={source}
+                    type="button"
+                    onClick={() => setSources(toggle(sources, source))}
+                    className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                      sources.includes(source)
+                        ? 'bg-blue-100 text-blue-700 border-blue-300 font-medium'
+                        : 'bg-gray-100 text-gray-500 border-transparent hover:border-gray-300'
+                    }`}
+                  >
+                    {formatEnum(source)}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">None selected means any status or source.</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-gray-700 mb-1">Lead has any tag</label>
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="wholesale, vip"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-700 mb-1">Cooldown (minutes)</label>
+                <input
+                  type="number"
+                  min={0}
+                  className="input"
+                  value={formData.cooldownMinutes}
+                  onChange={(e) =>
+                    setFormData({ ...formData, cooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) })
+                  }
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Don't reply to the same lead again within this time. 0 = every message.
+                </p>
+              </div>
+            </div>
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -374,16 +959,11 @@ function AutoReplyModal({
           </div>
 
           {/* Preview */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              Preview
-            </label>
-            <div className="bg-green-50 rounded-lg p-4 border border-green-200">
-              <pre className="text-sm text-gray-800 whitespace-pre-wrap font-sans">
-                {formData.replyText || 'Your reply message will appear here...'}
-              </pre>
-            </div>
-          </div>
+          <ReplyPreview
+            replyText={formData.replyText}
+            mediaAsset={mediaAsset || null}
+            replyButtons={replyButtons.map((b) => b.trim()).filter(Boolean)}
+          />
 
           <div className="flex justify-end gap-2 pt-4">
             <button type="button" onClick={onClose} className="btn btn-secondary">
@@ -398,3 +978,752 @@ function AutoReplyModal({
     </div>
   );
 }
+
+const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// Loads a library file through the authenticated API and returns an object URL for it
+function useMediaObjectUrl(asset: Pick<MediaAsset, 'id' | 'mediaType'> | null) {
+  const { data: blob } = useQuery({
+    queryKey: ['media-file', asset?.id],
+    queryFn: () => mediaApi.getFile(asset!.id),
+    enabled: !!asset && asset.mediaType === 'image',
+    staleTime: Infinity,
+  });
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return blob ? url : null;
+}
+
+export function MediaThumb({ asset, className = 'h-16 w-16' }: { asset: Pick<MediaAsset, 'id' | 'mediaType'>; className?: string }) {
+  const url = useMediaObjectUrl(asset);
+
+  if (asset.mediaType === 'image' && url) {
+    return <img src={url} alt="" className={`${className} object-cover rounded`} />;
+  }
+  return (
+    <div className={`${className} flex items-center justify-center rounded bg-gray-100 text-gray-400`}>
+      {asset.mediaType === 'video' ? <Film size={20} /> : <FileText size={20} />}
+    </div>
+  );
+}
+
+// Choose an attachment from the media library, uploading new files into it
+export function MediaPicker({
+  value,
+  onChange,
+}: {
+  value: AutoReply['mediaAsset'];
+  onChange: (asset: AutoReply['mediaAsset']) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['media'],
+    queryFn: mediaApi.list,
+    enabled: open,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => mediaApi.upload(file),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['media'] });
+      onChange(result.data!);
+      setOpen(false);
+      toast.success('File uploaded');
+    },
+    onError: (err: any) => toast.error(apiError(err, 'Upload failed')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: mediaApi.delete,
+    onSuccess: (_result, id) => {
+      queryClient.invalidateQueries({ queryKey: ['media'] });
+      if (value?.id === id) onChange(null);
+      toast.success('File deleted');
+    },
+    onError: (err: any) => toast.error(apiError(err, 'Failed to delete file')),
+  });
+
+  const assets = data?.data || [];
+
+  return (
+    <div className="border rounded-lg p-3">
+      <div className="flex items-center gap-3">
+        {value ? (
+          <>
+            <MediaThumb asset={value} className="h-12 w-12" />
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">{value.name}</p>
+              <p className="text-xs text-gray-500">Sent as {value.mediaType} with the reply as its caption</p>
+            </div>
+            <button type="button" onClick={() => onChange(null)} className="text-xs text-red-600">
+              Remove
+            </button>
+          </>
+        ) : (
+          <p className="flex-1 text-sm text-gray-500">No attachment — the reply is sent as text.</p>
+        )}
+        <button type="button" onClick={() => setOpen(!open)} className="btn btn-secondary text-xs px-3 py-1.5">
+          {open ? 'Close library' : value ? 'Change' : 'Choose file'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 pt-3 border-t">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs text-gray-500">Images (JPEG/PNG, 5 MB), MP4 videos and PDF/Office documents up to 16 MB</p>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadMutation.isPending}
+              className="text-xs text-primary-600 flex items-center gap-1 shrink-0"
+            >
+              <Upload size={12} />
+              {uploadMutation.isPending ? 'Uploading...' : 'Upload'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              accept="image/jpeg,image/png,video/mp4,application/pdf,.doc,.docx,.xls,.xlsx,.txt"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadMutation.mutate(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500 py-4 text-center">Loading...</p>
+          ) : assets.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">The library is empty. Upload a price list, photo or video.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-60 overflow-y-auto">
+              {assets.map((asset) => (
+                <div
+                  key={asset.id}
+                  className={`relative border rounded-lg p-2 cursor-pointer hover:border-primary-400 ${
+                    value?.id === asset.id ? 'border-primary-500 bg-primary-50' : ''
+                  }`}
+                  onClick={() => {
+                    onChange(asset);
+                    setOpen(false);
+                  }}
+                >
+                  <MediaThumb asset={asset} className="h-20 w-full" />
+                  <p className="text-xs font-medium text-gray-800 truncate mt-1">{asset.name}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {formatFileSize(asset.size)}
+                    {asset._count?.autoReplies ? ` · ${asset._count.autoReplies} rule(s)` : ''}
+                    {asset._count?.cannedResponses ? ` · ${asset._count.cannedResponses} saved reply(s)` : ''}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (confirm(`Delete "${asset.name}" from the library?`)) deleteMutation.mutate(asset.id);
+                    }}
+                    className="absolute top-1 right-1 p-1 bg-white/90 rounded text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The reply as a chosen lead would receive it
+function ReplyPreview({
+  replyText,
+  mediaAsset,
+  replyButtons,
+}: {
+  replyText: string;
+  mediaAsset: AutoReply['mediaAsset'];
+  replyButtons: string[];
+}) {
+  const [leadSearch, setLeadSearch] = useState('');
+  const [leadId, setLeadId] = useState('');
+
+  const { data: leadsData } = useQuery({
+    queryKey: ['leads', 'preview-picker', leadSearch],
+    queryFn: () => leadsApi.list({ search: leadSearch || undefined, limit: 20 }),
+  });
+
+  const { data: previewData, error } = useQuery({
+    queryKey: ['auto-reply-preview', leadId, replyText],
+    queryFn: () => autoRepliesApi.preview(replyText, leadId),
+    enabled: !!leadId && !!replyText,
+  });
+
+  const leads = leadsData?.data || [];
+  const text = leadId ? previewData?.data?.text : replyText;
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2">
+        <label className="block text-sm font-medium text-gray-700">Preview</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className="input text-sm py-1.5"
+            placeholder="Search leads..."
+            value={leadSearch}
+            onChange={(e) => setLeadSearch(e.target.value)}
+          />
+          <select
+            className="input text-sm py-1.5"
+            value={leadId}
+            onChange={(e) => setLeadId(e.target.value)}
+          >
+            <option value="">As written</option>
+            {leads.map((lead) => (
+              <option key={lead.id} value={lead.id}>
+                {lead.name}{lead.city ? ` — ${lead.city}` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="bg-[#efeae2] rounded-lg p-4">
+        <div className="bg-white rounded-lg px-3 py-2 max-w-sm shadow-sm">
+          {mediaAsset && (
+            <div className="mb-2 flex items-center gap-2">
+              <MediaThumb asset={mediaAsset} className={mediaAsset.mediaType === 'image' ? 'h-32 w-full' : 'h-10 w-10'} />
+              {mediaAsset.mediaType !== 'image' && (
+                <span className="text-xs text-gray-600 truncate">{mediaAsset.filename}</span>
+              )}
+            </div>
+          )}
+          <pre className="text-sm text-gray-800 whitespace-pre-wrap font-sans">
+            {error
+              ? apiError(error, 'Preview failed')
+              : text || 'Your reply message will appear here...'}
+          </pre>
+          {replyButtons.length > 0 && (
+            <div className="mt-2 pt-2 border-t space-y-1">
+              {replyButtons.map((title) => (
+                <div key={title} className="text-center text-xs font-medium text-primary-600 bg-primary-50 rounded py-1">
+                  {title}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ChatbotFlowList({ onEdit }: { onEdit: (flow: ChatbotFlow) => void }) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['chatbot-flows'],
+    queryFn: chatbotFlowsApi.list,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      chatbotFlowsApi.update(id, { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['chatbot-flows'] }),
+    onError: () => toast.error('Failed to update flow'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: chatbotFlowsApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chatbot-flows'] });
+      toast.success('Chatbot flow deleted');
+    },
+    onError: () => toast.error('Failed to delete flow'),
+  });
+
+  const flows = data?.data || [];
+
+  return (
+    <>
+      {/* Info Card */}
+      <div className="card p-4 mb-6 bg-blue-50 border-blue-200">
+        <div className="flex gap-3">
+          <Workflow className="text-blue-600 flex-shrink-0" size={20} />
+          <div className="text-sm text-blue-800">
+            <p className="font-medium mb-1">How Chatbot Flows Work</p>
+            <p>
+              A flow starts when a message contains one of its trigger keywords, then walks the lead
+              through its steps — asking questions, saving answers to the lead and offering buttons.
+              While a lead is in a flow, their replies go to the flow instead of reply rules.
+              Unanswered flows expire after 24 hours.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="card p-8 text-center text-gray-500">Loading...</div>
+        ) : flows.length === 0 ? (
+          <div className="card p-8 text-center text-gray-500">
+            No chatbot flows yet. Add a flow to guide leads through a conversation.
+          </div>
+        ) : (
+          flows.map((flow) => (
+            <div key={flow.id} className={`card p-4 ${!flow.isActive ? 'opacity-60' : ''}`}>
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3 mb-2">
+                    <h3 className="font-semibold text-gray-900">{flow.name}</h3>
+                    <span className="badge bg-purple-100 text-purple-800">{flow.steps.length} steps</span>
+                    <span className="badge bg-gray-100 text-gray-600">Priority: {flow.priority}</span>
+                  </div>
+                  {flow.description && <p className="text-sm text-gray-500 mb-2">{flow.description}</p>}
+                  <div className="flex flex-wrap gap-1.5 mb-2">
+                    {flow.triggerKeywords.length === 0 ? (
+                      <span className="text-xs text-orange-600">No trigger keywords — flow never starts</span>
+                    ) : (
+                      flow.triggerKeywords.map((kw, i) => (
+                        <span key={i} className="text-xs px-2 py-0.5 bg-blue-50 text-blue-700 rounded-full">
+                          {kw}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                  {flow.sessions && (
+                    <p className="text-xs text-gray-500">
+                      {flow.sessions.active} in progress · {flow.sessions.completed} completed ·{' '}
+                      {flow.sessions.handedOff} handed to sales · {flow.sessions.expired} expired
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => toggleMutation.mutate({ id: flow.id, isActive: !flow.isActive })}
+                    className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                      flow.isActive ? 'bg-green-500' : 'bg-gray-300'
+                    }`}
+                    title={flow.isActive ? 'Active — click to disable' : 'Disabled — click to enable'}
+                  >
+                    <span
+                      className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                        flow.isActive ? 'translate-x-6' : 'translate-x-1'
+                      }`}
+                    />
+                  </button>
+                  <button
+                    onClick={() => onEdit(flow)}
+                    className="p-2 text-gray-400 hover:text-blue-600"
+                    title="Edit"
+                  >
+                    <Pencil size={18} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm('Delete this chatbot flow? Leads currently in it will drop out.')) {
+                        deleteMutation.mutate(flow.id);
+                      }
+                    }}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </>
+  );
+}
+
+// Steps JSON → parsed steps or a parse error
+function parseSteps(json: string): { steps: ChatbotStep[] | null; error: string | null } {
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return { steps: null, error: 'Steps must be a JSON array' };
+    return { steps: parsed as ChatbotStep[], error: null };
+  } catch (err: any) {
+    return { steps: null, error: err.message };
+  }
+}
+
+function apiError(err: any, fallback: string) {
+  return err?.response?.data?.message || err?.response?.data?.error || fallback;
+}
+
+function ChatbotFlowModal({
+  flow,
+  onClose,
+}: {
+  flow: ChatbotFlow | null;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const isEdit = !!flow;
+
+  const [formData, setFormData] = useState({
+    name: flow?.name || '',
+    description: flow?.description || '',
+    triggerKeywords: flow?.triggerKeywords.join(', ') || '',
+    priority: flow?.priority ?? 0,
+    isActive: flow?.isActive ?? false,
+  });
+  const [stepsJson, setStepsJson] = useState(JSON.stringify(flow?.steps || EXAMPLE_FLOW_STEPS, null, 2));
+  const { steps, error: parseError } = parseSteps(stepsJson);
+
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['chatbot-flows'] });
+    toast.success(message);
+    onClose();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: chatbotFlowsApi.create,
+    onSuccess: () => onSuccess('Chatbot flow created'),
+    onError: (err: any) => toast.error(apiError(err, 'Failed to create flow')),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<ChatbotFlow> }) => chatbotFlowsApi.update(id, data),
+    onSuccess: () => onSuccess('Chatbot flow updated'),
+    onError: (err: any) => toast.error(apiError(err, 'Failed to update flow')),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!steps) return;
+
+    const payload = {
+      name: formData.name,
+      description: formData.description || undefined,
+      triggerKeywords: formData.triggerKeywords.split(',').map((k) => k.trim()).filter(Boolean),
+      priority: formData.priority,
+      isActive: formData.isActive,
+      steps,
+    };
+
+    if (isEdit && flow) {
+      updateMutation.mutate({ id: flow.id, data: payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b shrink-0">
+          <h2 className="text-lg font-semibold">{isEdit ? 'Edit Chatbot Flow' : 'Create Chatbot Flow'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-4 overflow-y-auto">
+          <form id="chatbot-flow-form" onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Flow Name *</label>
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="e.g., Pack size enquiry"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                <input
+                  type="number"
+                  className="input"
+                  value={formData.priority}
+                  onChange={(e) => setFormData({ ...formData, priority: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Trigger Keywords</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="price, rate, pack size"
+                value={formData.triggerKeywords}
+                onChange={(e) => setFormData({ ...formData, triggerKeywords: e.target.value })}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Comma-separated. The flow starts when a message contains one of these as a whole word.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                className="input"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Steps (JSON) *</label>
+              <textarea
+                className="input font-mono text-xs"
+                rows={18}
+                spellCheck={false}
+                value={stepsJson}
+                onChange={(e) => setStepsJson(e.target.value)}
+              />
+              {parseError ? (
+                <p className="text-xs text-red-600 mt-1">Invalid JSON: {parseError}</p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  Each step: <code>id</code>, <code>message</code> (TEXT, MEDIA or BUTTONS with up to 3
+                  buttons), optional <code>capture</code> (lead field for the answer), <code>actions</code>
+                  {' '}(setFields, addTags, setStatus), <code>next</code> and <code>handoff</code>.
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, isActive: !formData.isActive })}
+                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                  formData.isActive ? 'bg-green-500' : 'bg-gray-300'
+                }`}
+              >
+                <span
+                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                    formData.isActive ? 'translate-x-6' : 'translate-x-1'
+                  }`}
+                />
+              </button>
+              <span className="text-sm text-gray-700">{formData.isActive ? 'Active' : 'Disabled'}</span>
+            </div>
+          </form>
+
+          <div className="space-y-4">
+            {steps && <FlowOutline steps={steps} />}
+            {steps && <FlowSimulator steps={steps} />}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t shrink-0">
+          <button type="button" onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button type="submit" form="chatbot-flow-form" className="btn btn-primary" disabled={isPending || !steps}>
+            {isPending ? 'Saving...' : isEdit ? 'Update Flow' : 'Create Flow'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Read-only map of the flow: what each step sends and where it goes next
+function FlowOutline({ steps }: { steps: ChatbotStep[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Flow Outline</h3>
+      <ol className="space-y-2">
+        {steps.map((step, index) => (
+          <li key={step.id || index} className="border rounded-lg p-3 text-xs">
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-mono font-semibold text-gray-900">{step.id}</span>
+              <span className="badge bg-gray-100 text-gray-600">{step.message?.type}</span>
+              {index === 0 && <span className="badge bg-green-100 text-green-700">start</span>}
+              {step.handoff && <span className="badge bg-orange-100 text-orange-700">hands off</span>}
+            </div>
+            <p className="text-gray-700 whitespace-pre-wrap">{step.message?.text}</p>
+            {step.message?.buttons?.map((button) => (
+              <p key={button.id} className="text-gray-500 mt-0.5">
+                [{button.title}] → {button.next || step.next || 'end'}
+              </p>
+            ))}
+            {step.capture && <p className="text-blue-700 mt-0.5">Saves answer to {step.capture}</p>}
+            {step.actions && (
+              <p className="text-purple-700 mt-0.5">
+                {[
+                  ...Object.entries(step.actions.setFields || {}).map(([field, value]) => `${field} = ${value}`),
+                  ...(step.actions.addTags || []).map((tag) => `+tag ${tag}`),
+                  step.actions.setStatus && `status → ${step.actions.setStatus}`,
+                ].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            {!step.handoff && step.message?.type !== 'BUTTONS' && (
+              <p className="text-gray-400 mt-0.5">→ {step.next || 'end'}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+type SimulatorEntry =
+  | { from: 'bot'; message: ChatbotMessage }
+  | { from: 'lead'; text: string }
+  | { from: 'system'; text: string };
+
+// Plays the flow against the real engine — nothing is sent to WhatsApp or saved
+function FlowSimulator({ steps }: { steps: ChatbotStep[] }) {
+  const [entries, setEntries] = useState<SimulatorEntry[]>([]);
+  const [stepId, setStepId] = useState<string | null>(null);
+  const [started, setStarted] = useState(false);
+  const [input, setInput] = useState('');
+  const [leadFields, setLeadFields] = useState<Record<string, string>>({});
+
+  const simulateMutation = useMutation({
+    mutationFn: chatbotFlowsApi.simulate,
+    onSuccess: (result) => {
+      const turn = result.data as ChatbotTurn;
+      const { fields, addTags, status } = turn.leadUpdate;
+
+      setLeadFields((prev) => ({
+        ...prev,
+        ...fields,
+        ...(addTags.length > 0 && { tags: [prev.tags, ...addTags].filter(Boolean).join(', ') }),
+        ...(status && { status }),
+      }));
+      setEntries((prev) => [
+        ...prev,
+        ...(turn.invalidAnswer ? [{ from: 'system' as const, text: "Answer didn't match a button — asking again" }] : []),
+        ...turn.replies.map((message) => ({ from: 'bot' as const, message })),
+        ...(turn.outcome === 'COMPLETED' ? [{ from: 'system' as const, text: 'Flow completed' }] : []),
+        ...(turn.outcome === 'HANDED_OFF' ? [{ from: 'system' as const, text: 'Handed off to sales — team gets a push notification' }] : []),
+      ]);
+      setStepId(turn.stepId);
+    },
+    onError: (err: any) => toast.error(apiError(err, 'Simulation failed')),
+  });
+
+  const reset = () => {
+    setEntries([]);
+    setStepId(null);
+    setStarted(false);
+    setLeadFields({});
+  };
+
+  const start = () => {
+    reset();
+    setStarted(true);
+    simulateMutation.mutate({ steps });
+  };
+
+  const answer = (text: string, buttonId?: string) => {
+    if (!stepId || !text.trim()) return;
+    setEntries((prev) => [...prev, { from: 'lead', text }]);
+    setInput('');
+    simulateMutation.mutate({ steps, stepId, answer: { text, buttonId } });
+  };
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b bg-gray-50 rounded-t-lg">
+        <h3 className="text-sm font-medium text-gray-700">Simulator</h3>
+        <button type="button" onClick={start} className="text-xs text-primary-600 flex items-center gap-1">
+          <RotateCcw size={12} />
+          {started ? 'Restart' : 'Start'}
+        </button>
+      </div>
+
+      <div className="p-3 space-y-2 bg-[#efeae2] min-h-[160px] max-h-80 overflow-y-auto">
+        {!started && <p className="text-xs text-gray-500 text-center py-8">Start to chat with the flow as a lead would.</p>}
+        {entries.map((entry, i) =>
+          entry.from === 'system' ? (
+            <p key={i} className="text-[11px] text-center text-gray-500">{entry.text}</p>
+          ) : entry.from === 'lead' ? (
+            <div key={i} className="flex justify-end">
+              <div className="bg-[#dcf8c6] rounded-lg px-3 py-1.5 text-sm max-w-[80%]">{entry.text}</div>
+            </div>
+          ) : (
+            <div key={i} className="flex justify-start">
+              <div className="bg-white rounded-lg px-3 py-1.5 text-sm max-w-[80%]">
+                {entry.message.mediaUrl && entry.message.type !== 'TEXT' && (
+                  <p className="text-xs text-gray-500 mb-1 truncate">[{entry.message.mediaType || 'image'}] {entry.message.mediaUrl}</p>
+                )}
+                <p className="whitespace-pre-wrap">{entry.message.text}</p>
+                {entry.message.type === 'BUTTONS' && (
+                  <div className="mt-2 pt-2 border-t space-y-1">
+                    {entry.message.buttons?.map((button) => (
+                      <button
+                        key={button.id}
+                        type="button"
+                        disabled={i !== entries.length - 1 || !stepId}
+                        onClick={() => answer(button.title, button.id)}
+                        className="w-full text-xs font-medium text-primary-600 bg-primary-50 rounded py-1 disabled:opacity-50"
+                      >
+                        {button.title}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      {started && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            answer(input);
+          }}
+          className="flex gap-2 p-2 border-t"
+        >
+          <input
+            type="text"
+            className="input text-sm"
+            placeholder={stepId ? 'Reply as the lead...' : 'Flow ended — restart to try again'}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            disabled={!stepId || simulateMutation.isPending}
+          />
+          <button type="submit" className="btn btn-primary px-3" disabled={!stepId || simulateMutation.isPending}>
+            <Send size={16} />
+          </button>
+        </form>
+      )}
+
+      {Object.keys(leadFields).length > 0 && (
+        <div className="px-3 py-2 border-t text-xs text-gray-600">
+          <p className="flex items-center gap-1 font-medium text-gray-700 mb-1">
+            <UserRound size={12} /> Lead changes
+          </p>
+          {Object.entries(leadFields).map(([field, value]) => (
+            <p key={field}>
+              {field}: <span className="font-medium">{value}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,23 +2,27 @@ import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
-  ArrowLeft, Send, CheckCheck, Eye, AlertCircle, Clock, Users, UserX, Play, Pause, RotateCcw, Trash2,
+  ArrowLeft, Send, CheckCheck, Eye, AlertCircle, Clock, Users, UserX, Play, Pause, RotateCcw, Trash2, Moon, Trophy,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { campaignsApi } from '../services/api';
+import { useRealtimeConnected } from '../hooks/useRealtime';
+import { CampaignPreviewModal } from './Campaigns';
 import type { CampaignAnalytics, CampaignLeadStatus, CampaignStatus } from '../types';
 
 export default function CampaignDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const realtimeConnected = useRealtimeConnected();
   const [leadStatusFilter, setLeadStatusFilter] = useState<string>('');
+  const [showPreview, setShowPreview] = useState(false);
 
   const { data, isLoading } = useQuery({
     queryKey: ['campaign-analytics', id],
     queryFn: () => campaignsApi.getAnalytics(id!),
     enabled: !!id,
-    refetchInterval: 10000,
+    refetchInterval: realtimeConnected ? false : 10000,
   });
 
   const resendMutation = useMutation({
@@ -46,6 +50,7 @@ export default function CampaignDetail() {
   const startMutation = useMutation({
     mutationFn: () => campaignsApi.start(id!),
     onSuccess: (data) => {
+      setShowPreview(false);
       toast.success(data.message || 'Campaign started');
       queryClient.invalidateQueries({ queryKey: ['campaign-analytics', id] });
       queryClient.invalidateQueries({ queryKey: ['campaigns'] });
@@ -112,7 +117,8 @@ export default function CampaignDetail() {
     );
   }
 
-  const { campaign, funnel, leads, timelineChart } = analytics;
+  const { campaign, funnel, leads, timelineChart, sendWindow, variants, autoWinner } = analytics;
+  const waitingForWindow = campaign.status === 'RUNNING' && sendWindow && !sendWindow.open;
   const filteredLeads = leadStatusFilter
     ? leads.filter((l) => l.status === leadStatusFilter)
     : leads;
@@ -136,18 +142,18 @@ export default function CampaignDetail() {
             {campaign.template?.name && `Template: ${campaign.template.name}`}
             {campaign.createdBy?.name && ` · Created by ${campaign.createdBy.name}`}
             {campaign.startedAt && ` · Started ${new Date(campaign.startedAt).toLocaleDateString()}`}
+            {sendWindow && ` · Sends ${sendWindow.start}–${sendWindow.end} ${sendWindow.timezone}`}
           </p>
         </div>
         <div className="flex items-center gap-2 flex-wrap">
           {/* Start (for DRAFT campaigns) */}
           {campaign.status === 'DRAFT' && (
             <button
-              onClick={() => startMutation.mutate()}
-              disabled={startMutation.isPending}
+              onClick={() => setShowPreview(true)}
               className="btn btn-primary flex items-center gap-2 text-sm"
             >
               <Play size={16} />
-              {startMutation.isPending ? 'Starting...' : 'Start Campaign'}
+              Start Campaign
             </button>
           )}
           {/* Resume (for PAUSED campaigns) */}
@@ -212,6 +218,25 @@ export default function CampaignDetail() {
         </div>
       </div>
 
+      {/* Waiting for send window */}
+      {waitingForWindow && (
+        <div className="card p-4 mb-6 bg-indigo-50 border-indigo-200 flex items-center gap-3">
+          <Moon size={20} className="text-indigo-600 shrink-0" />
+          <p className="text-sm text-indigo-800">
+            Outside the send window — waiting.
+            {sendWindow.nextOpenAt && (
+              <> Sending continues automatically at{' '}
+                <span className="font-semibold">
+                  {new Date(sendWindow.nextOpenAt).toLocaleString([], {
+                    weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+                  })}
+                </span>.
+              </>
+            )}
+          </p>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
         <div className="card p-4">
@@ -241,6 +266,9 @@ export default function CampaignDetail() {
       {/* Delivery Funnel */}
       <DeliveryFunnel funnel={funnel} />
 
+      {/* A/B Test Variants */}
+      {variants.length > 0 && <VariantComparison variants={variants} autoWinner={autoWinner} />}
+
       {/* Timeline Chart */}
       {timelineChart.length > 0 && (
         <div className="card p-6 mt-6">
@@ -356,6 +384,87 @@ export default function CampaignDetail() {
           </div>
         )}
       </div>
+
+      {showPreview && (
+        <CampaignPreviewModal
+          campaignId={campaign.id}
+          starting={startMutation.isPending}
+          onStart={() => startMutation.mutate()}
+          onClose={() => setShowPreview(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+const METRIC_LABELS: Record<string, string> = {
+  DELIVERED: 'delivery rate',
+  READ: 'read rate',
+  REPLIED: 'reply rate',
+  CONVERTED: 'conversion rate',
+};
+
+function VariantComparison({
+  variants,
+  autoWinner,
+}: {
+  variants: CampaignAnalytics['variants'];
+  autoWinner: CampaignAnalytics['autoWinner'];
+}) {
+  const winner = variants.find((v) => v.isWinner);
+
+  return (
+    <div className="card p-6 mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">A/B Test</h2>
+        {autoWinner && (
+          <p className="text-sm text-gray-500">
+            {winner
+              ? `Variant ${winner.label} won on ${METRIC_LABELS[autoWinner.metric]} and is sent to the rest`
+              : `Winner picked by ${METRIC_LABELS[autoWinner.metric]} after ${autoWinner.sampleSize} leads + ${autoWinner.waitHours}h`}
+          </p>
+        )}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="pb-2 font-medium">Variant</th>
+              <th className="pb-2 font-medium text-right">Split</th>
+              <th className="pb-2 font-medium text-right">Sent</th>
+              <th className="pb-2 font-medium text-right">Delivered</th>
+              <th className="pb-2 font-medium text-right">Read</th>
+              <th className="pb-2 font-medium text-right">Replied</th>
+              <th className="pb-2 font-medium text-right">Converted</th>
+            </tr>
+          </thead>
+          <tbody>
+            {variants.map((variant) => (
+              <tr key={variant.id} className="border-b last:border-0">
+                <td className="py-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-gray-900">{variant.label}</span>
+                    <span className="text-gray-600">{variant.template.name}</span>
+                    {variant.isWinner && <Trophy size={14} className="text-amber-500" />}
+                  </div>
+                </td>
+                <td className="py-2 text-right text-gray-600">{variant.splitPercent}%</td>
+                <td className="py-2 text-right text-gray-900">
+                  {variant.sent}
+                  {variant.winnerSent > 0 && (
+                    <span className="block text-xs text-gray-400">+{variant.winnerSent} after the test</span>
+                  )}
+                </td>
+                <td className="py-2 text-right">{variant.deliveryRate}% <span className="text-xs text-gray-400">({variant.delivered})</span></td>
+                <td className="py-2 text-right">{variant.readRate}% <span className="text-xs text-gray-400">({variant.read})</span></td>
+                <td className="py-2 text-right">{variant.replyRate}% <span className="text-xs text-gray-400">({variant.replied})</span></td>
+                <td className="py-2 text-right">{variant.conversionRate}% <span className="text-xs text-gray-400">({variant.converted})</span></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-400 mt-3">Rates are a share of each variant's test messages; sends after a winner was picked aren't counted.</p>
     </div>
   );
 }
@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Plus, Play, Pause, Trash2, Eye, X, Search, Check } from 'lucide-react';
+import { Plus, Play, Pause, Trash2, Eye, X, Search, Check, CalendarClock, AlertTriangle } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { campaignsApi, templatesApi, leadsApi } from '../services/api';
-import type { CampaignStatus, MessageTemplate, Lead } from '../types';
+import { campaignsApi, templatesApi, leadsApi, customFieldsApi } from '../services/api';
+import { CustomFieldFilters, activeCustomFieldFilters } from './LeadFields';
+import type { CampaignStatus, CampaignRecurrence, SendWindow, TemplateVariableMapping, AutoWinnerConfig, CampaignPreview, MessageTemplate, Lead, CustomFieldFilter } from '../types';
 
 const SAVED_MEDIA = [
   {
@@ -14,10 +15,38 @@ const SAVED_MEDIA = [
   },
 ];
 
+const LEAD_FIELDS = [
+  { value: 'name', label: 'Name' },
+  { value: 'businessName', label: 'Business name' },
+  { value: 'businessType', label: 'Business type' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'email', label: 'Email' },
+  { value: 'city', label: 'City' },
+  { value: 'state', label: 'State' },
+  { value: 'pincode', label: 'Pincode' },
+  { value: 'address', label: 'Address' },
+];
+
+// Variable names in a template body, in order ({{1}} → "1", {{Name}} → "name")
+function extractVariables(bodyText: string) {
+  const names = (bodyText.match(/\{\{[^}]+\}\}/g) || []).map((v) => v.replace(/\{|\}/g, '').trim().toLowerCase());
+  return [...new Set(names)];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function describeRecurrence(recurrence: CampaignRecurrence) {
+  const days = recurrence.frequency === 'DAILY'
+    ? 'Every day'
+    : `Every ${recurrence.daysOfWeek.map((d) => WEEKDAYS[d]).join(', ')}`;
+  return `${days} at ${recurrence.time} (${recurrence.timezone})`;
+}
+
 export default function Campaigns() {
   const queryClient = useQueryClient();
   const navigate = useNavigate();
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [previewId, setPreviewId] = useState<string | null>(null);
 
   const { data, isLoading } = useQuery({
     queryKey: ['campaigns'],
@@ -33,6 +62,7 @@ export default function Campaigns() {
     mutationFn: campaignsApi.start,
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      setPreviewId(null);
       toast.success(data.message || 'Campaign started');
     },
     onError: (err: any) => toast.error(err?.response?.data?.error || 'Failed to start campaign'),
@@ -124,6 +154,19 @@ export default function Campaigns() {
                       </span>
                     )}
                   </div>
+                  {(campaign.recurrence || (campaign.status === 'SCHEDULED' && campaign.scheduledAt)) && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-blue-700">
+                      <CalendarClock size={14} />
+                      {campaign.recurrence && <span>{describeRecurrence(campaign.recurrence)}</span>}
+                      {campaign.scheduledAt && (campaign.status === 'SCHEDULED' || campaign.recurrence) && (
+                        <span className="font-medium">
+                          Next run: {new Date(campaign.scheduledAt).toLocaleString([], {
+                            weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+                          })}
+                        </span>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                   <button
@@ -135,9 +178,8 @@ export default function Campaigns() {
                   </button>
                   {campaign.status === 'DRAFT' && (
                     <button
-                      onClick={() => startMutation.mutate(campaign.id)}
+                      onClick={() => setPreviewId(campaign.id)}
                       className="btn btn-primary text-sm py-1.5"
-                      disabled={startMutation.isPending}
                     >
                       <Play size={16} className="mr-1" />
                       Start
@@ -162,6 +204,7 @@ export default function Campaigns() {
                     </button>
                   )}
                   {(campaign.status === 'DRAFT' ||
+                    campaign.status === 'SCHEDULED' ||
                     campaign.status === 'PAUSED' ||
                     campaign.status === 'COMPLETED' ||
                     campaign.status === 'CANCELLED') && (
@@ -192,6 +235,188 @@ export default function Campaigns() {
         />
       )}
 
+      {/* Dry-run before starting */}
+      {previewId && (
+        <CampaignPreviewModal
+          campaignId={previewId}
+          starting={startMutation.isPending}
+          onStart={() => startMutation.mutate(previewId)}
+          onClose={() => setPreviewId(null)}
+        />
+      )}
+
+    </div>
+  );
+}
+
+const EXCLUSION_LABELS: Array<[keyof CampaignPreview['excluded'], string]> = [
+  ['optedOut', 'Opted out'],
+  ['doNotContact', 'Do not contact'],
+  ['rejected', 'Rejected'],
+  ['alreadyReceived', 'Already received this template'],
+  ['invalidPhone', 'Invalid phone number'],
+  ['notOnWhatsApp', 'Not on WhatsApp'],
+  ['landline', 'Landline, never delivered to'],
+];
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Dry run of a DRAFT campaign — who would be messaged, what they'd get and when it finishes
+export function CampaignPreviewModal({
+  campaignId,
+  starting,
+  onStart,
+  onClose,
+}: {
+  campaignId: string;
+  starting: boolean;
+  onStart: () => void;
+  onClose: () => void;
+}) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['campaign-preview', campaignId],
+    queryFn: () => campaignsApi.preview(campaignId),
+    staleTime: 0,
+  });
+
+  const preview = data?.data;
+  const sendable = preview ? preview.leadCount - preview.missingVariables : 0;
+  const excludedTotal = preview ? Object.values(preview.excluded).reduce((sum, n) => sum + n, 0) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b shrink-0">
+          <h2 className="text-lg font-semibold">Review Before Sending</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5 overflow-y-auto">
+          {isLoading && <p className="text-center text-gray-500 py-8">Checking audience...</p>}
+          {error && (
+            <p className="text-center text-red-600 py-8">
+              {(error as any)?.response?.data?.error || 'Failed to load preview'}
+            </p>
+          )}
+
+          {preview && (
+            <>
+              {/* Audience */}
+              <div className="grid grid-cols-3 gap-3">
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">Matched</p>
+                  <p className="text-xl font-bold text-gray-900">{preview.matched}</p>
+                </div>
+                <div className="bg-gray-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">Excluded</p>
+                  <p className="text-xl font-bold text-orange-600">{excludedTotal}</p>
+                </div>
+                <div className="bg-green-50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500">Will be messaged</p>
+                  <p className="text-xl font-bold text-green-700">{sendable}</p>
+                </div>
+              </div>
+
+              {excludedTotal > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Excluded leads</h3>
+                  <div className="text-sm divide-y border rounded-lg">
+                    {EXCLUSION_LABELS.filter(([key]) => preview.excluded[key] > 0).map(([key, label]) => (
+                      <div key={key} className="flex justify-between px-3 py-2">
+                        <span className="text-gray-600">{label}</span>
+                        <span className="font-medium text-gray-900">{preview.excluded[key]}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {preview.missingVariables > 0 && (
+                <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                  <span>
+                    {preview.missingVariables} lead{preview.missingVariables === 1 ? '' : 's'} would be blocked because a
+                    template variable has no value. Fill in the lead data or set a fallback in the variable mapping.
+                  </span>
+                </div>
+              )}
+
+              {/* Sample messages */}
+              {preview.samples.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-2">Sample messages</h3>
+                  <div className="space-y-2">
+                    {preview.samples.map((sample) => (
+                      <div key={sample.leadId} className="border rounded-lg p-3">
+                        <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                          <span>
+                            {sample.name} · {sample.phone}
+                          </span>
+                          <span>
+                            {sample.templateName}
+                            {sample.variantLabel && ` (Variant ${sample.variantLabel})`}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-800 whitespace-pre-wrap">{sample.message}</p>
+                        {sample.missing.length > 0 && (
+                          <p className="text-xs text-red-600 mt-1">
+                            Blocked — no value for {sample.missing.map((v) => `{{${v}}}`).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Timing */}
+              <div className="text-sm bg-blue-50 rounded-lg p-3 text-blue-900 space-y-1">
+                <p>
+                  ~{formatDuration(preview.estimate.perMessageSeconds)} per message
+                  {preview.estimate.dailyLimit && ` · up to ${preview.estimate.dailyLimit} per day`}
+                </p>
+                {preview.estimate.estimatedCompletionAt ? (
+                  <p className="font-medium">
+                    Estimated completion:{' '}
+                    {new Date(preview.estimate.estimatedCompletionAt).toLocaleString([], {
+                      weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+                    })}
+                    {preview.estimate.sendingDays > 1 && ` (${preview.estimate.sendingDays} sending days)`}
+                  </p>
+                ) : (
+                  <p className="font-medium">Nothing to send</p>
+                )}
+                {preview.estimate.requiresDailyResume && (
+                  <p className="text-xs text-blue-700">
+                    The campaign auto-pauses when the daily limit is reached — resume it each day to continue.
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-4 border-t shrink-0">
+          <button onClick={onClose} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            onClick={onStart}
+            className="btn btn-primary flex items-center gap-2"
+            disabled={!preview || sendable === 0 || starting}
+          >
+            <Play size={16} />
+            {starting ? 'Starting...' : `Start Now (${sendable})`}
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
@@ -222,9 +447,32 @@ function CreateCampaignModal({
   const [cityFilter, setCityFilter] = useState('');
   const [statusFilter, setStatusFilter] = useState<string[]>([]);
   const [addedWithin, setAddedWithin] = useState<number>(0);
+  const [fieldFilters, setFieldFilters] = useState<CustomFieldFilter[]>([]);
   const [headerMediaUrl, setHeaderMediaUrl] = useState(SAVED_MEDIA[0]?.url || '');
   const [skipDuplicate, setSkipDuplicate] = useState(true);
   const [sendingSpeed, setSendingSpeed] = useState<string>('warmup');
+  const [audienceMode, setAudienceMode] = useState<'selected' | 'filters'>('selected');
+  const [scheduleMode, setScheduleMode] = useState<'now' | 'once' | 'recurring'>('now');
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [recurrence, setRecurrence] = useState<CampaignRecurrence>({
+    frequency: 'WEEKLY',
+    daysOfWeek: [1],
+    time: '10:00',
+    timezone: 'Asia/Kolkata',
+  });
+  const [useSendWindow, setUseSendWindow] = useState(true);
+  const [sendWindow, setSendWindow] = useState<SendWindow>({
+    start: '09:30',
+    end: '19:00',
+    timezone: 'Asia/Kolkata',
+    excludedDays: [0],
+  });
+  const [variableMapping, setVariableMapping] = useState<TemplateVariableMapping>({});
+  const [abTest, setAbTest] = useState(false);
+  // Variants B, C, D — variant A is the main template and takes the remaining split
+  const [extraVariants, setExtraVariants] = useState<Array<{ templateId: string; splitPercent: number; headerMediaUrl: string }>>([]);
+  const [useAutoWinner, setUseAutoWinner] = useState(false);
+  const [autoWinner, setAutoWinner] = useState<AutoWinnerConfig>({ sampleSize: 100, metric: 'READ', waitHours: 24 });
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -233,6 +481,13 @@ function CreateCampaignModal({
 
   const selectedTemplate = templates.find((t) => t.id === formData.templateId);
   const needsMediaUrl = selectedTemplate?.headerType === 'IMAGE' || selectedTemplate?.headerType === 'VIDEO';
+  const splitA = 100 - extraVariants.reduce((sum, v) => sum + v.splitPercent, 0);
+  const variantTemplates = abTest
+    ? extraVariants.map((v) => templates.find((t) => t.id === v.templateId))
+    : [];
+  const templateVariables = [...new Set(
+    [selectedTemplate, ...variantTemplates].flatMap((t) => (t ? extractVariables(t.bodyText) : []))
+  )];
 
   const { data: citiesData } = useQuery({
     queryKey: ['lead-cities'],
@@ -240,17 +495,25 @@ function CreateCampaignModal({
   });
   const availableCities = (citiesData?.data || []) as string[];
 
+  const { data: customFieldsData } = useQuery({
+    queryKey: ['custom-fields'],
+    queryFn: customFieldsApi.list,
+  });
+  const customFields = customFieldsData?.data || [];
+  const activeFieldFilters = activeCustomFieldFilters(fieldFilters);
+
   const createdAfter = addedWithin > 0
     ? new Date(Date.now() - addedWithin * 24 * 60 * 60 * 1000).toISOString()
     : undefined;
 
   const { data: leadsData, isLoading: leadsLoading } = useQuery({
-    queryKey: ['leads-picker', leadSearch, cityFilter, statusFilter, addedWithin],
+    queryKey: ['leads-picker', leadSearch, cityFilter, statusFilter, addedWithin, activeFieldFilters],
     queryFn: () => leadsApi.list({
       search: leadSearch || undefined,
       city: cityFilter || undefined,
       status: statusFilter.length > 0 ? statusFilter.join(',') : undefined,
       createdAfter,
+      customFields: activeFieldFilters.length ? JSON.stringify(activeFieldFilters) : undefined,
       limit: 500,
     }),
   });
@@ -262,7 +525,8 @@ function CreateCampaignModal({
     (statusFilter.length > 0 ? 1 : 0) +
     (cityFilter ? 1 : 0) +
     (addedWithin > 0 ? 1 : 0) +
-    (leadSearch ? 1 : 0);
+    (leadSearch ? 1 : 0) +
+    activeFieldFilters.length;
 
   const createMutation = useMutation({
     mutationFn: campaignsApi.create,
@@ -276,28 +540,124 @@ function CreateCampaignModal({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedLeadIds.size === 0) {
+    if (audienceMode === 'selected' && selectedLeadIds.size === 0) {
       toast.error('Select at least one lead');
       return;
     }
+    if (scheduleMode === 'once' && !scheduledAt) {
+      toast.error('Pick a date and time to send');
+      return;
+    }
+    if (scheduleMode === 'recurring' && recurrence.frequency === 'WEEKLY' && recurrence.daysOfWeek.length === 0) {
+      toast.error('Pick at least one day of the week');
+      return;
+    }
+    if (useSendWindow && sendWindow.start >= sendWindow.end) {
+      toast.error('Send window must end after it starts');
+      return;
+    }
     if (needsMediaUrl && !headerMediaUrl.trim()) {
       toast.error(`This template requires a ${selectedTemplate?.headerType?.toLowerCase()} URL`);
       return;
     }
+    if (abTest) {
+      if (extraVariants.length === 0) {
+        toast.error('Add at least one more variant for an A/B test');
+        return;
+      }
+      if (splitA < 1 || extraVariants.some((v) => v.splitPercent < 1)) {
+        toast.error('Every variant needs a split of at least 1%');
+        return;
+      }
+      const missingMedia = extraVariants.findIndex((v, i) => {
+        const headerType = variantTemplates[i]?.headerType;
+        return (headerType === 'IMAGE' || headerType === 'VIDEO') && !v.headerMediaUrl.trim();
+      });
+      if (missingMedia >= 0) {
+        toast.error(`Variant ${String.fromCharCode(66 + missingMedia)} needs a media URL`);
+        return;
+      }
+    }
+    const missingStatic = templateVariables.find(
+      (v) => variableMapping[v]?.type === 'STATIC' && !variableMapping[v]?.value?.trim()
+    );
+    if (missingStatic) {
+      toast.error(`Enter a value for {{${missingStatic}}}`);
+      return;
+    }
     const payload: any = {
       name: formData.name,
       description: formData.description,
       templateId: formData.templateId,
       skipDuplicateTemplate: skipDuplicate,
       sendingSpeed,
-      leadIds: Array.from(selectedLeadIds),
     };
+    if (audienceMode === 'selected') {
+      payload.leadIds = Array.from(selectedLeadIds);
+    } else {
+      payload.targetFilters = {
+        status: statusFilter,
+        cities: cityFilter ? [cityFilter] : [],
+        customFields: activeFieldFilters,
+      };
+    }
+    if (scheduleMode === 'once') {
+      payload.scheduledAt = new Date(scheduledAt).toISOString();
+    } else if (scheduleMode === 'recurring') {
+      payload.recurrence = recurrence;
+    }
+    if (useSendWindow) {
+      payload.sendWindow = sendWindow;
+    }
     if (needsMediaUrl && headerMediaUrl.trim()) {
       payload.headerMediaUrl = headerMediaUrl.trim();
     }
+    if (abTest) {
+      payload.variants = [
+        { templateId: formData.templateId, splitPercent: splitA, headerMediaUrl: payload.headerMediaUrl },
+        ...extraVariants.map((v) => ({
+          templateId: v.templateId,
+          splitPercent: v.splitPercent,
+          headerMediaUrl: v.headerMediaUrl.trim() || undefined,
+        })),
+      ];
+      if (useAutoWinner) {
+        payload.autoWinner = autoWinner;
+      }
+    }
+    // Only variables of the selected templates; unmapped ones use the lead field of the same name, if any
+    const mapping = Object.fromEntries(
+      templateVariables.filter((v) => variableMapping[v]).map((v) => [v, variableMapping[v]!])
+    );
+    if (Object.keys(mapping).length > 0) {
+      payload.variableMapping = mapping;
+    }
     createMutation.mutate(payload);
   };
 
+  const setVariableSource = (variable: string, source: string) => {
+    setVariableMapping((prev) => {
+      const next = { ...prev };
+      if (source === 'auto') delete next[variable];
+      else if (source === 'static') next[variable] = { type: 'STATIC', value: '' };
+      else next[variable] = { type: 'FIELD', field: source, fallback: prev[variable]?.fallback };
+      return next;
+    });
+  };
+
+  const updateVariable = (variable: string, changes: Partial<TemplateVariableMapping[string]>) => {
+    setVariableMapping((prev) => ({ ...prev, [variable]: { ...prev[variable]!, ...changes } }));
+  };
+
+  const addVariant = () => {
+    const share = Math.floor(splitA / 2);
+    setExtraVariants((prev) => [...prev, { templateId: templates[0]?.id || '', splitPercent: share, headerMediaUrl: '' }]);
+  };
+
+  const updateExtraVariant = (index: number, changes: Partial<typeof extraVariants[number]>) => {
+    setExtraVariants((prev) => prev.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
   const toggleLead = (id: string) => {
     setSelectedLeadIds((prev) => {
       const next = new Set(prev);
@@ -314,6 +674,24 @@ function CreateCampaignModal({
     );
   };
 
+  const toggleRecurrenceDay = (day: number) => {
+    setRecurrence((prev) => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter((d) => d !== day)
+        : [...prev.daysOfWeek, day].sort(),
+    }));
+  };
+
+  const toggleExcludedDay = (day: number) => {
+    setSendWindow((prev) => ({
+      ...prev,
+      excludedDays: prev.excludedDays.includes(day)
+        ? prev.excludedDays.filter((d) => d !== day)
+        : [...prev.excludedDays, day].sort(),
+    }));
+  };
+
   const selectAll = () => setSelectedLeadIds(new Set(leads.map((l) => l.id)));
   const deselectAll = () => setSelectedLeadIds(new Set());
 
@@ -407,6 +785,181 @@ function CreateCampaignModal({
                 </div>
               )}
 
+              <div className="p-3 rounded-lg border bg-gray-50 space-y-3">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    checked={abTest}
+                    onChange={(e) => {
+                      setAbTest(e.target.checked);
+                      if (e.target.checked && extraVariants.length === 0) addVariant();
+                    }}
+                  />
+                  <span className="text-sm font-medium text-gray-700">A/B test templates</span>
+                </label>
+                {abTest && (
+                  <>
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-semibold w-4">A</span>
+                      <span className="flex-1 truncate text-gray-600">{selectedTemplate?.name || 'Template above'}</span>
+                      <span className={`w-16 text-right ${splitA < 1 ? 'text-red-600' : 'text-gray-600'}`}>{splitA}%</span>
+                    </div>
+                    {extraVariants.map((variant, index) => {
+                      const template = variantTemplates[index];
+                      const variantNeedsMedia = template?.headerType === 'IMAGE' || template?.headerType === 'VIDEO';
+                      return (
+                        <div key={index} className="space-y-1.5">
+                          <div className="flex items-center gap-2">
+                            <span className="font-semibold text-sm w-4">{String.fromCharCode(66 + index)}</span>
+                            <select
+                              className="input py-1 text-sm flex-1"
+                              value={variant.templateId}
+                              onChange={(e) => updateExtraVariant(index, { templateId: e.target.value })}
+                            >
+                              {templates.map((t) => (
+                                <option key={t.id} value={t.id}>
+                                  {t.name} ({t.language === 'hi' ? 'Hindi' : 'English'})
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              type="number"
+                              min={1}
+                              max={99}
+                              className="input py-1 text-sm w-16"
+                              value={variant.splitPercent}
+                              onChange={(e) => updateExtraVariant(index, { splitPercent: parseInt(e.target.value) || 0 })}
+                            />
+                            <button
+                              type="button"
+                              className="text-gray-400 hover:text-red-600"
+                              onClick={() => setExtraVariants((prev) => prev.filter((_, i) => i !== index))}
+                            >
+                              <X size={16} />
+                            </button>
+                          </div>
+                          {variantNeedsMedia && (
+                            <input
+                              type="url"
+                              className="input py-1 text-sm"
+                              placeholder={`${template?.headerType === 'VIDEO' ? 'Video' : 'Image'} URL for variant ${String.fromCharCode(66 + index)}`}
+                              value={variant.headerMediaUrl}
+                              onChange={(e) => updateExtraVariant(index, { headerMediaUrl: e.target.value })}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                    {extraVariants.length < 3 && (
+                      <button type="button" className="text-sm text-primary-600 hover:text-primary-700" onClick={addVariant}>
+                        + Add variant
+                      </button>
+                    )}
+                    <label className="flex items-center gap-2 cursor-pointer pt-2 border-t">
+                      <input
+                        type="checkbox"
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        checked={useAutoWinner}
+                        onChange={(e) => setUseAutoWinner(e.target.checked)}
+                      />
+                      <span className="text-sm text-gray-700">Send the winner to the rest automatically</span>
+                    </label>
+                    {useAutoWinner && (
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Test sample</label>
+                          <input
+                            type="number"
+                            min={10}
+                            className="input py-1 text-sm"
+                            value={autoWinner.sampleSize}
+                            onChange={(e) => setAutoWinner({ ...autoWinner, sampleSize: parseInt(e.target.value) || 0 })}
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Best by</label>
+                          <select
+                            className="input py-1 text-sm"
+                            value={autoWinner.metric}
+                            onChange={(e) => setAutoWinner({ ...autoWinner, metric: e.target.value as AutoWinnerConfig['metric'] })}
+                          >
+                            <option value="DELIVERED">Delivered</option>
+                            <option value="READ">Read</option>
+                            <option value="REPLIED">Replied</option>
+                            <option value="CONVERTED">Converted</option>
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-500 mb-1">Wait (hours)</label>
+                          <input
+                            type="number"
+                            min={1}
+                            max={168}
+                            className="input py-1 text-sm"
+                            value={autoWinner.waitHours}
+                            onChange={(e) => setAutoWinner({ ...autoWinner, waitHours: parseInt(e.target.value) || 0 })}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {templateVariables.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Template Variables</label>
+                  <div className="space-y-2">
+                    {templateVariables.map((variable) => {
+                      const entry = variableMapping[variable];
+                      return (
+                        <div key={variable} className="p-2 rounded-lg border bg-gray-50 space-y-1.5">
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs font-mono text-gray-600 w-20 shrink-0 truncate">{`{{${variable}}}`}</span>
+                            <select
+                              className="input py-1 text-sm"
+                              value={!entry ? 'auto' : entry.type === 'STATIC' ? 'static' : entry.field}
+                              onChange={(e) => setVariableSource(variable, e.target.value)}
+                            >
+                              <option value="auto">Same-named lead field</option>
+                              {LEAD_FIELDS.map((f) => (
+                                <option key={f.value} value={f.value}>Lead: {f.label}</option>
+                              ))}
+                              {customFields.map((f) => (
+                                <option key={f.key} value={`custom.${f.key}`}>Lead: {f.label}</option>
+                              ))}
+                              <option value="static">Static text</option>
+                            </select>
+                          </div>
+                          {entry?.type === 'STATIC' && (
+                            <input
+                              type="text"
+                              className="input py-1 text-sm"
+                              placeholder="Value for every lead"
+                              value={entry.value || ''}
+                              onChange={(e) => updateVariable(variable, { value: e.target.value })}
+                            />
+                          )}
+                          {entry?.type === 'FIELD' && (
+                            <input
+                              type="text"
+                              className="input py-1 text-sm"
+                              placeholder="Fallback when the field is empty"
+                              value={entry.fallback || ''}
+                              onChange={(e) => updateVariable(variable, { fallback: e.target.value || undefined })}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Leads whose variable ends up empty are skipped and marked failed.
+                  </p>
+                </div>
+              )}
+
               <label className="flex items-start gap-3 p-3 rounded-lg border bg-gray-50 cursor-pointer hover:bg-gray-100">
                 <input
                   type="checkbox"
@@ -430,10 +983,148 @@ function CreateCampaignModal({
                   <option value="fast">Fast — 1 per 5s (risky)</option>
                 </select>
               </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    checked={useSendWindow}
+                    onChange={(e) => setUseSendWindow(e.target.checked)}
+                  />
+                  Only send during business hours
+                </label>
+                {useSendWindow && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="time"
+                        className="input"
+                        value={sendWindow.start}
+                        onChange={(e) => setSendWindow({ ...sendWindow, start: e.target.value })}
+                        required
+                      />
+                      <span className="text-sm text-gray-400">to</span>
+                      <input
+                        type="time"
+                        className="input"
+                        value={sendWindow.end}
+                        onChange={(e) => setSendWindow({ ...sendWindow, end: e.target.value })}
+                        required
+                      />
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <span className="text-xs text-gray-400 shrink-0">Skip:</span>
+                      {WEEKDAYS.map((day, index) => (
+                        <button
+                          key={day}
+                          type="button"
+                          onClick={() => toggleExcludedDay(index)}
+                          className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                            sendWindow.excludedDays.includes(index)
+                              ? 'bg-red-50 text-red-700 border-red-200 font-medium line-through'
+                              : 'bg-gray-100 text-gray-500 border-transparent hover:border-gray-300'
+                          }`}
+                        >
+                          {day}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Sending holds outside these hours ({sendWindow.timezone}) and continues automatically.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Schedule</label>
+                <select
+                  className="input"
+                  value={scheduleMode}
+                  onChange={(e) => setScheduleMode(e.target.value as typeof scheduleMode)}
+                >
+                  <option value="now">Save as draft — start manually</option>
+                  <option value="once">Send once at a set time</option>
+                  <option value="recurring">Repeat on a schedule</option>
+                </select>
+                {scheduleMode === 'once' && (
+                  <input
+                    type="datetime-local"
+                    className="input mt-2"
+                    value={scheduledAt}
+                    onChange={(e) => setScheduledAt(e.target.value)}
+                    required
+                  />
+                )}
+                {scheduleMode === 'recurring' && (
+                  <div className="mt-2 space-y-2">
+                    <div className="flex gap-2">
+                      <select
+                        className="input"
+                        value={recurrence.frequency}
+                        onChange={(e) => setRecurrence({ ...recurrence, frequency: e.target.value as CampaignRecurrence['frequency'] })}
+                      >
+                        <option value="DAILY">Every day</option>
+                        <option value="WEEKLY">Weekly</option>
+                      </select>
+                      <input
+                        type="time"
+                        className="input"
+                        value={recurrence.time}
+                        onChange={(e) => setRecurrence({ ...recurrence, time: e.target.value })}
+                        required
+                      />
+                    </div>
+                    {recurrence.frequency === 'WEEKLY' && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {WEEKDAYS.map((day, index) => (
+                          <button
+                            key={day}
+                            type="button"
+                            onClick={() => toggleRecurrenceDay(index)}
+                            className={`px-2.5 py-1 rounded-full text-xs border transition-colors ${
+                              recurrence.daysOfWeek.includes(index)
+                                ? 'bg-blue-100 text-blue-700 border-blue-300 font-medium'
+                                : 'bg-gray-100 text-gray-500 border-transparent hover:border-gray-300'
+                            }`}
+                          >
+                            {day}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Times are in {recurrence.timezone}. Each run sends to leads who haven't received this template yet.
+                    </p>
+                  </div>
+                )}
+              </div>
             </div>
 
             {/* ── Right column: Lead picker ── */}
             <div className="flex flex-col gap-2">
+              <div className="flex rounded-lg border overflow-hidden text-xs font-medium">
+                <button
+                  type="button"
+                  onClick={() => setAudienceMode('selected')}
+                  className={`flex-1 px-3 py-1.5 ${audienceMode === 'selected' ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:bg-gray-50'}`}
+                >
+                  Pick leads
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setAudienceMode('filters')}
+                  className={`flex-1 px-3 py-1.5 border-l ${audienceMode === 'filters' ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:bg-gray-50'}`}
+                >
+                  All leads matching filters
+                </button>
+              </div>
+              {audienceMode === 'filters' && (
+                <p className="text-xs text-gray-500">
+                  Status, city and field filters are saved with the campaign and re-evaluated every time it runs.
+                </p>
+              )}
               <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-gray-700">
                   Select Leads
@@ -451,6 +1142,7 @@ function CreateCampaignModal({
                       setCityFilter('');
                       setStatusFilter([]);
                       setAddedWithin(0);
+                      setFieldFilters([]);
                       setSelectedLeadIds(new Set());
                     }}
                     className="text-xs text-gray-400 hover:text-red-500"
@@ -521,6 +1213,12 @@ function CreateCampaignModal({
                 ))}
               </div>
 
+              <CustomFieldFilters
+                fields={customFields}
+                value={fieldFilters}
+                onChange={(filters) => { setFieldFilters(filters); setSelectedLeadIds(new Set()); }}
+              />
+
               {/* Count + select all */}
               <div className="flex items-center justify-between pt-0.5 border-t">
                 <span className="text-xs text-gray-500">
@@ -589,7 +1287,11 @@ function CreateCampaignModal({
           <div className="flex justify-end gap-2 px-4 pb-4 pt-2 border-t">
             <button type="button" onClick={onClose} className="btn btn-secondary">Cancel</button>
             <button type="submit" className="btn btn-primary" disabled={createMutation.isPending}>
-              {createMutation.isPending ? 'Creating...' : `Create Campaign (${selectedLeadIds.size} leads)`}
+              {createMutation.isPending
+                ? 'Creating...'
+                : audienceMode === 'selected'
+                  ? `Create Campaign (${selectedLeadIds.size} leads)`
+                  : 'Create Campaign'}
             </button>
           </div>
         </form>
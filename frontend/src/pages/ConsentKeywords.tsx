@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2, Pencil, X, ShieldCheck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { consentKeywordsApi } from '../services/api';
+import type { ConsentAction, ConsentKeyword } from '../types';
+
+const LANGUAGES: Record<string, string> = {
+  en: 'English',
+  hi: 'Hindi',
+};
+
+function languageLabel(code: string) {
+  return LANGUAGES[code] || code.toUpperCase();
+}
+
+export default function ConsentKeywords() {
+  const queryClient = useQueryClient();
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<ConsentKeyword | null>(null);
+  const [newAction, setNewAction] = useState<ConsentAction>('OPT_OUT');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['consent-keywords'],
+    queryFn: consentKeywordsApi.list,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      consentKeywordsApi.update(id, { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['consent-keywords'] }),
+    onError: () => toast.error('Failed to update keyword'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: consentKeywordsApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['consent-keywords'] });
+      toast.success('Keyword deleted');
+    },
+    onError: () => toast.error('Failed to delete keyword'),
+  });
+
+  const keywords = data?.data || [];
+
+  const openCreate = (action: ConsentAction) => {
+    setEditing(null);
+    setNewAction(action);
+    setShowModal(true);
+  };
+
+  const sections: Array<{ action: ConsentAction; title: string; description: string }> = [
+    {
+      action: 'OPT_OUT',
+      title: 'Opt-out keywords',
+      description: 'Lead is marked opted out and Do Not Contact, and leaves any drip sequence.',
+    },
+    {
+      action: 'OPT_IN',
+      title: 'Opt-in keywords',
+      description: 'An opted-out lead can message us again; their previous status is restored.',
+    },
+  ];
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Opt-out & Opt-in</h1>
+        <p className="text-gray-500 mt-1">
+          Keywords leads can send to stop or resume WhatsApp messages
+        </p>
+      </div>
+
+      {/* Info Card */}
+      <div className="card p-4 mb-6 bg-blue-50 border-blue-200">
+        <div className="flex gap-3">
+          <ShieldCheck className="text-blue-600 flex-shrink-0" size={20} />
+          <div className="text-sm text-blue-800">
+            <p className="font-medium mb-1">How keywords match</p>
+            <p>
+              A keyword matches as a whole word or phrase, in any case — "stop" matches "STOP please"
+              but not "stopped", and a negation in front ("don't stop") is ignored. Every change is
+              recorded in the lead's consent history.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="card p-8 text-center text-gray-500">Loading...</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {sections.map((section) => {
+            const sectionKeywords = keywords.filter((k) => k.action === section.action);
+            return (
+              <div key={section.action} className="card p-4">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{section.title}</h2>
+                    <p className="text-xs text-gray-500 mt-1">{section.description}</p>
+                  </div>
+                  <button
+                    onClick={() => openCreate(section.action)}
+                    className="btn btn-secondary text-sm flex items-center gap-1 shrink-0"
+                  >
+                    <Plus size={16} />
+                    Add
+                  </button>
+                </div>
+
+                {sectionKeywords.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4 text-center">No keywords yet.</p>
+                ) : (
+                  <div className="divide-y">
+                    {sectionKeywords.map((keyword) => (
+                      <div
+                        key={keyword.id}
+                        className={`flex items-start justify-between gap-3 py-3 ${!keyword.isActive ? 'opacity-60' : ''}`}
+                      >
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-gray-900">{keyword.keyword}</span>
+                            <span className="badge bg-gray-100 text-gray-600">{languageLabel(keyword.language)}</span>
+                          </div>
+                          <p className="text-xs text-gray-500 mt-1 truncate">
+                            {keyword.replyText ? `Replies: ${keyword.replyText}` : 'No confirmation reply'}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <button
+                            onClick={() => toggleMutation.mutate({ id: keyword.id, isActive: !keyword.isActive })}
+                            className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                              keyword.isActive ? 'bg-green-500' : 'bg-gray-300'
+                            }`}
+                            title={keyword.isActive ? 'Active — click to disable' : 'Disabled — click to enable'}
+                          >
+                            <span
+                              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                                keyword.isActive ? 'translate-x-6' : 'translate-x-1'
+                              }`}
+                            />
+                          </button>
+                          <button
+                            onClick={() => {
+                              setEditing(keyword);
+                              setShowModal(true);
+                            }}
+                            className="p-2 text-gray-400 hover:text-blue-600"
+                            title="Edit"
+                          >
+                            <Pencil size={16} />
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (confirm(`Delete keyword "${keyword.keyword}"?`)) {
+                                deleteMutation.mutate(keyword.id);
+                              }
+                            }}
+                            className="p-2 text-gray-400 hover:text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showModal && (
+        <ConsentKeywordModal
+          keyword={editing}
+          action={editing?.action || newAction}
+          onClose={() => {
+            setShowModal(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ConsentKeywordModal({
+  keyword,
+  action,
+  onClose,
+}: {
+  keyword: ConsentKeyword | null;
+  action: ConsentAction;
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const isEdit = !!keyword;
+
+  const [formData, setFormData] = useState({
+    keyword: keyword?.keyword || '',
+    action,
+    language: keyword?.language || 'en',
+    replyText: keyword?.replyText || '',
+  });
+
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['consent-keywords'] });
+    toast.success(message);
+    onClose();
+  };
+  const onError = (err: any) => toast.error(err?.response?.data?.error || 'Failed to save keyword');
+
+  const createMutation = useMutation({
+    mutationFn: consentKeywordsApi.create,
+    onSuccess: () => onSuccess('Keyword added'),
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<ConsentKeyword> }) =>
+      consentKeywordsApi.update(id, data),
+    onSuccess: () => onSuccess('Keyword updated'),
+    onError,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = { ...formData, replyText: formData.replyText.trim() || null };
+
+    if (isEdit && keyword) {
+      updateMutation.mutate({ id: keyword.id, data: payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">
+            {isEdit ? 'Edit Keyword' : formData.action === 'OPT_OUT' ? 'Add Opt-out Keyword' : 'Add Opt-in Keyword'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Keyword *</label>
+              <input
+                type="text"
+                className="input"
+                placeholder={formData.action === 'OPT_OUT' ? 'e.g., stop' : 'e.g., start'}
+                value={formData.keyword}
+                onChange={(e) => setFormData({ ...formData, keyword: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+              <select
+                className="input"
+                value={formData.language}
+                onChange={(e) => setFormData({ ...formData, language: e.target.value })}
+              >
+                {Object.entries(LANGUAGES).map(([code, label]) => (
+                  <option key={code} value={code}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Action</label>
+            <select
+              className="input"
+              value={formData.action}
+              onChange={(e) => setFormData({ ...formData, action: e.target.value as ConsentAction })}
+            >
+              <option value="OPT_OUT">Opt out</option>
+              <option value="OPT_IN">Opt back in</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Confirmation Reply</label>
+            <textarea
+              className="input text-sm"
+              rows={3}
+              placeholder={
+                formData.action === 'OPT_OUT'
+                  ? "You won't receive further messages from us. Reply START to subscribe again."
+                  : "You're subscribed again. Reply STOP anytime to opt out."
+              }
+              value={formData.replyText}
+              onChange={(e) => setFormData({ ...formData, replyText: e.target.value })}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Optional. Sent only when the keyword changes the lead's consent.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={isPending}>
+              {isPending ? 'Saving...' : isEdit ? 'Update' : 'Add Keyword'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -2,44 +2,37 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   Search, ArrowLeft, Send, Clock, Check, CheckCheck, AlertCircle,
-  FileText, X, User, Play, Image, Trash2, ChevronDown, MessageSquare, Paperclip, Mic, Download, ExternalLink, Phone,
+  FileText, X, User, Play, Image, Trash2, Mail, StickyNote, ChevronDown, MessageSquare, Paperclip, Mic, Download, ExternalLink, Phone,
 } from 'lucide-react';
-import { conversationsApi, templatesApi } from '../services/api';
-import type { Conversation, MessageLogEntry, MessageStatus, MessageTemplate } from '../types';
+import toast from 'react-hot-toast';
+import { conversationsApi, templatesApi, usersApi, authApi, cannedResponsesApi } from '../services/api';
+import { useRealtimeConnected } from '../hooks/useRealtime';
+import type {
+  ApiResponse, Conversation, MessageLogEntry, MessageStatus, MessageTemplate, TeamMember, TimelineEntry, LeadStatus, CannedResponse,
+} from '../types';
 
-/* ─── Unread tracking via localStorage ─── */
-
-const LAST_READ_KEY = 'shuddhika_conversation_last_read';
-
-function getLastRead(): Record<string, string> {
-  try {
-    return JSON.parse(localStorage.getItem(LAST_READ_KEY) || '{}');
-  } catch { return {}; }
-}
-
-function markAsRead(leadId: string) {
-  const map = getLastRead();
-  map[leadId] = new Date().toISOString();
-  localStorage.setItem(LAST_READ_KEY, JSON.stringify(map));
-}
-
-function isUnread(conv: Conversation): boolean {
-  if (!conv.lastMessage) return false;
-  if (conv.lastMessage.direction !== 'INBOUND') return false;
-  const lastRead = getLastRead()[conv.leadId];
-  if (!lastRead) return true;
-  return new Date(conv.lastMessage.createdAt).getTime() > new Date(lastRead).getTime();
-}
+// Warn (and offer a fallback template) once the reply window is this close to closing
+const WINDOW_WARNING_MS = 60 * 60 * 1000;
+const FALLBACK_TEMPLATE_KEY = 'conversations.fallbackTemplateId';
 
 export default function Conversations() {
   const queryClient = useQueryClient();
+  const realtimeConnected = useRealtimeConnected();
   const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [activeFilter, setActiveFilter] = useState<'all' | 'replied'>('all');
+  const [activeFilter, setActiveFilter] = useState<'all' | 'replied' | 'unread'>('all');
+  const [ownerFilter, setOwnerFilter] = useState<'all' | 'mine' | 'unassigned'>('all');
   const [messageText, setMessageText] = useState('');
+  const [fallbackTemplateId, setFallbackTemplateId] = useState(() => localStorage.getItem(FALLBACK_TEMPLATE_KEY) || '');
+  const [now, setNow] = useState(() => Date.now());
+  // Saved reply inserted from a /shortcut — its media goes out with the text as caption
+  const [cannedReply, setCannedReply] = useState<{ id: string; mediaAsset: CannedResponse['mediaAsset'] } | null>(null);
+  const [composerMode, setComposerMode] = useState<'reply' | 'note'>('reply');
+  const [noteText, setNoteText] = useState('');
   const [showTemplateModal, setShowTemplateModal] = useState(false);
   const [deleteTarget, setDeleteTarget] = useState<{ leadId: string; name: string } | null>(null);
-  const [lastReadSnapshot, setLastReadSnapshot] = useState<string | null>(null);
+  // Unread count when the thread was opened — places the "New messages" divider
+  const [unreadSnapshot, setUnreadSnapshot] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -52,13 +45,14 @@ export default function Conversations() {
     hasNextPage,
     isFetchingNextPage,
   } = useInfiniteQuery({
-    queryKey: ['conversations', searchQuery, activeFilter],
+    queryKey: ['conversations', searchQuery, activeFilter, ownerFilter],
     queryFn: ({ pageParam }) =>
       conversationsApi.list({
         search: searchQuery || undefined,
         page: pageParam,
         limit: 30,
-        filter: activeFilter === 'replied' ? 'replied' : undefined,
+        filter: activeFilter === 'all' ? undefined : activeFilter,
+        assignee: ownerFilter === 'mine' ? 'me' : ownerFilter === 'unassigned' ? 'unassigned' : undefined,
       }),
     initialPageParam: 1,
     getNextPageParam: (lastPage) => {
@@ -66,10 +60,63 @@ export default function Conversations() {
       if (!p || p.page >= p.totalPages) return undefined;
       return p.page + 1;
     },
-    refetchInterval: searchQuery ? false : 10000,
+    // Pushed events keep the list current; poll only while the stream is down
+    refetchInterval: searchQuery || realtimeConnected ? false : 10000,
   });
 
   const conversations: Conversation[] = contactsData?.pages.flatMap((p) => p.data || []) || [];
+  const selectedConversation = conversations.find((c) => c.leadId === selectedLeadId);
+
+  const { data: meData } = useQuery({ queryKey: ['auth', 'me'], queryFn: authApi.me });
+  const { data: teamData } = useQuery({ queryKey: ['users'], queryFn: usersApi.list });
+  const { data: cannedResponses } = useQuery({
+    queryKey: ['canned-responses'],
+    queryFn: () => cannedResponsesApi.list(),
+  });
+  const me = meData?.data;
+  const team: TeamMember[] = teamData?.data || [];
+
+  const assignMutation = useMutation({
+    mutationFn: ({ leadId, userId }: { leadId: string; userId: string | null }) =>
+      conversationsApi.assign(leadId, userId),
+    onSuccess: (data) => {
+      toast.success(data.message || 'Conversation updated');
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+    onError: () => toast.error('Failed to assign conversation'),
+  });
+
+  const autoAssignMutation = useMutation({
+    mutationFn: (accepts: boolean) => usersApi.setAutoAssign(me!.id, accepts),
+    onSuccess: (data) => {
+      toast.success(data.message || 'Saved');
+      queryClient.invalidateQueries({ queryKey: ['auth', 'me'] });
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+    onError: () => toast.error('Failed to update round-robin'),
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: (leadId: string) => conversationsApi.markRead(leadId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['conversations'] }),
+  });
+
+  const markUnreadMutation = useMutation({
+    mutationFn: (leadId: string) => conversationsApi.markUnread(leadId),
+    onSuccess: () => {
+      setSelectedLeadId(null);
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+  });
+
+  // Opening a thread — or a message arriving while it's open — marks it read
+  const selectedUnread = selectedConversation?.unreadCount || 0;
+  useEffect(() => {
+    if (selectedLeadId && selectedUnread > 0 && !markReadMutation.isPending) {
+      markReadMutation.mutate(selectedLeadId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedLeadId, selectedUnread]);
 
   // IntersectionObserver to trigger loading next page
   useEffect(() => {
@@ -92,23 +139,83 @@ export default function Conversations() {
     queryKey: ['conversation-messages', selectedLeadId],
     queryFn: () => conversationsApi.getMessages(selectedLeadId!, { limit: 100 }),
     enabled: !!selectedLeadId,
-    refetchInterval: 5000,
+    refetchInterval: realtimeConnected ? false : 5000,
   });
 
   const lead = messagesData?.data?.lead;
   const messages: MessageLogEntry[] = messagesData?.data?.messages || [];
 
-  // 24-hour reply window: open only if lead sent a message in the last 24h
-  const lastInboundMessage = [...messages].reverse().find((m) => m.direction === 'INBOUND');
-  const windowOpen = lastInboundMessage
-    ? Date.now() - new Date(lastInboundMessage.createdAt).getTime() < 24 * 60 * 60 * 1000
-    : false;
+  // Internal notes and lead events, interleaved with the messages by time
+  const { data: timelineData } = useQuery({
+    queryKey: ['conversation-timeline', selectedLeadId],
+    queryFn: () => conversationsApi.getTimeline(selectedLeadId!),
+    enabled: !!selectedLeadId,
+    refetchInterval: realtimeConnected ? false : 15000,
+  });
+  const threadItems = [
+    ...messages.map((message) => ({ kind: 'message' as const, createdAt: message.createdAt, message })),
+    ...(timelineData?.data || []).map((entry) => ({ kind: 'timeline' as const, createdAt: entry.createdAt, entry })),
+  ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  // 24-hour reply window: open only if lead sent a message in the last 24h.
+  // The server enforces it too; this keeps the composer honest as time passes.
+  const windowExpiresAt = messagesData?.data?.window.expiresAt ?? selectedConversation?.windowExpiresAt ?? null;
+  const windowRemainingMs = windowExpiresAt ? new Date(windowExpiresAt).getTime() - now : 0;
+  const windowOpen = windowRemainingMs > 0;
+  const windowClosingSoon = windowOpen && windowRemainingMs < WINDOW_WARNING_MS;
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: templatesData } = useQuery({
+    queryKey: ['templates'],
+    queryFn: () => templatesApi.list(),
+    enabled: windowClosingSoon,
+  });
+  const approvedTemplates = (templatesData?.data || []).filter((t) => t.status === 'APPROVED');
+
+  const chooseFallbackTemplate = (templateId: string) => {
+    setFallbackTemplateId(templateId);
+    if (templateId) localStorage.setItem(FALLBACK_TEMPLATE_KEY, templateId);
+    else localStorage.removeItem(FALLBACK_TEMPLATE_KEY);
+  };
+  const sendOptions = { fallbackTemplateId: fallbackTemplateId || undefined };
+
+  // The server sent the fallback template because the window closed mid-typing
+  const reportFallback = (res: ApiResponse<MessageLogEntry>) => {
+    if (res.data?.templateId) toast(res.message || 'Reply window closed — sent a template instead');
+  };
+
+  const addNoteMutation = useMutation({
+    mutationFn: (body: string) => conversationsApi.addNote(selectedLeadId!, body),
+    onSuccess: () => {
+      setNoteText('');
+      queryClient.invalidateQueries({ queryKey: ['conversation-timeline', selectedLeadId] });
+    },
+    onError: () => toast.error('Failed to add note'),
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: (noteId: string) => conversationsApi.deleteNote(selectedLeadId!, noteId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['conversation-timeline', selectedLeadId] }),
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Failed to delete note'),
+  });
 
   // Send text message
   const sendTextMutation = useMutation({
-    mutationFn: (text: string) => conversationsApi.sendText(selectedLeadId!, text),
-    onSuccess: () => {
+    mutationFn: (text: string) =>
+      cannedReply?.mediaAsset
+        ? conversationsApi.sendLibraryMedia(selectedLeadId!, cannedReply.mediaAsset.id, text, {
+          ...sendOptions,
+          cannedResponseId: cannedReply.id,
+        })
+        : conversationsApi.sendText(selectedLeadId!, text, { ...sendOptions, cannedResponseId: cannedReply?.id }),
+    onSuccess: (res) => {
+      reportFallback(res);
       setMessageText('');
+      setCannedReply(null);
       queryClient.invalidateQueries({ queryKey: ['conversation-messages', selectedLeadId] });
       queryClient.invalidateQueries({ queryKey: ['conversations'] });
     },
@@ -138,8 +245,9 @@ export default function Conversations() {
   // Send media message
   const sendMediaMutation = useMutation({
     mutationFn: ({ file, caption }: { file: File; caption?: string }) =>
-      conversationsApi.sendMedia(selectedLeadId!, file, caption),
-    onSuccess: () => {
+      conversationsApi.sendMedia(selectedLeadId!, file, caption, sendOptions),
+    onSuccess: (res) => {
+      reportFallback(res);
       queryClient.invalidateQueries({ queryKey: ['conversation-messages', selectedLeadId] });
       queryClient.invalidateQueries({ queryKey: ['conversations'] });
     },
@@ -159,35 +267,64 @@ export default function Conversations() {
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, timelineData]);
+
+  // Typing "/" followed by a shortcut opens the saved replies picker
+  const shortcutQuery = /^\/\S*$/.test(messageText) ? messageText.slice(1).toLowerCase() : null;
+  const shortcutMatches = shortcutQuery === null
+    ? []
+    : (cannedResponses?.data || [])
+      .filter((r) => r.shortcut.startsWith(shortcutQuery) || r.title.toLowerCase().includes(shortcutQuery))
+      .slice(0, 6);
+
+  const insertCannedResponse = async (response: CannedResponse) => {
+    try {
+      const { data } = await cannedResponsesApi.render(response.id, selectedLeadId!);
+      if (!data) return;
+      setMessageText(data.text);
+      setCannedReply({ id: response.id, mediaAsset: data.mediaAsset });
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to insert saved reply');
+    }
+  };
 
   const handleSendText = (e: React.FormEvent) => {
     e.preventDefault();
     const trimmed = messageText.trim();
     if (!trimmed || sendTextMutation.isPending) return;
+    if (shortcutMatches.length > 0) {
+      insertCannedResponse(shortcutMatches[0]);
+      return;
+    }
     sendTextMutation.mutate(trimmed);
   };
 
-  const selectContact = useCallback((leadId: string) => {
-    const lastRead = getLastRead();
-    setLastReadSnapshot(lastRead[leadId] || null);
-    markAsRead(leadId);
-    setSelectedLeadId(leadId);
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = noteText.trim();
+    if (!trimmed || addNoteMutation.isPending) return;
+    addNoteMutation.mutate(trimmed);
+  };
+
+  const selectContact = useCallback((conv: Conversation) => {
+    setUnreadSnapshot(conv.unreadCount);
+    setSelectedLeadId(conv.leadId);
     setMessageText('');
+    setNoteText('');
+    setCannedReply(null);
+    setComposerMode('reply');
   }, []);
 
   // Find the index to insert "NEW MESSAGES" divider
   const newMessagesDividerIndex = (() => {
-    if (!lastReadSnapshot || messages.length === 0) return -1;
-    const lastReadTime = new Date(lastReadSnapshot).getTime();
-    for (let i = 0; i < messages.length; i++) {
-      const msg = messages[i];
-      if (msg.direction === 'INBOUND' && new Date(msg.createdAt).getTime() > lastReadTime) {
-        return i;
-      }
+    if (unreadSnapshot === 0) return -1;
+    let inboundSeen = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].direction === 'INBOUND' && ++inboundSeen === unreadSnapshot) return i;
     }
     return -1;
   })();
+  const newMessagesDividerId = newMessagesDividerIndex >= 0 ? messages[newMessagesDividerIndex].id : null;
 
   return (
     <div className="h-[calc(100dvh-4rem)] lg:h-[calc(100vh-7rem)] -m-6 flex bg-gray-100 overflow-hidden">
@@ -202,6 +339,21 @@ export default function Conversations() {
           <div className="px-4 pt-4 pb-1 md:hidden">
             <h1 className="text-xl font-bold text-gray-900">Conversations</h1>
           </div>
+          <div className="flex px-4 pt-2 gap-4 text-sm">
+            {(['mine', 'unassigned', 'all'] as const).map((owner) => (
+              <button
+                key={owner}
+                onClick={() => setOwnerFilter(owner)}
+                className={`pb-2 -mb-px border-b-2 font-medium transition-colors ${
+                  ownerFilter === owner
+                    ? 'border-primary-600 text-primary-700'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {owner === 'mine' ? 'Mine' : owner === 'unassigned' ? 'Unassigned' : 'All'}
+              </button>
+            ))}
+          </div>
           <div className="px-4 py-3 space-y-2">
             <div className="relative">
               <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
@@ -234,6 +386,31 @@ export default function Conversations() {
               >
                 Replied
               </button>
+              <button
+                onClick={() => setActiveFilter('unread')}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                  activeFilter === 'unread'
+                    ? 'bg-green-600 text-white'
+                    : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                }`}
+              >
+                Unread
+              </button>
+              {me && (
+                <label
+                  className="ml-auto flex items-center gap-1.5 text-xs text-gray-500 cursor-pointer"
+                  title="Share new inbound chats with the other opted-in team members, in turn"
+                >
+                  <input
+                    type="checkbox"
+                    className="rounded text-primary-600"
+                    checked={!!me.acceptsAutoAssign}
+                    disabled={autoAssignMutation.isPending}
+                    onChange={(e) => autoAssignMutation.mutate(e.target.checked)}
+                  />
+                  Round-robin
+                </label>
+              )}
             </div>
           </div>
         </div>
@@ -250,20 +427,30 @@ export default function Conversations() {
                 <MessageSquare size={24} className="text-gray-400" />
               </div>
               <p className="text-sm font-medium text-gray-600">
-                {searchQuery ? 'No contacts found' : activeFilter === 'replied' ? 'No replies yet' : 'No conversations yet'}
+                {searchQuery
+                  ? 'No contacts found'
+                  : ownerFilter === 'mine' && activeFilter === 'all'
+                    ? 'Nothing assigned to you'
+                    : activeFilter === 'replied' ? 'No replies yet' : activeFilter === 'unread' ? 'All caught up' : 'No conversations yet'}
               </p>
               <p className="text-xs text-gray-400 mt-1">
-                {searchQuery ? 'Try a different search' : activeFilter === 'replied' ? 'Leads who reply to your messages will appear here' : 'Send a campaign to start messaging'}
+                {searchQuery
+                  ? 'Try a different search'
+                  : ownerFilter === 'mine' && activeFilter === 'all'
+                    ? 'Conversations you take or are given will appear here'
+                    : activeFilter === 'replied'
+                    ? 'Leads who reply to your messages will appear here'
+                    : activeFilter === 'unread' ? 'No unread messages' : 'Send a campaign to start messaging'}
               </p>
             </div>
           ) : (
             <>
               {conversations.map((conv) => {
-                const unread = isUnread(conv);
+                const unread = conv.unreadCount > 0;
                 return (
                   <button
                     key={conv.leadId}
-                    onClick={() => selectContact(conv.leadId)}
+                    onClick={() => selectContact(conv)}
                     className={`w-full flex items-center gap-3.5 px-4 py-3.5 text-left transition-colors active:bg-gray-100 ${
                       selectedLeadId === conv.leadId
                         ? 'bg-primary-50'
@@ -292,9 +479,17 @@ export default function Conversations() {
                           {parsePreview(conv.lastMessage?.content)}
                         </p>
                         {unread && (
-                          <span className="flex-shrink-0 w-2.5 h-2.5 bg-green-500 rounded-full" />
+                          <span className="flex-shrink-0 min-w-[20px] h-5 px-1.5 bg-green-500 text-white text-[11px] font-semibold rounded-full flex items-center justify-center">
+                            {conv.unreadCount > 99 ? '99+' : conv.unreadCount}
+                          </span>
                         )}
                       </div>
+                      {ownerFilter === 'all' && conv.assignedTo && (
+                        <p className="flex items-center gap-1 text-[11px] text-gray-400 mt-0.5 truncate">
+                          <User size={11} className="flex-shrink-0" />
+                          {conv.assignedTo.id === me?.id ? 'You' : conv.assignedTo.name}
+                        </p>
+                      )}
                     </div>
                   </button>
                 );
@@ -357,6 +552,30 @@ export default function Conversations() {
                   {lead?.city && ` · ${lead.city}`}
                 </p>
               </div>
+              {selectedConversation && (
+                <select
+                  className="text-xs border border-gray-200 rounded-lg py-1.5 pl-2 pr-7 max-w-[9rem] text-gray-700 focus:ring-2 focus:ring-primary-500"
+                  value={selectedConversation.assignedTo?.id || ''}
+                  disabled={assignMutation.isPending}
+                  onChange={(e) => assignMutation.mutate({ leadId: selectedLeadId!, userId: e.target.value || null })}
+                  title="Assigned to"
+                >
+                  <option value="">Unassigned</option>
+                  {team.map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {member.id === me?.id ? `${member.name} (me)` : member.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => markUnreadMutation.mutate(selectedLeadId!)}
+                disabled={markUnreadMutation.isPending}
+                className="p-2 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-full transition-colors"
+                title="Mark as unread"
+              >
+                <Mail size={18} />
+              </button>
               <button
                 onClick={() => setDeleteTarget({ leadId: selectedLeadId!, name: lead?.name || 'this contact' })}
                 className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-full transition-colors"
@@ -374,16 +593,27 @@ export default function Conversations() {
                     Failed to load messages. Retrying...
                   </p>
                 </div>
-              ) : messages.length === 0 ? (
+              ) : threadItems.length === 0 ? (
                 <div className="text-center py-10">
                   <p className="text-sm text-gray-600 bg-white/80 rounded-lg inline-block px-4 py-2">
                     No messages yet. Send a template to start the conversation.
                   </p>
                 </div>
               ) : (
-                messages.map((msg, idx) => (
-                  <div key={msg.id}>
-                    {idx === newMessagesDividerIndex && (
+                threadItems.map((item) => item.kind === 'timeline' ? (
+                  item.entry.type === 'NOTE' ? (
+                    <InternalNote
+                      key={item.entry.id}
+                      entry={item.entry}
+                      canDelete={item.entry.actor?.id === me?.id || me?.role === 'ADMIN'}
+                      onDelete={() => deleteNoteMutation.mutate(item.entry.id)}
+                    />
+                  ) : (
+                    <TimelineEvent key={item.entry.id} entry={item.entry} />
+                  )
+                ) : (
+                  <div key={item.message.id}>
+                    {item.message.id === newMessagesDividerId && (
                       <div className="flex items-center gap-3 py-2 my-1">
                         <div className="flex-1 h-px bg-[#f9a825]" />
                         <span className="text-[11px] font-medium text-[#f9a825] bg-white/90 px-3 py-1 rounded-full shadow-sm uppercase tracking-wide">
@@ -393,8 +623,10 @@ export default function Conversations() {
                       </div>
                     )}
                     <ChatBubble
-                      message={msg}
-                      isNew={newMessagesDividerIndex >= 0 && idx >= newMessagesDividerIndex && msg.direction === 'INBOUND'}
+                      message={item.message}
+                      isNew={newMessagesDividerIndex >= 0
+                        && messages.indexOf(item.message) >= newMessagesDividerIndex
+                        && item.message.direction === 'INBOUND'}
                     />
                   </div>
                 ))
@@ -404,7 +636,47 @@ export default function Conversations() {
 
             {/* Input Area */}
             <div className="bg-white px-2 md:px-4 py-2 md:py-3 border-t flex-shrink-0 pb-[max(0.5rem,env(safe-area-inset-bottom))]">
-              {lead?.optedOut ? (
+              <div className="flex gap-1.5 mb-2 px-1">
+                <button
+                  type="button"
+                  onClick={() => setComposerMode('reply')}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    composerMode === 'reply' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                  }`}
+                >
+                  Reply
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setComposerMode('note')}
+                  className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    composerMode === 'note' ? 'bg-amber-500 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+                  }`}
+                >
+                  <StickyNote size={12} />
+                  Internal note
+                </button>
+              </div>
+              {composerMode === 'note' ? (
+                <form onSubmit={handleAddNote} className="flex items-center gap-1 md:gap-2">
+                  <input
+                    type="text"
+                    placeholder="Note for your team — not sent to the contact"
+                    className="flex-1 min-w-0 py-2.5 px-4 bg-amber-50 rounded-full text-[15px] md:text-sm border border-amber-200 focus:ring-2 focus:ring-amber-400 focus:bg-white"
+                    value={noteText}
+                    onChange={(e) => setNoteText(e.target.value)}
+                    maxLength={4000}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!noteText.trim() || addNoteMutation.isPending}
+                    className="p-2.5 text-white bg-amber-500 hover:bg-amber-600 rounded-full disabled:opacity-50 flex-shrink-0"
+                    title="Add note"
+                  >
+                    <Send size={20} />
+                  </button>
+                </form>
+              ) : lead?.optedOut ? (
                 <div className="text-center text-sm text-orange-600 py-2">
                   This contact has opted out of messages
                 </div>
@@ -427,6 +699,60 @@ export default function Conversations() {
                       </button>
                     </div>
                   )}
+                  {windowClosingSoon && (
+                    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mb-2 px-2 py-1.5 bg-amber-50 border border-amber-200 rounded-xl text-xs text-amber-800">
+                      <Clock size={13} className="flex-shrink-0 text-amber-600" />
+                      <span>Reply window closes in {Math.max(1, Math.ceil(windowRemainingMs / 60000))} min.</span>
+                      <label className="flex items-center gap-1.5 ml-auto">
+                        If it closes first, send
+                        <select
+                          className="border border-amber-200 rounded bg-white text-xs py-0.5 pl-1 pr-6"
+                          value={fallbackTemplateId}
+                          onChange={(e) => chooseFallbackTemplate(e.target.value)}
+                        >
+                          <option value="">nothing</option>
+                          {approvedTemplates.map((t) => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                  )}
+                  {shortcutMatches.length > 0 && (
+                    <div className="mb-2 border rounded-lg bg-white shadow-sm divide-y max-h-60 overflow-y-auto">
+                      {shortcutMatches.map((response) => (
+                        <button
+                          key={response.id}
+                          type="button"
+                          onClick={() => insertCannedResponse(response)}
+                          className="w-full text-left px-3 py-2 hover:bg-gray-50"
+                        >
+                          <div className="flex items-center gap-2 text-sm">
+                            <span className="font-mono text-primary-700">/{response.shortcut}</span>
+                            <span className="font-medium text-gray-900 truncate">{response.title}</span>
+                            {response.mediaAsset && <Paperclip size={12} className="text-gray-400 flex-shrink-0" />}
+                          </div>
+                          <p className="text-xs text-gray-500 truncate">{response.body}</p>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {cannedReply?.mediaAsset && (
+                    <div className="mb-2 flex items-center gap-2 px-3 py-1.5 bg-gray-50 border rounded-lg text-xs text-gray-600">
+                      <Paperclip size={12} />
+                      <span className="truncate flex-1">
+                        {cannedReply.mediaAsset.name} — the message is sent as its caption
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setCannedReply(null)}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Remove attachment"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  )}
                   <form onSubmit={handleSendText} className="flex items-center gap-1 md:gap-2">
                     <button
                       type="button"
@@ -454,7 +780,7 @@ export default function Conversations() {
                     />
                     <input
                       type="text"
-                      placeholder={windowOpen ? 'Type a message...' : 'Window closed — send a template'}
+                      placeholder={windowOpen ? 'Type a message, or / for saved replies' : 'Window closed — send a template'}
                       className="flex-1 min-w-0 py-2.5 px-4 bg-gray-100 rounded-full text-[15px] md:text-sm border-0 focus:ring-2 focus:ring-primary-500 focus:bg-white disabled:cursor-not-allowed disabled:text-gray-400"
                       value={messageText}
                       onChange={(e) => setMessageText(e.target.value)}
@@ -622,6 +948,7 @@ function ChatBubble({ message, isNew }: { message: MessageLogEntry; isNew?: bool
   let mediaType: string | undefined;
   let mediaId: string | undefined;
   let filename: string | undefined;
+  let replyButtons: string[] | undefined;
 
   if (message.content && message.content.startsWith('{')) {
     try {
@@ -631,6 +958,7 @@ function ChatBubble({ message, isNew }: { message: MessageLogEntry; isNew?: bool
       mediaType = parsed.mediaType;
       mediaId = parsed.mediaId;
       filename = parsed.filename;
+      replyButtons = parsed.buttons;
     } catch { /* not JSON, use as-is */ }
   }
 
@@ -640,7 +968,9 @@ function ChatBubble({ message, isNew }: { message: MessageLogEntry; isNew?: bool
     mediaType = 'IMAGE';
   }
 
-  const buttons = message.template?.buttons;
+  // Interactive reply buttons (chatbot) render like template quick replies
+  const buttons = message.template?.buttons
+    || replyButtons?.map((text) => ({ type: 'QUICK_REPLY', text }));
 
   return (
     <div className={`flex ${isOutbound ? 'justify-end' : 'justify-start'}`}>
@@ -847,8 +1177,84 @@ function TemplateModal({
   );
 }
 
+function InternalNote({ entry, canDelete, onDelete }: { entry: TimelineEntry; canDelete: boolean; onDelete: () => void }) {
+  return (
+    <div className="flex justify-center my-2">
+      <div className="group w-full max-w-[85%] md:max-w-[70%] bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 shadow-sm">
+        <div className="flex items-center gap-1.5 text-[11px] text-amber-700 font-medium mb-0.5">
+          <StickyNote size={11} />
+          <span className="truncate">{entry.actor?.name || 'Former teammate'} · internal note</span>
+          <span className="ml-auto text-amber-600/70 font-normal flex-shrink-0">{formatTime(entry.createdAt)}</span>
+          {canDelete && (
+            <button
+              onClick={onDelete}
+              className="opacity-0 group-hover:opacity-100 p-0.5 text-amber-500 hover:text-red-500 transition-opacity"
+              title="Delete note"
+            >
+              <Trash2 size={12} />
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{entry.body}</p>
+      </div>
+    </div>
+  );
+}
+
+function TimelineEvent({ entry }: { entry: TimelineEntry }) {
+  const by = entry.actor?.name || entry.data?.source;
+
+  return (
+    <div className="flex justify-center my-1.5">
+      <span className="text-[11px] text-gray-600 bg-white/80 px-3 py-1 rounded-full shadow-sm text-center">
+        {describeTimelineEntry(entry)}
+        {by && <span className="text-gray-400"> · {by}</span>}
+        <span className="text-gray-400"> · {formatTime(entry.createdAt)}</span>
+      </span>
+    </div>
+  );
+}
+
 /* ─── Helpers ─── */
 
+function describeTimelineEntry(entry: TimelineEntry): string {
+  const data = entry.data || {};
+
+  switch (entry.type) {
+    case 'STATUS_CHANGED':
+      return `Status changed from ${formatStatus(data.from)} to ${formatStatus(data.to as LeadStatus)}`;
+    case 'TAGS_CHANGED':
+      return `Tags ${[
+        ...(data.added || []).map((t) => `+${t}`),
+        ...(data.removed || []).map((t) => `−${t}`),
+      ].join(' ')}`;
+    case 'ASSIGNED': {
+      const to = data.to as { name: string } | null | undefined;
+      if (!to) return 'Unassigned';
+      return `${data.auto ? 'Auto-assigned' : 'Assigned'} to ${to.name}`;
+    }
+    case 'MERGED':
+      return data.merged
+        ? `Merged with duplicate lead ${data.merged.name} (+${data.merged.phone})`
+        : 'Merged with a duplicate lead';
+    case 'OPTED_OUT':
+      return data.keyword ? `Opted out by replying "${data.keyword}"` : 'Opted out';
+    case 'OPTED_IN':
+      return data.keyword ? `Opted back in by replying "${data.keyword}"` : 'Opted back in';
+    case 'CAMPAIGN_ENROLLED':
+      return `Added to campaign "${data.campaignName}"`;
+    case 'SEQUENCE_ENROLLED':
+      return `Enrolled in sequence "${data.sequenceName}"`;
+    default:
+      return entry.body || '';
+  }
+}
+
+function formatStatus(status?: LeadStatus): string {
+  if (!status) return 'unknown';
+  return status.charAt(0) + status.slice(1).toLowerCase().replace(/_/g, ' ');
+}
+
 function parsePreview(content?: string): string {
   if (!content) return 'Template message';
   if (content.startsWith('{')) {
@@ -261,6 +261,7 @@ function formatSource(source: string): string {
     INSTAGRAM: 'Instagram',
     WEBSITE: 'Website',
     REFERRAL: 'Referral',
+    WHATSAPP_INBOUND: 'WhatsApp Inbound',
   };
   return names[source] || source;
 }
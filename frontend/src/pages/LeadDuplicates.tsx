@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Copy, GitMerge, MessageSquare, Megaphone, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { leadsApi } from '../services/api';
+import type { DuplicateCandidate, DuplicateLead, LeadMergeField } from '../types';
+
+const SENSITIVITY = [
+  { label: 'Likely only', minScore: 60 },
+  { label: 'Possible', minScore: 40 },
+  { label: 'Everything', minScore: 25 },
+];
+
+const MERGE_FIELDS: { field: LeadMergeField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'email', label: 'Email' },
+  { field: 'businessName', label: 'Business' },
+  { field: 'businessType', label: 'Business type' },
+  { field: 'source', label: 'Source' },
+  { field: 'status', label: 'Status' },
+  { field: 'address', label: 'Address' },
+  { field: 'city', label: 'City' },
+  { field: 'state', label: 'State' },
+  { field: 'pincode', label: 'Pincode' },
+  { field: 'notes', label: 'Notes' },
+];
+
+export default function LeadDuplicates() {
+  const navigate = useNavigate();
+  const [minScore, setMinScore] = useState(40);
+  const [reviewing, setReviewing] = useState<DuplicateCandidate | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['lead-duplicates', minScore],
+    queryFn: () => leadsApi.findDuplicates({ minScore }),
+  });
+
+  const candidates = data?.data || [];
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-6">
+        <button
+          onClick={() => navigate('/leads')}
+          className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-gray-900">Duplicate Leads</h1>
+          <p className="text-gray-500 mt-1">
+            Leads that look like the same business under different numbers, matched by name, email, address and pincode
+          </p>
+        </div>
+        <select
+          className="input w-auto"
+          value={minScore}
+          onChange={(e) => setMinScore(Number(e.target.value))}
+        >
+          {SENSITIVITY.map((s) => (
+            <option key={s.minScore} value={s.minScore}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="card p-8 text-center text-gray-500">Looking for duplicates...</div>
+      ) : candidates.length === 0 ? (
+        <div className="card p-8 text-center">
+          <Copy size={32} className="mx-auto text-gray-300 mb-2" />
+          <p className="text-gray-500">No likely duplicates found.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {candidates.map((candidate) => (
+            <div key={candidate.leads.map((l) => l.id).join('|')} className="card p-4">
+              <div className="flex items-center justify-between gap-3 mb-3">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <ScoreBadge score={candidate.score} />
+                  {candidate.reasons.map((reason) => (
+                    <span key={reason} className="badge bg-gray-100 text-gray-600">{reason}</span>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setReviewing(candidate)}
+                  className="btn btn-secondary text-sm flex items-center gap-1.5 flex-shrink-0"
+                >
+                  <GitMerge size={16} />
+                  Review & merge
+                </button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {candidate.leads.map((lead) => (
+                  <LeadSummary key={lead.id} lead={lead} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {reviewing && <MergeModal candidate={reviewing} onClose={() => setReviewing(null)} />}
+    </div>
+  );
+}
+
+function ScoreBadge({ score }: { score: number }) {
+  const color = score >= 60 ? 'bg-red-100 text-red-700' : score >= 40 ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-600';
+  return <span className={`badge ${color} font-semibold`}>{score}% match</span>;
+}
+
+function LeadSummary({ lead }: { lead: DuplicateLead }) {
+  return (
+    <div className="rounded-lg border border-gray-200 p-3 text-sm">
+      <div className="font-medium text-gray-900">{lead.businessName || lead.name}</div>
+      {lead.businessName && <div className="text-gray-600">{lead.name}</div>}
+      <div className="text-gray-500 mt-1">+{lead.phone}{lead.email && ` · ${lead.email}`}</div>
+      {(lead.address || lead.city || lead.pincode) && (
+        <div className="text-gray-500">
+          {[lead.address, lead.city, lead.pincode].filter(Boolean).join(', ')}
+        </div>
+      )}
+      <div className="flex items-center gap-3 mt-2 text-xs text-gray-400">
+        <span>{formatLabel(lead.source)}</span>
+        <span>{formatLabel(lead.status)}</span>
+        <span className="flex items-center gap-1"><MessageSquare size={12} />{lead._count.messages}</span>
+        <span className="flex items-center gap-1"><Megaphone size={12} />{lead._count.campaignLeads}</span>
+        <span>Added {new Date(lead.createdAt).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
+
+function MergeModal({ candidate, onClose }: { candidate: DuplicateCandidate; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const [first, second] = candidate.leads;
+
+  // The lead with more history survives by default; ties go to the older one
+  const [survivorId, setSurvivorId] = useState(
+    second._count.messages + second._count.campaignLeads > first._count.messages + first._count.campaignLeads
+      ? second.id
+      : first.id
+  );
+  const survivor = survivorId === first.id ? first : second;
+  const merged = survivorId === first.id ? second : first;
+
+  const differing = MERGE_FIELDS.filter(({ field }) => (first[field] || '') !== (second[field] || ''));
+
+  // Per field, the id of the lead whose value is kept: the survivor's, unless it has none
+  const [picks, setPicks] = useState<Partial<Record<LeadMergeField, string>>>(() =>
+    Object.fromEntries(
+      differing.map(({ field }) => [field, survivor[field] ? survivor.id : merged.id])
+    )
+  );
+  const allTags = [...new Set([...first.tags, ...second.tags])];
+  const [tags, setTags] = useState<string[]>(allTags);
+
+  const mergeMutation = useMutation({
+    mutationFn: leadsApi.merge,
+    onSuccess: (res) => {
+      toast.success(res.message || 'Leads merged');
+      queryClient.invalidateQueries({ queryKey: ['lead-duplicates'] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      onClose();
+    },
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Failed to merge leads'),
+  });
+
+  const handleMerge = () => {
+    const fields = Object.fromEntries(
+      Object.entries(picks).map(([field, leadId]) => [field, leadId === survivor.id ? 'survivor' : 'merged'])
+    );
+    mergeMutation.mutate({ survivorId: survivor.id, mergedId: merged.id, fields, tags });
+  };
+
+  const toggleTag = (tag: string) =>
+    setTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">Merge Leads</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Messages, campaigns, sequences, notes and the conversation of the merged lead move to the one you keep. Its custom field values fill any blanks on the one you keep.
+            The other lead is then deleted.
+          </p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-3 font-medium w-32" />
+                {candidate.leads.map((lead) => (
+                  <th key={lead.id} className="py-2 px-2 font-medium">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="survivor"
+                        checked={survivorId === lead.id}
+                        onChange={() => setSurvivorId(lead.id)}
+                      />
+                      <span className={survivorId === lead.id ? 'text-gray-900' : ''}>
+                        {survivorId === lead.id ? 'Keep this lead' : 'Merge into the other'}
+                      </span>
+                    </label>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {differing.map(({ field, label }) => (
+                <tr key={field}>
+                  <td className="py-2 pr-3 text-gray-500">{label}</td>
+                  {candidate.leads.map((lead) => (
+                    <td key={lead.id} className="py-2 px-2">
+                      <label className="flex items-start gap-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          name={`field-${field}`}
+                          className="mt-0.5"
+                          checked={picks[field] === lead.id}
+                          onChange={() => setPicks({ ...picks, [field]: lead.id })}
+                        />
+                        <span className={lead[field] ? 'text-gray-900 break-words' : 'text-gray-400 italic'}>
+                          {lead[field]
+                            ? field === 'source' || field === 'status'
+                              ? formatLabel(lead[field] as string)
+                              : field === 'phone' ? `+${lead.phone}` : lead[field]
+                            : 'empty'}
+                        </span>
+                      </label>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {differing.length < MERGE_FIELDS.length && (
+                <tr>
+                  <td colSpan={3} className="py-2 text-xs text-gray-400">
+                    {MERGE_FIELDS.length - differing.length} other field(s) are the same on both leads.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          {allTags.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Tags</p>
+              <div className="flex flex-wrap gap-2">
+                {allTags.map((tag) => (
+                  <label key={tag} className="flex items-center gap-1.5 text-sm cursor-pointer">
+                    <input type="checkbox" checked={tags.includes(tag)} onChange={() => toggleTag(tag)} />
+                    {tag}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(first.optedOut || second.optedOut) && (
+            <p className="text-xs text-orange-600">
+              One of these leads has opted out — the merged lead stays opted out.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={handleMerge}
+              className="btn btn-primary flex items-center gap-2"
+              disabled={mergeMutation.isPending}
+            >
+              <GitMerge size={16} />
+              {mergeMutation.isPending ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatLabel(value: string): string {
+  return value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, ' ');
+}
@@ -0,0 +1,428 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Plus, Pencil, Trash2, X, SlidersHorizontal } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { authApi, customFieldsApi } from '../services/api';
+import type { CustomField, CustomFieldFilter, CustomFieldType, CustomFieldValue } from '../types';
+
+const FIELD_TYPES: { type: CustomFieldType; label: string }[] = [
+  { type: 'TEXT', label: 'Text' },
+  { type: 'NUMBER', label: 'Number' },
+  { type: 'DATE', label: 'Date' },
+  { type: 'SELECT', label: 'Dropdown' },
+  { type: 'MULTI_SELECT', label: 'Multi-select' },
+];
+
+const isChoice = (type: CustomFieldType) => type === 'SELECT' || type === 'MULTI_SELECT';
+
+export default function LeadFields() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<CustomField | null>(null);
+
+  const { data: meData } = useQuery({ queryKey: ['auth', 'me'], queryFn: authApi.me });
+  const isAdmin = meData?.data?.role === 'ADMIN';
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['custom-fields'],
+    queryFn: customFieldsApi.list,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: customFieldsApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['custom-fields'] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      toast.success('Field deleted');
+    },
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Failed to delete field'),
+  });
+
+  const fields = data?.data || [];
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-6">
+        <button
+          onClick={() => navigate('/leads')}
+          className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold text-gray-900">Lead Fields</h1>
+          <p className="text-gray-500 mt-1">
+            Extra details to keep on every lead — filterable, importable from CSV and usable in templates
+          </p>
+        </div>
+        {isAdmin && (
+          <button
+            onClick={() => {
+              setEditing(null);
+              setShowModal(true);
+            }}
+            className="btn btn-primary flex items-center gap-2"
+          >
+            <Plus size={18} />
+            New Field
+          </button>
+        )}
+      </div>
+
+      <div className="card overflow-hidden">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 py-8 text-center">Loading...</p>
+        ) : fields.length === 0 ? (
+          <div className="p-8 text-center">
+            <SlidersHorizontal size={32} className="mx-auto text-gray-300 mb-2" />
+            <p className="text-gray-500">
+              No custom fields yet. Add things like monthly volume, current brand or GST number.
+            </p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                <th className="px-4 py-3">Label</th>
+                <th className="px-4 py-3">Key</th>
+                <th className="px-4 py-3">Type</th>
+                <th className="px-4 py-3">Options</th>
+                {isAdmin && <th className="px-4 py-3" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {fields.map((field) => (
+                <tr key={field.id}>
+                  <td className="px-4 py-3 font-medium text-gray-900">{field.label}</td>
+                  <td className="px-4 py-3 font-mono text-gray-600">{field.key}</td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {FIELD_TYPES.find((t) => t.type === field.type)?.label}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{field.options.join(', ') || '—'}</td>
+                  {isAdmin && (
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        <button
+                          onClick={() => {
+                            setEditing(field);
+                            setShowModal(true);
+                          }}
+                          className="p-2 text-gray-400 hover:text-blue-600"
+                          title="Edit"
+                        >
+                          <Pencil size={16} />
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`Delete "${field.label}"? Its value is removed from every lead.`)) {
+                              deleteMutation.mutate(field.id);
+                            }
+                          }}
+                          className="p-2 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400 mt-3">
+        CSV imports fill a field from a column named after its key or label. In templates, map a variable to the
+        field or name the variable after its key, e.g. <code>{'{{monthly_volume}}'}</code>.
+      </p>
+
+      {showModal && (
+        <FieldModal
+          field={editing}
+          nextOrder={fields.length}
+          onClose={() => {
+            setShowModal(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function FieldModal({ field, nextOrder, onClose }: { field: CustomField | null; nextOrder: number; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const isEdit = !!field;
+  const [label, setLabel] = useState(field?.label || '');
+  const [key, setKey] = useState(field?.key || '');
+  const [type, setType] = useState<CustomFieldType>(field?.type || 'TEXT');
+  const [options, setOptions] = useState((field?.options || []).join('\n'));
+  const [order, setOrder] = useState(field?.order ?? nextOrder);
+
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['custom-fields'] });
+    toast.success(message);
+    onClose();
+  };
+  const onError = (err: any) => toast.error(err.response?.data?.error || 'Failed to save field');
+
+  const createMutation = useMutation({
+    mutationFn: customFieldsApi.create,
+    onSuccess: () => onSuccess('Field added'),
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CustomField> }) => customFieldsApi.update(id, data),
+    onSuccess: () => onSuccess('Field updated'),
+    onError,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const optionList = options.split('\n').map((o) => o.trim()).filter(Boolean);
+
+    if (isEdit && field) {
+      updateMutation.mutate({
+        id: field.id,
+        data: { label, order, ...(isChoice(field.type) && { options: optionList }) },
+      });
+    } else {
+      createMutation.mutate({ label, key: key || undefined, type, order, options: isChoice(type) ? optionList : [] });
+    }
+  };
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">{isEdit ? 'Edit Field' : 'New Field'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Label *</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="e.g., Monthly oil volume (L)"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Key</label>
+              <input
+                type="text"
+                className="input font-mono"
+                placeholder="from the label"
+                value={key}
+                onChange={(e) => setKey(e.target.value.toLowerCase())}
+                disabled={isEdit}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                className="input"
+                value={type}
+                onChange={(e) => setType(e.target.value as CustomFieldType)}
+                disabled={isEdit}
+              >
+                {FIELD_TYPES.map((t) => (
+                  <option key={t.type} value={t.type}>{t.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {isEdit && <p className="text-xs text-gray-400 -mt-2">The key and type can't change once a field exists.</p>}
+          {isChoice(type) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Options * (one per line)</label>
+              <textarea
+                className="input text-sm"
+                rows={4}
+                value={options}
+                onChange={(e) => setOptions(e.target.value)}
+                required
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Position</label>
+            <input
+              type="number"
+              className="input w-24"
+              value={order}
+              onChange={(e) => setOrder(Number(e.target.value))}
+            />
+          </div>
+          <div className="flex justify-end gap-2 pt-4">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={isPending}>
+              {isPending ? 'Saving...' : isEdit ? 'Update' : 'Add Field'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// Form control for one custom field's value, by field type
+export function CustomFieldInput({
+  field,
+  value,
+  onChange,
+}: {
+  field: CustomField;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue | null) => void;
+}) {
+  switch (field.type) {
+    case 'SELECT':
+      return (
+        <select className="input" value={typeof value === 'string' ? value : ''} onChange={(e) => onChange(e.target.value || null)}>
+          <option value="">—</option>
+          {field.options.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'MULTI_SELECT': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-x-3 gap-y-1">
+          {field.options.map((option) => (
+            <label key={option} className="flex items-center gap-1.5 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={() =>
+                  onChange(selected.includes(option) ? selected.filter((o) => o !== option) : [...selected, option])
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+    default:
+      return (
+        <input
+          type={field.type === 'NUMBER' ? 'number' : field.type === 'DATE' ? 'date' : 'text'}
+          className="input"
+          value={value == null || Array.isArray(value) ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value === '' ? null : field.type === 'NUMBER' ? Number(e.target.value) : e.target.value)}
+        />
+      );
+  }
+}
+
+// Editable list of custom field filters, shared by the lead list and campaign audiences
+export function CustomFieldFilters({
+  fields,
+  value,
+  onChange,
+}: {
+  fields: CustomField[];
+  value: CustomFieldFilter[];
+  onChange: (filters: CustomFieldFilter[]) => void;
+}) {
+  if (fields.length === 0) return null;
+
+  const update = (index: number, filter: CustomFieldFilter) =>
+    onChange(value.map((f, i) => (i === index ? filter : f)));
+
+  return (
+    <div className="space-y-2">
+      {value.map((filter, index) => {
+        const field = fields.find((f) => f.key === filter.key);
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              className="input w-auto"
+              value={filter.key}
+              onChange={(e) => update(index, { key: e.target.value })}
+            >
+              {fields.map((f) => (
+                <option key={f.key} value={f.key}>{f.label}</option>
+              ))}
+            </select>
+            {field && isChoice(field.type) && (
+              <select
+                className="input w-auto"
+                value={filter.values?.[0] || ''}
+                onChange={(e) => update(index, { key: filter.key, values: e.target.value ? [e.target.value] : undefined })}
+              >
+                <option value="">Any value</option>
+                {field.options.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            )}
+            {field?.type === 'TEXT' && (
+              <input
+                type="text"
+                className="input w-48"
+                placeholder="Contains..."
+                value={filter.contains || ''}
+                onChange={(e) => update(index, { key: filter.key, contains: e.target.value || undefined })}
+              />
+            )}
+            {(field?.type === 'NUMBER' || field?.type === 'DATE') && (['min', 'max'] as const).map((bound) => (
+              <input
+                key={bound}
+                type={field.type === 'NUMBER' ? 'number' : 'date'}
+                className="input w-36"
+                placeholder={bound === 'min' ? 'From' : 'To'}
+                title={bound === 'min' ? 'From' : 'To'}
+                value={filter[bound] ?? ''}
+                onChange={(e) =>
+                  update(index, {
+                    ...filter,
+                    [bound]: e.target.value === '' ? undefined : field.type === 'NUMBER' ? Number(e.target.value) : e.target.value,
+                  })
+                }
+              />
+            ))}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Remove filter"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...value, { key: fields[0]!.key }])}
+        className="text-sm text-primary-600 hover:text-primary-700 flex items-center gap-1"
+      >
+        <Plus size={14} />
+        Filter by field
+      </button>
+    </div>
+  );
+}
+
+// Filters the server can use: a field picked with no value yet filters nothing
+export function activeCustomFieldFilters(filters: CustomFieldFilter[]): CustomFieldFilter[] {
+  return filters.filter((f) => f.values?.length || f.contains || f.min !== undefined || f.max !== undefined);
+}
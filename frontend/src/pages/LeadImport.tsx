@@ -0,0 +1,433 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Upload, Download, FileSpreadsheet, CheckCircle, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { leadsApi } from '../services/api';
+import { useRealtimeConnected } from '../hooks/useRealtime';
+import type { ImportDuplicateMode, ImportJob, ImportMapping, ImportUpload, ImportedLead } from '../types';
+
+const DUPLICATE_MODES: { mode: ImportDuplicateMode; label: string; description: string }[] = [
+  { mode: 'SKIP', label: 'Skip', description: 'Leave existing leads as they are' },
+  { mode: 'UPDATE', label: 'Update', description: "Overwrite existing leads' details with the file's values" },
+  { mode: 'MERGE', label: 'Merge', description: 'Only fill in details existing leads are missing, and add tags' },
+];
+
+export default function LeadImport() {
+  const navigate = useNavigate();
+  const [upload, setUpload] = useState<ImportUpload | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-6">
+        <button
+          onClick={() => navigate('/leads')}
+          className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import Leads</h1>
+          <p className="text-gray-500 mt-1">
+            Upload a CSV or Excel file, match its columns to lead fields and check the rows before importing
+          </p>
+        </div>
+      </div>
+
+      {jobId ? (
+        <ImportProgress
+          jobId={jobId}
+          onRestart={() => {
+            setJobId(null);
+            setUpload(null);
+          }}
+        />
+      ) : upload ? (
+        <MappingStep upload={upload} onStarted={setJobId} onCancel={() => setUpload(null)} />
+      ) : (
+        <UploadStep onUploaded={setUpload} onOpenJob={setJobId} />
+      )}
+    </div>
+  );
+}
+
+function UploadStep({ onUploaded, onOpenJob }: { onUploaded: (upload: ImportUpload) => void; onOpenJob: (id: string) => void }) {
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: importsData } = useQuery({
+    queryKey: ['lead-imports'],
+    queryFn: leadsApi.listImports,
+  });
+  const recent = importsData?.data || [];
+
+  const uploadMutation = useMutation({
+    mutationFn: leadsApi.uploadImport,
+    onSuccess: (res) => res.data && onUploaded(res.data),
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Failed to read the file'),
+  });
+
+  return (
+    <div className="space-y-6">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (file) uploadMutation.mutate(file);
+        }}
+        className="card p-6"
+      >
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <FileSpreadsheet size={32} className="text-gray-300 flex-shrink-0" />
+          <div className="flex-1">
+            <input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="input"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              The first row must hold the column names. Excel files are read from their first sheet. Up to 50,000 rows.
+            </p>
+          </div>
+          <button
+            type="submit"
+            className="btn btn-primary flex items-center gap-2 self-start"
+            disabled={!file || uploadMutation.isPending}
+          >
+            <Upload size={18} />
+            {uploadMutation.isPending ? 'Reading...' : 'Upload'}
+          </button>
+        </div>
+      </form>
+
+      {recent.length > 0 && (
+        <div className="card overflow-hidden">
+          <h2 className="px-4 py-3 border-b font-medium text-gray-900">Recent imports</h2>
+          <div className="divide-y">
+            {recent.map((job) => (
+              <div key={job.id} className="flex items-center justify-between gap-3 px-4 py-3 text-sm">
+                <div className="min-w-0">
+                  <button onClick={() => onOpenJob(job.id)} className="font-medium text-gray-900 hover:text-primary-600 truncate">
+                    {job.filename}
+                  </button>
+                  <p className="text-xs text-gray-500">
+                    {new Date(job.createdAt).toLocaleString()}
+                    {job.createdBy && ` · ${job.createdBy.name}`}
+                    {' · '}
+                    {job.status === 'RUNNING'
+                      ? `Importing ${job.processedRows}/${job.totalRows}`
+                      : job.status === 'FAILED'
+                      ? 'Failed'
+                      : `${job.imported} imported, ${job.updated} updated, ${job.duplicates} duplicates, ${job.failed} failed`}
+                  </p>
+                </div>
+                {job.failed > 0 && (
+                  <button
+                    onClick={() => downloadErrorReport(job)}
+                    className="btn btn-secondary text-sm flex items-center gap-1.5 flex-shrink-0"
+                  >
+                    <Download size={14} />
+                    Errors
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MappingStep({
+  upload,
+  onStarted,
+  onCancel,
+}: {
+  upload: ImportUpload;
+  onStarted: (jobId: string) => void;
+  onCancel: () => void;
+}) {
+  const { job, fields, sample } = upload;
+  const [mapping, setMapping] = useState<ImportMapping>(upload.mapping);
+  const [duplicateMode, setDuplicateMode] = useState<ImportDuplicateMode>('SKIP');
+
+  const { data: previewData, error: previewError, isFetching } = useQuery({
+    queryKey: ['lead-import-preview', job.id, mapping],
+    queryFn: () => leadsApi.previewImport(job.id, mapping),
+    retry: false,
+  });
+  const preview = previewData?.data;
+  const mappingProblem = (previewError as any)?.response?.data?.error as string | undefined;
+
+  const startMutation = useMutation({
+    mutationFn: () => leadsApi.startImport(job.id, mapping, duplicateMode),
+    onSuccess: (res) => res.data && onStarted(res.data.id),
+    onError: (err: any) => toast.error(err.response?.data?.error || 'Failed to start the import'),
+  });
+
+  const setTarget = (column: string, target: string) => {
+    const next = { ...mapping };
+    if (target) next[column] = target;
+    else delete next[column];
+    setMapping(next);
+  };
+  const usedTargets = new Set(Object.values(mapping));
+  const fieldLabel = (value: string) => fields.find((f) => f.value === value)?.label || value;
+
+  return (
+    <div className="space-y-6">
+      <div className="card overflow-hidden">
+        <div className="px-4 py-3 border-b">
+          <h2 className="font-medium text-gray-900">{job.filename}</h2>
+          <p className="text-xs text-gray-500">{job.totalRows.toLocaleString()} rows · {job.columns.length} columns</p>
+        </div>
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+              <th className="px-4 py-2">Column</th>
+              <th className="px-4 py-2">Examples</th>
+              <th className="px-4 py-2 w-64">Import as</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {job.columns.map((column, i) => (
+              <tr key={column}>
+                <td className="px-4 py-2 font-medium text-gray-900">{column}</td>
+                <td className="px-4 py-2 text-gray-500 truncate max-w-xs">
+                  {sample.map((row) => row[i]).filter(Boolean).join(' · ') || '—'}
+                </td>
+                <td className="px-4 py-2">
+                  <select
+                    className="input py-1 text-sm"
+                    value={mapping[column] || ''}
+                    onChange={(e) => setTarget(column, e.target.value)}
+                  >
+                    <option value="">Don't import</option>
+                    {fields.map((f) => (
+                      <option
+                        key={f.value}
+                        value={f.value}
+                        disabled={usedTargets.has(f.value) && mapping[column] !== f.value}
+                      >
+                        {f.label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="card p-4">
+        <p className="text-sm font-medium text-gray-700 mb-2">When a phone number is already a lead</p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {DUPLICATE_MODES.map(({ mode, label, description }) => (
+            <label
+              key={mode}
+              className={`flex items-start gap-2 p-3 rounded-lg border cursor-pointer ${
+                duplicateMode === mode ? 'border-primary-500 bg-primary-50' : 'border-gray-200'
+              }`}
+            >
+              <input
+                type="radio"
+                name="duplicateMode"
+                className="mt-0.5"
+                checked={duplicateMode === mode}
+                onChange={() => setDuplicateMode(mode)}
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{label}</span>
+                <span className="block text-xs text-gray-500">{description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="card overflow-hidden">
+        <div className="px-4 py-3 border-b flex items-center justify-between">
+          <h2 className="font-medium text-gray-900">Preview</h2>
+          {isFetching && <span className="text-xs text-gray-400">Checking...</span>}
+        </div>
+        {mappingProblem ? (
+          <p className="p-4 text-sm text-amber-700 flex items-center gap-2">
+            <AlertTriangle size={16} />
+            {mappingProblem}
+          </p>
+        ) : preview ? (
+          <>
+            {preview.invalidRows > 0 && (
+              <p className="px-4 py-2 text-sm text-red-600 bg-red-50 border-b">
+                {preview.invalidRows.toLocaleString()} of {job.totalRows.toLocaleString()} rows have errors and will be
+                skipped. You can download them after the import.
+              </p>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="px-4 py-2">Row</th>
+                    {Object.values(mapping).map((target) => (
+                      <th key={target} className="px-4 py-2 whitespace-nowrap">{fieldLabel(target)}</th>
+                    ))}
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {preview.rows.map((row) => (
+                    <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                      <td className="px-4 py-2 text-gray-400">{row.row}</td>
+                      {Object.values(mapping).map((target) => (
+                        <td key={target} className="px-4 py-2 text-gray-700 whitespace-nowrap max-w-[12rem] truncate">
+                          {previewValue(row.lead, target)}
+                        </td>
+                      ))}
+                      <td className="px-4 py-2 text-xs">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600">{row.errors.join('; ')}</span>
+                        ) : row.duplicate ? (
+                          <span className="text-amber-600">
+                            {duplicateMode === 'SKIP' ? 'Already a lead — skipped' : `Already a lead — ${duplicateMode === 'UPDATE' ? 'updated' : 'merged'}`}
+                          </span>
+                        ) : (
+                          <span className="text-green-600">New lead</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="p-4 text-sm text-gray-500">Loading preview...</p>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="btn btn-secondary">
+          Choose another file
+        </button>
+        <button
+          onClick={() => startMutation.mutate()}
+          className="btn btn-primary"
+          disabled={!!mappingProblem || !preview || startMutation.isPending}
+        >
+          {startMutation.isPending ? 'Starting...' : `Import ${job.totalRows.toLocaleString()} rows`}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function previewValue(lead: ImportedLead, target: string): string {
+  const value = target.startsWith('custom.')
+    ? lead.customFields[target.slice('custom.'.length)]
+    : lead[target as keyof ImportedLead];
+  if (value == null) return '';
+  return Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? '' : String(value);
+}
+
+function ImportProgress({ jobId, onRestart }: { jobId: string; onRestart: () => void }) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const realtimeConnected = useRealtimeConnected();
+
+  const { data } = useQuery({
+    queryKey: ['lead-import', jobId],
+    queryFn: () => leadsApi.getImport(jobId),
+    // Progress is pushed while the event stream is open
+    refetchInterval: (query) =>
+      query.state.data?.data?.status === 'RUNNING' && !realtimeConnected ? 3000 : false,
+  });
+  const job = data?.data;
+  if (!job) return <div className="card p-8 text-center text-gray-500">Loading...</div>;
+
+  const percent = job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 100;
+  const finished = job.status === 'COMPLETED' || job.status === 'FAILED';
+
+  return (
+    <div className="card p-6 space-y-5">
+      <div className="flex items-center gap-3">
+        {job.status === 'COMPLETED' ? (
+          <CheckCircle className="text-green-600" size={24} />
+        ) : job.status === 'FAILED' ? (
+          <AlertTriangle className="text-red-600" size={24} />
+        ) : (
+          <FileSpreadsheet className="text-primary-600 animate-pulse" size={24} />
+        )}
+        <div>
+          <h2 className="font-medium text-gray-900">{job.filename}</h2>
+          <p className="text-sm text-gray-500">
+            {job.status === 'COMPLETED'
+              ? 'Import complete'
+              : job.status === 'FAILED'
+              ? `Import stopped: ${job.errorMessage || 'unknown error'}`
+              : `Importing ${job.processedRows.toLocaleString()} of ${job.totalRows.toLocaleString()} rows — you can leave this page`}
+          </p>
+        </div>
+      </div>
+
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all ${job.status === 'FAILED' ? 'bg-red-500' : 'bg-primary-600'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+        {[
+          { label: 'Imported', value: job.imported, color: 'text-green-600' },
+          { label: 'Updated', value: job.updated, color: 'text-blue-600' },
+          { label: 'Duplicates', value: job.duplicates, color: 'text-gray-600' },
+          { label: 'Failed', value: job.failed, color: 'text-red-600' },
+        ].map(({ label, value, color }) => (
+          <div key={label} className="rounded-lg border border-gray-200 p-3">
+            <div className={`text-2xl font-semibold ${color}`}>{value.toLocaleString()}</div>
+            <div className="text-xs text-gray-500">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      {finished && (
+        <div className="flex flex-wrap justify-end gap-2">
+          {job.failed > 0 && (
+            <button onClick={() => downloadErrorReport(job)} className="btn btn-secondary flex items-center gap-2">
+              <Download size={16} />
+              Download error report
+            </button>
+          )}
+          <button onClick={onRestart} className="btn btn-secondary">
+            Import another file
+          </button>
+          <button
+            onClick={() => {
+              queryClient.invalidateQueries({ queryKey: ['leads'] });
+              navigate('/leads');
+            }}
+            className="btn btn-primary"
+          >
+            View leads
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+async function downloadErrorReport(job: Pick<ImportJob, 'id' | 'filename'>) {
+  try {
+    const blob = await leadsApi.downloadImportErrors(job.id);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${job.filename.replace(/\.(csv|xlsx)$/i, '')}-errors.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch {
+    toast.error('Failed to download the error report');
+  }
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
   Plus,
@@ -13,29 +14,48 @@ import {
   X,
   UserX,
   RefreshCw,
+  ShieldOff,
+  ShieldCheck,
+  Copy,
+  SlidersHorizontal,
+  Download,
+  CheckCircle2,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { leadsApi } from '../services/api';
-import type { Lead, LeadStatus } from '../types';
+import { leadsApi, customFieldsApi } from '../services/api';
+import { CustomFieldInput, CustomFieldFilters, activeCustomFieldFilters } from './LeadFields';
+import type { Lead, LeadStatus, ConsentEvent, CustomField, CustomFieldFilter, CustomFieldValue } from '../types';
 
 export default function Leads() {
   const queryClient = useQueryClient();
+  const navigate = useNavigate();
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState('');
+  const [reachabilityFilter, setReachabilityFilter] = useState('');
   const [page, setPage] = useState(1);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [showImportModal, setShowImportModal] = useState(false);
   const [editingLead, setEditingLead] = useState<Lead | null>(null);
   const [selectedLeads, setSelectedLeads] = useState<string[]>([]);
+  const [fieldFilters, setFieldFilters] = useState<CustomFieldFilter[]>([]);
+  const [showExportModal, setShowExportModal] = useState(false);
+
+  const { data: customFieldsData } = useQuery({
+    queryKey: ['custom-fields'],
+    queryFn: customFieldsApi.list,
+  });
+  const customFields = customFieldsData?.data || [];
+  const activeFieldFilters = activeCustomFieldFilters(fieldFilters);
 
   const { data, isLoading } = useQuery({
-    queryKey: ['leads', page, search, statusFilter],
+    queryKey: ['leads', page, search, statusFilter, reachabilityFilter, activeFieldFilters],
     queryFn: () =>
       leadsApi.list({
         page,
         limit: 20,
         search: search || undefined,
         status: statusFilter || undefined,
+        reachability: reachabilityFilter || undefined,
+        customFields: activeFieldFilters.length ? JSON.stringify(activeFieldFilters) : undefined,
       }),
   });
 
@@ -132,11 +152,35 @@ export default function Leads() {
             {cleanupMutation.isPending ? 'Cleaning...' : 'Cleanup'}
           </button>
           <button
-            onClick={() => setShowImportModal(true)}
+            onClick={() => navigate('/leads/duplicates')}
+            className="btn btn-secondary flex items-center gap-2"
+            title="Find and merge leads for the same business"
+          >
+            <Copy size={18} />
+            Duplicates
+          </button>
+          <button
+            onClick={() => navigate('/leads/fields')}
+            className="btn btn-secondary flex items-center gap-2"
+            title="Custom lead fields"
+          >
+            <SlidersHorizontal size={18} />
+            Fields
+          </button>
+          <button
+            onClick={() => navigate('/leads/import')}
             className="btn btn-secondary flex items-center gap-2"
           >
             <Upload size={18} />
-            Import CSV
+            Import
+          </button>
+          <button
+            onClick={() => setShowExportModal(true)}
+            className="btn btn-secondary flex items-center gap-2"
+            title="Download the leads matching the current filters"
+          >
+            <Download size={18} />
+            Export
           </button>
           <button
             onClick={() => setShowAddModal(true)}
@@ -184,7 +228,32 @@ export default function Leads() {
             <option value="REJECTED">Rejected</option>
             <option value="DO_NOT_CONTACT">Do Not Contact</option>
           </select>
+          <select
+            className="input w-full sm:w-48"
+            value={reachabilityFilter}
+            onChange={(e) => {
+              setReachabilityFilter(e.target.value);
+              setPage(1);
+            }}
+          >
+            <option value="">All Numbers</option>
+            <option value="VALID">On WhatsApp</option>
+            <option value="UNKNOWN">Not Checked Yet</option>
+            <option value="NOT_ON_WHATSAPP">Not on WhatsApp</option>
+          </select>
         </div>
+        {customFields.length > 0 && (
+          <div className="mt-3">
+            <CustomFieldFilters
+              fields={customFields}
+              value={fieldFilters}
+              onChange={(filters) => {
+                setFieldFilters(filters);
+                setPage(1);
+              }}
+            />
+          </div>
+        )}
       </div>
 
       {/* Bulk Actions */}
@@ -276,6 +345,7 @@ export default function Leads() {
                       <div className="flex items-center gap-1 text-sm text-gray-600">
                         <Phone size={14} />
                         {lead.phone}
+                        <PhoneReachability lead={lead} />
                       </div>
                       {lead.email && (
                         <div className="flex items-center gap-1 text-sm text-gray-500 mt-1">
@@ -299,6 +369,9 @@ export default function Leads() {
                     </td>
                     <td className="px-4 py-3">
                       <StatusBadge status={lead.status} />
+                      {lead.optedOut && (
+                        <span className="badge bg-red-50 text-red-700 ml-1">Opted out</span>
+                      )}
                     </td>
                     <td className="px-4 py-3">
                       <span className="text-sm text-gray-600">
@@ -371,14 +444,171 @@ export default function Leads() {
         />
       )}
 
-      {/* Import Modal */}
-      {showImportModal && (
-        <ImportModal onClose={() => setShowImportModal(false)} />
+      {showExportModal && (
+        <ExportModal
+          customFields={customFields}
+          filters={{
+            search: search || undefined,
+            status: statusFilter || undefined,
+            reachability: reachabilityFilter || undefined,
+            customFields: activeFieldFilters.length ? JSON.stringify(activeFieldFilters) : undefined,
+          }}
+          total={pagination?.total}
+          onClose={() => setShowExportModal(false)}
+        />
       )}
     </div>
   );
 }
 
+// Built-in export columns, in the order the server writes them by default
+const EXPORT_COLUMNS: { key: string; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'businessName', label: 'Business name' },
+  { key: 'businessType', label: 'Business type' },
+  { key: 'status', label: 'Status' },
+  { key: 'source', label: 'Source' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'pincode', label: 'Pincode' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'phoneType', label: 'Phone type' },
+  { key: 'reachability', label: 'WhatsApp' },
+  { key: 'optedOut', label: 'Opted out' },
+  { key: 'lastContactedAt', label: 'Last contacted' },
+  { key: 'createdAt', label: 'Added' },
+];
+
+function ExportModal({
+  customFields,
+  filters,
+  total,
+  onClose,
+}: {
+  customFields: CustomField[];
+  filters: { search?: string; status?: string; reachability?: string; customFields?: string };
+  total?: number;
+  onClose: () => void;
+}) {
+  const columns = [
+    ...EXPORT_COLUMNS,
+    ...customFields.map((field) => ({ key: `custom.${field.key}`, label: field.label })),
+  ];
+  const [format, setFormat] = useState<'csv' | 'xlsx'>('csv');
+  const [selected, setSelected] = useState<string[]>(columns.map((c) => c.key));
+  const [lastMessage, setLastMessage] = useState(false);
+  const [campaigns, setCampaigns] = useState(false);
+
+  const exportMutation = useMutation({
+    mutationFn: () =>
+      leadsApi.export({
+        ...filters,
+        format,
+        // Keep the on-screen order rather than the order they were ticked
+        columns: columns.filter((c) => selected.includes(c.key)).map((c) => c.key).join(','),
+        include: [lastMessage && 'lastMessage', campaigns && 'campaigns'].filter(Boolean).join(',') || undefined,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      }),
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `leads-${new Date().toISOString().slice(0, 10)}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      onClose();
+    },
+    onError: () => toast.error('Failed to export leads'),
+  });
+
+  const toggle = (key: string) =>
+    setSelected((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">Export Leads</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-500">
+            {total !== undefined ? `${total} leads` : 'Leads'} matching the current search and filters will be exported.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as 'csv' | 'xlsx')}
+              className="input"
+            >
+              <option value="csv">CSV</option>
+              <option value="xlsx">Excel (XLSX)</option>
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">Columns</label>
+              <button
+                type="button"
+                onClick={() => setSelected(selected.length === columns.length ? [] : columns.map((c) => c.key))}
+                className="text-xs text-primary-600 hover:underline"
+              >
+                {selected.length === columns.length ? 'Clear all' : 'Select all'}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-1.5 border rounded-lg p-3">
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(column.key)}
+                    onChange={() => toggle(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={lastMessage} onChange={(e) => setLastMessage(e.target.checked)} />
+              Include the last message of each conversation
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={campaigns} onChange={(e) => setCampaigns(e.target.checked)} />
+              Include a summary of campaigns each lead was in
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button
+              onClick={() => exportMutation.mutate()}
+              disabled={selected.length === 0 || exportMutation.isPending}
+              className="btn btn-primary flex items-center gap-2"
+            >
+              <Download size={16} />
+              {exportMutation.isPending ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function StatusBadge({ status }: { status: LeadStatus }) {
   const colors: Record<LeadStatus, string> = {
     NEW: 'badge-info',
@@ -397,6 +627,27 @@ function StatusBadge({ status }: { status: LeadStatus }) {
   );
 }
 
+// Landline and WhatsApp reachability markers next to a lead's number
+function PhoneReachability({ lead }: { lead: Lead }) {
+  return (
+    <>
+      {lead.phoneType === 'LANDLINE' && (
+        <span className="badge bg-gray-100 text-gray-700 text-xs">Landline</span>
+      )}
+      {lead.reachability === 'NOT_ON_WHATSAPP' && (
+        <span className="badge badge-error text-xs" title="A message failed with 131026 — campaigns skip this lead">
+          Not on WhatsApp
+        </span>
+      )}
+      {lead.reachability === 'VALID' && (
+        <span title="WhatsApp has delivered to this number">
+          <CheckCircle2 size={14} className="text-green-600" />
+        </span>
+      )}
+    </>
+  );
+}
+
 function formatSource(source: string): string {
   const names: Record<string, string> = {
     MANUAL: 'Manual',
@@ -408,6 +659,7 @@ function formatSource(source: string): string {
     INSTAGRAM: 'Instagram',
     WEBSITE: 'Website',
     REFERRAL: 'Referral',
+    WHATSAPP_INBOUND: 'WhatsApp',
   };
   return names[source] || source;
 }
@@ -431,6 +683,15 @@ function LeadModal({
     status: lead?.status || 'NEW',
     notes: lead?.notes || '',
   });
+  const [customValues, setCustomValues] = useState<Record<string, CustomFieldValue | null>>(
+    lead?.customFields || {}
+  );
+
+  const { data: customFieldsData } = useQuery({
+    queryKey: ['custom-fields'],
+    queryFn: customFieldsApi.list,
+  });
+  const customFields = customFieldsData?.data || [];
 
   const createMutation = useMutation({
     mutationFn: leadsApi.create,
@@ -439,7 +700,7 @@ function LeadModal({
       toast.success('Lead created');
       onClose();
     },
-    onError: () => toast.error('Failed to create lead'),
+    onError: (err: any) => toast.error(err.response?.data?.message || err.response?.data?.error || 'Failed to create lead'),
   });
 
   const updateMutation = useMutation({
@@ -450,15 +711,17 @@ function LeadModal({
       toast.success('Lead updated');
       onClose();
     },
-    onError: () => toast.error('Failed to update lead'),
+    onError: (err: any) => toast.error(err.response?.data?.message || err.response?.data?.error || 'Failed to update lead'),
   });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    // null clears a value on the server
+    const data = { ...formData, customFields: customValues as Lead['customFields'] };
     if (lead) {
-      updateMutation.mutate({ id: lead.id, data: formData });
+      updateMutation.mutate({ id: lead.id, data });
     } else {
-      createMutation.mutate(formData);
+      createMutation.mutate(data);
     }
   };
 
@@ -496,6 +759,7 @@ function LeadModal({
               <input
                 type="tel"
                 className="input"
+                placeholder="98765 43210 or +44 7911 123456"
                 value={formData.phone}
                 onChange={(e) =>
                   setFormData({ ...formData, phone: e.target.value })
@@ -574,6 +838,22 @@ function LeadModal({
               />
             </div>
           </div>
+          {customFields.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              {customFields.map((field) => (
+                <div key={field.id} className={field.type === 'MULTI_SELECT' ? 'col-span-2' : ''}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {field.label}
+                  </label>
+                  <CustomFieldInput
+                    field={field}
+                    value={customValues[field.key] ?? undefined}
+                    onChange={(value) => setCustomValues({ ...customValues, [field.key]: value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
           {lead && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -626,71 +906,96 @@ function LeadModal({
             </button>
           </div>
         </form>
+        {lead && (
+          <ConsentHistory
+            lead={lead}
+            onChange={(updated) => setFormData((prev) => ({ ...prev, status: updated.status }))}
+          />
+        )}
       </div>
     </div>
   );
 }
 
-function ImportModal({ onClose }: { onClose: () => void }) {
+const CONSENT_SOURCE_LABELS: Record<ConsentEvent['source'], string> = {
+  WHATSAPP_KEYWORD: 'WhatsApp keyword',
+  MANUAL: 'Changed manually',
+};
+
+// WhatsApp consent state and its audit trail
+function ConsentHistory({ lead, onChange }: { lead: Lead; onChange: (lead: Lead) => void }) {
   const queryClient = useQueryClient();
-  const [file, setFile] = useState<File | null>(null);
+  const [optedOut, setOptedOut] = useState(lead.optedOut);
 
-  const importMutation = useMutation({
-    mutationFn: leadsApi.bulkImport,
-    onSuccess: (data) => {
+  const { data, isLoading } = useQuery({
+    queryKey: ['lead-consent', lead.id],
+    queryFn: () => leadsApi.getConsentHistory(lead.id),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: () => leadsApi.update(lead.id, { optedOut: !optedOut }),
+    onSuccess: (result) => {
+      setOptedOut(!!result.data?.optedOut);
+      if (result.data) onChange(result.data); // opt-out/opt-in also changes the status
+      queryClient.invalidateQueries({ queryKey: ['lead-consent', lead.id] });
       queryClient.invalidateQueries({ queryKey: ['leads'] });
-      toast.success(data.message || 'Import completed');
-      onClose();
+      toast.success(result.data?.optedOut ? 'Lead opted out' : 'Lead opted back in');
     },
-    onError: () => toast.error('Import failed'),
+    onError: () => toast.error('Failed to update consent'),
   });
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (file) {
-      importMutation.mutate(file);
-    }
-  };
+  const events = data?.data || [];
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-      <div className="bg-white rounded-xl w-full max-w-md">
-        <div className="flex items-center justify-between p-4 border-b">
-          <h2 className="text-lg font-semibold">Import Leads from CSV</h2>
-          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
-            <X size={20} />
-          </button>
+    <div className="p-4 border-t">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">WhatsApp Consent</h3>
+          <p className={`text-xs mt-0.5 ${optedOut ? 'text-red-600' : 'text-green-700'}`}>
+            {optedOut ? 'Opted out — no campaign or sequence messages' : 'Subscribed'}
+          </p>
         </div>
-        <form onSubmit={handleSubmit} className="p-4 space-y-4">
-          <div>
-            <p className="text-sm text-gray-600 mb-4">
-              Upload a CSV file with the following columns:
-              <br />
-              <code className="text-xs bg-gray-100 px-1 py-0.5 rounded">
-                name, phone, email, business_name, business_type, city, state, pincode, address, tags
-              </code>
-            </p>
-            <input
-              type="file"
-              accept=".csv"
-              onChange={(e) => setFile(e.target.files?.[0] || null)}
-              className="input"
-            />
-          </div>
-          <div className="flex justify-end gap-2">
-            <button type="button" onClick={onClose} className="btn btn-secondary">
-              Cancel
-            </button>
-            <button
-              type="submit"
-              className="btn btn-primary"
-              disabled={!file || importMutation.isPending}
-            >
-              {importMutation.isPending ? 'Importing...' : 'Import'}
-            </button>
-          </div>
-        </form>
+        <button
+          type="button"
+          onClick={() => {
+            if (confirm(optedOut ? 'Opt this lead back in?' : 'Opt this lead out of WhatsApp messages?')) {
+              toggleMutation.mutate();
+            }
+          }}
+          disabled={toggleMutation.isPending}
+          className="btn btn-secondary text-sm flex items-center gap-1"
+        >
+          {optedOut ? <ShieldCheck size={16} /> : <ShieldOff size={16} />}
+          {optedOut ? 'Opt back in' : 'Opt out'}
+        </button>
       </div>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-gray-500">No opt-out or opt-in recorded.</p>
+      ) : (
+        <ul className="space-y-2">
+          {events.map((event) => (
+            <li key={event.id} className="text-xs border rounded-lg p-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className={`font-medium ${event.action === 'OPT_OUT' ? 'text-red-700' : 'text-green-700'}`}>
+                  {event.action === 'OPT_OUT' ? 'Opted out' : 'Opted in'}
+                </span>
+                <span className="text-gray-400">{new Date(event.createdAt).toLocaleString()}</span>
+              </div>
+              <p className="text-gray-500 mt-0.5">
+                {CONSENT_SOURCE_LABELS[event.source]}
+                {event.keyword && ` · "${event.keyword}"`}
+                {event.changedBy && ` · by ${event.changedBy.name}`}
+              </p>
+              {event.messageText && (
+                <p className="text-gray-700 mt-1 italic">“{event.messageText}”</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2, Pencil, X, Zap, Paperclip } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { cannedResponsesApi } from '../services/api';
+import { MediaPicker } from './AutoReplies';
+import type { CannedResponse } from '../types';
+
+const VARIABLES = ['name', 'business_name', 'city'];
+
+export default function QuickReplies() {
+  const queryClient = useQueryClient();
+  const [showModal, setShowModal] = useState(false);
+  const [editing, setEditing] = useState<CannedResponse | null>(null);
+  const [search, setSearch] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['canned-responses'],
+    queryFn: () => cannedResponsesApi.list(),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: cannedResponsesApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['canned-responses'] });
+      toast.success('Saved reply deleted');
+    },
+    onError: () => toast.error('Failed to delete saved reply'),
+  });
+
+  const query = search.trim().toLowerCase().replace(/^\//, '');
+  const responses = (data?.data || []).filter((r) =>
+    !query || r.shortcut.startsWith(query) || r.title.toLowerCase().includes(query) || r.body.toLowerCase().includes(query)
+  );
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Quick Replies</h1>
+          <p className="text-gray-500 mt-1">
+            Saved answers the team inserts in Conversations by typing their shortcut
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            setEditing(null);
+            setShowModal(true);
+          }}
+          className="btn btn-primary flex items-center gap-2 self-start"
+        >
+          <Plus size={18} />
+          New Reply
+        </button>
+      </div>
+
+      {/* Info Card */}
+      <div className="card p-4 mb-6 bg-blue-50 border-blue-200">
+        <div className="flex gap-3">
+          <Zap className="text-blue-600 flex-shrink-0" size={20} />
+          <div className="text-sm text-blue-800">
+            <p className="font-medium mb-1">Using quick replies</p>
+            <p>
+              Type <code className="bg-white/70 px-1 rounded">/</code> in the message box followed by a shortcut
+              (e.g. <code className="bg-white/70 px-1 rounded">/price</code>) and pick a reply. Variables such as{' '}
+              <code className="bg-white/70 px-1 rounded">{'{{name}}'}</code> are filled in for the lead, and you can
+              edit the text before sending. Replies with an attachment go out as a media message with the text as
+              its caption.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="card p-4">
+        <input
+          type="text"
+          className="input mb-4"
+          placeholder="Search by shortcut, title or text..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500 py-8 text-center">Loading...</p>
+        ) : responses.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">
+            {query ? 'No saved replies match.' : 'No saved replies yet. Add answers you send often — pricing, MOQ, delivery areas.'}
+          </p>
+        ) : (
+          <div className="divide-y">
+            {responses.map((response) => (
+              <div key={response.id} className="flex items-start justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="badge bg-primary-50 text-primary-700 font-mono">/{response.shortcut}</span>
+                    <span className="font-medium text-gray-900">{response.title}</span>
+                    {response.mediaAsset && (
+                      <span className="badge bg-gray-100 text-gray-600 flex items-center gap-1">
+                        <Paperclip size={11} />
+                        {response.mediaAsset.name}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1 line-clamp-2 whitespace-pre-wrap">{response.body}</p>
+                  <p className="text-xs text-gray-400 mt-1">
+                    Used {response.usageCount} time{response.usageCount === 1 ? '' : 's'}
+                    {response.createdBy && ` · added by ${response.createdBy.name}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => {
+                      setEditing(response);
+                      setShowModal(true);
+                    }}
+                    className="p-2 text-gray-400 hover:text-blue-600"
+                    title="Edit"
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete saved reply /${response.shortcut}?`)) {
+                        deleteMutation.mutate(response.id);
+                      }
+                    }}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <QuickReplyModal
+          response={editing}
+          onClose={() => {
+            setShowModal(false);
+            setEditing(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function QuickReplyModal({ response, onClose }: { response: CannedResponse | null; onClose: () => void }) {
+  const queryClient = useQueryClient();
+  const isEdit = !!response;
+  const [formData, setFormData] = useState({
+    shortcut: response?.shortcut || '',
+    title: response?.title || '',
+    body: response?.body || '',
+  });
+  const [mediaAsset, setMediaAsset] = useState<CannedResponse['mediaAsset']>(response?.mediaAsset || null);
+
+  const onSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['canned-responses'] });
+    toast.success(message);
+    onClose();
+  };
+  const onError = (err: any) =>
+    toast.error(err?.response?.data?.message || err?.response?.data?.error || 'Failed to save reply');
+
+  const createMutation = useMutation({
+    mutationFn: cannedResponsesApi.create,
+    onSuccess: () => onSuccess('Saved reply added'),
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<CannedResponse> }) => cannedResponsesApi.update(id, data),
+    onSuccess: () => onSuccess('Saved reply updated'),
+    onError,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = { ...formData, mediaAssetId: mediaAsset?.id || null };
+
+    if (isEdit && response) {
+      updateMutation.mutate({ id: response.id, data: payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  const insertVariable = (variable: string) =>
+    setFormData({ ...formData, body: `${formData.body}{{${variable}}}` });
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+  const limit = mediaAsset ? 1024 : 4096;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h2 className="text-lg font-semibold">{isEdit ? 'Edit Quick Reply' : 'New Quick Reply'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Shortcut *</label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">/</span>
+                <input
+                  type="text"
+                  className="input pl-6 font-mono"
+                  placeholder="price"
+                  value={formData.shortcut}
+                  onChange={(e) => setFormData({ ...formData, shortcut: e.target.value.replace(/^\//, '') })}
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="e.g., Price list"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reply *</label>
+            <textarea
+              className="input text-sm"
+              rows={5}
+              placeholder="Hi {{name}}, our distributor price for 1L packs is..."
+              value={formData.body}
+              onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+              maxLength={limit}
+              required
+            />
+            <div className="flex items-center justify-between mt-1">
+              <div className="flex gap-1 flex-wrap">
+                {VARIABLES.map((variable) => (
+                  <button
+                    key={variable}
+                    type="button"
+                    onClick={() => insertVariable(variable)}
+                    className="text-[11px] px-2 py-0.5 bg-gray-100 rounded text-gray-600 hover:bg-gray-200 font-mono"
+                  >
+                    {`{{${variable}}}`}
+                  </button>
+                ))}
+              </div>
+              <span className="text-xs text-gray-400">{formData.body.length}/{limit}</span>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Attachment</label>
+            <MediaPicker value={mediaAsset} onChange={setMediaAsset} />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={isPending}>
+              {isPending ? 'Saving...' : isEdit ? 'Update' : 'Add Reply'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Play, Pause, Trash2, Clock, Send, CheckCheck, Eye, MessageCircle, SkipForward, LogOut } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { sequencesApi } from '../services/api';
+import type { EnrollmentStatus } from '../types';
+import { CONDITION_LABELS, SequenceStatusBadge, describeDelay } from './Sequences';
+
+const EXIT_REASON_LABELS: Record<string, string> = {
+  REPLIED: 'Replied',
+  OPTED_OUT: 'Opted out',
+  CONVERTED: 'Converted',
+  REJECTED: 'Rejected',
+  DO_NOT_CONTACT: 'Do not contact',
+  FAILED: 'Send failed',
+};
+
+export default function SequenceDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['sequence', id],
+    queryFn: () => sequencesApi.get(id!),
+    enabled: !!id,
+    refetchInterval: 30000,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['sequence', id] });
+    queryClient.invalidateQueries({ queryKey: ['sequences'] });
+  };
+
+  const activateMutation = useMutation({
+    mutationFn: () => sequencesApi.activate(id!),
+    onSuccess: (data) => {
+      invalidate();
+      toast.success(data.message || 'Sequence activated');
+    },
+    onError: (err: any) => toast.error(err?.response?.data?.error || 'Failed to activate sequence'),
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: () => sequencesApi.pause(id!),
+    onSuccess: () => {
+      invalidate();
+      toast.success('Sequence paused');
+    },
+    onError: (err: any) => toast.error(err?.response?.data?.error || 'Failed to pause sequence'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => sequencesApi.delete(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sequences'] });
+      toast.success('Sequence deleted');
+      navigate('/sequences');
+    },
+    onError: (err: any) => toast.error(err?.response?.data?.error || 'Failed to delete sequence'),
+  });
+
+  if (isLoading) {
+    return <div className="card p-8 text-center text-gray-500">Loading...</div>;
+  }
+
+  const detail = data?.data;
+  if (!detail) {
+    return <div className="card p-8 text-center text-gray-500">Sequence not found</div>;
+  }
+
+  const { sequence, funnel, summary, enrollments } = detail;
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <button onClick={() => navigate('/sequences')} className="p-2 text-gray-400 hover:text-gray-600">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-gray-900">{sequence.name}</h1>
+              <SequenceStatusBadge status={sequence.status} />
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              {sequence.steps.length} steps
+              {sequence.sendWindow && ` · Sends ${sequence.sendWindow.start}–${sequence.sendWindow.end} ${sequence.sendWindow.timezone}`}
+              {sequence.createdBy && ` · Created by ${sequence.createdBy.name}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {sequence.status === 'ACTIVE' ? (
+            <button onClick={() => pauseMutation.mutate()} className="btn btn-secondary text-sm">
+              <Pause size={16} className="mr-1" />
+              Pause
+            </button>
+          ) : (
+            <button
+              onClick={() => activateMutation.mutate()}
+              className="btn btn-primary text-sm"
+              disabled={activateMutation.isPending}
+            >
+              <Play size={16} className="mr-1" />
+              {sequence.status === 'PAUSED' ? 'Resume' : 'Activate'}
+            </button>
+          )}
+          {sequence.status !== 'ACTIVE' && (
+            <button
+              onClick={() => {
+                if (confirm('Delete this sequence?')) deleteMutation.mutate();
+              }}
+              className="p-2 text-gray-400 hover:text-red-600"
+              title="Delete"
+            >
+              <Trash2 size={18} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div className="card p-4">
+          <p className="text-sm text-gray-500">Enrolled</p>
+          <p className="text-2xl font-bold text-gray-900">{summary.total}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-gray-500">In progress</p>
+          <p className="text-2xl font-bold text-blue-600">{summary.active}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-gray-500">Completed</p>
+          <p className="text-2xl font-bold text-green-600">{summary.completed}</p>
+        </div>
+        <div className="card p-4">
+          <p className="text-sm text-gray-500">Left early</p>
+          <p className="text-2xl font-bold text-orange-600">{summary.exited}</p>
+          <p className="text-xs text-gray-400">
+            {Object.entries(summary.exitReasons)
+              .map(([reason, count]) => `${EXIT_REASON_LABELS[reason] || reason}: ${count}`)
+              .join(' · ') || '—'}
+          </p>
+        </div>
+      </div>
+
+      {/* Per-step funnel */}
+      <div className="card p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Step Funnel</h2>
+        <div className="space-y-4">
+          {sequence.steps.map((step, index) => {
+            const stats = funnel.find((f) => f.stepId === step.id);
+            const reached = stats ? stats.sent + stats.failed + stats.skipped : 0;
+            return (
+              <div key={step.id} className="border rounded-lg p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-3">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      Step {index + 1}: {step.template?.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {index === 0 ? 'Sent' : 'Waits'} {describeDelay(step.delayHours)}
+                      {index === 0 ? ' after enrollment' : ' after the previous step'}
+                      {index > 0 && step.condition !== 'ALWAYS' && ` · Only if: ${CONDITION_LABELS[step.condition].toLowerCase()}`}
+                    </p>
+                  </div>
+                  {stats && stats.waiting > 0 && (
+                    <span className="flex items-center gap-1 text-xs text-blue-700">
+                      <Clock size={14} /> {stats.waiting} waiting
+                    </span>
+                  )}
+                </div>
+                {stats && (
+                  <div className="grid grid-cols-3 sm:grid-cols-6 gap-3 text-sm">
+                    <FunnelStat icon={Send} label="Sent" value={stats.sent} of={reached} color="text-blue-600" />
+                    <FunnelStat icon={CheckCheck} label="Delivered" value={stats.delivered} of={stats.sent} color="text-green-600" />
+                    <FunnelStat icon={Eye} label="Read" value={stats.read} of={stats.sent} color="text-emerald-600" />
+                    <FunnelStat icon={MessageCircle} label="Replied" value={stats.replied} of={stats.sent} color="text-purple-600" />
+                    <FunnelStat icon={SkipForward} label="Skipped" value={stats.skipped} color="text-gray-500" />
+                    <FunnelStat icon={LogOut} label="Left before" value={stats.left} color="text-orange-600" />
+                  </div>
+                )}
+                {stats && stats.failed > 0 && (
+                  <p className="text-xs text-red-600 mt-2">{stats.failed} failed to send</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Enrollments */}
+      <div className="card p-6 mt-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Leads ({enrollments.length})</h2>
+        {enrollments.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No leads enrolled yet. Activating the sequence enrolls leads matching its filters.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="pb-2 font-medium">Lead</th>
+                  <th className="pb-2 font-medium">Status</th>
+                  <th className="pb-2 font-medium">Progress</th>
+                  <th className="pb-2 font-medium">Next step</th>
+                </tr>
+              </thead>
+              <tbody>
+                {enrollments.map((enrollment) => (
+                  <tr key={enrollment.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      <p className="font-medium text-gray-900">{enrollment.lead.businessName || enrollment.lead.name}</p>
+                      <p className="text-xs text-gray-500">{enrollment.lead.phone}{enrollment.lead.city && ` · ${enrollment.lead.city}`}</p>
+                    </td>
+                    <td className="py-2">
+                      <EnrollmentBadge status={enrollment.status} />
+                      {enrollment.exitReason && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          {EXIT_REASON_LABELS[enrollment.exitReason] || enrollment.exitReason}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-gray-600">
+                      {Math.min(enrollment.currentStep, sequence.steps.length)} / {sequence.steps.length}
+                    </td>
+                    <td className="py-2 text-gray-600">
+                      {enrollment.status === 'ACTIVE' && enrollment.nextRunAt
+                        ? new Date(enrollment.nextRunAt).toLocaleString([], {
+                          month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+                        })
+                        : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FunnelStat({
+  icon: Icon,
+  label,
+  value,
+  of,
+  color,
+}: {
+  icon: typeof Send;
+  label: string;
+  value: number;
+  of?: number;
+  color: string;
+}) {
+  return (
+    <div>
+      <p className="flex items-center gap-1 text-xs text-gray-500">
+        <Icon size={12} /> {label}
+      </p>
+      <p className={`text-lg font-semibold ${color}`}>{value}</p>
+      {of !== undefined && of > 0 && (
+        <p className="text-xs text-gray-400">{Math.round((value / of) * 100)}%</p>
+      )}
+    </div>
+  );
+}
+
+function EnrollmentBadge({ status }: { status: EnrollmentStatus }) {
+  const colors: Record<EnrollmentStatus, string> = {
+    ACTIVE: 'bg-blue-100 text-blue-800',
+    COMPLETED: 'bg-green-100 text-green-800',
+    EXITED: 'bg-orange-100 text-orange-800',
+  };
+
+  return <span className={`badge ${colors[status]}`}>{status}</span>;
+}
@@ -0,0 +1,454 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Play, Pause, Trash2, Eye, X, ArrowDown } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { sequencesApi, templatesApi, leadsApi } from '../services/api';
+import type { SequenceStatus, SequenceStep, SequenceStepCondition, SendWindow, MessageTemplate } from '../types';
+
+export const CONDITION_LABELS: Record<SequenceStepCondition, string> = {
+  ALWAYS: 'Everyone still in the sequence',
+  DELIVERED: 'Previous message was delivered',
+  READ: 'Read the previous message',
+  NOT_READ: 'Did not read the previous message',
+};
+
+export function describeDelay(hours: number) {
+  if (hours === 0) return 'right away';
+  if (hours % 24 === 0) return `${hours / 24} day${hours === 24 ? '' : 's'}`;
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+export default function Sequences() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [showCreateModal, setShowCreateModal] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['sequences'],
+    queryFn: sequencesApi.list,
+  });
+
+  const { data: templatesData } = useQuery({
+    queryKey: ['templates'],
+    queryFn: templatesApi.list,
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: sequencesApi.activate,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['sequences'] });
+      toast.success(data.message || 'Sequence activated');
+    },
+    onError: (err: any) => toast.error(err?.response?.data?.error || 'Failed to activate sequence'),
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: sequencesApi.pause,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sequences'] });
+      toast.success('Sequence paused');
+    },
+    onError: (err: any) => toast.error(err?.response?.data?.error || 'Failed to pause sequence'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: sequencesApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sequences'] });
+      toast.success('Sequence deleted');
+    },
+    onError: (err: any) => toast.error(err?.response?.data?.error || 'Failed to delete sequence'),
+  });
+
+  const sequences = data?.data || [];
+  const approvedTemplates = (templatesData?.data || []).filter((t) => t.status === 'APPROVED');
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Sequences</h1>
+          <p className="text-gray-500 mt-1">Multi-step follow-ups that stop when a lead replies</p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="btn btn-primary flex items-center gap-2"
+          disabled={approvedTemplates.length === 0}
+        >
+          <Plus size={18} />
+          Create Sequence
+        </button>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="card p-8 text-center text-gray-500">Loading...</div>
+        ) : sequences.length === 0 ? (
+          <div className="card p-8 text-center text-gray-500">
+            No sequences yet. Create one to follow up with leads automatically.
+          </div>
+        ) : (
+          sequences.map((sequence) => (
+            <div key={sequence.id} className="card p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex items-center gap-3">
+                    <h3 className="font-semibold text-gray-900">{sequence.name}</h3>
+                    <SequenceStatusBadge status={sequence.status} />
+                  </div>
+                  {sequence.description && (
+                    <p className="text-sm text-gray-500 mt-1">{sequence.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-600">
+                    <span>Steps: {sequence._count?.steps ?? 0}</span>
+                    <span>Active: {sequence.enrollments?.ACTIVE ?? 0}</span>
+                    <span>Completed: {sequence.enrollments?.COMPLETED ?? 0}</span>
+                    <span>Exited: {sequence.enrollments?.EXITED ?? 0}</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => navigate(`/sequences/${sequence.id}`)}
+                    className="p-2 text-gray-400 hover:text-gray-600"
+                    title="View Details"
+                  >
+                    <Eye size={18} />
+                  </button>
+                  {sequence.status !== 'ACTIVE' ? (
+                    <button
+                      onClick={() => activateMutation.mutate(sequence.id)}
+                      className="btn btn-primary text-sm py-1.5"
+                      disabled={activateMutation.isPending}
+                    >
+                      <Play size={16} className="mr-1" />
+                      {sequence.status === 'PAUSED' ? 'Resume' : 'Activate'}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => pauseMutation.mutate(sequence.id)}
+                      className="btn btn-secondary text-sm py-1.5"
+                    >
+                      <Pause size={16} className="mr-1" />
+                      Pause
+                    </button>
+                  )}
+                  {sequence.status !== 'ACTIVE' && (
+                    <button
+                      onClick={() => {
+                        if (confirm('Delete this sequence?')) {
+                          deleteMutation.mutate(sequence.id);
+                        }
+                      }}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {showCreateModal && (
+        <CreateSequenceModal
+          templates={approvedTemplates}
+          onClose={() => setShowCreateModal(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+export function SequenceStatusBadge({ status }: { status: SequenceStatus }) {
+  const colors: Record<SequenceStatus, string> = {
+    DRAFT: 'bg-gray-100 text-gray-800',
+    ACTIVE: 'bg-green-100 text-green-800',
+    PAUSED: 'bg-yellow-100 text-yellow-800',
+  };
+
+  return <span className={`badge ${colors[status]}`}>{status}</span>;
+}
+
+type StepDraft = SequenceStep & { delayUnit: 'hours' | 'days'; delayValue: number };
+
+function CreateSequenceModal({
+  templates,
+  onClose,
+}: {
+  templates: MessageTemplate[];
+  onClose: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [statusFilter, setStatusFilter] = useState<string[]>(['NEW']);
+  const [cityFilter, setCityFilter] = useState('');
+  const [useSendWindow, setUseSendWindow] = useState(true);
+  const [sendWindow, setSendWindow] = useState<SendWindow>({
+    start: '09:30',
+    end: '19:00',
+    timezone: 'Asia/Kolkata',
+    excludedDays: [0],
+  });
+  const [steps, setSteps] = useState<StepDraft[]>([
+    { templateId: templates[0]?.id || '', delayHours: 0, delayValue: 0, delayUnit: 'days', condition: 'ALWAYS' },
+  ]);
+
+  const { data: citiesData } = useQuery({
+    queryKey: ['lead-cities'],
+    queryFn: leadsApi.getCities,
+  });
+  const availableCities = (citiesData?.data || []) as string[];
+
+  const createMutation = useMutation({
+    mutationFn: sequencesApi.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sequences'] });
+      toast.success('Sequence created');
+      onClose();
+    },
+    onError: (err: any) => toast.error(err?.response?.data?.error || 'Failed to create sequence'),
+  });
+
+  const updateStep = (index: number, changes: Partial<StepDraft>) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const addStep = () => {
+    setSteps((prev) => [
+      ...prev,
+      { templateId: templates[0]?.id || '', delayHours: 72, delayValue: 3, delayUnit: 'days', condition: 'ALWAYS' },
+    ]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const missingMedia = steps.findIndex((step) => {
+      const headerType = templates.find((t) => t.id === step.templateId)?.headerType;
+      return (headerType === 'IMAGE' || headerType === 'VIDEO') && !step.headerMediaUrl?.trim();
+    });
+    if (missingMedia >= 0) {
+      toast.error(`Step ${missingMedia + 1} needs a media URL for its template`);
+      return;
+    }
+    if (useSendWindow && sendWindow.start >= sendWindow.end) {
+      toast.error('Send window must end after it starts');
+      return;
+    }
+
+    createMutation.mutate({
+      name,
+      description,
+      targetFilters: { status: statusFilter, cities: cityFilter ? [cityFilter] : [] },
+      sendWindow: useSendWindow ? sendWindow : undefined,
+      steps: steps.map((step, i) => ({
+        templateId: step.templateId,
+        delayHours: step.delayUnit === 'days' ? step.delayValue * 24 : step.delayValue,
+        condition: i === 0 ? 'ALWAYS' : step.condition,
+        headerMediaUrl: step.headerMediaUrl?.trim() || undefined,
+      })),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b shrink-0">
+          <h2 className="text-lg font-semibold">Create Sequence</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="overflow-y-auto flex-1">
+          <div className="p-4 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sequence Name *</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="e.g., New retailer follow-up"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <textarea
+                className="input"
+                rows={2}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Enroll on activation</label>
+              <div className="flex flex-wrap gap-1.5 mb-2">
+                {['NEW', 'CONTACTED', 'INTERESTED', 'NEGOTIATING'].map((status) => (
+                  <button
+                    key={status}
+                    type="button"
+                    onClick={() => setStatusFilter((prev) =>
+                      prev.includes(status) ? prev.filter((s) => s !== status) : [...prev, status]
+                    )}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium border ${
+                      statusFilter.includes(status)
+                        ? 'bg-primary-600 text-white border-primary-600'
+                        : 'bg-white text-gray-600 border-gray-300'
+                    }`}
+                  >
+                    {status}
+                  </button>
+                ))}
+              </div>
+              <select className="input" value={cityFilter} onChange={(e) => setCityFilter(e.target.value)}>
+                <option value="">All cities</option>
+                {availableCities.map((city) => (
+                  <option key={city} value={city}>{city}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Opted-out, DO_NOT_CONTACT and REJECTED leads are never enrolled.
+              </p>
+            </div>
+
+            {/* Steps */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Steps</label>
+              <div className="space-y-2">
+                {steps.map((step, index) => {
+                  const template = templates.find((t) => t.id === step.templateId);
+                  const needsMedia = template?.headerType === 'IMAGE' || template?.headerType === 'VIDEO';
+                  return (
+                    <div key={index}>
+                      {index > 0 && (
+                        <div className="flex justify-center py-1 text-gray-300">
+                          <ArrowDown size={16} />
+                        </div>
+                      )}
+                      <div className="p-3 rounded-lg border bg-gray-50 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-semibold text-gray-900">Step {index + 1}</span>
+                          {index > 0 && (
+                            <button
+                              type="button"
+                              className="text-gray-400 hover:text-red-600"
+                              onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                            >
+                              <X size={16} />
+                            </button>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="text-gray-600 shrink-0">{index === 0 ? 'Send after' : 'Wait'}</span>
+                          <input
+                            type="number"
+                            min={0}
+                            className="input py-1 text-sm w-20"
+                            value={step.delayValue}
+                            onChange={(e) => updateStep(index, { delayValue: Math.max(0, parseInt(e.target.value) || 0) })}
+                          />
+                          <select
+                            className="input py-1 text-sm w-24"
+                            value={step.delayUnit}
+                            onChange={(e) => updateStep(index, { delayUnit: e.target.value as StepDraft['delayUnit'] })}
+                          >
+                            <option value="hours">hours</option>
+                            <option value="days">days</option>
+                          </select>
+                        </div>
+                        <select
+                          className="input py-1 text-sm"
+                          value={step.templateId}
+                          onChange={(e) => updateStep(index, { templateId: e.target.value })}
+                        >
+                          {templates.map((t) => (
+                            <option key={t.id} value={t.id}>
+                              {t.name} ({t.language === 'hi' ? 'Hindi' : 'English'})
+                            </option>
+                          ))}
+                        </select>
+                        {index > 0 && (
+                          <select
+                            className="input py-1 text-sm"
+                            value={step.condition}
+                            onChange={(e) => updateStep(index, { condition: e.target.value as SequenceStepCondition })}
+                          >
+                            {(Object.keys(CONDITION_LABELS) as SequenceStepCondition[]).map((condition) => (
+                              <option key={condition} value={condition}>Send to: {CONDITION_LABELS[condition]}</option>
+                            ))}
+                          </select>
+                        )}
+                        {needsMedia && (
+                          <input
+                            type="url"
+                            className="input py-1 text-sm"
+                            placeholder={`${template?.headerType === 'VIDEO' ? 'Video' : 'Image'} URL`}
+                            value={step.headerMediaUrl || ''}
+                            onChange={(e) => updateStep(index, { headerMediaUrl: e.target.value })}
+                          />
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+              {steps.length < 10 && (
+                <button type="button" className="mt-2 text-sm text-primary-600 hover:text-primary-700" onClick={addStep}>
+                  + Add step
+                </button>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                Leads leave the sequence when they reply, opt out, or are marked CONVERTED or REJECTED.
+                Steps whose condition isn't met are skipped.
+              </p>
+            </div>
+
+            <div className="p-3 rounded-lg border bg-gray-50 space-y-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  checked={useSendWindow}
+                  onChange={(e) => setUseSendWindow(e.target.checked)}
+                />
+                <span className="text-sm font-medium text-gray-700">Only send during business hours</span>
+              </label>
+              {useSendWindow && (
+                <div className="flex items-center gap-2 text-sm">
+                  <input
+                    type="time"
+                    className="input py-1 text-sm"
+                    value={sendWindow.start}
+                    onChange={(e) => setSendWindow({ ...sendWindow, start: e.target.value })}
+                  />
+                  <span className="text-gray-500">to</span>
+                  <input
+                    type="time"
+                    className="input py-1 text-sm"
+                    value={sendWindow.end}
+                    onChange={(e) => setSendWindow({ ...sendWindow, end: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 p-4 border-t">
+            <button type="button" onClick={onClose} className="btn btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={createMutation.isPending}>
+              {createMutation.isPending ? 'Creating...' : 'Create Sequence'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import type { ApiResponse, Lead, Campaign, MessageTemplate, DashboardStats, LeadStats, User, CampaignAnalytics, Conversation, ConversationMessages, MessageLogEntry, AutoReply } from '../types';
+import type { ApiResponse, Lead, Campaign, MessageTemplate, DashboardStats, LeadStats, User, CampaignAnalytics, CampaignPreview, Conversation, ConversationMessages, MessageLogEntry, AutoReply, Sequence, SequenceDetail, ConsentKeyword, ConsentEvent, ChatbotFlow, ChatbotStep, ChatbotTurn, MediaAsset, AutoReplyStats, AutoReplyHit, TeamMember, TimelineEntry, CannedResponse, SendMessageOptions, DuplicateCandidate, LeadMergeRequest, CustomField, ImportJob, ImportUpload, ImportPreview, ImportMapping, ImportDuplicateMode } from '../types';
 
 const api = axios.create({
   baseURL: (import.meta.env.VITE_API_URL || '') + '/api',
@@ -82,6 +82,9 @@ export const leadsApi = {
     search?: string;
     city?: string;
     createdAfter?: string;
+    customFields?: string; // JSON list of CustomFieldFilter
+    reachability?: string;
+    phoneType?: string;
   }) => {
     const { data } = await api.get<ApiResponse<Lead[]>>('/leads', { params });
     return data;
@@ -102,25 +105,66 @@ export const leadsApi = {
     return data;
   },
 
+  getConsentHistory: async (id: string) => {
+    const { data } = await api.get<ApiResponse<ConsentEvent[]>>(`/leads/${id}/consent`);
+    return data;
+  },
+
   delete: async (id: string) => {
     const { data } = await api.delete<ApiResponse<void>>(`/leads/${id}`);
     return data;
   },
 
-  bulkImport: async (file: File) => {
+  listImports: async () => {
+    const { data } = await api.get<ApiResponse<ImportJob[]>>('/leads/imports');
+    return data;
+  },
+
+  uploadImport: async (file: File) => {
     const formData = new FormData();
     formData.append('file', file);
-    const { data } = await api.post<ApiResponse<{
-      total: number;
-      imported: number;
-      duplicates: number;
-      errors: Array<{ row: number; error: string }>;
-    }>>('/leads/bulk-import', formData, {
+    const { data } = await api.post<ApiResponse<ImportUpload>>('/leads/imports', formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
     });
     return data;
   },
 
+  getImport: async (id: string) => {
+    const { data } = await api.get<ApiResponse<ImportJob>>(`/leads/imports/${id}`);
+    return data;
+  },
+
+  previewImport: async (id: string, mapping: ImportMapping) => {
+    const { data } = await api.post<ApiResponse<ImportPreview>>(`/leads/imports/${id}/preview`, { mapping });
+    return data;
+  },
+
+  startImport: async (id: string, mapping: ImportMapping, duplicateMode: ImportDuplicateMode) => {
+    const { data } = await api.post<ApiResponse<ImportJob>>(`/leads/imports/${id}/start`, { mapping, duplicateMode });
+    return data;
+  },
+
+  // The report needs auth, so it's fetched as a blob and saved from there
+  downloadImportErrors: async (id: string) => {
+    const { data } = await api.get<Blob>(`/leads/imports/${id}/errors`, { responseType: 'blob' });
+    return data;
+  },
+
+  // Leads matching the list filters as a file; columns and include are comma lists
+  export: async (params: {
+    format: 'csv' | 'xlsx';
+    columns: string;
+    include?: string;
+    timezone?: string;
+    status?: string;
+    search?: string;
+    customFields?: string;
+    reachability?: string;
+  }) => {
+    const { data } = await api.get<Blob>('/leads/export', { params, responseType: 'blob' });
+    return data;
+  },
+
   bulkDelete: async (ids: string[]) => {
     const { data } = await api.post<ApiResponse<void>>('/leads/bulk-delete', { ids });
     return data;
@@ -145,6 +189,16 @@ export const leadsApi = {
     const { data } = await api.post<ApiResponse<{ updated: number }>>('/leads/backfill-contacted');
     return data;
   },
+
+  findDuplicates: async (params?: { minScore?: number; limit?: number }) => {
+    const { data } = await api.get<ApiResponse<DuplicateCandidate[]>>('/leads/duplicates', { params });
+    return data;
+  },
+
+  merge: async (request: LeadMergeRequest) => {
+    const { data } = await api.post<ApiResponse<Lead>>('/leads/merge', request);
+    return data;
+  },
 };
 
 // Campaigns
@@ -164,6 +218,11 @@ export const campaignsApi = {
     return data;
   },
 
+  preview: async (id: string) => {
+    const { data } = await api.get<ApiResponse<CampaignPreview>>(`/campaigns/${id}/preview`);
+    return data;
+  },
+
   start: async (id: string) => {
     const { data } = await api.post<ApiResponse<{ leadsCount: number }>>(`/campaigns/${id}/start`);
     return data;
@@ -205,6 +264,49 @@ export const campaignsApi = {
   },
 };
 
+// Drip sequences
+export const sequencesApi = {
+  list: async () => {
+    const { data } = await api.get<ApiResponse<Sequence[]>>('/sequences');
+    return data;
+  },
+
+  get: async (id: string) => {
+    const { data } = await api.get<ApiResponse<SequenceDetail>>(`/sequences/${id}`);
+    return data;
+  },
+
+  create: async (sequence: Partial<Sequence>) => {
+    const { data } = await api.post<ApiResponse<Sequence>>('/sequences', sequence);
+    return data;
+  },
+
+  update: async (id: string, sequence: Partial<Sequence>) => {
+    const { data } = await api.put<ApiResponse<Sequence>>(`/sequences/${id}`, sequence);
+    return data;
+  },
+
+  activate: async (id: string) => {
+    const { data } = await api.post<ApiResponse<{ enrolled: number }>>(`/sequences/${id}/activate`);
+    return data;
+  },
+
+  pause: async (id: string) => {
+    const { data } = await api.post<ApiResponse<void>>(`/sequences/${id}/pause`);
+    return data;
+  },
+
+  enroll: async (id: string, leadIds: string[]) => {
+    const { data } = await api.post<ApiResponse<{ enrolled: number; skipped: number }>>(`/sequences/${id}/enroll`, { leadIds });
+    return data;
+  },
+
+  delete: async (id: string) => {
+    const { data } = await api.delete<ApiResponse<void>>(`/sequences/${id}`);
+    return data;
+  },
+};
+
 // Templates
 export const templatesApi = {
   list: async () => {
@@ -250,18 +352,69 @@ export const templatesApi = {
 
 // Conversations (Chat)
 export const conversationsApi = {
-  list: async (params?: { page?: number; limit?: number; search?: string; filter?: string }) => {
+  list: async (params?: { page?: number; limit?: number; search?: string; filter?: string; assignee?: string }) => {
     const { data } = await api.get<ApiResponse<Conversation[]>>('/conversations', { params });
     return data;
   },
 
+  unreadCount: async () => {
+    const { data } = await api.get<ApiResponse<{ count: number }>>('/conversations/unread-count');
+    return data;
+  },
+
+  getTimeline: async (leadId: string) => {
+    const { data } = await api.get<ApiResponse<TimelineEntry[]>>(`/conversations/${leadId}/timeline`);
+    return data;
+  },
+
+  addNote: async (leadId: string, body: string) => {
+    const { data } = await api.post<ApiResponse<void>>(`/conversations/${leadId}/notes`, { body });
+    return data;
+  },
+
+  deleteNote: async (leadId: string, noteId: string) => {
+    const { data } = await api.delete<ApiResponse<void>>(`/conversations/${leadId}/notes/${noteId}`);
+    return data;
+  },
+
+  assign: async (leadId: string, userId: string | null) => {
+    const { data } = await api.put<ApiResponse<{ assignedTo: { id: string; name: string } | null }>>(
+      `/conversations/${leadId}/assignee`,
+      { userId }
+    );
+    return data;
+  },
+
+  markRead: async (leadId: string) => {
+    const { data } = await api.post<ApiResponse<void>>(`/conversations/${leadId}/read`);
+    return data;
+  },
+
+  markUnread: async (leadId: string) => {
+    const { data } = await api.post<ApiResponse<void>>(`/conversations/${leadId}/unread`);
+    return data;
+  },
+
   getMessages: async (leadId: string, params?: { page?: number; limit?: number }) => {
     const { data } = await api.get<ApiResponse<ConversationMessages>>(`/conversations/${leadId}/messages`, { params });
     return data;
   },
 
-  sendText: async (leadId: string, text: string) => {
-    const { data } = await api.post<ApiResponse<MessageLogEntry>>(`/conversations/${leadId}/send-text`, { text });
+  sendText: async (leadId: string, text: string, options: SendMessageOptions = {}) => {
+    const { data } = await api.post<ApiResponse<MessageLogEntry>>(`/conversations/${leadId}/send-text`, {
+      text,
+      ...options,
+    });
+    return data;
+  },
+
+  // Send a file from the media library (e.g. a saved reply's attachment)
+  sendLibraryMedia: async (leadId: string, mediaAssetId: string, caption?: string, options: SendMessageOptions = {}) => {
+    const { data } = await api.post<ApiResponse<MessageLogEntry>>(`/conversations/${leadId}/send-media`, {
+      mediaAssetId,
+      caption,
+      ...options,
+    });
     return data;
   },
 
@@ -274,10 +427,11 @@ export const conversationsApi = {
     return data;
   },
 
-  sendMedia: async (leadId: string, file: File, caption?: string) => {
+  sendMedia: async (leadId: string, file: File, caption?: string, options: SendMessageOptions = {}) => {
     const formData = new FormData();
     formData.append('file', file);
     if (caption) formData.append('caption', caption);
+    if (options.fallbackTemplateId) formData.append('fallbackTemplateId', options.fallbackTemplateId);
     const { data } = await api.post<ApiResponse<MessageLogEntry>>(
       `/conversations/${leadId}/send-media`,
       formData,
@@ -309,12 +463,189 @@ export const autoRepliesApi = {
     return data;
   },
 
+  analytics: async (days: number) => {
+    const { data } = await api.get<ApiResponse<{ days: number; rules: AutoReplyStats[] }>>(
+      '/auto-replies/analytics',
+      { params: { days } }
+    );
+    return data;
+  },
+
+  hits: async (id: string, params?: { page?: number; limit?: number; status?: string }) => {
+    const { data } = await api.get<ApiResponse<AutoReplyHit[]>>(`/auto-replies/${id}/hits`, { params });
+    return data;
+  },
+
+  preview: async (replyText: string, leadId: string) => {
+    const { data } = await api.post<ApiResponse<{ text: string; unknownVariables: string[] }>>(
+      '/auto-replies/preview',
+      { replyText, leadId }
+    );
+    return data;
+  },
+
   delete: async (id: string) => {
     const { data } = await api.delete<ApiResponse<void>>(`/auto-replies/${id}`);
     return data;
   },
 };
 
+// Chatbot flows
+export const chatbotFlowsApi = {
+  list: async () => {
+    const { data } = await api.get<ApiResponse<ChatbotFlow[]>>('/chatbot-flows');
+    return data;
+  },
+
+  create: async (flow: Partial<ChatbotFlow>) => {
+    const { data } = await api.post<ApiResponse<ChatbotFlow>>('/chatbot-flows', flow);
+    return data;
+  },
+
+  update: async (id: string, flow: Partial<ChatbotFlow>) => {
+    const { data } = await api.put<ApiResponse<ChatbotFlow>>(`/chatbot-flows/${id}`, flow);
+    return data;
+  },
+
+  delete: async (id: string) => {
+    const { data } = await api.delete<ApiResponse<void>>(`/chatbot-flows/${id}`);
+    return data;
+  },
+
+  simulate: async (params: { steps: ChatbotStep[]; stepId?: string; answer?: { text: string; buttonId?: string } }) => {
+    const { data } = await api.post<ApiResponse<ChatbotTurn>>('/chatbot-flows/simulate', params);
+    return data;
+  },
+};
+
+// Media library (auto-reply attachments)
+export const mediaApi = {
+  list: async () => {
+    const { data } = await api.get<ApiResponse<MediaAsset[]>>('/media');
+    return data;
+  },
+
+  upload: async (file: File, name?: string) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (name) formData.append('name', name);
+    const { data } = await api.post<ApiResponse<MediaAsset>>('/media', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return data;
+  },
+
+  // The file endpoint needs auth, so previews load it as a blob
+  getFile: async (id: string) => {
+    const { data } = await api.get<Blob>(`/media/${id}/file`, { responseType: 'blob' });
+    return data;
+  },
+
+  delete: async (id: string) => {
+    const { data } = await api.delete<ApiResponse<void>>(`/media/${id}`);
+    return data;
+  },
+};
+
+// Opt-out / opt-in keywords
+export const consentKeywordsApi = {
+  list: async () => {
+    const { data } = await api.get<ApiResponse<ConsentKeyword[]>>('/consent-keywords');
+    return data;
+  },
+
+  create: async (keyword: Partial<ConsentKeyword>) => {
+    const { data } = await api.post<ApiResponse<ConsentKeyword>>('/consent-keywords', keyword);
+    return data;
+  },
+
+  update: async (id: string, keyword: Partial<ConsentKeyword>) => {
+    const { data } = await api.put<ApiResponse<ConsentKeyword>>(`/consent-keywords/${id}`, keyword);
+    return data;
+  },
+
+  delete: async (id: string) => {
+    const { data } = await api.delete<ApiResponse<void>>(`/consent-keywords/${id}`);
+    return data;
+  },
+};
+
+// Saved replies
+export const cannedResponsesApi = {
+  list: async (search?: string) => {
+    const { data } = await api.get<ApiResponse<CannedResponse[]>>('/canned-responses', { params: { search } });
+    return data;
+  },
+
+  render: async (id: string, leadId: string) => {
+    const { data } = await api.get<ApiResponse<{ text: string; mediaAsset: CannedResponse['mediaAsset'] }>>(
+      `/canned-responses/${id}/render`,
+      { params: { leadId } }
+    );
+    return data;
+  },
+
+  create: async (response: Partial<CannedResponse>) => {
+    const { data } = await api.post<ApiResponse<CannedResponse>>('/canned-responses', response);
+    return data;
+  },
+
+  update: async (id: string, response: Partial<CannedResponse>) => {
+    const { data } = await api.put<ApiResponse<CannedResponse>>(`/canned-responses/${id}`, response);
+    return data;
+  },
+
+  delete: async (id: string) => {
+    const { data } = await api.delete<ApiResponse<void>>(`/canned-responses/${id}`);
+    return data;
+  },
+};
+
+// Custom lead fields
+export const customFieldsApi = {
+  list: async () => {
+    const { data } = await api.get<ApiResponse<CustomField[]>>('/custom-fields');
+    return data;
+  },
+
+  create: async (field: Partial<CustomField>) => {
+    const { data } = await api.post<ApiResponse<CustomField>>('/custom-fields', field);
+    return data;
+  },
+
+  update: async (id: string, field: Partial<CustomField>) => {
+    const { data } = await api.put<ApiResponse<CustomField>>(`/custom-fields/${id}`, field);
+    return data;
+  },
+
+  delete: async (id: string) => {
+    const { data } = await api.delete<ApiResponse<void>>(`/custom-fields/${id}`);
+    return data;
+  },
+};
+
+// Team
+export const usersApi = {
+  list: async () => {
+    const { data } = await api.get<ApiResponse<TeamMember[]>>('/users');
+    return data;
+  },
+
+  setAutoAssign: async (id: string, acceptsAutoAssign: boolean) => {
+    const { data } = await api.patch<ApiResponse<TeamMember>>(`/users/${id}/auto-assign`, { acceptsAutoAssign });
+    return data;
+  },
+};
+
+// Realtime events
+export const eventsApi = {
+  // Short-lived token for the EventSource URL, so the login token stays out of it
+  getStreamToken: async () => {
+    const { data } = await api.post<ApiResponse<{ token: string }>>('/events/token');
+    return data;
+  },
+};
+
 // Push Notifications
 export const pushApi = {
   getVapidKey: async () => {
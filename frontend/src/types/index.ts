@@ -3,6 +3,15 @@ export interface User {
   email: string;
   name: string;
   role: 'ADMIN' | 'USER';
+  acceptsAutoAssign?: boolean;
+}
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+  role: 'ADMIN' | 'USER';
+  acceptsAutoAssign: boolean;
 }
 
 export interface Lead {
@@ -22,10 +31,125 @@ export interface Lead {
   lastContactedAt?: string;
   notes?: string;
   optedOut: boolean;
+  optedOutAt?: string;
+  phoneType: PhoneType;
+  reachability: Reachability;
+  reachabilityAt?: string;
+  customFields?: Record<string, CustomFieldValue>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PhoneType = 'MOBILE' | 'LANDLINE' | 'UNKNOWN';
+
+// Whether WhatsApp has delivered to the number (VALID) or rejected it (131026)
+export type Reachability = 'UNKNOWN' | 'VALID' | 'NOT_ON_WHATSAPP';
+
+// Admin-defined lead fields; values live on Lead.customFields under the field's key
+export type CustomFieldType = 'TEXT' | 'NUMBER' | 'DATE' | 'SELECT' | 'MULTI_SELECT';
+
+// DATE values are YYYY-MM-DD, MULTI_SELECT values a list of options
+export type CustomFieldValue = string | number | string[];
+
+export interface CustomField {
+  id: string;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  order: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// values: any of these options; contains: text search; min/max: number or date range
+export interface CustomFieldFilter {
+  key: string;
+  values?: string[];
+  contains?: string;
+  min?: number | string;
+  max?: number | string;
+}
+
+// Lead import wizard
+export type ImportJobStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+// What an import does with a row whose phone number is already a lead
+export type ImportDuplicateMode = 'SKIP' | 'UPDATE' | 'MERGE';
+
+// File column header → lead field or "custom.<key>"; columns left out are ignored
+export type ImportMapping = Record<string, string>;
+
+export interface ImportJob {
+  id: string;
+  filename: string;
+  status: ImportJobStatus;
+  columns: string[];
+  totalRows: number;
+  mapping: ImportMapping;
+  duplicateMode: ImportDuplicateMode;
+  processedRows: number;
+  imported: number;
+  updated: number;
+  duplicates: number;
+  failed: number;
+  errorMessage?: string | null;
+  startedAt?: string | null;
+  completedAt?: string | null;
+  createdAt: string;
+  createdBy?: { id: string; name: string } | null;
+}
+
+// An uploaded file, ready to map
+export interface ImportUpload {
+  job: ImportJob;
+  mapping: ImportMapping;
+  fields: { value: string; label: string }[];
+  sample: string[][];
+}
+
+export interface ImportedLead {
+  name?: string;
+  phone?: string;
+  email?: string;
+  businessName?: string;
+  businessType?: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+  address?: string;
+  notes?: string;
+  tags: string[];
+  customFields: Record<string, CustomFieldValue>;
+}
+
+export interface ImportPreview {
+  rows: Array<{ row: number; lead: ImportedLead; errors: string[]; duplicate: boolean }>;
+  invalidRows: number; // in the whole file
+}
+
+// Duplicate finder: a pair of leads that look like the same business
+export type LeadMergeField =
+  | 'name' | 'phone' | 'email' | 'businessName' | 'businessType' | 'source' | 'status'
+  | 'city' | 'state' | 'pincode' | 'address' | 'notes';
+
+export type DuplicateLead = Pick<Lead, LeadMergeField | 'id' | 'tags' | 'optedOut' | 'createdAt'> & {
+  _count: { messages: number; campaignLeads: number };
+};
+
+export interface DuplicateCandidate {
+  score: number;      // 0-100
+  reasons: string[];
+  leads: [DuplicateLead, DuplicateLead];  // older first
+}
+
+export interface LeadMergeRequest {
+  survivorId: string;
+  mergedId: string;
+  fields: Partial<Record<LeadMergeField, 'survivor' | 'merged'>>;
+  tags: string[];
+}
+
 export type LeadSource =
   | 'MANUAL'
   | 'CSV_IMPORT'
@@ -35,7 +159,8 @@ export type LeadSource =
   | 'FACEBOOK'
   | 'INSTAGRAM'
   | 'WEBSITE'
-  | 'REFERRAL';
+  | 'REFERRAL'
+  | 'WHATSAPP_INBOUND';
 
 export type LeadStatus =
   | 'NEW'
@@ -61,6 +186,7 @@ export interface Campaign {
     cities?: string[];
   };
   scheduledAt?: string;
+  recurrence?: CampaignRecurrence | null;
   startedAt?: string;
   completedAt?: string;
   totalLeads: number;
@@ -71,6 +197,28 @@ export interface Campaign {
   createdAt: string;
 }
 
+export interface CampaignRecurrence {
+  frequency: 'DAILY' | 'WEEKLY';
+  daysOfWeek: number[];
+  time: string;
+  timezone: string;
+}
+
+export interface SendWindow {
+  start: string;
+  end: string;
+  timezone: string;
+  excludedDays: number[];
+}
+
+// How each template variable is filled, keyed by variable name ("1", "name", ...)
+export type TemplateVariableMapping = Record<string, {
+  type: 'FIELD' | 'STATIC';
+  field?: string;
+  value?: string;
+  fallback?: string;
+}>;
+
 export type CampaignStatus =
   | 'DRAFT'
   | 'SCHEDULED'
@@ -146,6 +294,139 @@ export interface CampaignAnalytics {
     read: number;
     failed: number;
   }>;
+  sendWindow: (SendWindow & { open: boolean; nextOpenAt: string | null }) | null;
+  variants: CampaignVariantStats[];
+  autoWinner: AutoWinnerConfig | null;
+}
+
+export interface AutoWinnerConfig {
+  sampleSize: number;
+  metric: 'DELIVERED' | 'READ' | 'REPLIED' | 'CONVERTED';
+  waitHours: number;
+}
+
+export interface CampaignVariantStats {
+  id: string;
+  label: string;
+  template: { name: string; language: string; headerType?: string | null };
+  splitPercent: number;
+  isWinner: boolean;
+  assigned: number;
+  sent: number;
+  winnerSent: number;
+  delivered: number;
+  read: number;
+  replied: number;
+  converted: number;
+  deliveryRate: number;
+  readRate: number;
+  replyRate: number;
+  conversionRate: number;
+}
+
+export interface CampaignPreview {
+  leadCount: number;
+  matched: number;
+  excluded: {
+    optedOut: number;
+    doNotContact: number;
+    rejected: number;
+    alreadyReceived: number;
+    invalidPhone: number;
+    notOnWhatsApp: number;
+    landline: number;
+  };
+  missingVariables: number;
+  samples: Array<{
+    leadId: string;
+    name: string;
+    phone: string;
+    templateName: string;
+    variantLabel?: string;
+    message: string;
+    missing: string[];
+  }>;
+  estimate: {
+    perMessageSeconds: number;
+    dailyLimit: number | null;
+    sendingDays: number;
+    requiresDailyResume: boolean;
+    estimatedCompletionAt: string | null;
+  };
+}
+
+// Drip sequences
+export type SequenceStatus = 'DRAFT' | 'ACTIVE' | 'PAUSED';
+export type SequenceStepCondition = 'ALWAYS' | 'DELIVERED' | 'READ' | 'NOT_READ';
+export type EnrollmentStatus = 'ACTIVE' | 'COMPLETED' | 'EXITED';
+
+export interface SequenceStep {
+  id?: string;
+  order?: number;
+  templateId: string;
+  delayHours: number;
+  condition: SequenceStepCondition;
+  headerMediaUrl?: string | null;
+  template?: { name: string; language: string; headerType?: string | null };
+}
+
+export interface Sequence {
+  id: string;
+  name: string;
+  description?: string;
+  status: SequenceStatus;
+  targetFilters?: {
+    leadIds?: string[];
+    status?: string[];
+    cities?: string[];
+  } | null;
+  sendWindow?: SendWindow | null;
+  createdAt: string;
+  createdBy?: { name: string };
+  steps?: SequenceStep[];
+  _count?: { steps: number };
+  enrollments?: Partial<Record<EnrollmentStatus, number>>;
+}
+
+export interface SequenceStepFunnel {
+  stepId: string;
+  order: number;
+  waiting: number;
+  left: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  delivered: number;
+  read: number;
+  replied: number;
+}
+
+export interface SequenceDetail {
+  sequence: Sequence & { steps: SequenceStep[] };
+  funnel: SequenceStepFunnel[];
+  summary: {
+    total: number;
+    active: number;
+    completed: number;
+    exited: number;
+    exitReasons: Record<string, number>;
+  };
+  enrollments: Array<{
+    id: string;
+    status: EnrollmentStatus;
+    currentStep: number;
+    nextRunAt: string | null;
+    exitReason: string | null;
+    enrolledAt: string;
+    lead: {
+      id: string;
+      name: string;
+      phone: string;
+      businessName?: string;
+      city?: string;
+      status: LeadStatus;
+    };
+  }>;
 }
 
 // Conversations / Chat
@@ -166,6 +447,12 @@ export interface Conversation {
     status: MessageStatus;
     createdAt: string;
   } | null;
+  lastMessageAt: string;
+  lastInboundAt?: string | null;
+  windowOpen: boolean;
+  windowExpiresAt: string | null;
+  unreadCount: number;
+  assignedTo: { id: string; name: string } | null;
 }
 
 export interface MessageLogEntry {
@@ -179,10 +466,64 @@ export interface MessageLogEntry {
   failedAt?: string;
   errorMessage?: string;
   createdAt: string;
+  templateId?: string | null;
   template?: { name: string; bodyText: string; headerType?: string | null; headerContent?: string | null; buttons?: Array<{ type: string; text: string; url?: string; phone_number?: string }> | null } | null;
   campaign?: { name: string } | null;
 }
 
+// Pushed by GET /api/events as the webhook, senders and inbox write messages
+export type RealtimeMessage = Pick<MessageLogEntry,
+  'id' | 'direction' | 'content' | 'status' | 'sentAt' | 'deliveredAt' | 'readAt' | 'failedAt' | 'errorMessage' | 'createdAt'
+> & { leadId: string; campaignId?: string | null };
+
+export type RealtimeEvent =
+  | { type: 'message.created'; leadId: string; message: RealtimeMessage }
+  | { type: 'message.status'; leadId: string; message: RealtimeMessage }
+  | { type: 'conversation.assigned'; leadId: string; assignedTo: { id: string; name: string } | null }
+  | { type: 'lead.timeline'; leadId: string }
+  | {
+    type: 'campaign.progress';
+    campaign: Pick<Campaign, 'id' | 'status' | 'totalLeads' | 'sentCount' | 'deliveredCount' | 'readCount' | 'failedCount'>;
+  }
+  | {
+    type: 'import.progress';
+    job: Pick<ImportJob, 'id' | 'status' | 'totalRows' | 'processedRows' | 'imported' | 'updated' | 'duplicates' | 'failed' | 'errorMessage'>;
+  };
+
+// Internal notes and lead events shown between a conversation's messages
+export type TimelineEntryType =
+  | 'NOTE'
+  | 'STATUS_CHANGED'
+  | 'TAGS_CHANGED'
+  | 'ASSIGNED'
+  | 'MERGED'
+  | 'OPTED_OUT'
+  | 'OPTED_IN'
+  | 'CAMPAIGN_ENROLLED'
+  | 'SEQUENCE_ENROLLED';
+
+export interface TimelineEntry {
+  id: string;
+  type: TimelineEntryType;
+  createdAt: string;
+  actor: { id: string; name: string } | null;
+  body?: string;
+  data?: {
+    from?: LeadStatus;
+    to?: LeadStatus | { id: string; name: string } | null;
+    added?: string[];
+    removed?: string[];
+    source?: string;
+    auto?: boolean;
+    keyword?: string | null;
+    campaignId?: string;
+    campaignName?: string;
+    sequenceId?: string;
+    sequenceName?: string;
+    merged?: { id: string; name: string; phone: string };
+  };
+}
+
 export interface ConversationMessages {
   lead: {
     id: string;
@@ -195,20 +536,175 @@ export interface ConversationMessages {
     lastContactedAt?: string;
   };
   messages: MessageLogEntry[];
+  window: ReplyWindow;
+}
+
+// WhatsApp's customer service window: free-form messages only until expiresAt
+export interface ReplyWindow {
+  open: boolean;
+  expiresAt: string | null;  // null if the lead has never messaged us
+}
+
+export interface SendMessageOptions {
+  cannedResponseId?: string;    // saved reply the message started from
+  fallbackTemplateId?: string;  // sent instead if the reply window has closed
+}
+
+// Media library
+export interface MediaAsset {
+  id: string;
+  name: string;
+  filename: string;
+  mimeType: string;
+  mediaType: 'image' | 'video' | 'document';
+  size: number;
+  createdAt: string;
+  uploadedBy?: { id: string; name: string } | null;
+  _count?: { autoReplies: number; cannedResponses: number };
+}
+
+// Saved reply inserted in the inbox composer by typing its /shortcut
+export interface CannedResponse {
+  id: string;
+  shortcut: string;
+  title: string;
+  body: string;
+  mediaAssetId: string | null;
+  mediaAsset?: Pick<MediaAsset, 'id' | 'name' | 'filename' | 'mimeType' | 'mediaType'> | null;
+  usageCount: number;
+  lastUsedAt?: string | null;
+  createdBy?: { id: string; name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AutoReplyTriggerType = 'KEYWORD' | 'EXACT' | 'WHOLE_WORD' | 'REGEX' | 'BUTTON' | 'ANY';
+
+export interface AutoReplySchedule {
+  days: number[];   // 0 = Sunday ... 6 = Saturday
+  start: string;    // HH:mm; an end before start spans midnight
+  end: string;
+  timezone: string;
+}
+
+export interface AutoReplyLeadConditions {
+  statuses?: LeadStatus[];
+  sources?: LeadSource[];
+  tags?: string[];
 }
 
 export interface AutoReply {
   id: string;
   name: string;
-  triggerType: 'KEYWORD' | 'BUTTON' | 'ANY';
+  triggerType: AutoReplyTriggerType;
   triggerKeywords: string[];
   replyText: string;
   isActive: boolean;
   priority: number;
+  mediaAssetId: string | null;
+  mediaAsset?: Pick<MediaAsset, 'id' | 'name' | 'filename' | 'mimeType' | 'mediaType'> | null;
+  replyButtons: string[];
+  schedule: AutoReplySchedule | null;
+  leadConditions: AutoReplyLeadConditions | null;
+  cooldownMinutes: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// Per-rule results over the analytics period; lead counts are unique leads the rule answered
+export interface AutoReplyStats {
+  autoReplyId: string;
+  hits: number;
+  failed: number;
+  leads: number;
+  repliedAgain: number;
+  advanced: number;   // moved forward in the pipeline since the first reply
+  converted: number;
+  lastHitAt: string;
+}
+
+export interface AutoReplyHit {
+  id: string;
+  autoReplyId: string;
+  leadId: string;
+  lead: Pick<Lead, 'id' | 'name' | 'phone' | 'status'>;
+  status: 'SENT' | 'FAILED';
+  errorMessage: string | null;
+  leadStatus: LeadStatus;
+  inboundMessage: { id: string; content: string | null; status: MessageStatus } | null;
+  replyMessage: { id: string; content: string | null; status: MessageStatus } | null;
+  createdAt: string;
+}
+
+// Chatbot flows
+export interface ChatbotMessage {
+  type: 'TEXT' | 'MEDIA' | 'BUTTONS';
+  text: string;
+  mediaUrl?: string;
+  mediaType?: 'image' | 'video' | 'document';
+  buttons?: Array<{ id: string; title: string; next?: string }>;
+}
+
+export interface ChatbotStep {
+  id: string;
+  message: ChatbotMessage;
+  actions?: {
+    setFields?: Record<string, string>;
+    addTags?: string[];
+    setStatus?: LeadStatus;
+  };
+  capture?: string;
+  next?: string;
+  handoff?: boolean;
+}
+
+export interface ChatbotFlow {
+  id: string;
+  name: string;
+  description?: string | null;
+  triggerKeywords: string[];
+  steps: ChatbotStep[];
+  isActive: boolean;
+  priority: number;
+  sessions?: { active: number; completed: number; handedOff: number; expired: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatbotTurn {
+  replies: ChatbotMessage[];
+  leadUpdate: { fields: Record<string, string>; addTags: string[]; status?: LeadStatus };
+  stepId: string | null;
+  outcome: 'WAITING' | 'COMPLETED' | 'HANDED_OFF';
+  invalidAnswer?: boolean;
+}
+
+// Opt-out / opt-in
+export type ConsentAction = 'OPT_OUT' | 'OPT_IN';
+
+export interface ConsentKeyword {
+  id: string;
+  keyword: string;
+  action: ConsentAction;
+  language: string;
+  replyText?: string | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConsentEvent {
+  id: string;
+  leadId: string;
+  action: ConsentAction;
+  source: 'WHATSAPP_KEYWORD' | 'MANUAL';
+  keyword?: string | null;
+  messageText?: string | null;
+  previousStatus?: LeadStatus | null;
+  changedBy?: { name: string; email: string } | null;
+  createdAt: string;
+}
+
 export interface DashboardStats {
   totalLeads: number;
   newLeads: number;